@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ChatWindow from './components/ChatWindow';
 import SourceInfo from './components/SourceInfo';
+import ThreadList from './components/ThreadList';
 import CompressionStats from './components/CompressionStats';
 import ConfirmDialog from './components/ConfirmDialog';
 import { FirestoreCacheManager } from './components/FirestoreCacheManager';
@@ -9,7 +10,9 @@ import { SourceViewer } from './components/SourceViewer';
 import { TooltipProvider } from './components/TooltipContext';
 import { geminiService } from './services/geminiService';
 import { FirestoreService } from './services/firestoreService';
-import { SourceInfo as SourceInfoType } from './types';
+import { conversationService } from './services/conversationService';
+import { answerExportService, ExportFormat } from './services/answerExportService';
+import { SourceInfo as SourceInfoType, ConversationThread, Message as MessageType, FeedbackEvidence, ResponseStreamItem } from './types';
 
 function App() {
   const [sources, setSources] = useState<SourceInfoType[]>([]);
@@ -21,10 +24,22 @@ function App() {
   const [messages, setMessages] = useState<any[]>([]);
   const [chatKey, setChatKey] = useState(0); // ChatWindow 리렌더링을 위한 키
   
+  // ✅ 저장된 대화 스레드 상태 관리
+  const [sidebarTab, setSidebarTab] = useState<'threads' | 'sources'>('threads');
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
+  const [threadQuery, setThreadQuery] = useState('');
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [initialMessages, setInitialMessages] = useState<MessageType[]>();
+  const activeThreadIdRef = useRef<string | null>(null);
+  
   // ✅ SourceViewer 상태 관리
   const [selectedDocumentId, setSelectedDocumentId] = useState<string>();
   const [highlightedChunkId, setHighlightedChunkId] = useState<string>();
+  const [highlightedArticleId, setHighlightedArticleId] = useState<string>(); // ✅ 이동할 법령 조문
   const [questionContent, setQuestionContent] = useState<string>(''); // ✅ 질문 내용 저장
+  const [supportHighlight, setSupportHighlight] = useState<{ chunkId: string; text: string }>(); // ✅ 답변 문장의 근거 원문
+  const pendingSupportHighlightRef = useRef<{ documentId: string; chunkId: string; text: string } | null>(null); // ✅ 아직 열리지 않은 문서의 근거 원문 (문서를 열면 하이라이트)
+  const [evidencePick, setEvidencePick] = useState<{ messageId: string; chunkIds: string[] } | null>(null); // ✅ 답변 피드백 근거 선택 모드
   
   // ✅ PDF 뷰어 상태 관리
   const [pdfViewerMode, setPdfViewerMode] = useState<'text' | 'pdf'>('text');
@@ -206,14 +221,17 @@ function App() {
   useEffect(() => {
     const handleReferenceClick = (event: CustomEvent) => {
       console.log('📥 App.tsx에서 referenceClick 이벤트 수신:', event.detail);
-      const { documentId, chunkId, page, filename, questionContent } = event.detail;
+      const { documentId, chunkId, page, filename, questionContent, articleId, supportText } = event.detail;
       console.log('📝 설정할 값:', { documentId, chunkId, page, filename, questionContent });
       
       // ✅ chatKey 변경 방지 (채팅창 초기화 방지)
       if (documentId && chunkId) {
         setSelectedDocumentId(documentId);
         setHighlightedChunkId(chunkId);
+        setHighlightedArticleId(articleId);
         setQuestionContent(questionContent || ''); // ✅ 질문 내용 설정
+        setSupportHighlight(supportText ? { chunkId, text: supportText } : undefined);
+        pendingSupportHighlightRef.current = null;
         
         // ✅ PDF 페이지 정보가 있으면 PDF 뷰어로 전환 및 페이지 이동
         if (page && page > 0) {
@@ -239,32 +257,136 @@ function App() {
     return () => window.removeEventListener('referenceClick', handleReferenceClick as EventListener);
   }, []);
 
+  // ✅ 답변 문장 hover 시 근거 원문 하이라이트 (다른 문서의 근거는 대기시켰다가 그 문서를 열 때 하이라이트)
+  useEffect(() => {
+    const handleGroundingHover = (event: CustomEvent) => {
+      const detail = event.detail as { documentId: string; chunkId: string; text: string } | null;
+      if (!detail) {
+        setSupportHighlight(undefined);
+      } else if (detail.documentId === selectedDocumentId) {
+        pendingSupportHighlightRef.current = null;
+        setSupportHighlight({ chunkId: detail.chunkId, text: detail.text });
+      } else {
+        pendingSupportHighlightRef.current = detail;
+      }
+    };
+
+    window.addEventListener('groundingHover', handleGroundingHover as EventListener);
+    return () => window.removeEventListener('groundingHover', handleGroundingHover as EventListener);
+  }, [selectedDocumentId]);
+
+  // ✅ 대기 중인 근거 원문의 문서가 열리면 하이라이트 적용
+  useEffect(() => {
+    const pending = pendingSupportHighlightRef.current;
+    if (pending && pending.documentId === selectedDocumentId) {
+      pendingSupportHighlightRef.current = null;
+      setSupportHighlight({ chunkId: pending.chunkId, text: pending.text });
+    }
+  }, [selectedDocumentId]);
+
+  // ✅ 답변 피드백 "올바른 근거" 선택 모드 (답변이 참조한 첫 문서를 텍스트 뷰로 엶)
+  useEffect(() => {
+    const handlePickStart = (event: CustomEvent) => {
+      const { messageId, documentId, chunkId, pickedChunkIds } = event.detail;
+      setEvidencePick({ messageId, chunkIds: pickedChunkIds || [] });
+      setPdfViewerMode('text');
+      if (documentId) {
+        setSelectedDocumentId(documentId);
+        setHighlightedChunkId(chunkId);
+      } else {
+        setSidebarTab('sources');
+      }
+    };
+    const handlePickEnd = () => setEvidencePick(null);
+
+    window.addEventListener('feedbackPickStart', handlePickStart as EventListener);
+    window.addEventListener('feedbackPickEnd', handlePickEnd);
+    return () => {
+      window.removeEventListener('feedbackPickStart', handlePickStart as EventListener);
+      window.removeEventListener('feedbackPickEnd', handlePickEnd);
+    };
+  }, []);
+
+  const handleEvidencePick = useCallback((evidence: FeedbackEvidence) => {
+    if (!evidencePick) return;
+    setEvidencePick({
+      ...evidencePick,
+      chunkIds: evidencePick.chunkIds.includes(evidence.chunkId)
+        ? evidencePick.chunkIds.filter(id => id !== evidence.chunkId)
+        : [...evidencePick.chunkIds, evidence.chunkId]
+    });
+    window.dispatchEvent(new CustomEvent('feedbackEvidencePicked', {
+      detail: { messageId: evidencePick.messageId, evidence }
+    }));
+  }, [evidencePick]);
+
+  const handleEvidencePickEnd = useCallback(() => {
+    if (evidencePick) {
+      window.dispatchEvent(new CustomEvent('feedbackPickEnd', { detail: { messageId: evidencePick.messageId } }));
+    }
+  }, [evidencePick]);
+
   const handleSendMessage = useCallback(async (message: string): Promise<string> => {
     return await geminiService.generateResponse(message);
   }, []);
 
-  const handleStreamingMessage = useCallback(async (message: string): Promise<AsyncGenerator<string, void, unknown>> => {
-    return await geminiService.generateStreamingResponse(message);
+  const handleStreamingMessage = useCallback(async (message: string, signal?: AbortSignal): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> => {
+    return await geminiService.generateStreamingResponse(message, { signal });
+  }, []);
+
+  // ✅ 마지막 답변 다시 생성·이어서 작성 (이미 검색한 컨텍스트 재사용)
+  const handleRegenerateMessage = useCallback(async (signal?: AbortSignal): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> => {
+    return await geminiService.regenerateLastResponse({ signal });
+  }, []);
+
+  const handleContinueMessage = useCallback(async (signal?: AbortSignal): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> => {
+    return await geminiService.continueLastResponse({ signal });
   }, []);
 
   const handleResetMessages = useCallback(() => {
     setMessages([]);
   }, []);
 
+  // ✅ 대화 목록 새로고침 (검색어가 있으면 검색 결과)
+  const refreshThreads = useCallback(async (query: string = threadQuery) => {
+    const list = query.trim()
+      ? await conversationService.searchThreads(query)
+      : await conversationService.listThreads();
+    setThreads(list);
+  }, [threadQuery]);
 
-  const handleResetChat = () => {
-    setShowResetConfirm(true);
+  useEffect(() => {
+    refreshThreads(threadQuery);
+  }, [threadQuery, refreshThreads]);
+
+  const selectThread = (threadId: string | null) => {
+    activeThreadIdRef.current = threadId;
+    setActiveThreadId(threadId);
   };
 
-  const confirmReset = async () => {
+  // ✅ 질문/답변이 끝날 때마다 현재 스레드에 저장 (없으면 새 스레드 생성)
+  const handleConversationUpdate = useCallback(async (chatMessages: MessageType[]) => {
+    if (chatMessages.length === 0) return;
+
+    const threadId = activeThreadIdRef.current;
+    const updated = threadId ? await conversationService.updateMessages(threadId, chatMessages) : null;
+    if (!updated) {
+      const thread = await conversationService.createThread(chatMessages);
+      selectThread(thread.id);
+      console.log('💬 새 대화 저장:', thread.title);
+    }
+    await refreshThreads();
+  }, [refreshThreads]);
+
+  const startNewConversation = async () => {
     try {
-      setShowResetConfirm(false);
-      
-      // 1. 현재 채팅 세션 초기화
+      // 1. 현재 채팅 세션 초기화 (현재 대화는 이미 스레드로 저장됨)
       await geminiService.resetChatSession();
       
       // 2. 메시지 목록 초기화 (ChatWindow에서 관리하는 메시지들)
       setMessages([]);
+      setInitialMessages(undefined);
+      selectThread(null);
       
       // 3. ChatWindow 강제 리렌더링을 위한 키 변경
       setChatKey(prev => prev + 1);
@@ -279,12 +401,68 @@ function App() {
     }
   };
 
+  // ✅ 저장된 대화 이어서 하기 (모델 history 복원 후 메시지 불러오기)
+  const handleSelectThread = async (threadId: string) => {
+    if (threadId === activeThreadIdRef.current) return;
+
+    const thread = await conversationService.getThread(threadId);
+    if (!thread) {
+      console.warn('⚠️ 대화를 찾을 수 없습니다:', threadId);
+      await refreshThreads();
+      return;
+    }
+
+    geminiService.cancelCurrentRequest();
+    geminiService.restoreConversation(thread.messages);
+    selectThread(thread.id);
+    setMessages(thread.messages);
+    setInitialMessages(thread.messages);
+    setChatKey(prev => prev + 1);
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    await conversationService.renameThread(threadId, title);
+    await refreshThreads();
+  };
+
+  const handleTogglePin = async (threadId: string, pinned: boolean) => {
+    await conversationService.setPinned(threadId, pinned);
+    await refreshThreads();
+  };
+
+  // ✅ 대화 전체를 보고서로 내보내기
+  const handleExportThread = async (threadId: string, format: ExportFormat) => {
+    const thread = await conversationService.getThread(threadId);
+    if (!thread) return;
+    await answerExportService.exportReport(answerExportService.createEntries(thread.messages), thread.title, format);
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    await conversationService.deleteThread(threadId);
+    if (threadId === activeThreadIdRef.current) {
+      await startNewConversation();
+    }
+    await refreshThreads();
+  };
+
+  const handleResetChat = () => {
+    setShowResetConfirm(true);
+  };
+
+  const confirmReset = async () => {
+    setShowResetConfirm(false);
+    await startNewConversation();
+  };
+
+
   // ESC 키로 소스 뷰어 닫기
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && selectedDocumentId) {
         setSelectedDocumentId(undefined);
         setHighlightedChunkId(undefined);
+        setHighlightedArticleId(undefined);
         setQuestionContent(''); // ✅ 질문 내용도 초기화
         console.log('ESC 키로 소스 뷰어 닫기');
       }
@@ -313,6 +491,7 @@ function App() {
         // 브라우저 뒤로가기 기본 동작을 막지 않고, 상태만 업데이트
         setSelectedDocumentId(undefined);
         setHighlightedChunkId(undefined);
+        setHighlightedArticleId(undefined);
         setQuestionContent(''); // ✅ 질문 내용도 초기화
         console.log('브라우저 뒤로가기로 소스 뷰어 닫기');
       }
@@ -441,6 +620,7 @@ function App() {
                     onClick={() => {
                       setSelectedDocumentId(undefined);
                       setHighlightedChunkId(undefined);
+                      setHighlightedArticleId(undefined);
                     }}
                     className="p-1 rounded-lg hover:bg-brand-secondary transition-colors"
                     title="돌아가기"
@@ -461,13 +641,25 @@ function App() {
               </div>
             )}
             
-            {/* 자료 출처 모드일 때만 제목 표시 */}
+            {/* 목록 모드일 때 탭 표시 (대화 목록 / 자료 출처) */}
             {!selectedDocumentId && (
               <div className="p-4 pb-2 border-b border-brand-secondary flex-shrink-0">
                 <div className="flex justify-between items-center">
-                  <h2 className="text-lg font-semibold text-brand-text-primary">
-                    자료 출처
-                  </h2>
+                  <div className="flex gap-1">
+                    {([['threads', '대화 목록'], ['sources', '자료 출처']] as const).map(([tab, label]) => (
+                      <button
+                        key={tab}
+                        onClick={() => setSidebarTab(tab)}
+                        className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors ${
+                          sidebarTab === tab
+                            ? 'bg-brand-secondary text-brand-text-primary'
+                            : 'text-brand-text-secondary hover:text-brand-text-primary'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                   <button
                     onClick={() => setIsSidebarOpen(false)}
                     className="md:hidden p-1 rounded-lg hover:bg-brand-secondary"
@@ -486,21 +678,41 @@ function App() {
                 <SourceViewer
                   selectedDocumentId={selectedDocumentId}
                   highlightedChunkId={highlightedChunkId}
+                  highlightedArticleId={highlightedArticleId}
                   questionContent={questionContent}
+                  supportHighlight={supportHighlight}
+                  evidencePickedChunkIds={evidencePick?.chunkIds ?? null}
+                  onEvidencePick={handleEvidencePick}
+                  onEvidencePickEnd={handleEvidencePickEnd}
                   onChunkSelect={(chunkId) => {
                     if (chunkId === '') {
                       setHighlightedChunkId(undefined);
+                      setHighlightedArticleId(undefined);
                       setQuestionContent(''); // ✅ 질문 내용 초기화
                     } else {
                       setHighlightedChunkId(chunkId);
                     }
                   }}
+                  onArticleSelect={(articleId) => setHighlightedArticleId(articleId)}
                   pdfViewerMode={pdfViewerMode}
                   pdfCurrentPage={pdfCurrentPage}
                   pdfFilename={pdfFilename}
                   onPdfPageChange={(page) => setPdfCurrentPage(page)}
                   onViewModeChange={(mode) => setPdfViewerMode(mode)}
                 />
+              ) : sidebarTab === 'threads' ? (
+                <ThreadList
+                  threads={threads}
+                  activeThreadId={activeThreadId}
+                  searchQuery={threadQuery}
+                  onSearchChange={setThreadQuery}
+                  onSelect={handleSelectThread}
+                  onRename={handleRenameThread}
+                  onTogglePin={handleTogglePin}
+                  onDelete={handleDeleteThread}
+                  onExport={handleExportThread}
+                  onNewThread={startNewConversation}
+                />
               ) : (
                 <div className="p-4 space-y-2 h-full overflow-y-auto sidebar-scroll">
                   <h3 className="text-md font-medium text-brand-text-primary">현재 자료</h3>
@@ -529,8 +741,12 @@ function App() {
                 key="chat-window" // ✅ 고정 키 사용 (리사이즈나 SourceViewer 변경 시에도 유지)
                 onSendMessage={handleSendMessage}
                 onStreamingMessage={handleStreamingMessage}
+                onRegenerateMessage={handleRegenerateMessage}
+                onContinueMessage={handleContinueMessage}
                 onResetMessages={handleResetMessages} // ✅ 메모이제이션된 함수 사용
                 resetTrigger={chatKey} // 이 값이 변경될 때만 리셋
+                initialMessages={initialMessages} // ✅ 이어서 할 저장된 대화
+                onConversationUpdate={handleConversationUpdate} // ✅ 답변 완료 시 스레드 저장
                 placeholder="금연사업 관련 문의사항을 입력하세요..."
               />
             </div>
@@ -549,12 +765,11 @@ function App() {
       <ConfirmDialog
         isOpen={showResetConfirm}
         title="새 대화 시작"
-        message="현재 대화 내용이 모두 삭제됩니다. 계속하시겠습니까?"
+        message="현재 대화는 대화 목록에 저장됩니다. 새 대화를 시작하시겠습니까?"
         confirmText="새 대화 시작"
         cancelText="취소"
         onConfirm={confirmReset}
         onCancel={() => setShowResetConfirm(false)}
-        isDestructive={true}
       />
 
       {/* Firestore 캐시 관리자 */}
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { FeedbackEvidence, FeedbackRating, Message as MessageType } from '../types';
+import { feedbackService } from '../services/feedbackService';
+
+interface AnswerFeedbackProps {
+  message: MessageType;
+  question: string;  // 검색에 사용한 질문 (후속 질문은 재작성된 질문)
+}
+
+/**
+ * 답변 평가 (👍/👎, 의견, 원문 뷰어에서 올바른 근거 청크 지정)
+ * 근거 지정은 window 이벤트로 App/SourceViewer와 주고받음
+ *  - feedbackPickStart: 선택 모드 시작 (답변이 참조한 첫 문서를 엶)
+ *  - feedbackEvidencePicked: SourceViewer에서 청크 선택
+ *  - feedbackPickEnd: 선택 모드 종료
+ */
+const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ message, question }) => {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [evidence, setEvidence] = useState<FeedbackEvidence[]>([]);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [isPicking, setIsPicking] = useState(false);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  // 저장된 피드백 복원 (대화 목록에서 다시 연 경우)
+  useEffect(() => {
+    feedbackService.getFeedback(message.id).then(saved => {
+      if (!saved) return;
+      setRating(saved.rating);
+      setComment(saved.comment || '');
+      setEvidence(saved.correctEvidence);
+      setSavedAt(new Date(saved.createdAt));
+    });
+  }, [message.id]);
+
+  // 원문 뷰어에서 선택한 청크 수신
+  useEffect(() => {
+    if (!isPicking) return;
+    const handlePicked = (event: CustomEvent) => {
+      const detail = event.detail as { messageId: string; evidence: FeedbackEvidence };
+      if (detail.messageId !== message.id) return;
+      setEvidence(prev => prev.some(item => item.chunkId === detail.evidence.chunkId)
+        ? prev.filter(item => item.chunkId !== detail.evidence.chunkId)
+        : [...prev, detail.evidence]);
+    };
+    const handlePickEnd = (event: CustomEvent) => {
+      if (event.detail?.messageId === message.id) setIsPicking(false);
+    };
+
+    window.addEventListener('feedbackEvidencePicked', handlePicked as EventListener);
+    window.addEventListener('feedbackPickEnd', handlePickEnd as EventListener);
+    return () => {
+      window.removeEventListener('feedbackEvidencePicked', handlePicked as EventListener);
+      window.removeEventListener('feedbackPickEnd', handlePickEnd as EventListener);
+    };
+  }, [isPicking, message.id]);
+
+  const save = async (nextRating: FeedbackRating) => {
+    const saved = await feedbackService.saveFeedback({
+      id: message.id,
+      question,
+      answer: message.content,
+      rating: nextRating,
+      comment: comment.trim() || undefined,
+      citedChunkIds: (message.chunkReferences || []).map(reference => reference.chunkId),
+      citedDocumentIds: [...new Set((message.chunkReferences || []).map(reference => reference.documentId))],
+      correctEvidence: evidence
+    });
+    setSavedAt(new Date(saved.createdAt));
+  };
+
+  const endPicking = () => {
+    if (isPicking) {
+      window.dispatchEvent(new CustomEvent('feedbackPickEnd', { detail: { messageId: message.id } }));
+    }
+    setIsPicking(false);
+  };
+
+  const handleRate = async (nextRating: FeedbackRating) => {
+    setRating(nextRating);
+    if (nextRating === 'down') {
+      setIsPanelOpen(true);
+    }
+    await save(nextRating);
+  };
+
+  const handleStartPicking = () => {
+    const firstReference = message.chunkReferences?.[0];
+    setIsPicking(true);
+    window.dispatchEvent(new CustomEvent('feedbackPickStart', {
+      detail: {
+        messageId: message.id,
+        documentId: firstReference?.documentId,
+        chunkId: firstReference?.chunkId,
+        pickedChunkIds: evidence.map(item => item.chunkId)
+      }
+    }));
+  };
+
+  const handleSubmit = async () => {
+    endPicking();
+    await save(rating || 'down');
+    setIsPanelOpen(false);
+  };
+
+  const ratingButtonClass = (value: FeedbackRating) =>
+    `px-1.5 py-0.5 rounded transition-colors ${
+      rating === value ? 'bg-brand-primary text-white' : 'hover:bg-brand-secondary'
+    }`;
+
+  return (
+    <span className="inline-flex flex-col align-top">
+      <span className="inline-flex items-center gap-1">
+        <button type="button" onClick={() => handleRate('up')} className={ratingButtonClass('up')} title="도움이 된 답변">
+          👍
+        </button>
+        <button type="button" onClick={() => handleRate('down')} className={ratingButtonClass('down')} title="틀리거나 부족한 답변">
+          👎
+        </button>
+        {rating && !isPanelOpen && (
+          <button
+            type="button"
+            onClick={() => setIsPanelOpen(true)}
+            className="px-1 underline opacity-70 hover:opacity-100"
+          >
+            {evidence.length > 0 ? `올바른 근거 ${evidence.length}개` : '의견·근거 추가'}
+          </button>
+        )}
+        {savedAt && <span className="opacity-60">저장됨</span>}
+      </span>
+
+      {isPanelOpen && (
+        <span className="mt-1 p-2 w-72 flex flex-col gap-2 bg-brand-bg/50 border border-brand-secondary rounded">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="무엇이 틀렸는지 알려주세요 (선택)"
+            rows={2}
+            className="w-full p-1.5 bg-brand-bg border border-brand-secondary rounded text-xs text-brand-text-primary focus:outline-none focus:border-brand-primary"
+          />
+          <span className="flex flex-col gap-1">
+            <span className="opacity-70">올바른 근거</span>
+            {evidence.length === 0 ? (
+              <span className="opacity-60">지정된 청크가 없습니다.</span>
+            ) : (
+              evidence.map(item => (
+                <span key={item.chunkId} className="flex items-start gap-1">
+                  <span className="flex-1 line-clamp-2">
+                    {item.documentTitle}{item.page ? ` p.${item.page}` : ''} — {item.excerpt}
+                  </span>
+                  {!isPicking && (
+                    <button
+                      type="button"
+                      onClick={() => setEvidence(prev => prev.filter(other => other.chunkId !== item.chunkId))}
+                      className="opacity-60 hover:opacity-100"
+                      title="지정 취소"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </span>
+              ))
+            )}
+            <button
+              type="button"
+              onClick={isPicking ? endPicking : handleStartPicking}
+              className="self-start px-2 py-0.5 rounded bg-brand-secondary hover:bg-brand-primary hover:text-white transition-colors"
+            >
+              {isPicking ? '선택 완료' : '원문에서 근거 선택'}
+            </button>
+            {isPicking && (
+              <span className="text-brand-primary">원문 뷰어에서 올바른 근거 청크의 "근거로 지정" 버튼을 누르세요.</span>
+            )}
+          </span>
+          <span className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={() => {
+                endPicking();
+                setIsPanelOpen(false);
+              }}
+              className="px-2 py-0.5 rounded hover:bg-brand-secondary"
+            >
+              닫기
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="px-2 py-0.5 rounded bg-brand-primary text-white hover:bg-blue-600"
+            >
+              제출
+            </button>
+          </span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default AnswerFeedback;
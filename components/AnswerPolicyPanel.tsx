@@ -0,0 +1,175 @@
+/**
+ * 답변 정책 패널 (관리자 페이지 "답변 정책" 탭)
+ * 근거가 부족할 때 답변을 보류하는 기준값을 조정하고, 사용자 답변 피드백을 내보내기
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  abstentionService,
+  AbstentionConfig,
+  DEFAULT_ABSTENTION_CONFIG
+} from '../services/abstentionService';
+import { feedbackService, FeedbackStats } from '../services/feedbackService';
+import ConfirmDialog from './ConfirmDialog';
+
+const THRESHOLD_FIELDS: Array<{ key: 'minRetrievalScore' | 'minContextQuality' | 'minAnswerConfidence'; label: string; description: string }> = [
+  {
+    key: 'minRetrievalScore',
+    label: '검색 점수 기준',
+    description: '질문 핵심어 일치(60%) + 검색기 합의(20%) + 최상위 청크 관련성(20%). 미만이면 답변을 보류합니다.'
+  },
+  {
+    key: 'minContextQuality',
+    label: '근거 품질 기준',
+    description: '상위 5개 청크의 품질 점수(관련성·완전성·정확성·명확성) 평균. 미만이면 답변을 보류합니다.'
+  },
+  {
+    key: 'minAnswerConfidence',
+    label: '답변 신뢰도 기준',
+    description: '생성된 답변의 검증 신뢰도. 미만이면 답변 끝에 주의 문구와 조문 원문 확인 안내를 붙입니다.'
+  }
+];
+
+export const AnswerPolicyPanel: React.FC = () => {
+  const [config, setConfig] = useState<AbstentionConfig>(DEFAULT_ABSTENTION_CONFIG);
+  const [message, setMessage] = useState('');
+  const [feedbackStats, setFeedbackStats] = useState<FeedbackStats | null>(null);
+  const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
+
+  useEffect(() => {
+    abstentionService.getConfig().then(setConfig);
+    feedbackService.getStats().then(setFeedbackStats);
+  }, []);
+
+  const handleExportFeedback = async () => {
+    const count = await feedbackService.exportJsonl();
+    setMessage(`답변 피드백 ${count}건을 JSONL로 내보냈습니다.`);
+  };
+
+  const handleClearFeedback = async () => {
+    setIsClearDialogOpen(false);
+    await feedbackService.clearFeedback();
+    setFeedbackStats(await feedbackService.getStats());
+    setMessage('답변 피드백을 모두 삭제했습니다. 검색 순위 보정도 초기화됩니다.');
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await abstentionService.saveConfig(config);
+      setConfig(saved);
+      setMessage('답변 보류 기준을 저장했습니다. 다음 질문부터 반영됩니다.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-brand-surface rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-brand-text-primary mb-2">답변 보류 (근거 없음) 기준</h2>
+        <p className="text-xs text-brand-text-secondary mb-4">
+          기준에 못 미치면 추측성 답변 대신 가장 가까운 조문과 문의처를 안내합니다.
+          기준값은 0~1 사이이며, 높일수록 더 자주 답변을 보류합니다.
+        </p>
+
+        <label className="flex items-center gap-2 mb-4 text-sm text-brand-text-primary">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => setConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          근거가 부족하면 답변 보류 (끄면 답변은 생성하고 신뢰도 경고만 표시)
+        </label>
+
+        <div className="space-y-4">
+          {THRESHOLD_FIELDS.map(field => (
+            <div key={field.key} className="flex flex-wrap items-center gap-4">
+              <label className="w-36 text-sm font-medium text-brand-text-primary">{field.label}</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={config[field.key]}
+                onChange={(e) => setConfig(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) }))}
+                className="w-48"
+              />
+              <span className="w-12 text-sm text-brand-text-primary">{config[field.key].toFixed(2)}</span>
+              <p className="basis-full text-xs text-brand-text-secondary">{field.description}</p>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="w-36 text-sm font-medium text-brand-text-primary">안내할 조문 수</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={config.nearestArticleCount}
+              onChange={(e) => setConfig(prev => ({ ...prev, nearestArticleCount: parseInt(e.target.value, 10) }))}
+              className="w-24 p-2 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary focus:outline-none focus:border-brand-primary"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={handleSave}
+            className="py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-opacity-80 transition-colors"
+          >
+            설정 저장
+          </button>
+          <button
+            onClick={() => setConfig(DEFAULT_ABSTENTION_CONFIG)}
+            className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 transition-colors"
+          >
+            기본값
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-brand-surface rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-brand-text-primary mb-2">답변 피드백</h2>
+        <p className="text-xs text-brand-text-secondary mb-4">
+          사용자가 남긴 👍/👎와 "올바른 근거" 지정은 비슷한 질문의 검색 순위에 반영됩니다.
+          (올바른 근거는 올리고, 👎 답변이 인용한 청크는 내림)
+        </p>
+        {feedbackStats && (
+          <div className="flex flex-wrap gap-4 mb-4 text-sm text-brand-text-primary">
+            <span>전체 {feedbackStats.total}건</span>
+            <span>👍 {feedbackStats.up}</span>
+            <span>👎 {feedbackStats.down}</span>
+            <span>올바른 근거 지정 {feedbackStats.withEvidence}건</span>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportFeedback}
+            className="py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-opacity-80 transition-colors"
+          >
+            JSONL 내보내기
+          </button>
+          <button
+            onClick={() => setIsClearDialogOpen(true)}
+            disabled={!feedbackStats || feedbackStats.total === 0}
+            className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 disabled:opacity-50 transition-colors"
+          >
+            피드백 초기화
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-brand-text-secondary">{message}</p>}
+
+      <ConfirmDialog
+        isOpen={isClearDialogOpen}
+        title="답변 피드백 초기화"
+        message="저장된 답변 피드백을 모두 삭제합니다. 먼저 JSONL로 내보내 두는 것을 권장합니다."
+        confirmText="삭제"
+        cancelText="취소"
+        onConfirm={handleClearFeedback}
+        onCancel={() => setIsClearDialogOpen(false)}
+        isDestructive={true}
+      />
+    </div>
+  );
+};
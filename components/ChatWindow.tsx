@@ -1,14 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Message as MessageType, Role } from '../types';
+import { Message as MessageType, Role, ResponseStreamItem, ResponseProgressEvent } from '../types';
 import Message from './Message';
 import MessageInput from './MessageInput';
 import { geminiService } from '../services/geminiService';
+import { citationGroundingService } from '../services/citationGroundingService';
+import { isAbortError } from '../services/llmProvider';
+
+type ResponseStream = AsyncGenerator<ResponseStreamItem, void, unknown>;
 
 interface ChatWindowProps {
   onSendMessage: (message: string) => Promise<string>;
-  onStreamingMessage?: (message: string) => Promise<AsyncGenerator<string, void, unknown>>;
+  onStreamingMessage?: (message: string, signal?: AbortSignal) => Promise<ResponseStream>;
+  onRegenerateMessage?: (signal?: AbortSignal) => Promise<ResponseStream>; // 마지막 답변 다시 생성 (검색 결과 재사용)
+  onContinueMessage?: (signal?: AbortSignal) => Promise<ResponseStream>;   // 마지막 답변 이어서 작성
   onResetMessages?: () => void;
   resetTrigger?: number; // 리셋 트리거 (키 값)
+  initialMessages?: MessageType[]; // 리셋 시 불러올 저장된 대화
+  onConversationUpdate?: (messages: MessageType[]) => void; // 질문/답변 완료 시 저장용
   isLoading?: boolean;
   placeholder?: string;
 }
@@ -16,14 +24,22 @@ interface ChatWindowProps {
 const ChatWindow: React.FC<ChatWindowProps> = ({ 
   onSendMessage, 
   onStreamingMessage,
+  onRegenerateMessage,
+  onContinueMessage,
   onResetMessages,
   resetTrigger,
+  initialMessages,
+  onConversationUpdate,
   isLoading = false, 
   placeholder 
 }) => {
   const [messages, setMessages] = useState<MessageType[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const pendingSaveRef = useRef(false);
+  const conversationGenerationRef = useRef(0); // 리셋/대화 전환 시 증가 (이전 대화의 스트림 무시용)
+  const abortControllerRef = useRef<AbortController | null>(null); // 진행 중인 답변 중지용
+  const [reuseState, setReuseState] = useState({ canRegenerate: false, canContinue: false });
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -33,16 +49,178 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     scrollToBottom();
   }, [messages]);
 
-  // resetTrigger가 변경되면 메시지 초기화
+  // resetTrigger가 변경되면 메시지 초기화 (저장된 대화가 있으면 불러옴)
   useEffect(() => {
     if (resetTrigger !== undefined && resetTrigger > 0) {
-      setMessages([]);
+      setMessages(initialMessages ? [...initialMessages] : []);
       setIsProcessing(false);
+      setReuseState({ canRegenerate: false, canContinue: false });
+      pendingSaveRef.current = false;
+      conversationGenerationRef.current++;
+      abortControllerRef.current = null;
     }
   }, [resetTrigger]);
 
+  // ✅ 답변이 완료되면 대화 저장 요청
+  useEffect(() => {
+    if (!isProcessing && pendingSaveRef.current) {
+      pendingSaveRef.current = false;
+      onConversationUpdate?.(messages);
+    }
+  }, [isProcessing, messages, onConversationUpdate]);
+
+  // 마지막 모델 메시지 갱신
+  const updateLastModelMessage = (update: (message: MessageType) => void) => {
+    setMessages(prev => {
+      const newMessages = [...prev];
+      const lastMessage = newMessages[newMessages.length - 1];
+      if (lastMessage?.role === Role.MODEL) {
+        update(lastMessage);
+      }
+      return newMessages;
+    });
+  };
+
+  // 스트림을 마지막 모델 메시지에 반영 (baseContent 뒤에 이어 붙임), 이전 대화가 되면 null 반환
+  const consumeStream = async (stream: ResponseStream, baseContent: string, isStale: () => boolean): Promise<string | null> => {
+    let fullResponse = baseContent;
+    let progressEvents: ResponseProgressEvent[] = [];
+
+    for await (const chunk of stream) {
+      if (isStale()) return null;
+      // ✅ 검색 과정 진행 이벤트는 타임라인에 추가
+      if (typeof chunk !== 'string') {
+        progressEvents = [...progressEvents, chunk];
+        updateLastModelMessage(message => {
+          message.progressEvents = progressEvents;
+        });
+        continue;
+      }
+      fullResponse += chunk;
+      updateLastModelMessage(message => {
+        message.content = fullResponse;
+      });
+    }
+    return isStale() ? null : fullResponse;
+  };
+
+  // 스트리밍 완료 후 출처·신뢰도·근거 정렬 등 답변 부가 정보 추가
+  const attachAnswerMetadata = async (fullResponse: string, isStale: () => boolean) => {
+    // ✅ 청크 참조 정보 추가
+    const chunkReferences = geminiService.getLastChunkReferences();
+    if (chunkReferences && chunkReferences.length > 0) {
+      updateLastModelMessage(message => {
+        message.chunkReferences = chunkReferences;
+      });
+    }
+    
+    // ✅ 근거 신뢰도 판정 추가 (답변 보류·신뢰도 낮음 표시)
+    const confidence = geminiService.getLastAnswerConfidence();
+    if (confidence) {
+      updateLastModelMessage(message => {
+        message.confidence = confidence;
+      });
+    }
+    
+    // ✅ 검수된 FAQ 답변 표시
+    const faqMatch = geminiService.getLastFaqMatch();
+    if (faqMatch) {
+      updateLastModelMessage(message => {
+        message.faqMatch = faqMatch;
+      });
+    }
+    
+    // ✅ 답변 캐시 적중 표시
+    const cachedAnswer = geminiService.getLastCachedAnswer();
+    if (cachedAnswer) {
+      updateLastModelMessage(message => {
+        message.cachedAnswer = cachedAnswer;
+      });
+    }
+    
+    // ✅ 답변 문장별 근거 정렬 (근거 없는 문장 표시용, 거절 안내·검수된 답변은 제외)
+    if (chunkReferences && chunkReferences.length > 0 && fullResponse.trim() && !confidence?.abstained && !faqMatch) {
+      try {
+        const grounding = await citationGroundingService.groundAnswer(fullResponse, chunkReferences);
+        if (isStale()) return;
+        updateLastModelMessage(message => {
+          message.grounding = grounding;
+        });
+      } catch (error) {
+        console.warn('⚠️ 문장 근거 정렬 실패:', error);
+      }
+    }
+    
+    // ✅ 후속 질문 재작성 결과 추가 (디버그 패널 표시용)
+    const queryRewrite = geminiService.getLastQueryRewrite();
+    if (queryRewrite?.isFollowUp) {
+      updateLastModelMessage(message => {
+        message.queryRewrite = queryRewrite;
+      });
+    }
+    
+    // ✅ 조문 상호 참조 체인 추가 (관련 조문 표시용)
+    const referenceChain = geminiService.getLastReferenceChain();
+    if (referenceChain && referenceChain.length > 0) {
+      updateLastModelMessage(message => {
+        message.relatedArticles = referenceChain;
+      });
+    }
+  };
+
+  // 스트리밍 답변 한 번 실행 (새 질문·다시 생성·이어서 작성 공통) - 중지 버튼용 AbortController 연결
+  const runStreamingAnswer = async (
+    startStream: (signal: AbortSignal) => Promise<ResponseStream>,
+    baseContent: string,
+    isStale: () => boolean
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const stream = await startStream(controller.signal);
+      const fullResponse = await consumeStream(stream, baseContent, isStale);
+      if (fullResponse === null) return;
+      await attachAnswerMetadata(fullResponse, isStale);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  // 답변 실패 처리 - 중지하면 그때까지의 답변을 남기고 "중지됨" 표시
+  const handleAnswerError = (error: unknown) => {
+    if (isAbortError(error)) {
+      updateLastModelMessage(message => {
+        message.interrupted = true;
+        if (!message.content.trim()) {
+          message.content = '⏹ 답변 생성을 중지했습니다.';
+        }
+      });
+      return;
+    }
+    const errorMessage: MessageType = {
+      id: (Date.now() + 1).toString(),
+      role: Role.MODEL,
+      content: `오류가 발생했습니다: ${(error as Error).message}`,
+      timestamp: new Date(),
+    };
+
+    setMessages(prev => [...prev, errorMessage]);
+  };
+
+  const finishAnswer = (isStale: () => boolean) => {
+    if (!isStale()) {
+      pendingSaveRef.current = true;
+      setIsProcessing(false);
+      setReuseState(geminiService.getReusableContextState());
+    }
+  };
+
   const handleSendMessage = async (content: string) => {
     if (isProcessing) return;
+    const generation = conversationGenerationRef.current;
+    const isStale = () => generation !== conversationGenerationRef.current;
 
     const userMessage: MessageType = {
       id: Date.now().toString(),
@@ -53,6 +231,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
     setMessages(prev => [...prev, userMessage]);
     setIsProcessing(true);
+    setReuseState({ canRegenerate: false, canContinue: false });
 
     try {
       // 스트리밍 응답이 지원되는 경우 스트리밍 사용
@@ -66,36 +245,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
         setMessages(prev => [...prev, modelMessage]);
 
-        const stream = await onStreamingMessage(content);
-        let fullResponse = '';
-
-        for await (const chunk of stream) {
-          fullResponse += chunk;
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage.role === Role.MODEL) {
-              lastMessage.content = fullResponse;
-            }
-            return newMessages;
-          });
-        }
-        
-        // ✅ 스트리밍 완료 후 청크 참조 정보 추가
-        const chunkReferences = geminiService.getLastChunkReferences();
-        if (chunkReferences && chunkReferences.length > 0) {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage.role === Role.MODEL) {
-              lastMessage.chunkReferences = chunkReferences;
-            }
-            return newMessages;
-          });
-        }
+        await runStreamingAnswer(signal => onStreamingMessage(content, signal), '', isStale);
       } else {
         // 일반 응답
         const response = await onSendMessage(content);
+        if (isStale()) return;
         
         const modelMessage: MessageType = {
           id: (Date.now() + 1).toString(),
@@ -107,19 +261,56 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         setMessages(prev => [...prev, modelMessage]);
       }
     } catch (error) {
-      const errorMessage: MessageType = {
-        id: (Date.now() + 1).toString(),
-        role: Role.MODEL,
-        content: `오류가 발생했습니다: ${(error as Error).message}`,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      if (isStale()) return;
+      handleAnswerError(error);
     } finally {
-      setIsProcessing(false);
+      finishAnswer(isStale);
     }
   };
 
+  /**
+   * 마지막 답변 다시 생성 / 이어서 작성 - 질문 분석·검색 없이 이미 가져온 검색 결과 재사용
+   */
+  const handleReuseContext = async (mode: 'regenerate' | 'continue') => {
+    const startStream = mode === 'regenerate' ? onRegenerateMessage : onContinueMessage;
+    const lastMessage = messages[messages.length - 1];
+    if (isProcessing || !startStream || lastMessage?.role !== Role.MODEL) return;
+    const generation = conversationGenerationRef.current;
+    const isStale = () => generation !== conversationGenerationRef.current;
+    const baseContent = mode === 'continue' ? lastMessage.content : '';
+
+    // ✅ 다시 생성이면 이전 답변과 부가 정보를 비우고, 이어서 작성이면 기존 답변 유지
+    updateLastModelMessage(message => {
+      message.interrupted = false;
+      message.grounding = undefined;
+      message.confidence = undefined;
+      if (mode === 'regenerate') {
+        message.content = '';
+        message.timestamp = new Date();
+      }
+    });
+    setIsProcessing(true);
+    setReuseState({ canRegenerate: false, canContinue: false });
+
+    try {
+      await runStreamingAnswer(startStream, baseContent, isStale);
+    } catch (error) {
+      if (isStale()) return;
+      handleAnswerError(error);
+    } finally {
+      finishAnswer(isStale);
+    }
+  };
+
+  // ✅ 진행 중인 답변 중지 (분석·검색·LLM 호출 모두 취소)
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const showReuseActions = !isProcessing && lastMessage?.role === Role.MODEL &&
+    ((reuseState.canRegenerate && !!onRegenerateMessage) || (reuseState.canContinue && !!onContinueMessage));
+
   return (
     <div className="flex flex-col h-full bg-brand-bg">
       <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-3 md:space-y-4">
@@ -134,14 +325,52 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           <Message key={message.id} message={message} allMessages={messages} messageIndex={index} />
         ))}
         
+        {/* ✅ 마지막 답변 다시 생성 / 이어서 작성 */}
+        {showReuseActions && (
+          <div className="flex gap-2 -mt-2 mb-2 ml-8 md:ml-11 text-xs">
+            {reuseState.canRegenerate && onRegenerateMessage && (
+              <button
+                type="button"
+                onClick={() => handleReuseContext('regenerate')}
+                disabled={isLoading}
+                className="px-2 py-1 rounded border border-brand-secondary text-brand-text-secondary hover:text-brand-text-primary hover:border-brand-primary transition-colors disabled:opacity-50"
+                title="같은 검색 결과로 답변을 다시 생성합니다"
+              >
+                🔄 다시 생성
+              </button>
+            )}
+            {reuseState.canContinue && onContinueMessage && (
+              <button
+                type="button"
+                onClick={() => handleReuseContext('continue')}
+                disabled={isLoading}
+                className="px-2 py-1 rounded border border-brand-secondary text-brand-text-secondary hover:text-brand-text-primary hover:border-brand-primary transition-colors disabled:opacity-50"
+                title="끊긴 답변을 같은 검색 결과로 이어서 작성합니다"
+              >
+                ➡️ 이어서 작성
+              </button>
+            )}
+          </div>
+        )}
+        
         {isProcessing && (
           <div className="flex gap-2 md:gap-3 mb-4">
             <div className="flex-shrink-0 w-6 h-6 md:w-8 md:h-8 rounded-full bg-brand-secondary flex items-center justify-center">
               <div className="w-3 h-3 md:w-5 md:h-5 border-2 border-brand-text-secondary border-t-transparent rounded-full animate-spin"></div>
             </div>
             <div className="flex-1">
-              <div className="bg-brand-surface border border-brand-secondary rounded-lg p-2 md:p-3">
+              <div className="bg-brand-surface border border-brand-secondary rounded-lg p-2 md:p-3 flex items-center justify-between gap-2">
                 <p className="text-brand-text-secondary text-sm md:text-base">답변을 생성하고 있습니다...</p>
+                {onStreamingMessage && (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="flex-shrink-0 px-2 py-1 text-xs rounded border border-brand-secondary text-brand-text-secondary hover:text-white hover:bg-red-600 hover:border-red-600 transition-colors"
+                    title="답변 생성 중지"
+                  >
+                    ⏹ 중지
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -161,13 +390,17 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
 // React.memo로 ChatWindow 최적화 - 불필요한 리렌더링 방지
 export default React.memo(ChatWindow, (prevProps, nextProps) => {
-  // resetTrigger, isLoading, placeholder 변경 시에만 리렌더링
+  // resetTrigger, isLoading, placeholder, 저장 대화 관련 props 변경 시에만 리렌더링
   return (
     prevProps.resetTrigger === nextProps.resetTrigger &&
     prevProps.isLoading === nextProps.isLoading &&
     prevProps.placeholder === nextProps.placeholder &&
     prevProps.onSendMessage === nextProps.onSendMessage &&
     prevProps.onStreamingMessage === nextProps.onStreamingMessage &&
-    prevProps.onResetMessages === nextProps.onResetMessages
+    prevProps.onRegenerateMessage === nextProps.onRegenerateMessage &&
+    prevProps.onContinueMessage === nextProps.onContinueMessage &&
+    prevProps.onResetMessages === nextProps.onResetMessages &&
+    prevProps.initialMessages === nextProps.initialMessages &&
+    prevProps.onConversationUpdate === nextProps.onConversationUpdate
   );
 });
\ No newline at end of file
@@ -18,7 +18,7 @@ const CompressionStats: React.FC<CompressionStatsProps> = ({
 
   useEffect(() => {
     if (isVisible) {
-      setRpdStats(rpdService.getRpdStats());
+      rpdService.getRpdStats().then(setRpdStats);
     }
   }, [isVisible]);
 
@@ -27,9 +27,9 @@ const CompressionStats: React.FC<CompressionStatsProps> = ({
   const formatNumber = (num: number) => num.toLocaleString();
   const formatPercentage = (num: number) => `${(num * 100).toFixed(1)}%`;
 
-  const handleToggleKey = (keyId: string) => {
-    rpdService.toggleKeyStatus(keyId);
-    setRpdStats(rpdService.getRpdStats());
+  const handleToggleKey = async (keyId: string) => {
+    await rpdService.toggleKeyStatus(keyId);
+    setRpdStats(await rpdService.getRpdStats());
   };
 
   return (
@@ -160,7 +160,9 @@ const CompressionStats: React.FC<CompressionStatsProps> = ({
           <div className="space-y-4">
             {/* 전체 사용량 요약 */}
             <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-4">
-              <div className="text-sm text-blue-700 mb-2">전체 API 사용량</div>
+              <div className="text-sm text-blue-700 mb-2">
+                전체 API 사용량{rpdStats.model ? ` (${rpdStats.model})` : ''}
+              </div>
               <div className="flex items-center justify-between">
                 <div className="text-2xl font-bold text-blue-800">
                   {rpdStats.totalUsed} / {rpdStats.totalMax}
@@ -242,6 +244,17 @@ const CompressionStats: React.FC<CompressionStatsProps> = ({
                         style={{ width: `${usagePercentage}%` }}
                       />
                     </div>
+
+                    {keyInfo.maxPerMinute !== undefined && (
+                      <div className="flex items-center justify-between mt-2 text-xs text-brand-text-secondary">
+                        <span>
+                          분당 요청 {keyInfo.requestsLastMinute ?? 0} / {keyInfo.maxPerMinute}회 · 분당 토큰 {formatNumber(keyInfo.tokensLastMinute ?? 0)} / {formatNumber(keyInfo.maxTokensPerMinute ?? 0)}
+                        </span>
+                        {!!keyInfo.cooldownSeconds && (
+                          <span className="text-yellow-700">429 대기 중: {keyInfo.cooldownSeconds}초</span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -251,9 +264,10 @@ const CompressionStats: React.FC<CompressionStatsProps> = ({
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <div className="text-sm text-yellow-800 mb-2">💡 사용 가이드</div>
               <ul className="text-xs text-yellow-700 space-y-1">
-                <li>• 각 API 키당 최대 250회/일 사용 가능</li>
-                <li>• 총 750회/일 제한 (3개 키 합계)</li>
-                <li>• 매일 자정에 사용량이 자동 리셋됩니다</li>
+                <li>• 키당 한도(분당 요청·분당 토큰·일일 요청)는 모델별로 프록시 서버에서 설정합니다 (PROXY_MODEL_LIMITS)</li>
+                <li>• 총 {rpdStats.totalMax}회/일 제한 ({rpdStats.apiKeys.length}개 키 합계)</li>
+                <li>• 분당 한도에 걸리면 프록시가 잠시 기다렸다가 다른 키나 같은 키로 다시 요청합니다</li>
+                <li>• 매일 자정(UTC)에 일일 사용량이 자동 리셋됩니다</li>
                 <li>• 키를 비활성화하면 해당 키는 사용되지 않습니다</li>
                 <li>• API 키는 보안을 위해 마스킹되어 표시됩니다</li>
               </ul>
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ExportFormat, EXPORT_FORMAT_LABELS } from '../services/answerExportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  label?: string;
+  title?: string;
+  buttonClassName?: string;
+  align?: 'left' | 'right';  // 메뉴 펼침 방향
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, label = '내보내기', title, buttonClassName, align = 'right' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('❌ 내보내기 실패:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className={buttonClassName || 'px-2 py-1 rounded-md bg-brand-secondary text-brand-text-secondary hover:bg-brand-primary hover:text-white transition-colors text-xs'}
+        title={title || '문서로 내보내기'}
+      >
+        {isExporting ? '내보내는 중...' : label}
+      </button>
+      {isOpen && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} z-20 mt-1 w-36 bg-brand-surface border border-brand-secondary rounded-lg shadow-lg py-1`}>
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-3 py-1.5 text-xs text-brand-text-primary hover:bg-brand-secondary"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
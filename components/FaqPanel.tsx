@@ -0,0 +1,393 @@
+/**
+ * 검수된 FAQ 패널 (관리자 페이지 "FAQ 관리" 탭)
+ * 질문 변형·승인 답변·고정 근거를 등록하고, 일치 기준을 조정한 뒤 질문으로 바로 시험
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ChunkReference, FaqEntry } from '../types';
+import { faqService, FaqConfig, FaqMatchResult, DEFAULT_FAQ_CONFIG } from '../services/faqService';
+import { FirestoreService, PDFChunk } from '../services/firestoreService';
+import ConfirmDialog from './ConfirmDialog';
+import { formatPageLabel } from '../services/pdfPageMap.js';
+
+interface FaqDraft {
+  id?: string;
+  questionsText: string;  // 한 줄에 질문 변형 하나
+  answer: string;
+  references: ChunkReference[];
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: FaqDraft = { questionsText: '', answer: '', references: [], enabled: true };
+
+const inputClassName = 'w-full p-2 bg-brand-bg border border-brand-secondary rounded-lg text-sm text-brand-text-primary focus:outline-none focus:border-brand-primary';
+
+export const FaqPanel: React.FC = () => {
+  const [faqs, setFaqs] = useState<FaqEntry[]>([]);
+  const [config, setConfig] = useState<FaqConfig>(DEFAULT_FAQ_CONFIG);
+  const [draft, setDraft] = useState<FaqDraft | null>(null);
+  const [chunkQuery, setChunkQuery] = useState('');
+  const [chunkResults, setChunkResults] = useState<PDFChunk[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [testQuestion, setTestQuestion] = useState('');
+  const [testResults, setTestResults] = useState<FaqMatchResult[] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<FaqEntry | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    faqService.listFaqs().then(setFaqs);
+    faqService.getConfig().then(setConfig);
+  }, []);
+
+  const refreshFaqs = async () => setFaqs([...(await faqService.listFaqs())]);
+
+  const handleSaveConfig = async () => {
+    try {
+      const saved = await faqService.saveConfig(config);
+      setConfig(saved);
+      setMessage('FAQ 일치 기준을 저장했습니다. 다음 질문부터 반영됩니다.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleEdit = (faq: FaqEntry) => {
+    setDraft({
+      id: faq.id,
+      questionsText: faq.questions.join('\n'),
+      answer: faq.answer,
+      references: faq.references,
+      enabled: faq.enabled
+    });
+    setChunkResults([]);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const questions = draft.questionsText.split('\n').map(question => question.trim()).filter(Boolean);
+    if (questions.length === 0 || !draft.answer.trim()) {
+      setMessage('질문 변형과 답변을 모두 입력하세요.');
+      return;
+    }
+
+    try {
+      await faqService.saveFaq({
+        id: draft.id,
+        questions,
+        answer: draft.answer,
+        references: draft.references,
+        enabled: draft.enabled
+      });
+      await refreshFaqs();
+      setDraft(null);
+      setMessage(`FAQ "${questions[0]}"을(를) 저장했습니다.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleToggleEnabled = async (faq: FaqEntry) => {
+    try {
+      await faqService.saveFaq({ ...faq, enabled: !faq.enabled });
+      await refreshFaqs();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await faqService.deleteFaq(deleteTarget.id);
+      setMessage('FAQ를 삭제했습니다.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+    setDeleteTarget(null);
+    await refreshFaqs();
+  };
+
+  const handleSearchChunks = async () => {
+    const keywords = chunkQuery.split(/\s+/).filter(Boolean);
+    if (keywords.length === 0) return;
+
+    setIsSearching(true);
+    try {
+      setChunkResults(await FirestoreService.getInstance().searchChunksByKeywords(keywords, undefined, 10));
+    } catch (error) {
+      console.error('근거 청크 검색 실패:', error);
+      setMessage('근거 청크를 검색하지 못했습니다.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleAddReference = async (chunk: PDFChunk) => {
+    const reference = await faqService.createReference(chunk);
+    setDraft(prev => prev && !prev.references.some(item => item.chunkId === reference.chunkId)
+      ? { ...prev, references: [...prev.references, reference] }
+      : prev);
+  };
+
+  const handleTest = async () => {
+    if (!testQuestion.trim()) return;
+    setIsTesting(true);
+    try {
+      setTestResults(await faqService.rankMatches(testQuestion, 3));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-brand-surface rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-brand-text-primary mb-2">검수된 FAQ 일치 기준</h2>
+        <p className="text-xs text-brand-text-secondary mb-4">
+          질문이 FAQ의 질문 변형과 충분히 비슷하면(로컬 임베딩 코사인 유사도) 검색과 Gemini 호출 없이 검수된 답변을 바로 보여줍니다.
+          기준을 낮추면 더 자주 사용되지만 다른 질문에 잘못 답할 수 있습니다.
+        </p>
+        <label className="flex items-center gap-2 mb-4 text-sm text-brand-text-primary">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => setConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          검수된 FAQ 답변 사용
+        </label>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="w-36 text-sm font-medium text-brand-text-primary">유사도 기준</label>
+          <input
+            type="range"
+            min={0.7}
+            max={1}
+            step={0.01}
+            value={config.matchThreshold}
+            onChange={(e) => setConfig(prev => ({ ...prev, matchThreshold: parseFloat(e.target.value) }))}
+            className="w-48"
+          />
+          <span className="w-12 text-sm text-brand-text-primary">{config.matchThreshold.toFixed(2)}</span>
+        </div>
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={handleSaveConfig}
+            className="py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-opacity-80 transition-colors"
+          >
+            설정 저장
+          </button>
+          <button
+            onClick={() => setConfig(DEFAULT_FAQ_CONFIG)}
+            className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 transition-colors"
+          >
+            기본값
+          </button>
+        </div>
+
+        <div className="mt-6">
+          <label className="block text-sm font-medium text-brand-text-primary mb-2">일치 시험</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={testQuestion}
+              onChange={(e) => setTestQuestion(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+              placeholder="사용자 질문을 입력해 가장 가까운 FAQ를 확인"
+              className={inputClassName}
+            />
+            <button
+              onClick={handleTest}
+              disabled={isTesting || !testQuestion.trim()}
+              className="py-2 px-4 bg-brand-primary text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors whitespace-nowrap"
+            >
+              {isTesting ? '확인 중...' : '시험'}
+            </button>
+          </div>
+          {testResults && (
+            <div className="mt-2 space-y-1 text-sm text-brand-text-primary">
+              {testResults.length === 0 ? (
+                <p className="text-brand-text-secondary">활성화된 FAQ가 없습니다.</p>
+              ) : (
+                testResults.map(result => (
+                  <div key={result.faqId} className="flex gap-2">
+                    <span className={result.similarity >= config.matchThreshold ? 'text-green-500 font-semibold' : 'text-brand-text-secondary'}>
+                      {result.similarity.toFixed(3)}
+                    </span>
+                    <span>{result.matchedQuestion}</span>
+                    {result.similarity >= config.matchThreshold && <span className="text-green-500">→ 검수된 답변 사용</span>}
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-brand-surface rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-brand-text-primary">검수된 FAQ ({faqs.length})</h2>
+          {!draft && (
+            <button
+              onClick={() => setDraft({ ...EMPTY_DRAFT })}
+              className="py-2 px-4 bg-brand-primary text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              새 FAQ
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="mb-6 p-4 border border-brand-secondary rounded-lg space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-brand-text-primary mb-1">질문 변형 (한 줄에 하나, 첫 줄이 대표 질문)</label>
+              <textarea
+                value={draft.questionsText}
+                onChange={(e) => setDraft({ ...draft, questionsText: e.target.value })}
+                rows={4}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-brand-text-primary mb-1">
+                검수된 답변 (마크다운, 근거는 **1**, **2**처럼 아래 근거 번호로 인용)
+              </label>
+              <textarea
+                value={draft.answer}
+                onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+                rows={8}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-brand-text-primary mb-1">고정 근거 ({draft.references.length})</label>
+              {draft.references.length === 0 ? (
+                <p className="text-xs text-brand-text-secondary">아래에서 청크를 검색해 근거로 추가하세요.</p>
+              ) : (
+                <ol className="space-y-1 text-xs text-brand-text-primary">
+                  {draft.references.map((reference, index) => (
+                    <li key={reference.chunkId} className="flex items-start gap-2">
+                      <span className="font-semibold">{index + 1}.</span>
+                      <span className="flex-1 line-clamp-2">
+                        {reference.documentTitle}{reference.page ? ` ${formatPageLabel(reference)}` : ''}
+                        {reference.articles?.[0] ? ` · ${reference.articles[0].citation}` : ''} — {reference.content.substring(0, 120)}
+                      </span>
+                      <button
+                        onClick={() => setDraft({ ...draft, references: draft.references.filter(item => item.chunkId !== reference.chunkId) })}
+                        className="opacity-60 hover:opacity-100"
+                        title="근거 제거"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  value={chunkQuery}
+                  onChange={(e) => setChunkQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSearchChunks()}
+                  placeholder="근거 청크 키워드 검색 (예: 금연구역 과태료)"
+                  className={inputClassName}
+                />
+                <button
+                  onClick={handleSearchChunks}
+                  disabled={isSearching || !chunkQuery.trim()}
+                  className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 disabled:opacity-50 transition-colors whitespace-nowrap"
+                >
+                  {isSearching ? '검색 중...' : '검색'}
+                </button>
+              </div>
+              {chunkResults.length > 0 && (
+                <ul className="mt-2 max-h-64 overflow-y-auto space-y-1 text-xs text-brand-text-primary">
+                  {chunkResults.map(chunk => (
+                    <li key={chunk.id} className="flex items-start gap-2 p-2 bg-brand-bg/50 rounded">
+                      <span className="flex-1 line-clamp-3">
+                        {chunk.metadata.title}{chunk.metadata.page ? ` ${formatPageLabel(chunk.metadata)}` : ''} — {chunk.content.substring(0, 200)}
+                      </span>
+                      <button
+                        onClick={() => handleAddReference(chunk)}
+                        disabled={draft.references.some(reference => reference.chunkId === chunk.id)}
+                        className="px-2 py-0.5 rounded bg-brand-secondary hover:bg-brand-primary hover:text-white disabled:opacity-50 transition-colors whitespace-nowrap"
+                      >
+                        근거 추가
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-brand-text-primary">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              />
+              사용
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveDraft}
+                className="py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-opacity-80 transition-colors"
+              >
+                FAQ 저장
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 transition-colors"
+              >
+                취소
+              </button>
+            </div>
+          </div>
+        )}
+
+        {faqs.length === 0 ? (
+          <p className="text-sm text-brand-text-secondary">등록된 FAQ가 없습니다.</p>
+        ) : (
+          <ul className="space-y-2">
+            {faqs.map(faq => (
+              <li key={faq.id} className="p-3 bg-brand-bg/50 border border-brand-secondary rounded-lg">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className={`text-sm font-medium ${faq.enabled ? 'text-brand-text-primary' : 'text-brand-text-secondary line-through'}`}>
+                      {faq.questions[0]}
+                    </div>
+                    <div className="text-xs text-brand-text-secondary mt-1">
+                      질문 변형 {faq.questions.length}개 · 근거 {faq.references.length}개 · 사용 {faq.hitCount}회 · 수정 {new Date(faq.updatedAt).toLocaleDateString('ko-KR')}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 text-xs">
+                    <button onClick={() => handleToggleEnabled(faq)} className="px-2 py-1 rounded bg-brand-secondary hover:bg-opacity-80">
+                      {faq.enabled ? '사용 중지' : '사용'}
+                    </button>
+                    <button onClick={() => handleEdit(faq)} className="px-2 py-1 rounded bg-brand-secondary hover:bg-opacity-80">
+                      편집
+                    </button>
+                    <button onClick={() => setDeleteTarget(faq)} className="px-2 py-1 rounded bg-red-600 text-white hover:bg-opacity-80">
+                      삭제
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-brand-text-secondary">{message}</p>}
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        title="FAQ 삭제"
+        message={`"${deleteTarget?.questions[0] || ''}" FAQ를 삭제합니다.`}
+        confirmText="삭제"
+        cancelText="취소"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+        isDestructive={true}
+      />
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { FirestoreCacheService } from '../services/firestoreCacheService';
+import { answerCacheService, AnswerCacheStats } from '../services/answerCacheService';
 
 interface CacheStatus {
   totalCaches: number;
@@ -14,6 +15,7 @@ interface CacheStatus {
 
 export const FirestoreCacheManager: React.FC = () => {
   const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null);
+  const [answerCacheStats, setAnswerCacheStats] = useState<AnswerCacheStats | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -23,15 +25,28 @@ export const FirestoreCacheManager: React.FC = () => {
     }
   }, [isVisible]);
 
-  const updateCacheStatus = () => {
+  const updateCacheStatus = async () => {
     try {
-      const status = FirestoreCacheService.getCacheStatus();
+      const status = await FirestoreCacheService.getCacheStatus();
       setCacheStatus(status);
+      setAnswerCacheStats(await answerCacheService.getStats());
     } catch (error) {
       console.error('캐시 상태 조회 실패:', error);
     }
   };
 
+  const clearAnswerCache = async () => {
+    if (confirm('저장된 답변과 적중률 통계를 모두 삭제하시겠습니까?')) {
+      setIsLoading(true);
+      try {
+        await answerCacheService.clearCache();
+        await updateCacheStatus();
+      } finally {
+        setIsLoading(false);
+      }
+    }
+  };
+
   const clearAllCache = () => {
     if (confirm('모든 Firestore 캐시를 삭제하시겠습니까?\n\n이 작업은 되돌릴 수 없습니다.')) {
       setIsLoading(true);
@@ -182,6 +197,30 @@ export const FirestoreCacheManager: React.FC = () => {
         )}
       </div>
       
+      <div 
+        className="answer-cache-status"
+        style={{
+          padding: '15px',
+          borderBottom: '1px solid #eee'
+        }}
+      >
+        <div style={{ marginBottom: '8px', fontWeight: 'bold', color: '#333' }}>
+          답변 캐시 (비슷한 질문 재사용)
+        </div>
+        {answerCacheStats ? (
+          <div>
+            <div style={{ marginBottom: '8px' }}>
+              <strong>저장된 답변:</strong> {answerCacheStats.entries}개
+            </div>
+            <div style={{ marginBottom: '8px' }}>
+              <strong>적중률:</strong> {answerCacheStats.hitRate} ({answerCacheStats.hits} / {answerCacheStats.hits + answerCacheStats.misses})
+            </div>
+          </div>
+        ) : (
+          <div>답변 캐시 통계를 불러오는 중...</div>
+        )}
+      </div>
+      
       <div 
         className="cache-actions"
         style={{
@@ -238,6 +277,22 @@ export const FirestoreCacheManager: React.FC = () => {
         >
           전체 캐시 삭제
         </button>
+        
+        <button 
+          onClick={clearAnswerCache}
+          disabled={isLoading}
+          style={{
+            padding: '8px 16px',
+            backgroundColor: '#6c757d',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
+            opacity: isLoading ? 0.6 : 1
+          }}
+        >
+          답변 캐시 삭제
+        </button>
       </div>
       
       <div 
@@ -1,11 +1,142 @@
-import React, { useState, useCallback, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Message as MessageType } from '../types';
+import type { Nodes, Paragraph, Parent, PhrasingContent, Root, Text } from 'mdast';
+import { Message as MessageType, LegalReferenceHop, SentenceGrounding, TableReference } from '../types';
 import { useTooltip } from './TooltipContext';
 import UserIcon from './icons/UserIcon';
 import BotIcon from './icons/BotIcon';
 import CopyIcon from './icons/CopyIcon';
+import ExportMenu from './ExportMenu';
+import AnswerFeedback from './AnswerFeedback';
+import RetrievalTimeline from './RetrievalTimeline';
+import { answerExportService, ExportFormat } from '../services/answerExportService';
+import { formatTableMarkdown } from '../services/pdfTableExtractor.js';
+import { formatPageLabel } from '../services/pdfPageMap.js';
+
+/**
+ * 마크다운 표 렌더링 (답변 본문과 원문 표에 공통 사용)
+ */
+const markdownTableComponents: Components = {
+  table: ({ children, node, ...props }) => (
+    <div className="overflow-x-auto my-4">
+      <table className="min-w-full border-collapse border border-brand-secondary" {...props}>
+        {children}
+      </table>
+    </div>
+  ),
+  thead: ({ children, node, ...props }) => (
+    <thead className="bg-brand-secondary" {...props}>
+      {children}
+    </thead>
+  ),
+  tbody: ({ children, node, ...props }) => (
+    <tbody className="bg-brand-surface" {...props}>
+      {children}
+    </tbody>
+  ),
+  tr: ({ children, node, ...props }) => (
+    <tr className="border-b border-brand-secondary" {...props}>
+      {children}
+    </tr>
+  ),
+  th: ({ children, node, ...props }) => (
+    <th className="px-4 py-2 text-left text-brand-text-primary font-semibold border-r border-brand-secondary" {...props}>
+      {children}
+    </th>
+  ),
+  td: ({ children, node, ...props }) => (
+    <td className="px-4 py-2 text-brand-text-primary border-r border-brand-secondary" {...props}>
+      {children}
+    </td>
+  ),
+};
+
+/**
+ * 근거 정렬된 문장을 감싸는 mdast 노드 (hast 변환 시 span[data-sentence])
+ */
+interface GroundedSentence extends Parent {
+  type: 'groundedSentence';
+  data: { hName: 'span'; hProperties: { 'data-sentence': number } };
+  children: PhrasingContent[];
+}
+
+declare module 'mdast' {
+  interface PhrasingContentMap {
+    groundedSentence: GroundedSentence;
+  }
+  interface RootContentMap {
+    groundedSentence: GroundedSentence;
+  }
+}
+
+/**
+ * 근거 정렬된 문장을 span(data-sentence)으로 감싸는 remark 플러그인
+ * mdast 노드의 원문 위치(offset)로 문장 범위를 찾아 문단 안의 노드를 묶음
+ */
+const remarkSentenceGrounding = (grounding: SentenceGrounding[]) => () => (tree: Root) => {
+  const findSentence = (offset: number) =>
+    grounding.findIndex(sentence => offset >= sentence.start && offset < sentence.end);
+
+  // 텍스트 노드는 문장 경계에서 분할
+  const splitText = (node: Text): Text[] => {
+    const start = node.position?.start?.offset;
+    const end = node.position?.end?.offset;
+    if (start === undefined || end === undefined || node.value.length !== end - start) return [node];
+
+    const cuts = grounding
+      .flatMap(sentence => [sentence.start, sentence.end])
+      .filter(offset => offset > start && offset < end)
+      .sort((a, b) => a - b);
+    if (cuts.length === 0) return [node];
+
+    const pieces: Text[] = [];
+    let previous = start;
+    [...new Set(cuts), end].forEach(cut => {
+      pieces.push({
+        type: 'text',
+        value: node.value.slice(previous - start, cut - start),
+        position: { start: { ...node.position!.start, offset: previous }, end: { ...node.position!.end, offset: cut } }   // 문장 매칭은 offset만 사용
+      });
+      previous = cut;
+    });
+    return pieces;
+  };
+
+  const wrapParagraph = (paragraph: Paragraph) => {
+    const pieces = paragraph.children.flatMap((child): PhrasingContent[] => child.type === 'text' ? splitText(child) : [child]);
+    const children: PhrasingContent[] = [];
+    pieces.forEach(piece => {
+      const offset = piece.position?.start?.offset;
+      const index = offset === undefined ? -1 : findSentence(offset);
+      const last = children[children.length - 1];
+      if (index < 0) {
+        children.push(piece);
+      } else if (last?.type === 'groundedSentence' && last.data.hProperties['data-sentence'] === index) {
+        last.children.push(piece);
+      } else {
+        children.push({
+          type: 'groundedSentence',
+          data: { hName: 'span', hProperties: { 'data-sentence': index } },
+          children: [piece]
+        });
+      }
+    });
+    paragraph.children = children;
+  };
+
+  const walk = (node: Nodes) => {
+    if (node.type === 'paragraph') {
+      wrapParagraph(node);
+      return;
+    }
+    if (node.type === 'table' || node.type === 'heading' || node.type === 'code') return;
+    if ('children' in node) {
+      for (const child of node.children) walk(child);
+    }
+  };
+  walk(tree);
+};
 
 interface MessageProps {
   message: MessageType;
@@ -60,6 +191,13 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
     }
   };
   
+  // ✅ 답변 하나를 질문과 함께 보고서로 내보내기
+  const handleExport = async (format: ExportFormat) => {
+    const previous = messageIndex > 0 ? allMessages[messageIndex - 1] : undefined;
+    const entries = answerExportService.createEntries(previous ? [previous, message] : [message]);
+    await answerExportService.exportReport(entries, '답변 보고서', format);
+  };
+  
   // ✅ 버튼 위치 추적을 위한 ref
   const buttonRefs = React.useRef<Map<string, HTMLButtonElement>>(new Map());
 
@@ -103,9 +241,14 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
             }
           }
           
+          // ✅ 법령 청크는 포함 조문을 제목에 표기
+          const articleLabel = chunk.articles && chunk.articles.length > 0
+            ? ` · ${chunk.articles.map((article: any) => article.citation).join(', ')}`
+            : '';
+          
           // ✅ 전역 툴팁 관리자 사용
           showTooltip(uniqueKey, {
-            title: chunk.documentTitle || chunk.title || '참조',
+            title: (chunk.documentTitle || chunk.title || '참조') + articleLabel,
             content: highlightedContent
           }, position);
         }
@@ -116,6 +259,130 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
     }
   }, [message.chunkReferences, showTooltip, hideTooltip]);
 
+  // ✅ 문장 근거 정렬 결과를 마크다운 렌더링에 반영
+  const remarkPlugins = useMemo(
+    () => message.grounding && message.grounding.length > 0
+      ? [remarkGfm, remarkSentenceGrounding(message.grounding)]
+      : [remarkGfm],
+    [message.grounding]
+  );
+
+  // ✅ 문장에 마우스를 올리면 SourceViewer에서 근거 원문 하이라이트
+  const handleSentenceHover = (sentenceIndex: number, show: boolean) => {
+    const support = show ? message.grounding?.[sentenceIndex]?.supports[0] : undefined;
+    window.dispatchEvent(new CustomEvent('groundingHover', {
+      detail: support
+        ? { documentId: support.documentId, chunkId: support.chunkId, text: support.text }
+        : null
+    }));
+  };
+
+  // ✅ 문장 클릭 시 근거 청크로 이동 (근거 원문 하이라이트 포함)
+  const handleSentenceClick = (sentenceIndex: number) => {
+    const support = message.grounding?.[sentenceIndex]?.supports[0];
+    const reference = support ? message.chunkReferences?.[support.referenceIndex] : undefined;
+    if (!support || !reference) return;
+
+    window.dispatchEvent(new CustomEvent('referenceClick', {
+      detail: {
+        documentId: support.documentId,
+        chunkId: support.chunkId,
+        title: reference.documentTitle,
+        page: reference.page,
+        questionContent: findQuestionContent(),
+        supportText: support.text
+      }
+    }));
+  };
+
+  // ✅ 근거 정렬된 문장 (근거 없는 문장은 경고 표시)
+  const renderSentenceSpan: Components['span'] = ({ children, node, ...props }) => {
+    const sentenceIndex = (props as { 'data-sentence'?: string })['data-sentence'];
+    const sentence = sentenceIndex !== undefined ? message.grounding?.[Number(sentenceIndex)] : undefined;
+    if (!sentence) {
+      return <span {...props}>{children}</span>;
+    }
+    const topSupport = sentence.supports[0];
+    return (
+      <span
+        onMouseEnter={() => handleSentenceHover(Number(sentenceIndex), true)}
+        onMouseLeave={() => handleSentenceHover(Number(sentenceIndex), false)}
+        onClick={() => handleSentenceClick(Number(sentenceIndex))}
+        className={sentence.supported
+          ? 'rounded hover:bg-green-900/30 cursor-pointer transition-colors'
+          : 'underline decoration-wavy decoration-amber-500 underline-offset-4'}
+        title={sentence.supported
+          ? `근거 ${topSupport ? topSupport.referenceIndex + 1 : ''}번 (일치도 ${(sentence.score * 100).toFixed(0)}%) - 클릭하면 원문으로 이동`
+          : '⚠️ 참조 문서에서 근거를 찾지 못한 문장입니다. 원문을 확인하세요.'}
+      >
+        {children}
+        {!sentence.supported && <span className="ml-0.5 text-amber-500 text-xs align-super">⚠️</span>}
+      </span>
+    );
+  };
+
+  // ✅ 해당 답변에 해당하는 질문 찾기 (현재 메시지 이전의 user 메시지)
+  const findQuestionContent = (): string => {
+    if (messageIndex > 0 && allMessages.length > 0) {
+      // 현재 메시지 이전에서 가장 가까운 user 메시지를 찾음
+      for (let i = messageIndex - 1; i >= 0; i--) {
+        if (allMessages[i].role === 'user') {
+          return allMessages[i].content;
+        }
+      }
+    }
+    return '';
+  };
+
+  // ✅ 관련 조문 클릭 핸들러 (참조 대상 조문으로 이동)
+  const handleRelatedArticleClick = (hop: LegalReferenceHop) => {
+    if (!hop.documentId || !hop.chunkId) {
+      console.warn('⚠️ 관련 조문의 documentId 또는 chunkId가 없음:', hop);
+      return;
+    }
+    
+    // 같은 문서의 참조 정보에서 제목 재사용
+    const sameDocument = message.chunkReferences?.find(ref => ref.documentId === hop.documentId);
+    
+    window.dispatchEvent(new CustomEvent('referenceClick', {
+      detail: {
+        documentId: hop.documentId,
+        chunkId: hop.chunkId,
+        title: sameDocument?.documentTitle || '',
+        page: hop.to.page,
+        questionContent: findQuestionContent(),
+        articleId: hop.to.articleId
+      }
+    }));
+  };
+
+  // ✅ 답변 근거 청크에 붙은 원문 표 (같은 표는 한 번만)
+  const sourceTables = useMemo(() => {
+    const tables: { table: TableReference; chunkId: string }[] = [];
+    const seen = new Set<string>();
+    (message.chunkReferences || []).forEach(ref => {
+      (ref.tables || []).forEach(table => {
+        if (seen.has(table.tableId)) return;
+        seen.add(table.tableId);
+        tables.push({ table, chunkId: ref.chunkId });
+      });
+    });
+    return tables;
+  }, [message.chunkReferences]);
+
+  // ✅ 원문 표 출처 클릭 시 표가 있는 페이지로 이동
+  const handleTableSourceClick = (table: TableReference, chunkId: string) => {
+    window.dispatchEvent(new CustomEvent('referenceClick', {
+      detail: {
+        documentId: table.documentId,
+        chunkId,
+        title: table.documentTitle,
+        page: table.page,
+        questionContent: findQuestionContent()
+      }
+    }));
+  };
+
   // 참조 번호 클릭 핸들러
   const handleReferenceClick = (referenceNumber: number) => {
     if (message.chunkReferences && message.chunkReferences.length > 0) {
@@ -129,20 +396,15 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
         const documentId = chunk.documentId || chunk.id || '';
         const chunkId = chunk.chunkId || chunk.chunk_id || '';
         const title = chunk.documentTitle || chunk.title || '';
-        const page = chunk.page || chunk.metadata?.page;
         const filename = chunk.filename || chunk.documentFilename || chunk.metadata?.source || '';
         
-        // ✅ 해당 답변에 해당하는 질문 찾기 (현재 메시지 이전의 user 메시지)
-        let questionContent = '';
-        if (messageIndex > 0 && allMessages.length > 0) {
-          // 현재 메시지 이전에서 가장 가까운 user 메시지를 찾음
-          for (let i = messageIndex - 1; i >= 0; i--) {
-            if (allMessages[i].role === 'user') {
-              questionContent = allMessages[i].content;
-              break;
-            }
-          }
-        }
+        // ✅ 답변에 인용된 조문을 우선 선택 (없으면 청크의 첫 조문)
+        const compactContent = message.content.replace(/\s+/g, '');
+        const article = chunk.articles?.find(ref => compactContent.includes(ref.citation.replace(/\s+/g, '')))
+          || chunk.articles?.[0];
+        const page = article?.page || chunk.page || chunk.metadata?.page;
+        
+        const questionContent = findQuestionContent();
         
         console.log('📝 참조 클릭 정보:', {
           referenceNumber,
@@ -151,7 +413,8 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
           title,
           page,
           filename,
-          questionContent
+          questionContent,
+          articleCitation: article?.citation
         });
         
         // ❌ 유효성 검사 추가
@@ -168,7 +431,8 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
             title,
             page,
             filename, // ✅ PDF 파일명 추가
-            questionContent // ✅ 질문 내용 추가
+            questionContent, // ✅ 질문 내용 추가
+            articleId: article?.articleId // ✅ 이동할 조문
           }
         }));
       }
@@ -183,6 +447,10 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
         <Icon className="w-3 h-3 md:w-5 md:h-5 text-white" />
       </div>
       <div className={`flex-1 max-w-[85%] md:max-w-[80%] ${isUser ? 'text-right' : 'text-left'}`}>
+        {/* ✅ 검색 과정 타임라인 (답변 생성 중 진행 이벤트) */}
+        {!isUser && message.progressEvents && message.progressEvents.length > 0 && (
+          <RetrievalTimeline events={message.progressEvents} answerStarted={message.content.length > 0} />
+        )}
         <div className={`message-container relative inline-block p-2 md:p-3 rounded-lg text-sm md:text-base ${
           isUser 
             ? 'bg-brand-primary text-white' 
@@ -213,8 +481,9 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
           ) : (
             <div className="prose prose-invert max-w-none [&_table]:border-collapse [&_table]:w-full [&_table]:my-4 [&_table]:border [&_table]:border-brand-secondary">
               <ReactMarkdown 
-                remarkPlugins={[remarkGfm]}
+                remarkPlugins={remarkPlugins}
                 components={{
+                  span: renderSentenceSpan,
                   // ✅ 참조 번호를 클릭 가능한 버튼으로 변환
                   strong: ({ children, ...props }: any) => {
                     const text = String(children).trim();
@@ -263,38 +532,7 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
                     
                     return <strong className="font-semibold text-brand-primary" {...props}>{children}</strong>;
                   },
-                  table: ({ children, ...props }) => (
-                    <div className="overflow-x-auto my-4">
-                      <table className="min-w-full border-collapse border border-brand-secondary" {...props}>
-                        {children}
-                      </table>
-                    </div>
-                  ),
-                  thead: ({ children, ...props }) => (
-                    <thead className="bg-brand-secondary" {...props}>
-                      {children}
-                    </thead>
-                  ),
-                  tbody: ({ children, ...props }) => (
-                    <tbody className="bg-brand-surface" {...props}>
-                      {children}
-                    </tbody>
-                  ),
-                  tr: ({ children, ...props }) => (
-                    <tr className="border-b border-brand-secondary" {...props}>
-                      {children}
-                    </tr>
-                  ),
-                  th: ({ children, ...props }) => (
-                    <th className="px-4 py-2 text-left text-brand-text-primary font-semibold border-r border-brand-secondary" {...props}>
-                      {children}
-                    </th>
-                  ),
-                  td: ({ children, ...props }) => (
-                    <td className="px-4 py-2 text-brand-text-primary border-r border-brand-secondary" {...props}>
-                      {children}
-                    </td>
-                  ),
+                  ...markdownTableComponents,
                   p: ({ children, ...props }) => (
                     <p className="mb-2 last:mb-0" {...props}>
                       {children}
@@ -357,7 +595,138 @@ const Message: React.FC<MessageProps> = ({ message, allMessages = [], messageInd
           isUser ? 'text-right' : 'text-left'
         }`}>
           {message.timestamp.toLocaleTimeString()}
+          {!isUser && message.content && (
+            <span className="ml-2">
+              <ExportMenu onExport={handleExport} title="이 답변을 문서로 내보내기" align="left" />
+            </span>
+          )}
+          {!isUser && message.content && (
+            <span className="ml-2">
+              <AnswerFeedback
+                message={message}
+                question={message.queryRewrite?.standaloneQuestion || (messageIndex > 0 ? allMessages[messageIndex - 1]?.content || '' : '')}
+              />
+            </span>
+          )}
         </div>
+        {/* ✅ 관련 조문 체인 (법률 → 시행령 → 시행규칙 상호 참조) */}
+        {!isUser && message.relatedArticles && message.relatedArticles.length > 0 && (
+          <div className="mt-2">
+            <p className="text-xs text-brand-text-secondary mb-1">⚖️ 관련 조문:</p>
+            <div className="flex flex-col gap-1">
+              {message.relatedArticles.map((hop, index) => (
+                <button
+                  key={`${hop.from.articleId}-${hop.to.articleId}-${index}`}
+                  type="button"
+                  onClick={() => handleRelatedArticleClick(hop)}
+                  className={`text-left text-xs bg-brand-secondary text-brand-text-secondary px-2 py-1 rounded hover:bg-brand-primary hover:text-white transition-colors ${
+                    hop.hop > 1 ? 'ml-4' : ''
+                  }`}
+                  title={`${hop.to.citation}로 이동`}
+                >
+                  {hop.from.citation}
+                  <span className="mx-1 opacity-70">→ {hop.phrase} →</span>
+                  <span className="font-semibold">{hop.to.citation}</span>
+                  {hop.to.page ? <span className="ml-1 opacity-70">(p.{hop.to.page})</span> : null}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {/* ✅ 원문 표 (PDF에서 행·열 구조로 추출) */}
+        {!isUser && sourceTables.length > 0 && (
+          <div className="mt-2 flex flex-col gap-2">
+            {sourceTables.map(({ table, chunkId }) => (
+              <div key={table.tableId} className="p-2 rounded bg-brand-secondary/40 text-xs">
+                <button
+                  type="button"
+                  onClick={() => handleTableSourceClick(table, chunkId)}
+                  className="text-left text-brand-text-secondary hover:text-brand-primary transition-colors"
+                  title={`${table.documentTitle} 원문으로 이동`}
+                >
+                  📊 <span className="font-semibold">{table.title || '표'}</span>
+                  <span className="ml-1 opacity-70">— {table.documentTitle} {formatPageLabel(table)}</span>
+                </button>
+                <div className="prose prose-invert max-w-none text-xs">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownTableComponents}>
+                    {formatTableMarkdown(table)}
+                  </ReactMarkdown>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {/* ✅ 근거 없는 문장 요약 */}
+        {!isUser && message.grounding && message.grounding.some(sentence => !sentence.supported) && (
+          <div className="mt-2 text-xs text-amber-500">
+            ⚠️ 근거를 찾지 못한 문장 {message.grounding.filter(sentence => !sentence.supported).length}개 (물결 밑줄 표시) - 원문을 확인하세요.
+          </div>
+        )}
+        {/* ✅ 검수된 FAQ 답변 */}
+        {!isUser && message.faqMatch && (
+          <div className="mt-2 text-xs text-brand-text-secondary">
+            <span className="px-1.5 py-0.5 mr-1 rounded bg-green-600/20 text-green-500 font-medium">✅ 검수된 답변</span>
+            <span title={`일치한 질문: ${message.faqMatch.matchedQuestion}`}>
+              "{message.faqMatch.matchedQuestion}"과 일치 (유사도 {message.faqMatch.similarity.toFixed(2)})
+            </span>
+          </div>
+        )}
+        {/* ✅ 의미 기반 답변 캐시에서 응답 */}
+        {!isUser && message.cachedAnswer && (
+          <div className="mt-2 text-xs text-brand-text-secondary">
+            <span className="px-1.5 py-0.5 mr-1 rounded bg-brand-secondary font-medium">📦 저장된 답변</span>
+            <span title={`저장 시 질문: ${message.cachedAnswer.cachedQuestion}`}>
+              {new Date(message.cachedAnswer.cachedAt).toLocaleDateString('ko-KR')}에 답한 비슷한 질문 (유사도 {message.cachedAnswer.similarity.toFixed(2)}) - 근거 문서가 바뀌지 않아 재사용
+            </span>
+          </div>
+        )}
+        {/* ✅ 사용자가 중지한 답변 */}
+        {!isUser && message.interrupted && (
+          <div className="mt-2 text-xs text-brand-text-secondary">
+            <span className="px-1.5 py-0.5 rounded bg-brand-secondary font-medium">⏹ 중지됨</span>
+          </div>
+        )}
+        {/* ✅ 근거 신뢰도 (답변 보류 또는 신뢰도 기준 미달) */}
+        {!isUser && message.confidence?.lowConfidence && (
+          <details className="mt-2 text-xs text-brand-text-secondary">
+            <summary className="cursor-pointer select-none">
+              <span className="px-1.5 py-0.5 mr-1 rounded bg-amber-500/20 text-amber-500 font-medium">
+                {message.confidence.abstained ? '근거 없음' : '신뢰도 낮음'}
+              </span>
+              근거 신뢰도 상세
+            </summary>
+            <div className="mt-1 p-2 bg-brand-bg/50 border border-brand-secondary rounded space-y-1">
+              <div>
+                <span className="opacity-70">검색 점수:</span> {message.confidence.retrievalScore.toFixed(2)}
+                <span className="ml-1 opacity-70">(질문 핵심어 일치 {Math.round(message.confidence.keywordCoverage * 100)}%)</span>
+              </div>
+              <div><span className="opacity-70">근거 품질:</span> {message.confidence.contextQuality.toFixed(2)}</div>
+              {message.confidence.answerConfidence !== undefined && (
+                <div><span className="opacity-70">답변 검증 신뢰도:</span> {message.confidence.answerConfidence.toFixed(2)}</div>
+              )}
+              {message.confidence.reasons.map((reason, index) => (
+                <div key={index}>• {reason}</div>
+              ))}
+              {message.confidence.suggestedDepartment && (
+                <div><span className="opacity-70">문의처:</span> {message.confidence.suggestedDepartment}</div>
+              )}
+            </div>
+          </details>
+        )}
+        {/* ✅ 후속 질문 재작성 디버그 패널 (검색에 실제 사용한 질의) */}
+        {!isUser && message.queryRewrite && (
+          <details className="mt-2 text-xs text-brand-text-secondary">
+            <summary className="cursor-pointer select-none">🔎 검색 질의 (후속 질문 재작성)</summary>
+            <div className="mt-1 p-2 bg-brand-bg/50 border border-brand-secondary rounded space-y-1">
+              <div><span className="opacity-70">원문:</span> {message.queryRewrite.originalQuestion}</div>
+              <div><span className="opacity-70">검색 질의:</span> <span className="font-semibold text-brand-text-primary">{message.queryRewrite.standaloneQuestion}</span></div>
+              <div>
+                <span className="opacity-70">방식:</span> {message.queryRewrite.method === 'llm' ? 'LLM 재작성' : '키워드 보강 (폴백)'}
+                {message.queryRewrite.reason ? <span className="ml-1 opacity-70">— {message.queryRewrite.reason}</span> : null}
+              </div>
+            </div>
+          </details>
+        )}
         {message.sources && message.sources.length > 0 && (
           <div className="mt-2">
             <p className="text-xs text-brand-text-secondary mb-1">참조 소스:</p>
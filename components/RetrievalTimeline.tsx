@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { ResponseProgressEvent, QuestionAnalysis } from '../types';
+
+interface RetrievalTimelineProps {
+  events: ResponseProgressEvent[];
+  answerStarted: boolean;  // 답변 텍스트가 나오기 시작하면 자동으로 접음
+}
+
+const CATEGORY_LABELS: Record<QuestionAnalysis['category'], string> = {
+  definition: '정의',
+  procedure: '절차',
+  regulation: '규정',
+  comparison: '비교',
+  analysis: '분석',
+  general: '일반'
+};
+
+/**
+ * 진행 이벤트 → 타임라인 문구
+ */
+const describeEvent = (event: ResponseProgressEvent): string => {
+  switch (event.stage) {
+    case 'rewrite':
+      return `후속 질문 재작성: "${event.standaloneQuestion}"`;
+    case 'faq':
+      return `검수된 FAQ 일치: "${event.matchedQuestion}" (유사도 ${event.similarity.toFixed(2)})`;
+    case 'cache':
+      return `저장된 답변 사용: "${event.cachedQuestion}" (유사도 ${event.similarity.toFixed(2)})`;
+    case 'analysis':
+      return `질문 분석 완료 (${CATEGORY_LABELS[event.category] || event.category}) · 키워드: ${event.keywords.join(', ') || '없음'}${
+        event.asOfDate ? ` · 기준일 ${event.asOfDate}` : ''
+      }`;
+    case 'search':
+      return `관련 청크 ${event.chunkCount}개 발견 (문서 ${event.documentCount}개)`;
+    case 'context':
+      return event.trimmed
+        ? `컨텍스트 길이 제한으로 ${event.totalChunks}개 중 ${event.chunkCount}개 사용 (${event.contextLength.toLocaleString()} / ${event.maxContextLength.toLocaleString()}자)`
+        : `컨텍스트 구성: 청크 ${event.chunkCount}개 (${event.contextLength.toLocaleString()}자)`;
+    case 'citations':
+      return `출처 ${event.referenceCount}개 확인${event.articleCount > 0 ? ` · 조문 ${event.articleCount}개` : ''}${
+        event.tableCount ? ` · 표 ${event.tableCount}개` : ''
+      }${
+        event.documentTitles.length > 0 ? ` · ${event.documentTitles.join(', ')}` : ''
+      }`;
+    case 'abstained':
+      return `근거 부족으로 답변 보류${event.reasons.length > 0 ? `: ${event.reasons.join(', ')}` : ''}`;
+    case 'generating':
+      return '답변 생성 중';
+  }
+};
+
+/**
+ * 답변 위에 표시하는 "검색 과정" 타임라인 (접기/펼치기)
+ */
+const RetrievalTimeline: React.FC<RetrievalTimelineProps> = ({ events, answerStarted }) => {
+  const [isExpanded, setIsExpanded] = useState(!answerStarted);
+
+  useEffect(() => {
+    if (answerStarted) {
+      setIsExpanded(false);
+    }
+  }, [answerStarted]);
+
+  if (events.length === 0) return null;
+
+  const totalSeconds = (events[events.length - 1].elapsedMs / 1000).toFixed(1);
+
+  return (
+    <div className="mb-2 text-xs text-brand-text-secondary">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-1 hover:text-brand-text-primary transition-colors select-none"
+        aria-expanded={isExpanded}
+      >
+        <span>{isExpanded ? '▾' : '▸'}</span>
+        <span>🔍 검색 과정</span>
+        <span className="opacity-70">({events.length}단계 · {totalSeconds}초)</span>
+      </button>
+      {isExpanded && (
+        <ol className="mt-1 ml-1 border-l border-brand-secondary pl-3 space-y-1">
+          {events.map((event, index) => (
+            <li key={index} className="relative">
+              <span className={`absolute -left-[17px] top-1 w-2 h-2 rounded-full ${
+                event.stage === 'abstained' ? 'bg-yellow-500' : 'bg-brand-primary'
+              }`} />
+              <span>{describeEvent(event)}</span>
+              <span className="ml-2 opacity-60">{(event.elapsedMs / 1000).toFixed(1)}s</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RetrievalTimeline;
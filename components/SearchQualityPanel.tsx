@@ -0,0 +1,428 @@
+/**
+ * 검색 품질 평가 패널 (관리자 페이지 "검색 품질" 탭)
+ * 정답 청크가 표시된 질문 세트를 업로드/편집하고 세 검색 엔진을 나란히 평가
+ * RRF 융합 가중치를 조정한 뒤 바로 다시 평가하여 비교
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  searchEvaluationService,
+  EvaluationReport,
+  EVALUATION_ENGINE_LABELS
+} from '../services/searchEvaluationService';
+import {
+  retrievalOrchestrator,
+  RetrievalConfig,
+  RETRIEVAL_SOURCE_LABELS,
+  DEFAULT_RETRIEVAL_CONFIG
+} from '../services/retrievalOrchestrator';
+import { RetrievalProvenance, RetrievalSource } from '../types';
+import { formatPageLabel } from '../services/pdfPageMap.js';
+
+const QUESTION_SET_EXAMPLE = `[
+  {
+    "id": "smoking-fine",
+    "question": "금연구역에서 흡연하면 과태료는 얼마인가요?",
+    "goldChunkIds": ["청크 ID 1", "청크 ID 2"]
+  }
+]`;
+
+export const SearchQualityPanel: React.FC = () => {
+  const [questionSetText, setQuestionSetText] = useState('');
+  const [ksText, setKsText] = useState('5, 10');
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number; current: string } | null>(null);
+  const [message, setMessage] = useState('');
+  const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(null);
+  const [fusionConfig, setFusionConfig] = useState<RetrievalConfig>(DEFAULT_RETRIEVAL_CONFIG);
+
+  // 저장된 질문 세트 및 융합 설정 로드
+  useEffect(() => {
+    searchEvaluationService.loadQuestionSet().then(questions => {
+      if (questions.length > 0) {
+        setQuestionSetText(searchEvaluationService.serializeQuestionSet(questions));
+      }
+    });
+    retrievalOrchestrator.getConfig().then(setFusionConfig);
+  }, []);
+
+  const updateWeight = (source: RetrievalSource, value: string) => {
+    setFusionConfig(prev => ({ ...prev, weights: { ...prev.weights, [source]: parseFloat(value) } }));
+  };
+
+  const handleSaveFusionConfig = async () => {
+    const saved = await retrievalOrchestrator.saveConfig(fusionConfig);
+    setFusionConfig(saved);
+    setMessage('검색 융합 설정을 저장했습니다. 평가를 다시 실행하면 반영됩니다.');
+  };
+
+  const formatProvenance = (provenance: RetrievalProvenance) =>
+    [
+      ...provenance.sources.map(source => `${RETRIEVAL_SOURCE_LABELS[source.source]} ${source.rank}위`),
+      ...(provenance.feedbackAdjustment ? [`피드백 ${provenance.feedbackAdjustment > 0 ? '+' : ''}${provenance.feedbackAdjustment.toFixed(4)}`] : [])
+    ].join(' · ');
+
+  const parseKs = (): number[] =>
+    ksText.split(',').map(value => parseInt(value.trim(), 10)).filter(k => Number.isFinite(k) && k > 0);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const questions = searchEvaluationService.parseQuestionSet(text);
+      setQuestionSetText(searchEvaluationService.serializeQuestionSet(questions));
+      setMessage(`${file.name}에서 ${questions.length}개 질문을 불러왔습니다.`);
+    } catch (error) {
+      console.error('질문 세트 업로드 실패:', error);
+      setMessage(error instanceof Error ? error.message : '질문 세트를 불러오지 못했습니다.');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      const questions = searchEvaluationService.parseQuestionSet(questionSetText);
+      await searchEvaluationService.saveQuestionSet(questions);
+      setMessage(`질문 세트 ${questions.length}개를 저장했습니다.`);
+    } catch (error) {
+      console.error('질문 세트 저장 실패:', error);
+      setMessage(error instanceof Error ? error.message : '질문 세트 저장에 실패했습니다.');
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      const questions = searchEvaluationService.parseQuestionSet(questionSetText);
+      setIsRunning(true);
+      setMessage('');
+      setReport(null);
+
+      const result = await searchEvaluationService.runEvaluation(questions, {
+        ks: parseKs(),
+        onProgress: (completed, total, current) => setProgress({ completed, total, current })
+      });
+      setReport(result);
+      setMessage(`평가 완료: ${questions.length}개 질문`);
+    } catch (error) {
+      console.error('검색 품질 평가 실패:', error);
+      setMessage(error instanceof Error ? error.message : '검색 품질 평가에 실패했습니다.');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const exportReport = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `search-quality-${report.runAt.split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div className="p-4 bg-brand-surface border border-brand-primary rounded-lg">
+          <p className="text-brand-text-primary">{message}</p>
+        </div>
+      )}
+
+      {/* 질문 세트 편집 */}
+      <div className="bg-brand-surface rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-brand-text-primary">평가 질문 세트</h2>
+          <div className="flex gap-2">
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileUpload}
+              className="hidden"
+              id="question-set-upload"
+            />
+            <label
+              htmlFor="question-set-upload"
+              className="px-3 py-1 bg-brand-secondary text-brand-text-primary rounded hover:bg-opacity-80 transition-colors cursor-pointer"
+            >
+              JSON 업로드
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={isRunning || !questionSetText.trim()}
+              className="px-3 py-1 bg-green-600 text-white rounded hover:bg-opacity-80 disabled:opacity-50 transition-colors"
+            >
+              저장
+            </button>
+          </div>
+        </div>
+
+        <textarea
+          value={questionSetText}
+          onChange={(e) => setQuestionSetText(e.target.value)}
+          placeholder={QUESTION_SET_EXAMPLE}
+          rows={12}
+          className="w-full p-3 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary font-mono text-sm focus:outline-none focus:border-brand-primary"
+        />
+        <p className="text-xs text-brand-text-secondary mt-1">
+          질문별 정답 근거 청크 ID(goldChunkIds)를 지정합니다. 평가 결과의 검색 목록에서 청크 ID를 확인할 수 있습니다.
+        </p>
+
+        <div className="flex items-end gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-brand-text-primary mb-2">recall@k (쉼표 구분)</label>
+            <input
+              type="text"
+              value={ksText}
+              onChange={(e) => setKsText(e.target.value)}
+              className="w-32 p-2 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary focus:outline-none focus:border-brand-primary"
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || !questionSetText.trim()}
+            className="py-2 px-6 bg-brand-primary text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {isRunning ? (
+              <div className="flex items-center justify-center">
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                평가 중 {progress ? `(${progress.completed}/${progress.total})` : ''}
+              </div>
+            ) : (
+              '평가 실행'
+            )}
+          </button>
+        </div>
+        {progress && progress.current && (
+          <p className="text-xs text-brand-text-secondary mt-2">현재 질문: {progress.current}</p>
+        )}
+      </div>
+
+      {/* RRF 융합 설정 */}
+      <div className="bg-brand-surface rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-brand-text-primary mb-2">검색 융합 설정 (RRF)</h2>
+        <p className="text-xs text-brand-text-secondary mb-4">
+          점수 = Σ 가중치 / (k + 검색기별 순위). 가중치가 0인 검색기는 실행하지 않습니다.
+        </p>
+        <div className="flex flex-wrap items-end gap-4">
+          {(Object.keys(RETRIEVAL_SOURCE_LABELS) as RetrievalSource[]).map(source => (
+            <div key={source}>
+              <label className="block text-sm font-medium text-brand-text-primary mb-2">{RETRIEVAL_SOURCE_LABELS[source]} 가중치</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={fusionConfig.weights[source]}
+                onChange={(e) => updateWeight(source, e.target.value)}
+                className="w-24 p-2 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary focus:outline-none focus:border-brand-primary"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-brand-text-primary mb-2">k</label>
+            <input
+              type="number"
+              min={1}
+              value={fusionConfig.rrfK}
+              onChange={(e) => setFusionConfig(prev => ({ ...prev, rrfK: parseFloat(e.target.value) }))}
+              className="w-24 p-2 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary focus:outline-none focus:border-brand-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-brand-text-primary mb-2">검색기별 후보 수</label>
+            <input
+              type="number"
+              min={1}
+              value={fusionConfig.candidatesPerSource}
+              onChange={(e) => setFusionConfig(prev => ({ ...prev, candidatesPerSource: parseInt(e.target.value, 10) }))}
+              className="w-24 p-2 bg-brand-bg border border-brand-secondary rounded-lg text-brand-text-primary focus:outline-none focus:border-brand-primary"
+            />
+          </div>
+          <button
+            onClick={handleSaveFusionConfig}
+            disabled={isRunning}
+            className="py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-opacity-80 disabled:opacity-50 transition-colors"
+          >
+            설정 저장
+          </button>
+          <button
+            onClick={() => setFusionConfig(DEFAULT_RETRIEVAL_CONFIG)}
+            disabled={isRunning}
+            className="py-2 px-4 bg-brand-secondary text-brand-text-primary rounded-lg hover:bg-opacity-80 disabled:opacity-50 transition-colors"
+          >
+            기본값
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <>
+          {/* 엔진별 요약 */}
+          <div className="bg-brand-surface rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-brand-text-primary">엔진별 결과</h2>
+              <button
+                onClick={exportReport}
+                className="px-3 py-1 bg-green-600 text-white rounded hover:bg-opacity-80 transition-colors"
+              >
+                결과 내보내기
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {report.summaries.map(summary => (
+                <div key={summary.engine} className="bg-brand-bg rounded-lg p-4">
+                  <div className="text-sm font-semibold text-brand-primary mb-3">{summary.label}</div>
+                  <div className="space-y-1 text-sm">
+                    {report.ks.map(k => (
+                      <div key={k} className="flex justify-between">
+                        <span className="text-brand-text-secondary">recall@{k}</span>
+                        <span className="text-brand-text-primary font-mono">{formatPercent(summary.recall[k])}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between">
+                      <span className="text-brand-text-secondary">MRR</span>
+                      <span className="text-brand-text-primary font-mono">{summary.mrr.toFixed(3)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-brand-text-secondary">평균 지연</span>
+                      <span className="text-brand-text-primary font-mono">{summary.averageLatencyMs}ms</span>
+                    </div>
+                    {summary.failedQuestions > 0 && (
+                      <div className="flex justify-between text-red-500">
+                        <span>실패</span>
+                        <span className="font-mono">{summary.failedQuestions}건</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* MultiStage 단계별 정답 발견 횟수 */}
+            {Object.keys(report.stageHitCounts).length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-brand-text-primary mb-3">MultiStageSearchSystem 단계별 정답 발견</h3>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(report.stageHitCounts).map(([stage, count]) => (
+                    <span key={stage} className="px-3 py-1 bg-brand-bg rounded text-sm text-brand-text-primary">
+                      {stage} <span className="font-mono text-brand-primary">{count}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* 질문별 결과 */}
+          <div className="bg-brand-surface rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-brand-text-primary mb-4">질문별 결과</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-brand-text-secondary border-b border-brand-secondary">
+                    <th className="py-2 pr-4">질문</th>
+                    {report.summaries.map(summary => (
+                      <th key={summary.engine} className="py-2 pr-4">
+                        {summary.label}
+                        <div className="text-xs font-normal">R@{report.ks[report.ks.length - 1]} / RR / ms</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.questions.map(result => (
+                    <React.Fragment key={result.question.id}>
+                      <tr
+                        className="border-b border-brand-secondary hover:bg-brand-bg cursor-pointer transition-colors"
+                        onClick={() => setExpandedQuestionId(expandedQuestionId === result.question.id ? null : result.question.id)}
+                      >
+                        <td className="py-2 pr-4 text-brand-text-primary">{result.question.question}</td>
+                        {result.error ? (
+                          <td colSpan={report.summaries.length} className="py-2 pr-4 text-red-500">질문 분석 실패: {result.error}</td>
+                        ) : (
+                          result.engines.map(engineResult => (
+                            <td key={engineResult.engine} className="py-2 pr-4 font-mono text-brand-text-primary">
+                              {engineResult.error ? (
+                                <span className="text-red-500">오류</span>
+                              ) : (
+                                `${formatPercent(engineResult.recall[report.ks[report.ks.length - 1]])} / ${engineResult.reciprocalRank.toFixed(2)} / ${engineResult.latencyMs}`
+                              )}
+                            </td>
+                          ))
+                        )}
+                      </tr>
+                      {expandedQuestionId === result.question.id && !result.error && (
+                        <tr>
+                          <td colSpan={report.summaries.length + 1} className="py-3 bg-brand-bg">
+                            <div className="px-3 space-y-4">
+                              {/* 정답 청크별 MultiStage 발견 단계 */}
+                              <div>
+                                <div className="text-xs font-semibold text-brand-text-secondary mb-1">정답 청크를 찾은 MultiStage 단계</div>
+                                {result.goldStageHits.map(hit => (
+                                  <div key={hit.chunkId} className="text-xs text-brand-text-primary">
+                                    <span className="font-mono">{hit.chunkId}</span>
+                                    {' → '}
+                                    {hit.stages.length > 0
+                                      ? hit.stages.map(stage => `${stage.name} (${stage.rank}위)`).join(', ')
+                                      : '어느 단계에서도 찾지 못함'}
+                                    {hit.stages.length > 0 && !hit.inFinalResults && (
+                                      <span className="text-yellow-500"> · 최종 결과에서 제외됨</span>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+
+                              {/* 엔진별 검색 결과 (정답 라벨링 참고용) */}
+                              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                {result.engines.map(engineResult => (
+                                  <div key={engineResult.engine}>
+                                    <div className="text-xs font-semibold text-brand-text-secondary mb-1">
+                                      {EVALUATION_ENGINE_LABELS[engineResult.engine]}
+                                    </div>
+                                    {engineResult.error ? (
+                                      <p className="text-xs text-red-500">{engineResult.error}</p>
+                                    ) : (
+                                      <ol className="text-xs space-y-1 list-decimal list-inside">
+                                        {engineResult.retrievedChunks.map(chunk => (
+                                          <li
+                                            key={chunk.id}
+                                            className={result.question.goldChunkIds.includes(chunk.id) ? 'text-green-500 font-semibold' : 'text-brand-text-primary'}
+                                          >
+                                            <span className="font-mono">{chunk.id}</span>
+                                            <span className="text-brand-text-secondary"> {chunk.metadata.title} {formatPageLabel(chunk.metadata)}</span>
+                                            {chunk.retrievalProvenance && (
+                                              <div className="ml-4 text-brand-text-secondary font-normal">
+                                                {formatProvenance(chunk.retrievalProvenance)}
+                                              </div>
+                                            )}
+                                          </li>
+                                        ))}
+                                      </ol>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
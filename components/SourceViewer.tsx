@@ -1,12 +1,23 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { FirestoreService, PDFChunk, PDFDocument } from '../services/firestoreService';
+import { FirestoreService, PDFChunk, PDFDocument, LegalArticleNode, DocumentEditionDiff } from '../services/firestoreService';
+import { legalArticleIndexService } from '../services/legalArticleIndexService';
+import { documentVersionService, EditionComparison } from '../services/documentVersionService';
 import EmbedPdfViewer from './EmbedPdfViewer';
+import { extractKeywords } from '../services/koreanTokenizer.js';
+import { formatPageLabel } from '../services/pdfPageMap.js';
+import { FeedbackEvidence } from '../types';
 
 interface SourceViewerProps {
   selectedDocumentId?: string;
   highlightedChunkId?: string;
+  highlightedArticleId?: string; // ✅ 이동할 법령 조문
   questionContent?: string; // ✅ 질문 내용
+  supportHighlight?: { chunkId: string; text: string }; // ✅ 답변 문장의 근거 원문
+  evidencePickedChunkIds?: string[] | null; // ✅ 답변 피드백 "올바른 근거" 선택 모드 (null이면 비활성)
+  onEvidencePick?: (evidence: FeedbackEvidence) => void;
+  onEvidencePickEnd?: () => void;
   onChunkSelect?: (chunkId: string) => void;
+  onArticleSelect?: (articleId: string) => void;
   pdfViewerMode?: 'text' | 'pdf';
   pdfCurrentPage?: number;
   pdfFilename?: string;
@@ -14,11 +25,24 @@ interface SourceViewerProps {
   onViewModeChange?: (mode: 'text' | 'pdf') => void;
 }
 
+// ✅ 판본 비교 상태 표시
+const EDITION_DIFF_BADGES: Record<DocumentEditionDiff['status'], { label: string; className: string }> = {
+  added: { label: '신설', className: 'bg-green-100 text-green-800' },
+  removed: { label: '삭제', className: 'bg-red-100 text-red-800' },
+  modified: { label: '변경', className: 'bg-yellow-100 text-yellow-800' }
+};
+
 export const SourceViewer: React.FC<SourceViewerProps> = ({
   selectedDocumentId,
   highlightedChunkId,
+  highlightedArticleId,
   questionContent = '', // ✅ 질문 내용
+  supportHighlight,
+  evidencePickedChunkIds = null,
+  onEvidencePick,
+  onEvidencePickEnd,
   onChunkSelect,
+  onArticleSelect,
   pdfViewerMode = 'text',
   pdfCurrentPage = 1,
   pdfFilename = '',
@@ -36,6 +60,10 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
   const [searchResults, setSearchResults] = useState<PDFChunk[]>([]); // ✅ 추가: 모든 검색 결과
   const [currentSearchIndex, setCurrentSearchIndex] = useState<number>(-1); // ✅ 추가: 현재 검색 결과 인덱스
   const [lastSearchQuery, setLastSearchQuery] = useState<string>(''); // ✅ 추가: 마지막 검색어
+  const [articleNodes, setArticleNodes] = useState<LegalArticleNode[]>([]); // ✅ 추가: 문서의 조 단위 조문 목록
+  const [editionComparisons, setEditionComparisons] = useState<EditionComparison[]>([]); // ✅ 추가: 판본 비교 목록
+  const [isEditionCompareMode, setIsEditionCompareMode] = useState<boolean>(false); // ✅ 추가: 판본 나란히 보기
+  const [selectedComparisonIndex, setSelectedComparisonIndex] = useState<number>(0);
   const firestoreService = FirestoreService.getInstance();
   const highlightTimeoutRef = useRef<NodeJS.Timeout>();
   const suppressObserverRef = useRef<boolean>(false); // 버튼 클릭 등 프로그램적 이동 시 관찰 억제
@@ -43,39 +71,24 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
   const chunkRefs = useRef<{ [key: string]: HTMLDivElement | null }>({}); // ✅ 청크 요소 ref 저장
   const wheelCooldownRef = useRef<boolean>(false); // 휠로 페이지 이동 쿨다운
   
-  // ✅ PDF 페이지 번호로 그룹화
+  // ✅ PDF 페이지 번호로 그룹화 (마이그레이션 페이지 맵 기준, 여러 페이지에 걸친 청크는 걸친 페이지마다 표시)
   const chunksByPage = React.useMemo(() => {
     const grouped: Record<number, PDFChunk[]> = {};
     
-    // ✅ 모든 청크의 page가 0이거나 없는지 확인
-    const allPagesZero = chunks.length > 0 && chunks.every(c => !c.metadata?.page || c.metadata.page === 0);
-    
-    chunks.forEach((chunk, index) => {
-      let pageNum;
+    chunks.forEach(chunk => {
+      const startPage = chunk.metadata?.page || 0;
+      const endPage = Math.max(startPage, chunk.metadata?.pageEnd || startPage);
       
-      // ✅ page 정보가 없으면 실제 PDF 페이지 번호를 추정
-      if (allPagesZero) {
-        // 문서의 실제 총 페이지 수가 있으면 청크를 균등 분배
-        if (documentTotalPages > 0) {
-          pageNum = Math.floor((index / chunks.length) * documentTotalPages) + 1;
-          pageNum = Math.min(pageNum, documentTotalPages); // 최대 페이지 수 제한
-        } else {
-          // 문서 총 페이지 수가 없으면 기본 3개 청크 = 1페이지
-          const chunksPerPage = 3;
-          pageNum = Math.floor(index / chunksPerPage) + 1;
+      for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
+        if (!grouped[pageNum]) {
+          grouped[pageNum] = [];
         }
-      } else {
-        pageNum = chunk.metadata?.page || 0;
-      }
-      
-      if (!grouped[pageNum]) {
-        grouped[pageNum] = [];
+        grouped[pageNum].push(chunk);
       }
-      grouped[pageNum].push(chunk);
     });
     
     return grouped;
-  }, [chunks, documentTotalPages]);
+  }, [chunks]);
 
   // ✅ maxPdfPage 상태 업데이트 (useEffect로 분리하여 Side Effect 제거)
   React.useEffect(() => {
@@ -167,6 +180,26 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
     });
   };
 
+  // ✅ 답변 문장의 근거 원문 하이라이트 (공백·줄바꿈 차이 무시, 찾지 못하면 null)
+  const highlightSupportText = (text: string, supportText: string): React.ReactNode | null => {
+    const characters = supportText.replace(/\s+/g, '').split('');
+    if (characters.length === 0 || !text) return null;
+
+    const pattern = new RegExp(characters.map(char => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s*'));
+    const match = pattern.exec(text);
+    if (!match) return null;
+
+    return (
+      <>
+        {text.slice(0, match.index)}
+        <mark className="support-highlight bg-green-200 text-green-900 font-medium px-0.5 rounded">
+          {match[0]}
+        </mark>
+        {text.slice(match.index + match[0].length)}
+      </>
+    );
+  };
+
   // ✅ 질문 내용에서 의미있는 단어들을 추출하여 하이라이트하는 함수
   const highlightQuestionWords = (text: string, question: string) => {
     if (!question || !text) {
@@ -176,66 +209,18 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
     
     console.log('🔍 highlightQuestionWords 호출:', { question, textLength: text.length });
 
-    // 한국어 조사 및 불용어
-    const stopWords = ['은', '는', '이', '가', '을', '를', '에', '의', '와', '과', '도', '만', '조차', '마저', '까지', '부터', '에서', '에게', '한테', '께', '로', '으로', '것', '수', '있', '없', '되', '하', '등', '때', '경우', '위해', '때문', '인가', '인가요', '인지', '인지요', '있습니', '없습니', '입니다', '까요', '나요', '네요', '세요', '주세요', '해주세요', '이야', '이야요', '야', '어', '요'];
-    
-    // 1. 질문을 공백과 구두점으로 분리
-    const wordsFromSpaces = question
-      .replace(/[^\w가-힣\s]/g, ' ') // 구두점 제거
-      .split(/\s+/) // 공백으로 분리
-      .filter(word => word.trim().length >= 2); // 2글자 이상만
-    
-    // 2. 한국어 단어에서 조사 제거 (예: "어린이집은" → "어린이집")
-    const wordsWithoutParticles = wordsFromSpaces.map(word => {
-      // 조사가 붙어있는 경우 제거 (은, 는, 이, 가, 을, 를, 에, 의, 와, 과, 도, 만 등)
-      for (const particle of ['은', '는', '이', '가', '을', '를', '에', '의', '와', '과', '도', '만', '에서', '에게', '한테', '께', '로', '으로']) {
-        if (word.endsWith(particle) && word.length > particle.length) {
-          return word.slice(0, -particle.length);
-        }
-      }
-      return word;
-    }).filter(word => word.length >= 2 && !stopWords.includes(word));
-    
-    // 3. 질문 자체에서 2글자 이상의 연속된 한글/영문 추출 (공백 없이도 작동)
-    const continuousWords: string[] = [];
-    const koreanWordRegex = /[가-힣]{2,}/g;
-    const englishWordRegex = /[A-Za-z]{2,}/g;
-    
-    let match;
-    while ((match = koreanWordRegex.exec(question)) !== null) {
-      const word = match[0];
-      // 조사 제거
-      let cleanedWord = word;
-      for (const particle of ['은', '는', '이', '가', '을', '를', '에', '의', '와', '과', '도', '만', '에서', '에게', '한테', '께', '로', '으로', '이야', '이야요', '야']) {
-        if (cleanedWord.endsWith(particle) && cleanedWord.length > particle.length) {
-          cleanedWord = cleanedWord.slice(0, -particle.length);
-        }
-      }
-      if (cleanedWord.length >= 2 && !stopWords.includes(cleanedWord) && !continuousWords.includes(cleanedWord)) {
-        continuousWords.push(cleanedWord);
-      }
-    }
-    
-    while ((match = englishWordRegex.exec(question)) !== null) {
-      const word = match[0].toLowerCase();
-      if (!stopWords.includes(word) && !continuousWords.includes(word)) {
-        continuousWords.push(word);
-      }
-    }
-    
-    // 4. 모든 단어 합치기 (중복 제거)
-    const allWords = Array.from(new Set([...wordsWithoutParticles, ...continuousWords]))
-      .filter(word => word.length >= 2 && !stopWords.includes(word));
+    // 색인과 같은 토크나이저로 어간·복합명사 추출 (조사·어미 제거, 불용어 제외)
+    const allWords = extractKeywords(question);
 
-    console.log('🔍 추출된 단어들:', { allWords, wordsWithoutParticles, continuousWords });
+    console.log('🔍 추출된 단어들:', { allWords });
 
     if (allWords.length === 0) {
       console.log('⚠️ 추출된 단어가 없음');
       return text;
     }
 
-    // 각 단어를 정규식으로 이스케이프하고 패턴 생성
-    const patterns = allWords.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    // 각 단어를 정규식으로 이스케이프하고 패턴 생성 (복합명사가 구성 요소보다 먼저 매칭되도록 긴 단어 우선)
+    const patterns = [...allWords].sort((a, b) => b.length - a.length).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
     
     // 모든 패턴을 하나의 정규식으로 결합
     const combinedPattern = `(${patterns.join('|')})`;
@@ -635,6 +620,9 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
       loadChunks(selectedDocumentId);
     } else {
       setChunks([]);
+      setArticleNodes([]);
+      setEditionComparisons([]);
+      setIsEditionCompareMode(false);
       setDocumentTitle('');
       // 검색 결과 초기화
       setSearchResults([]);
@@ -671,6 +659,16 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
       const chunks = await firestoreService.getChunksByDocument(documentId);
       setChunks(chunks);
       
+      // ✅ 법령 문서의 조문 목록 로드 (조 단위)
+      await legalArticleIndexService.loadIndex();
+      setArticleNodes(legalArticleIndexService.getDocumentTree(documentId).map(tree => tree.node));
+      
+      // ✅ 다른 판본과의 비교 결과 로드
+      await documentVersionService.load();
+      setEditionComparisons(documentVersionService.getComparisonsForDocument(documentId));
+      setSelectedComparisonIndex(0);
+      setIsEditionCompareMode(false);
+      
       // 디버그: 청크 페이지 정보 분석
       const pageStats: Record<number, number> = {};
       let maxPage = 0;
@@ -681,20 +679,16 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
       });
       
       const pageNumbers = Object.keys(pageStats).map(Number).sort((a, b) => a - b);
-      const allPagesZero = chunks.every(c => !c.metadata?.page || c.metadata.page === 0);
+      const missingPageCount = chunks.filter(c => !c.metadata?.page).length;
+      const printedPageCount = chunks.filter(c => c.metadata?.printedPage).length;
       
       console.log(`✅ 소스 뷰어: ${chunks.length}개 청크 로드 완료`);
       console.log(`📄 PDF 최대 페이지: ${maxPage}`);
       console.log(`📋 청크가 있는 페이지: ${pageNumbers.length}개 (${pageNumbers.slice(0, 10).join(', ')}${pageNumbers.length > 10 ? '...' : ''})`);
-      console.log(`🔍 모든 청크의 page가 0: ${allPagesZero}`);
+      console.log(`🔍 인쇄 쪽 번호가 있는 청크: ${printedPageCount}/${chunks.length}개`);
       
-      if (allPagesZero) {
-        if (documentTotalPages > 0) {
-          console.log(`📝 실제 PDF 페이지 기반 분배: ${documentTotalPages}페이지에 청크 ${chunks.length}개 균등 분배`);
-        } else {
-          const estimatedPages = Math.ceil(chunks.length / 3);
-          console.log(`📝 기본 페이지 추정: ${estimatedPages}페이지 (청크 ${chunks.length}개 ÷ 3)`);
-        }
+      if (missingPageCount > 0) {
+        console.warn(`⚠️ 페이지 정보가 없는 청크 ${missingPageCount}개 - 마이그레이션을 다시 실행하세요 (pdf.js 페이지 맵)`);
       }
     } catch (error) {
       console.error('청크 로드 실패:', error);
@@ -740,6 +734,64 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
     }
   }, [highlightedChunkId, chunks, chunksByPage, pdfCurrentPage, onPdfPageChange]);
 
+  // ✅ 답변 문장 hover 시 근거 청크가 화면에 있으면 해당 위치로 스크롤
+  useEffect(() => {
+    if (!supportHighlight) return;
+    const element = window.document.getElementById(`chunk-${supportHighlight.chunkId}`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [supportHighlight]);
+
+  // ✅ 현재 이동 대상 조문
+  const highlightedArticle = highlightedArticleId
+    ? legalArticleIndexService.getNodeById(highlightedArticleId)
+    : undefined;
+
+  // ✅ 조문으로 이동: 조문을 포함하는 첫 청크를 선택하고 PDF 뷰어는 조문 페이지로 이동
+  const handleArticleJump = (articleId: string) => {
+    const node = legalArticleIndexService.getNodeById(articleId);
+    if (!node) return;
+    
+    if (onArticleSelect) onArticleSelect(node.id);
+    if (node.chunkIds.length > 0 && onChunkSelect) {
+      onChunkSelect(node.chunkIds[0]);
+    }
+    if (pdfViewerMode === 'pdf' && onPdfPageChange) {
+      onPdfPageChange(node.page);
+    }
+    console.log(`⚖️ 조문 이동: ${node.citation} (페이지 ${node.page})`);
+  };
+
+  // ✅ 현재 선택된 판본 비교
+  const activeComparison = editionComparisons[selectedComparisonIndex];
+
+  // ✅ 판본 비교 한쪽 렌더링: 변경된 줄은 삭제(빨강)/추가(초록)로 표시
+  const renderEditionSide = (text: string, changedLines: string[], kind: 'removed' | 'added', page: number | null) => {
+    if (!text) {
+      return (
+        <div className="p-2 rounded bg-brand-bg text-xs text-brand-text-secondary italic">
+          (해당 판본에 없음)
+        </div>
+      );
+    }
+    
+    const changed = new Set(changedLines);
+    return (
+      <div className="p-2 rounded bg-brand-bg text-xs leading-relaxed">
+        {page && <div className="text-brand-text-secondary opacity-70 mb-1">페이지 {page}</div>}
+        {text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).map((line, index) => (
+          <div
+            key={index}
+            className={changed.has(line)
+              ? kind === 'removed' ? 'bg-red-100 text-red-900 line-through' : 'bg-green-100 text-green-900'
+              : 'text-brand-text-primary'}
+          >
+            {line}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const handleChunkClick = (chunkId: string) => {
     if (onChunkSelect) {
       onChunkSelect(chunkId);
@@ -951,12 +1003,100 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
             )}
           </div>
         </div>
+
+        {/* 조문 바로가기 (법령 문서) */}
+        {articleNodes.length > 0 && (
+          <div className="flex items-center gap-2 mt-2">
+            <span className="text-xs text-brand-text-secondary whitespace-nowrap">조문 이동</span>
+            <select
+              value={highlightedArticle?.nodeType === '조' ? highlightedArticle.id : ''}
+              onChange={(e) => e.target.value && handleArticleJump(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 rounded border border-brand-secondary bg-brand-bg text-xs text-brand-text-primary focus:outline-none focus:border-brand-primary"
+            >
+              <option value="">조문 선택...</option>
+              {articleNodes.map(node => (
+                <option key={node.id} value={node.id}>
+                  {node.citation}{node.title ? ` (${node.title})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* 판본 비교 (개정판이 있는 문서) */}
+        {editionComparisons.length > 0 && (
+          <div className="flex items-center gap-2 mt-2">
+            <button
+              onClick={() => setIsEditionCompareMode(prev => !prev)}
+              className={`px-3 py-1 text-xs rounded whitespace-nowrap ${
+                isEditionCompareMode ? 'bg-brand-primary text-white' : 'bg-brand-secondary text-brand-text-secondary hover:bg-brand-primary hover:text-white'
+              }`}
+            >
+              {isEditionCompareMode ? '원문 보기' : '판본 비교'}
+            </button>
+            {editionComparisons.length > 1 ? (
+              <select
+                value={selectedComparisonIndex}
+                onChange={(e) => setSelectedComparisonIndex(parseInt(e.target.value, 10))}
+                className="flex-1 min-w-0 px-2 py-1 rounded border border-brand-secondary bg-brand-bg text-xs text-brand-text-primary focus:outline-none focus:border-brand-primary"
+              >
+                {editionComparisons.map((comparison, index) => (
+                  <option key={`${comparison.baseDocumentId}-${comparison.targetDocumentId}`} value={index}>
+                    {comparison.baseVersion}판 → {comparison.targetVersion}판 (변경 {comparison.diffs.length}개)
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-xs text-brand-text-secondary truncate">
+                {activeComparison?.baseVersion}판 → {activeComparison?.targetVersion}판 · 변경 섹션 {activeComparison?.diffs.length}개
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* 컨텐츠 영역 - 고정 높이 1000px, 스크롤 포함 (텍스트 전용) */}
       <div className="min-h-0 overflow-hidden">
-        {/* 텍스트 뷰 (청크 목록) */}
+        {isEditionCompareMode && activeComparison ? (
+        /* 판본 나란히 보기 (변경된 섹션만) */
+        <div className="h-[1000px] overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-xs font-semibold text-brand-text-secondary sticky top-0 bg-brand-surface py-1 z-10">
+            <div>{activeComparison.baseVersion}판 (이전)</div>
+            <div>{activeComparison.targetVersion}판 (개정)</div>
+          </div>
+          {activeComparison.diffs.map(diff => (
+            <div key={diff.id} className="p-3 rounded-lg border-2 border-brand-secondary bg-brand-surface">
+              <div className="flex items-center gap-2 text-xs mb-2">
+                <span className={`px-2 py-0.5 rounded font-semibold ${EDITION_DIFF_BADGES[diff.status].className}`}>
+                  {EDITION_DIFF_BADGES[diff.status].label}
+                </span>
+                <span className="font-semibold text-brand-text-primary">{diff.sectionTitle}</span>
+                {diff.baseSectionTitle && diff.baseSectionTitle !== diff.sectionTitle && (
+                  <span className="text-brand-text-secondary opacity-70">(이전 제목: {diff.baseSectionTitle})</span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {renderEditionSide(diff.baseText, diff.removedLines, 'removed', diff.basePage)}
+                {renderEditionSide(diff.targetText, diff.addedLines, 'added', diff.targetPage)}
+              </div>
+            </div>
+          ))}
+        </div>
+        ) : (
+        /* 텍스트 뷰 (청크 목록) */
         <div className="relative h-[1000px]">
+          {/* ✅ 답변 피드백 근거 선택 안내 */}
+          {evidencePickedChunkIds && (
+            <div className="absolute top-0 left-0 right-0 z-10 flex items-center gap-2 px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-900">
+              <span className="flex-1">답변 피드백: 올바른 근거 청크의 "근거로 지정"을 누르세요 ({evidencePickedChunkIds.length}개 지정됨)</span>
+              <button
+                onClick={onEvidencePickEnd}
+                className="px-2 py-0.5 rounded bg-amber-600 text-white hover:bg-amber-700"
+              >
+                완료
+              </button>
+            </div>
+          )}
           <div
             ref={scrollContainerRef}
             onWheel={handleWheelInScrollArea}
@@ -985,6 +1125,10 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
                         페이지 {chunk.metadata.page}
+                        {chunk.metadata.pageEnd && chunk.metadata.pageEnd > chunk.metadata.page ? `-${chunk.metadata.pageEnd}` : ''}
+                        {chunk.metadata.printedPage && chunk.metadata.printedPage !== chunk.metadata.page && (
+                          <span className="opacity-70">(본문 {formatPageLabel(chunk.metadata)})</span>
+                        )}
                       </span>
                     )}
                     {chunk.metadata.section && (
@@ -998,8 +1142,35 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
                     {chunk.metadata.position && (
                       <span className="ml-auto text-brand-text-secondary opacity-70">#{chunk.metadata.position}</span>
                     )}
+                    {evidencePickedChunkIds && onEvidencePick && (
+                      <button
+                        onClick={() => onEvidencePick({
+                          chunkId: chunk.id || '',
+                          documentId: chunk.documentId,
+                          documentTitle,
+                          page: chunk.metadata.page || undefined,
+                          excerpt: normalizeWhitespace(chunk.content).slice(0, 120)
+                        })}
+                        className={`${chunk.metadata.position ? '' : 'ml-auto '}px-2 py-0.5 rounded border text-xs transition-colors ${
+                          evidencePickedChunkIds.includes(chunk.id || '')
+                            ? 'bg-green-600 border-green-600 text-white'
+                            : 'border-amber-500 text-amber-600 hover:bg-amber-50'
+                        }`}
+                      >
+                        {evidencePickedChunkIds.includes(chunk.id || '') ? '✓ 근거로 지정됨' : '근거로 지정'}
+                      </button>
+                    )}
                   </div>
 
+                  {/* 이동한 조문 표시 */}
+                  {highlightedArticle && highlightedArticle.chunkIds.includes(chunk.id) && (
+                    <div className="mb-2 px-2 py-1 rounded bg-blue-50 border border-blue-200 text-xs text-blue-900">
+                      <span className="font-semibold">⚖️ {highlightedArticle.citation}</span>
+                      <span className="ml-1 opacity-70">(페이지 {highlightedArticle.page})</span>
+                      <div className="mt-0.5 line-clamp-2">{highlightedArticle.heading}</div>
+                    </div>
+                  )}
+
                   {/* 청크 내용 */}
                   <div className={`text-sm leading-relaxed whitespace-pre-wrap ${
                     isHighlighted ? 'text-brand-primary font-medium' : 'text-brand-text-primary'
@@ -1007,6 +1178,12 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
                     {(() => {
                       const normalizedContent = normalizeWhitespace(chunk.content);
                       
+                      // ✅ 답변 문장의 근거 원문을 가장 먼저 표시
+                      if (supportHighlight && supportHighlight.chunkId === chunk.id) {
+                        const supported = highlightSupportText(normalizedContent, supportHighlight.text);
+                        if (supported) return supported;
+                      }
+                      
                       // 검색어나 질문 하이라이트가 있으면 먼저 적용
                       if (searchText.trim()) {
                         // 검색어 하이라이트 적용
@@ -1071,6 +1248,7 @@ export const SourceViewer: React.FC<SourceViewerProps> = ({
         </div>
           </div>
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ConversationThread } from '../types';
+import ConfirmDialog from './ConfirmDialog';
+import ExportMenu from './ExportMenu';
+import { ExportFormat } from '../services/answerExportService';
+
+interface ThreadListProps {
+  threads: ConversationThread[];
+  activeThreadId: string | null;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
+  onSelect: (threadId: string) => void;
+  onRename: (threadId: string, title: string) => void;
+  onTogglePin: (threadId: string, pinned: boolean) => void;
+  onDelete: (threadId: string) => void;
+  onExport: (threadId: string, format: ExportFormat) => Promise<void>;
+  onNewThread: () => void;
+}
+
+// 목록 표시용 날짜 포맷 (오늘이면 시각, 아니면 날짜)
+const formatUpdatedAt = (date: Date) => {
+  const value = new Date(date);
+  const now = new Date();
+  return value.toDateString() === now.toDateString()
+    ? value.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })
+    : value.toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' });
+};
+
+const ThreadList: React.FC<ThreadListProps> = ({
+  threads,
+  activeThreadId,
+  searchQuery,
+  onSearchChange,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport,
+  onNewThread
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ConversationThread | null>(null);
+
+  const startRename = (thread: ConversationThread) => {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-4 space-y-3 h-full overflow-y-auto sidebar-scroll">
+      <button
+        onClick={onNewThread}
+        className="w-full px-3 py-2 bg-brand-primary text-white rounded-lg hover:bg-blue-600 transition-colors text-sm"
+      >
+        + 새 대화
+      </button>
+
+      <input
+        type="text"
+        value={searchQuery}
+        onChange={(e) => onSearchChange(e.target.value)}
+        placeholder="대화 검색 (제목, 내용)"
+        className="w-full px-3 py-2 bg-brand-bg border border-brand-secondary rounded-lg text-sm text-brand-text-primary focus:outline-none focus:border-brand-primary"
+      />
+
+      {threads.length === 0 ? (
+        <p className="text-sm text-brand-text-secondary text-center py-4">
+          {searchQuery ? '검색 결과가 없습니다.' : '저장된 대화가 없습니다.'}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {threads.map(thread => (
+            <li
+              key={thread.id}
+              className={`group rounded-lg p-2 text-sm transition-colors ${
+                thread.id === activeThreadId ? 'bg-brand-secondary' : 'hover:bg-brand-secondary'
+              }`}
+            >
+              {editingId === thread.id ? (
+                <input
+                  type="text"
+                  value={editingTitle}
+                  autoFocus
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 bg-brand-bg border border-brand-primary rounded text-sm text-brand-text-primary focus:outline-none"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onSelect(thread.id)}
+                    className="flex-1 min-w-0 text-left"
+                    title={thread.title}
+                  >
+                    <div className="flex items-center gap-1">
+                      {thread.pinned && <span className="text-xs">📌</span>}
+                      <span className="truncate text-brand-text-primary font-medium">{thread.title}</span>
+                    </div>
+                    <div className="text-xs text-brand-text-secondary">
+                      {formatUpdatedAt(thread.updatedAt)} · 메시지 {thread.messages.length}개
+                    </div>
+                  </button>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onTogglePin(thread.id, !thread.pinned)}
+                      className="p-1 rounded hover:bg-brand-bg text-xs"
+                      title={thread.pinned ? '고정 해제' : '고정'}
+                    >
+                      {thread.pinned ? '📍' : '📌'}
+                    </button>
+                    <ExportMenu
+                      onExport={(format) => onExport(thread.id, format)}
+                      label="📄"
+                      title="대화 전체를 문서로 내보내기"
+                      buttonClassName="p-1 rounded hover:bg-brand-bg text-xs"
+                    />
+                    <button
+                      onClick={() => startRename(thread)}
+                      className="p-1 rounded hover:bg-brand-bg text-xs"
+                      title="이름 변경"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(thread)}
+                      className="p-1 rounded hover:bg-brand-bg text-xs"
+                      title="삭제"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        title="대화 삭제"
+        message={`"${deleteTarget?.title || ''}" 대화를 삭제합니다. 삭제한 대화는 복구할 수 없습니다.`}
+        confirmText="삭제"
+        cancelText="취소"
+        onConfirm={() => {
+          if (deleteTarget) onDelete(deleteTarget.id);
+          setDeleteTarget(null);
+        }}
+        onCancel={() => setDeleteTarget(null)}
+        isDestructive={true}
+      />
+    </div>
+  );
+};
+
+export default ThreadList;
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { githubService } from '../services/githubService';
 import { loggingService, LogLevel } from '../services/loggingService';
+import { SearchQualityPanel } from '../components/SearchQualityPanel';
+import { AnswerPolicyPanel } from '../components/AnswerPolicyPanel';
+import { FaqPanel } from '../components/FaqPanel';
 
 interface PDFFile {
   name: string;
@@ -8,6 +11,8 @@ interface PDFFile {
   lastModified: string;
 }
 
+type AdminTab = 'pdf' | 'searchQuality' | 'answerPolicy' | 'faq';
+
 interface ProcessingSettings {
   chunkSize: number;
   overlapSize: number;
@@ -28,6 +33,7 @@ const AdminPage: React.FC = () => {
   const [logs, setLogs] = useState(loggingService.getLogs());
   const [selectedLogLevel, setSelectedLogLevel] = useState<LogLevel | undefined>(undefined);
   const [showMonitoring, setShowMonitoring] = useState(false);
+  const [activeTab, setActiveTab] = useState<AdminTab>('pdf');
 
   // PDF 파일 목록 로드
   useEffect(() => {
@@ -300,6 +306,30 @@ const AdminPage: React.FC = () => {
           </div>
         )}
 
+        {/* 탭 */}
+        <div className="flex gap-2 mb-6 border-b border-brand-secondary">
+          {([['pdf', 'PDF 관리'], ['searchQuality', '검색 품질'], ['answerPolicy', '답변 정책'], ['faq', 'FAQ 관리']] as [AdminTab, string][]).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 -mb-px border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-brand-primary text-brand-primary font-medium'
+                  : 'border-transparent text-brand-text-secondary hover:text-brand-text-primary'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'searchQuality' && <SearchQualityPanel />}
+
+        {activeTab === 'answerPolicy' && <AnswerPolicyPanel />}
+        {activeTab === 'faq' && <FaqPanel />}
+
+        {activeTab === 'pdf' && (
+        <>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* PDF 관리 섹션 */}
           <div className="bg-brand-surface rounded-lg p-6">
@@ -456,6 +486,8 @@ const AdminPage: React.FC = () => {
             </div>
           </div>
         </div>
+        </>
+        )}
       </div>
     </div>
   );
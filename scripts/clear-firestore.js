@@ -1,6 +1,6 @@
 /**
  * Firestore 데이터 초기화 스크립트
- * 기존 pdf_documents와 pdf_chunks 컬렉션의 모든 데이터를 삭제
+ * 기존 pdf_documents, pdf_chunks, legal_articles, document_diffs 컬렉션의 모든 데이터를 삭제
  */
 
 import { initializeApp } from 'firebase/app';
@@ -102,10 +102,40 @@ async function clearFirestore() {
       console.log('📦 pdf_chunks 컬렉션이 비어있습니다.');
     }
     
+    // legal_articles 컬렉션 일괄 삭제 (법령 조문 인덱스)
+    console.log('⚖️ legal_articles 컬렉션 일괄 삭제 중...');
+    const articlesSnapshot = await getDocs(collection(db, 'legal_articles'));
+    const articles = articlesSnapshot.docs;
+    
+    for (let i = 0; i < articles.length; i += 400) {
+      const batch = writeBatch(db);
+      articles.slice(i, i + 400).forEach(articleSnapshot => {
+        batch.delete(doc(db, 'legal_articles', articleSnapshot.id));
+      });
+      await batch.commit();
+    }
+    console.log(`✅ legal_articles 삭제 완료: ${articles.length}개`);
+    
+    // document_diffs 컬렉션 일괄 삭제 (판본 비교 결과)
+    console.log('📑 document_diffs 컬렉션 일괄 삭제 중...');
+    const diffsSnapshot = await getDocs(collection(db, 'document_diffs'));
+    const diffs = diffsSnapshot.docs;
+    
+    for (let i = 0; i < diffs.length; i += 200) {
+      const batch = writeBatch(db);
+      diffs.slice(i, i + 200).forEach(diffSnapshot => {
+        batch.delete(doc(db, 'document_diffs', diffSnapshot.id));
+      });
+      await batch.commit();
+    }
+    console.log(`✅ document_diffs 삭제 완료: ${diffs.length}개`);
+    
     console.log('\n🎉 Firestore 데이터 일괄 초기화 완료!');
     console.log(`📊 삭제된 데이터:`);
     console.log(`  - 문서: ${documents.length}개`);
     console.log(`  - 청크: ${totalDeleted}개`);
+    console.log(`  - 조문: ${articles.length}개`);
+    console.log(`  - 판본 비교: ${diffs.length}개`);
     
   } catch (error) {
     console.error('❌ 초기화 실패:', error);
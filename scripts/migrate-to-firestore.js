@@ -7,9 +7,13 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, addDoc, writeBatch, Timestamp, query, where, getDocs, deleteDoc, doc } from 'firebase/firestore';
-import { createRequire } from 'module';
+import { getFirestore, collection, addDoc, updateDoc, writeBatch, Timestamp, query, where, getDocs, deleteDoc, doc } from 'firebase/firestore';
 import dotenv from 'dotenv';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { extractKeywords as extractTokenKeywords, tokenizeForIndex, INDEX_TOKENIZER } from '../services/koreanTokenizer.js';
+import { chunkByStructure, formatChunkingStats, CHUNKER_VERSION } from '../services/structureAwareChunker.js';
+import { buildPageMap, findPageAt, getPageSpan, PAGE_MAP_VERSION } from '../services/pdfPageMap.js';
+import { extractTablesFromTextItems, formatTableMarkdown, tableToSearchText, TABLE_EXTRACTOR_VERSION } from '../services/pdfTableExtractor.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -24,9 +28,6 @@ if (fs.existsSync(envLocalPath)) {
 // .env 파일 로드 (기본값, .env.local이 없을 때 사용)
 dotenv.config();
 
-const require = createRequire(import.meta.url);
-const pdfParse = require('pdf-parse');
-
 // ✅ 동의어 사전 로드
 let synonymDictionary = null;
 try {
@@ -95,23 +96,57 @@ function getPdfFiles() {
   return manifest;
 }
 
-// PDF 파일 파싱
+// PDF 파일 파싱 (pdf.js로 페이지별 텍스트 추출 → 페이지 맵 생성, 좌표 기반 표 추출)
 async function parsePdfFile(pdfPath) {
+  let pdfDocument = null;
   try {
-    const dataBuffer = fs.readFileSync(pdfPath);
-    // pdf-parse 모듈에서 PDFParse 클래스를 가져와 사용
-    const PDFParse = pdfParse.PDFParse || pdfParse;
-    const instance = new PDFParse({ data: dataBuffer });
-    const data = await instance.getText();
-    
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    pdfDocument = await getDocument({ data, useSystemFonts: true, disableFontFace: true, verbosity: 0 }).promise;
+
+    const pageTexts = [];
+    const tables = [];
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      let pageText = '';
+      for (const item of textContent.items) {
+        if (typeof item.str !== 'string') continue;
+        pageText += item.str;
+        if (item.hasEOL) pageText += '\n';
+      }
+      pageTexts.push(pageText);
+      
+      // ✅ 텍스트 좌표로 표 영역을 찾아 행·열 구조로 보존 (평문 추출에서는 칸 구분이 사라짐)
+      try {
+        extractTablesFromTextItems(textContent.items, { pageWidth: page.view[2] })
+          .forEach(table => tables.push({ ...table, page: pageNumber }));
+      } catch (error) {
+        console.warn(`⚠️ 표 추출 실패 (${pageNumber}페이지):`, error.message);
+      }
+      page.cleanup();
+    }
+
+    const { text, pages: pageMap } = buildPageMap(pageTexts);
+    const printedCount = pageMap.filter(entry => entry.printedPage !== null).length;
+    console.log(`📄 페이지 맵: ${pageMap.length}페이지 (인쇄 쪽 번호 확인 ${printedCount}페이지)`);
+    if (tables.length > 0) {
+      console.log(`📊 표 추출 (${TABLE_EXTRACTOR_VERSION}): ${tables.length}개 (${[...new Set(tables.map(table => table.page))].join(', ')}페이지)`);
+    }
+
     return {
-      text: data.text,
-      pages: data.total,
+      text,
+      pages: pdfDocument.numPages,
+      pageMap,
+      tables,
       info: {}
     };
   } catch (error) {
     console.error(`PDF 파싱 실패: ${pdfPath}`, error);
     throw error;
+  } finally {
+    if (pdfDocument) {
+      await pdfDocument.destroy();
+    }
   }
 }
 
@@ -244,6 +279,59 @@ async function clearAllExistingData() {
       console.log(`  ✅ 문서 삭제 완료: ${deletedDocs}개`);
     }
     
+    // 3. 모든 법령 조문 인덱스 삭제
+    console.log('⚖️ 모든 법령 조문 인덱스 삭제 중...');
+    const allArticlesSnapshot = await getDocs(query(collection(db, 'legal_articles')));
+    
+    if (allArticlesSnapshot.empty) {
+      console.log('  ✓ 기존 조문 인덱스 없음');
+    } else {
+      const articleDocs = allArticlesSnapshot.docs;
+      let deletedArticles = 0;
+      
+      // 조문 노드는 크기가 작으므로 400개씩 삭제 (WriteBatch 최대 500개)
+      for (let i = 0; i < articleDocs.length; i += 400) {
+        const batch = writeBatch(db);
+        articleDocs.slice(i, i + 400).forEach(articleDoc => batch.delete(articleDoc.ref));
+        await batch.commit();
+        deletedArticles += Math.min(400, articleDocs.length - i);
+      }
+      
+      console.log(`  ✅ 조문 인덱스 삭제 완료: ${deletedArticles}개`);
+    }
+    
+    // 4. 모든 판본 비교 결과 삭제 (PDF에서 다시 생성)
+    console.log('📑 모든 판본 비교 결과 삭제 중...');
+    const allDiffsSnapshot = await getDocs(query(collection(db, 'document_diffs')));
+    
+    if (allDiffsSnapshot.empty) {
+      console.log('  ✓ 기존 판본 비교 결과 없음');
+    } else {
+      const diffDocs = allDiffsSnapshot.docs;
+      for (let i = 0; i < diffDocs.length; i += 200) {
+        const batch = writeBatch(db);
+        diffDocs.slice(i, i + 200).forEach(diffDoc => batch.delete(diffDoc.ref));
+        await batch.commit();
+      }
+      console.log(`  ✅ 판본 비교 결과 삭제 완료: ${diffDocs.length}개`);
+    }
+    
+    // 5. 모든 표 삭제 (PDF에서 다시 추출)
+    console.log('📊 모든 표 삭제 중...');
+    const allTablesSnapshot = await getDocs(query(collection(db, 'pdf_tables')));
+    
+    if (allTablesSnapshot.empty) {
+      console.log('  ✓ 기존 표 없음');
+    } else {
+      const tableDocs = allTablesSnapshot.docs;
+      for (let i = 0; i < tableDocs.length; i += 200) {
+        const batch = writeBatch(db);
+        tableDocs.slice(i, i + 200).forEach(tableDoc => batch.delete(tableDoc.ref));
+        await batch.commit();
+      }
+      console.log(`  ✅ 표 삭제 완료: ${tableDocs.length}개`);
+    }
+    
     const endTime = Date.now();
     const duration = ((endTime - startTime) / 1000).toFixed(2);
     console.log(`✅ 전체 데이터 삭제 완료 (${duration}초)`);
@@ -255,121 +343,828 @@ async function clearAllExistingData() {
 }
 
 
-// 개별 청크를 Firestore에 저장
-async function saveChunkToFirestore(documentId, filename, chunk, index, position, totalTextLength = 0, totalPages = 0) {
-  try {
-    const keywords = extractKeywords(chunk);
-    // ✅ 페이지 번호 계산 (텍스트 위치 기반)
-    const pageNumber = totalPages > 0 && totalTextLength > 0
-      ? calculatePageNumber(position, totalTextLength, totalPages)
-      : 1; // 페이지 정보가 없으면 기본값 1
-    
-    const chunkData = {
-      documentId: documentId,
-      filename: filename,
-      content: chunk,
-      keywords: keywords,
-      metadata: {
-        position: index,
-        startPos: position,
-        endPos: position + chunk.length,
-        originalSize: chunk.length,
-        source: 'Direct PDF Processing',
-        page: pageNumber // ✅ 페이지 정보 추가
-      },
-      searchableText: chunk.toLowerCase(),
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now()
+// ✅ 법령 조문 계층 파싱 (법률 → 시행령 → 시행규칙, 조/항/호/목)
+// 국가법령정보센터 PDF 형식: "[시행 ...] [법률|대통령령|OO부령 제N호 ...]" 헤더로 법령 구분,
+// 조문 페이지는 pdf.js 페이지 맵에서 시작 위치로 계산 ("법제처 - N / M" 머리글은 건너뜀)
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩⑪⑫⑬⑭⑮⑯⑰⑱⑲⑳';
+const LEGAL_NODE_DEPTH = { '조': 0, '항': 1, '호': 2, '목': 3 };
+
+function getLawLevel(enactmentType, lawName) {
+  if (enactmentType === '법률') return '법률';
+  if (enactmentType === '대통령령') return '시행령';
+  if (enactmentType && /령$/.test(enactmentType)) return '시행규칙'; // 총리령, OO부령
+  if (lawName.includes('시행규칙')) return '시행규칙';
+  if (lawName.includes('시행령')) return '시행령';
+  return '법률';
+}
+
+function formatLegalCitation(lawName, article, paragraph, item, subItem) {
+  let citation = `${lawName} 제${article.replace('의', '조의')}`;
+  if (!article.includes('의')) citation += '조';
+  if (paragraph) citation += `제${paragraph}항`;
+  if (item) citation += item.includes('의') ? `제${item.replace('의', '호의')}` : `제${item}호`;
+  if (subItem) citation += `${subItem}목`;
+  return citation;
+}
+
+// 날짜 문자열 변환: (2025, 7, 31) → "2025-07-31"
+function toIsoDate(year, month, day) {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// 전날 날짜: "2026-03-19" → "2026-03-18"
+function previousIsoDate(isoDate) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// 시행 예정 조문과 그 하위 노드에 시행일을 기록하고, 같은 경로의 현행 조문은 시행일 전날까지 유효로 표시
+function applyFutureEffectiveDate(nodes, lawName, marker) {
+  const effectiveFrom = toIsoDate(marker[1], marker[2], marker[3]);
+  const article = marker[5] ? `${marker[4]}의${marker[5]}` : marker[4];
+  const paragraph = marker[6] ? parseInt(marker[6], 10) : null;
+
+  const target = [...nodes].reverse().find(node =>
+    node.lawName === lawName &&
+    node.article === article &&
+    (paragraph ? node.nodeType === '항' && node.paragraph === paragraph : node.nodeType === '조')
+  );
+  if (!target) return;
+
+  const isSameProvision = (node) => node.path === target.path || node.path.startsWith(`${target.path}/`);
+  nodes.forEach(node => {
+    if (!isSameProvision(node)) return;
+    if (node.startPos >= target.startPos) {
+      node.effectiveFrom = effectiveFrom;
+    } else if (!node.effectiveTo) {
+      node.effectiveTo = previousIsoDate(effectiveFrom);
+    }
+  });
+}
+
+function parseLegalArticleTree(text, filename, pageMap = []) {
+  const nodes = [];
+  const openNodes = []; // 현재 열린 노드 스택 (조 → 항 → 호 → 목)
+  let currentLaw = null;
+  let previousLine = '';
+  let inSupplementary = false; // 부칙 영역은 본문 조문에서 제외
+  let offset = 0;
+
+  // 지정한 깊이 이상의 열린 노드를 모두 닫음
+  const closeNodes = (depth, endPos) => {
+    while (openNodes.length > 0 && LEGAL_NODE_DEPTH[openNodes[openNodes.length - 1].nodeType] >= depth) {
+      openNodes.pop().endPos = endPos;
+    }
+  };
+
+  const openNode = (nodeType, startPos, fields, heading) => {
+    const depth = LEGAL_NODE_DEPTH[nodeType];
+    closeNodes(depth, startPos);
+    // 항이 없는 조에서는 호가 조 바로 아래에 위치하므로 가장 가까운 상위 노드를 부모로 사용
+    const parent = openNodes.length > 0 ? openNodes[openNodes.length - 1] : null;
+    if (depth > 0 && !parent) return;
+
+    const article = fields.article || parent?.article;
+    const paragraph = nodeType === '항' ? fields.paragraph : (parent?.paragraph || null);
+    const item = nodeType === '호' ? fields.item : (parent?.item || null);
+    const subItem = nodeType === '목' ? fields.subItem : null;
+    const path = [currentLaw.name, article, paragraph || '-', item || '-', subItem || '-']
+      .slice(0, depth + 2)
+      .join('/');
+
+    const node = {
+      filename,
+      lawName: currentLaw.name,
+      lawLevel: currentLaw.level,
+      nodeType,
+      article,
+      paragraph,
+      item,
+      subItem,
+      title: fields.title || parent?.title || '',
+      citation: formatLegalCitation(currentLaw.name, article, paragraph, item, subItem),
+      path,
+      parentPath: parent ? parent.path : null,
+      page: findPageAt(pageMap, startPos)?.page || 1, // ✅ 페이지 맵 기준 (조문 시작 위치)
+      startPos,
+      endPos: text.length,
+      heading: heading.substring(0, 200),
+      effectiveFrom: null, // 시행 예정 조문의 시행일 (YYYY-MM-DD)
+      effectiveTo: null,   // 시행 예정 조문으로 대체되는 현행 조문의 마지막 유효일
+      chunkIds: []
     };
+    nodes.push(node);
+    openNodes.push(node);
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const lineStart = offset;
+    offset += rawLine.length + 1;
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line) continue;
+
+    // 페이지 머리글: "법제처 - 3 / 34 - 국가법령정보센터" (페이지는 페이지 맵에서 계산)
+    if (/^법제처 - \d+ \/ \d+ - 국가법령정보센터/.test(line)) {
+      continue;
+    }
+
+    // 법령 헤더: "[시행 2025. 7. 31.] [법률 제20171호, ...]" (직전 줄이 법령명)
+    const lawHeader = line.match(/^\[시행 [^\]]*\] \[([가-힣]+) 제\d+호/);
+    if (lawHeader) {
+      closeNodes(0, lineStart);
+      const lawName = previousLine.replace(/\(\s*약칭:[^)]*\)/, '').trim();
+      currentLaw = { name: lawName, level: getLawLevel(lawHeader[1], lawName) };
+      inSupplementary = false;
+      continue;
+    }
+    previousLine = line;
+
+    if (!currentLaw) continue;
+
+    // 시행 예정 조문: 개정 조문 뒤의 "[시행일: 2026. 3. 19.] 제8조" 표기 → 직전 같은 조문(항)에 시행일 기록
+    const futureMarker = line.match(/^\[시행일: (\d{4})\. (\d{1,2})\. (\d{1,2})\.\] 제(\d+)조(?:의(\d+))?(?:제(\d+)항)?/);
+    if (futureMarker) {
+      applyFutureEffectiveDate(nodes, currentLaw.name, futureMarker);
+      continue;
+    }
+
+    if (/^부칙( |$)/.test(line)) {
+      closeNodes(0, lineStart);
+      inSupplementary = true;
+      continue;
+    }
+    if (inSupplementary) continue;
+
+    // 조: "제3조의2(보건의 날) ① ..." 또는 "제5조의2 삭제"
+    const articleMatch = line.match(/^제(\d+)조(?:의(\d+))? ?(?:\(([^)]*)\)|(?=삭제))/);
+    if (articleMatch) {
+      const article = articleMatch[2] ? `${articleMatch[1]}의${articleMatch[2]}` : articleMatch[1];
+      openNode('조', lineStart, { article, title: articleMatch[3] || '' }, line);
+
+      // 조 제목 뒤에 바로 시작하는 제1항 처리
+      const rest = line.substring(articleMatch[0].length).trim();
+      const inlineParagraph = CIRCLED_NUMBERS.indexOf(rest.charAt(0));
+      if (inlineParagraph >= 0) {
+        openNode('항', lineStart + rawLine.indexOf(rest.charAt(0)), { paragraph: inlineParagraph + 1 }, rest);
+      }
+      continue;
+    }
+
+    // 항: "② ..."
+    const paragraphIndex = CIRCLED_NUMBERS.indexOf(line.charAt(0));
+    if (paragraphIndex >= 0) {
+      openNode('항', lineStart, { paragraph: paragraphIndex + 1 }, line);
+      continue;
+    }
+
+    // 호: "1. ...", "6의2. ..." (개정 이력 "12. 13., 2008. 2. 29.>" 같은 날짜 줄은 제외)
+    const itemMatch = line.match(/^(\d+)(?:의(\d+))?\.(?! ?\d)/);
+    if (itemMatch) {
+      const item = itemMatch[2] ? `${itemMatch[1]}의${itemMatch[2]}` : itemMatch[1];
+      openNode('호', lineStart, { item }, line);
+      continue;
+    }
+
+    // 목: "가. ..."
+    const subItemMatch = line.match(/^([가-하])\. /);
+    if (subItemMatch) {
+      openNode('목', lineStart, { subItem: subItemMatch[1] }, line);
+    }
+  }
+
+  closeNodes(0, text.length);
+  return nodes;
+}
+
+// ✅ 조문 간 상호 참조 그래프 구성
+// - 명시적 참조: "법 제9조제4항에 따라", "영 제34조제2항에 따른", "제3조제1항에 따른"
+// - 위임 참조: "대통령령으로 정하는" → 해당 조를 "법 제N조"로 인용하는 시행령 조문
+const DELEGATION_LEVELS = { '대통령령': '시행령', '총리령': '시행규칙' };
+
+function getLawFamily(lawName) {
+  return lawName.replace(/\s*(시행령|시행규칙)$/, '').trim();
+}
+
+function buildCrossReferenceGraph(legalNodes, text) {
+  const nodeByKey = new Map();
+  legalNodes.forEach(node => {
+    nodeByKey.set([node.lawName, node.article, node.paragraph || '', node.item || '', node.subItem || ''].join('|'), node);
+  });
+  const lawNames = new Set(legalNodes.map(node => node.lawName));
+
+  // 같은 법령 계열(법률/시행령/시행규칙)에서 수준에 맞는 법령명 찾기
+  const findLawName = (family, level) => {
+    return Array.from(lawNames).find(name =>
+      getLawFamily(name) === family && legalNodes.some(node => node.lawName === name && node.lawLevel === level)
+    );
+  };
+
+  // 항/호까지 일치하는 가장 구체적인 노드, 없으면 상위 노드로 대체
+  const findTarget = (lawName, article, paragraph, item) => {
+    return nodeByKey.get([lawName, article, paragraph || '', item || '', ''].join('|'))
+      || nodeByKey.get([lawName, article, paragraph || '', '', ''].join('|'))
+      || nodeByKey.get([lawName, article, '', '', ''].join('|'));
+  };
+
+  // 조 단위 노드와 하위 노드 범위
+  const articleNodes = legalNodes.filter(node => node.nodeType === '조');
+  const findDeepestNode = (articleNode, position) => {
+    let deepest = articleNode;
+    legalNodes.forEach(node => {
+      if (node.lawName === articleNode.lawName && node.startPos <= position && node.endPos > position &&
+          node.path.startsWith(articleNode.path + '/') && node.path.length > deepest.path.length) {
+        deepest = node;
+      }
+    });
+    return deepest;
+  };
+
+  const referencePattern = /제(\d+)조(?:의(\d+))?(?:\s*제(\d+)항)?(?:\s*제(\d+)호(?:의(\d+))?)?/g;
+  const reverseReferences = new Map(); // 대상 조 path → 참조하는 조문 목록
+
+  // 1단계: 명시적 참조
+  articleNodes.forEach(articleNode => {
+    articleNode.references = [];
+    const body = text.slice(articleNode.startPos, articleNode.endPos);
+    const family = getLawFamily(articleNode.lawName);
+    let match;
+
+    referencePattern.lastIndex = 0;
+    while ((match = referencePattern.exec(body)) !== null) {
+      // 조 제목 자체("제9조(금연을 위한 조치)")는 제외
+      if (match.index === 0) continue;
+
+      const before = body.slice(Math.max(0, match.index - 40), match.index).replace(/\s+/g, ' ').trimEnd();
+      let targetLawName = articleNode.lawName;
+      const quoted = before.match(/「([^」]+)」$/);
+      const lastWord = (before.match(/(?:^|[^가-힣])([가-힣]+)$/) || [])[1] || '';
+
+      if (quoted) {
+        targetLawName = lawNames.has(quoted[1]) ? quoted[1] : null; // 다른 법령은 문서에 있을 때만 연결
+      } else if (/같은 법$/.test(before)) {
+        targetLawName = null; // 앞서 인용한 다른 법령 → 해석 불가
+      } else if (lastWord === '법') {
+        targetLawName = findLawName(family, '법률');
+      } else if (lastWord === '영') {
+        targetLawName = findLawName(family, '시행령');
+      } else if (lastWord === '규칙') {
+        targetLawName = findLawName(family, '시행규칙');
+      } else if (/(법|령|규칙)$/.test(lastWord) && lastWord.length > 1) {
+        targetLawName = lawNames.has(lastWord) ? lastWord : null;
+      }
+      if (!targetLawName) continue;
+
+      const article = match[2] ? `${match[1]}의${match[2]}` : match[1];
+      const item = match[4] ? (match[5] ? `${match[4]}의${match[5]}` : match[4]) : null;
+      const target = findTarget(targetLawName, article, match[3] ? parseInt(match[3], 10) : null, item);
+      if (!target || target.path.split('/').slice(0, 2).join('/') === articleNode.path) continue;
+
+      const source = findDeepestNode(articleNode, articleNode.startPos + match.index);
+      if (articleNode.references.some(ref => ref.targetPath === target.path && ref.sourcePath === source.path)) continue;
+
+      const prefix = lastWord === '법' || lastWord === '영' || lastWord === '규칙' ? `${lastWord} ` : '';
+      articleNode.references.push({
+        sourcePath: source.path,
+        sourceCitation: source.citation,
+        targetPath: target.path,
+        targetCitation: target.citation,
+        relation: 'explicit',
+        phrase: `${prefix}${match[0].replace(/\s+/g, '')}`
+      });
+
+      const targetArticlePath = target.path.split('/').slice(0, 2).join('/');
+      if (!reverseReferences.has(targetArticlePath)) reverseReferences.set(targetArticlePath, []);
+      reverseReferences.get(targetArticlePath).push({ articleNode, targetPath: target.path });
+    }
+  });
+
+  // 2단계: 위임 참조 ("대통령령으로 정하는" → 이 조를 인용하는 하위 법령 조문)
+  articleNodes.forEach(articleNode => {
+    const body = text.slice(articleNode.startPos, articleNode.endPos);
+    const delegationPattern = /(대통령령|총리령|[가-힣]{1,10}부령)으로\s*정하/g;
+    let match;
+
+    while ((match = delegationPattern.exec(body)) !== null) {
+      const targetLevel = DELEGATION_LEVELS[match[1]] || '시행규칙';
+      const source = findDeepestNode(articleNode, articleNode.startPos + match.index);
+      const candidates = (reverseReferences.get(articleNode.path) || []).filter(ref =>
+        ref.articleNode.lawLevel === targetLevel &&
+        getLawFamily(ref.articleNode.lawName) === getLawFamily(articleNode.lawName)
+      );
+      // 같은 항/호를 인용하는 하위 조문을 우선 연결
+      const exact = candidates.filter(ref => ref.targetPath === source.path || ref.targetPath.startsWith(source.path + '/'));
+
+      (exact.length > 0 ? exact : candidates).slice(0, 3).forEach(ref => {
+        if (articleNode.references.some(existing => existing.targetPath === ref.articleNode.path && existing.sourcePath === source.path)) return;
+        articleNode.references.push({
+          sourcePath: source.path,
+          sourceCitation: source.citation,
+          targetPath: ref.articleNode.path,
+          targetCitation: ref.articleNode.citation,
+          relation: 'delegation',
+          phrase: `${match[1]}으로 정하는`
+        });
+      });
+    }
+  });
+
+  return articleNodes.reduce((sum, node) => sum + node.references.length, 0);
+}
+
+// 청크 범위와 겹치는 조문 노드에 청크 ID 연결, 청크에 포함된 조 단위 인용 목록 반환
+function linkLegalArticlesToChunk(legalNodes, chunkId, startPos, endPos) {
+  const articles = [];
+  legalNodes.forEach(node => {
+    if (node.startPos < endPos && node.endPos > startPos) {
+      node.chunkIds.push(chunkId);
+      if (node.nodeType === '조') {
+        articles.push(node.citation);
+      }
+    }
+  });
+  return articles;
+}
+
+// 청크가 걸친 페이지의 표에 청크 ID 연결 (검색된 청크에서 같은 페이지의 표를 찾기 위함)
+function linkTablesToChunk(tables, chunkId, pageSpan) {
+  if (!pageSpan) return;
+  tables.forEach(table => {
+    if (table.page >= pageSpan.page && table.page <= pageSpan.pageEnd) {
+      table.chunkIds.push(chunkId);
+    }
+  });
+}
+
+// 추출한 표를 Firestore에 일괄 저장 (Firestore는 중첩 배열을 지원하지 않으므로 행은 { cells } 객체로 저장)
+async function saveDocumentTablesBatch(documentId, filename, tables, pageMap = []) {
+  let savedCount = 0;
+  for (let i = 0; i < tables.length; i += 200) {
+    try {
+      const batch = writeBatch(db);
+      tables.slice(i, i + 200).forEach((table, offset) => {
+        const pageEntry = pageMap[table.page - 1];
+        batch.set(doc(collection(db, 'pdf_tables')), {
+          documentId,
+          filename,
+          documentTitle: filename.replace('.pdf', ''),
+          tableIndex: i + offset,
+          page: table.page, // ✅ 물리 페이지 (PDF 뷰어 이동 기준)
+          ...(pageEntry && pageEntry.printedPage !== null ? { printedPage: pageEntry.printedPage } : {}), // ✅ 인쇄 쪽 번호 (인용 기준)
+          title: table.title || '',
+          headers: table.headers,
+          rows: table.rows.map(cells => ({ cells })),
+          markdown: formatTableMarkdown(table),
+          searchText: tableToSearchText(table),
+          chunkIds: table.chunkIds,
+          extractor: TABLE_EXTRACTOR_VERSION,
+          createdAt: Timestamp.now()
+        });
+      });
+      await batch.commit();
+      savedCount += Math.min(200, tables.length - i);
+    } catch (error) {
+      console.error(`❌ 표 배치 저장 실패:`, error.message);
+    }
+  }
+  console.log(`  📊 표 저장 완료: ${savedCount}/${tables.length}개`);
+  return savedCount;
+}
+
+// 조문 노드를 Firestore에 일괄 저장 (WriteBatch 최대 500개 제한)
+async function saveLegalArticlesBatch(documentId, legalNodes) {
+  let savedCount = 0;
+  for (let i = 0; i < legalNodes.length; i += 400) {
+    try {
+      const batch = writeBatch(db);
+      legalNodes.slice(i, i + 400).forEach(node => {
+        const docRef = doc(collection(db, 'legal_articles'));
+        batch.set(docRef, {
+          ...node,
+          documentId,
+          createdAt: Timestamp.now()
+        });
+      });
+      await batch.commit();
+      savedCount += Math.min(400, legalNodes.length - i);
+    } catch (error) {
+      console.error(`❌ 조문 인덱스 배치 저장 실패:`, error.message);
+    }
+  }
+  console.log(`  ⚖️ 조문 인덱스 저장 완료: ${savedCount}/${legalNodes.length}개`);
+  return savedCount;
+}
+
+// ✅ 판본(개정판) 관리: 파일명에서 판본 그룹과 버전 추출
+// 예: "금연구역 지정 관리 업무지침_2025개정판.pdf" → { editionGroup: "금연구역 지정 관리 업무지침", version: "2025" }
+//     "국민건강증진법률 시행령 시행규칙(202508).pdf" → { editionGroup: "국민건강증진법률 시행령 시행규칙", version: "2025.08" }
+function parseEditionInfo(filename) {
+  const title = filename.replace(/\.pdf$/i, '').trim();
+  let match;
+  
+  if ((match = title.match(/^(.*?)[_\s]*(\d{4})\s*개정판$/))) {
+    return { editionGroup: match[1].trim(), version: match[2] };
+  }
+  if ((match = title.match(/^(.*?)\s*\((\d{4})(\d{2})(\d{2})?\)$/))) {
+    return { editionGroup: match[1].trim(), version: [match[2], match[3], match[4]].filter(Boolean).join('.') };
+  }
+  if ((match = title.match(/^(\d{4})년\s+(.*)$/))) {
+    return { editionGroup: match[2].trim(), version: match[1] };
+  }
+  if ((match = title.match(/^(.*?)_(\d{2})(\d{2})(\d{2})$/))) {
+    return { editionGroup: match[1].trim(), version: `20${match[2]}.${match[3]}.${match[4]}` };
+  }
+  if ((match = title.match(/^(.*?)\s+(\d{4})(?:\.(\d{1,2}))?$/))) {
+    return { editionGroup: match[1].trim(), version: match[3] ? `${match[2]}.${match[3].padStart(2, '0')}` : match[2] };
+  }
+  return { editionGroup: title, version: '' };
+}
+
+// 문서 시행일 결정
+// 법령: "[시행 2025. 7. 31.]" 헤더 중 판본 날짜 이전의 가장 늦은 날짜 (여러 법령을 묶은 PDF는 마지막 시행 기준으로 편집됨)
+// 그 외: 판본 표기 ("2025" → 2025-01-01, "2025.08" → 2025-08-01, "2023.03.20" → 2023-03-20)
+function getDocumentEffectiveFrom(text, version) {
+  const versionMatch = (version || '').match(/^(\d{4})(?:\.(\d{2}))?(?:\.(\d{2}))?$/);
+  const versionDate = versionMatch ? toIsoDate(versionMatch[1], versionMatch[2] || 1, versionMatch[3] || 1) : null;
+  
+  const enforcementDates = [...text.matchAll(/^\[시행\s+(\d{4})\.\s*(\d{1,2})\.\s*(\d{1,2})\.\]/gm)]
+    .map(match => toIsoDate(match[1], match[2], match[3]))
+    .sort();
+  // 판본 날짜 이후에 시행되는 법령(공포 후 시행 대기)은 판본 시행일 계산에서 제외
+  // (판본이 연도만 있으면 제외하지 않음, 월까지만 있으면 해당 월 말일까지 포함)
+  const cutoffDate = versionMatch && versionMatch[2]
+    ? (versionMatch[3] ? versionDate : `${versionDate.slice(0, 7)}-31`)
+    : null;
+  const enforcedDates = cutoffDate
+    ? enforcementDates.filter(date => date <= cutoffDate)
+    : enforcementDates;
+  if (enforcedDates.length > 0) {
+    return enforcedDates[enforcedDates.length - 1];
+  }
+  if (enforcementDates.length > 0) {
+    return enforcementDates[0];
+  }
+  
+  return versionDate;
+}
+
+// 같은 판본 그룹 안에서 다음 판본 시행일 전날을 이전 판본의 종료일로 저장
+async function updateEditionEffectiveRanges(documentEditions) {
+  const groups = new Map();
+  documentEditions
+    .filter(edition => edition.effectiveFrom)
+    .forEach(edition => {
+      if (!groups.has(edition.editionGroup)) {
+        groups.set(edition.editionGroup, []);
+      }
+      groups.get(edition.editionGroup).push(edition);
+    });
+  
+  let updatedCount = 0;
+  for (const editions of groups.values()) {
+    editions.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    for (let i = 0; i < editions.length - 1; i++) {
+      const effectiveTo = previousIsoDate(editions[i + 1].effectiveFrom);
+      try {
+        await updateDoc(doc(db, 'pdf_documents', editions[i].documentId), { effectiveTo });
+        updatedCount++;
+        console.log(`📅 ${editions[i].editionGroup} ${editions[i].version || ''}: ${editions[i].effectiveFrom} ~ ${effectiveTo}`);
+      } catch (error) {
+        console.error(`❌ 판본 유효기간 저장 실패: ${editions[i].documentId}`, error.message);
+      }
+    }
+  }
+  return updatedCount;
+}
+
+// 매니페스트의 파일을 판본 그룹별로 묶어 최신판/직전판 결정
+function buildEditionPlan(pdfFiles) {
+  const groups = new Map();
+  pdfFiles.forEach(filename => {
+    const info = parseEditionInfo(filename);
+    if (!groups.has(info.editionGroup)) {
+      groups.set(info.editionGroup, []);
+    }
+    groups.get(info.editionGroup).push({ filename, ...info });
+  });
+  
+  const plan = new Map();
+  groups.forEach(editions => {
+    editions.sort((a, b) => a.version.localeCompare(b.version));
+    editions.forEach((edition, i) => {
+      plan.set(edition.filename, {
+        editionGroup: edition.editionGroup,
+        version: edition.version,
+        isLatestEdition: i === editions.length - 1,
+        editionCount: editions.length,
+        previousFilename: i > 0 ? editions[i - 1].filename : null
+      });
+    });
+  });
+  return plan;
+}
+
+// 판본 비교용 섹션 추출
+// 법령: 조 단위 (조문 인덱스 활용), 그 외: "제N장"/"Ⅰ." 및 "1. 제목" 형태의 제목 줄 단위
+const SECTION_HEADING_PATTERNS = [
+  { level: 1, regex: /^(?:제\s*\d+\s*[장편]|[ⅠⅡⅢⅣⅤⅥⅦⅧⅨⅩ]+\.?|[IVX]+\.)\s+(\S.*)$/ },
+  { level: 2, regex: /^\d{1,2}\.\s*([가-힣「].*)$/ }
+];
+
+function normalizeSectionKey(title) {
+  return title.replace(/[\s·ㆍ.,()「」]/g, '');
+}
+
+function extractDocumentSections(text, legalNodes = []) {
+  // 법령 문서는 조 노드를 그대로 섹션으로 사용
+  if (legalNodes.length > 0) {
+    const seen = new Map();
+    return legalNodes
+      .filter(node => node.nodeType === '조')
+      .map(node => {
+        const baseKey = `${node.lawName}|제${node.article}조`;
+        const count = (seen.get(baseKey) || 0) + 1;
+        seen.set(baseKey, count);
+        return {
+          key: count > 1 ? `${baseKey}#${count}` : baseKey,
+          title: `${node.citation}${node.title ? `(${node.title})` : ''}`,
+          page: node.page,
+          text: text.slice(node.startPos, node.endPos)
+        };
+      });
+  }
+  
+  const sections = [];
+  const seen = new Map();
+  let currentParent = '';
+  let current = null;
+  let currentPage = 1;
+  
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const pageMarker = line.match(/^-- (\d+) of \d+ --$/);
+    if (pageMarker) {
+      currentPage = parseInt(pageMarker[1], 10) + 1;
+      return;
+    }
     
-    await addDoc(collection(db, 'pdf_chunks'), chunkData);
-    return true;
-  } catch (error) {
-    console.error(`❌ 청크 ${index + 1} 저장 실패:`, error.message);
-    return false;
+    // 목차 줄(탭 + 쪽번호)과 본문 문장은 제목에서 제외
+    const isHeadingCandidate = line.length >= 3 && line.length <= 40 &&
+      !line.includes('\t') && !/다\.?$/.test(line) && !/[,:]$/.test(line);
+    const heading = isHeadingCandidate
+      ? SECTION_HEADING_PATTERNS.map(pattern => ({ level: pattern.level, match: line.match(pattern.regex) })).find(h => h.match)
+      : null;
+    
+    if (heading) {
+      if (heading.level === 1) {
+        currentParent = normalizeSectionKey(heading.match[1]);
+      }
+      const baseKey = heading.level === 1
+        ? currentParent
+        : `${currentParent}>${normalizeSectionKey(heading.match[1])}`;
+      const count = (seen.get(baseKey) || 0) + 1;
+      seen.set(baseKey, count);
+      
+      current = { key: count > 1 ? `${baseKey}#${count}` : baseKey, title: line, page: currentPage, lines: [] };
+      sections.push(current);
+      return;
+    }
+    
+    if (current && line) {
+      current.lines.push(line);
+    }
+  });
+  
+  return sections
+    .filter(section => section.lines.length > 0)
+    .map(({ lines, ...section }) => ({ ...section, text: lines.join('\n') }));
+}
+
+// 비교용 줄 정규화 (빈 줄, 쪽번호, 페이지 구분자 제거)
+function toComparableLines(text) {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line && !/^\d+$/.test(line) && !/^-- \d+ of \d+ --$/.test(line) && !/^법제처 - \d+ \/ \d+ -/.test(line));
+}
+
+// 줄 단위 LCS 비교 (대용량은 집합 비교로 대체)
+function diffLines(baseLines, targetLines) {
+  const n = baseLines.length;
+  const m = targetLines.length;
+  
+  if (n * m > 4000000) {
+    const baseSet = new Set(baseLines);
+    const targetSet = new Set(targetLines);
+    const removed = baseLines.filter(line => !targetSet.has(line));
+    const added = targetLines.filter(line => !baseSet.has(line));
+    const common = n - removed.length;
+    return { removed, added, similarity: n + m > 0 ? (2 * common) / (n + m) : 1 };
   }
+  
+  const table = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = baseLines[i] === targetLines[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  
+  const removed = [];
+  const added = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (baseLines[i] === targetLines[j]) {
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      removed.push(baseLines[i++]);
+    } else {
+      added.push(targetLines[j++]);
+    }
+  }
+  while (i < n) removed.push(baseLines[i++]);
+  while (j < m) added.push(targetLines[j++]);
+  
+  return { removed, added, similarity: n + m > 0 ? (2 * table[0][0]) / (n + m) : 1 };
+}
+
+// 제목 유사도 (문자 bigram Dice 계수)
+function titleSimilarity(a, b) {
+  const bigrams = (s) => {
+    const result = [];
+    for (let i = 0; i < s.length - 1; i++) result.push(s.slice(i, i + 2));
+    return result;
+  };
+  const aBigrams = bigrams(normalizeSectionKey(a));
+  const bBigrams = bigrams(normalizeSectionKey(b));
+  if (aBigrams.length === 0 || bBigrams.length === 0) return 0;
+  
+  const counts = new Map();
+  aBigrams.forEach(bg => counts.set(bg, (counts.get(bg) || 0) + 1));
+  let overlap = 0;
+  bBigrams.forEach(bg => {
+    const count = counts.get(bg) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bg, count - 1);
+    }
+  });
+  return (2 * overlap) / (aBigrams.length + bBigrams.length);
+}
+
+// 두 판본의 섹션 정렬 및 섹션별 변경 내역 생성
+const MAX_DIFF_TEXT_LENGTH = 4000;
+const MAX_DIFF_LINES = 100;
+
+function diffEditionSections(baseSections, targetSections) {
+  const pairs = [];
+  const matchedBase = new Set();
+  const baseByKey = new Map(baseSections.map(section => [section.key, section]));
+  const unmatchedTargets = [];
+  
+  // 1차: 동일 키(번호를 제외한 제목 경로)로 정렬
+  targetSections.forEach(target => {
+    const base = baseByKey.get(target.key);
+    if (base && !matchedBase.has(base.key)) {
+      matchedBase.add(base.key);
+      pairs.push({ base, target });
+    } else {
+      unmatchedTargets.push(target);
+    }
+  });
+  
+  // 2차: 제목이 바뀐 섹션은 제목 유사도로 정렬
+  unmatchedTargets.forEach(target => {
+    let best = null;
+    let bestScore = 0.6;
+    baseSections.forEach(base => {
+      if (matchedBase.has(base.key)) return;
+      const score = titleSimilarity(base.title, target.title);
+      if (score > bestScore) {
+        best = base;
+        bestScore = score;
+      }
+    });
+    if (best) {
+      matchedBase.add(best.key);
+      pairs.push({ base: best, target });
+    } else {
+      pairs.push({ base: null, target });
+    }
+  });
+  
+  baseSections
+    .filter(base => !matchedBase.has(base.key))
+    .forEach(base => pairs.push({ base, target: null }));
+  
+  return pairs
+    .map(({ base, target }) => {
+      const { removed, added, similarity } = diffLines(
+        base ? toComparableLines(base.text) : [],
+        target ? toComparableLines(target.text) : []
+      );
+      const status = !base ? 'added' : !target ? 'removed' : (removed.length || added.length) ? 'modified' : 'unchanged';
+      return {
+        sectionKey: (target || base).key,
+        sectionTitle: (target || base).title,
+        baseSectionTitle: base ? base.title : null,
+        status,
+        basePage: base ? base.page : null,
+        targetPage: target ? target.page : null,
+        baseText: base ? base.text.slice(0, MAX_DIFF_TEXT_LENGTH) : '',
+        targetText: target ? target.text.slice(0, MAX_DIFF_TEXT_LENGTH) : '',
+        removedLines: removed.slice(0, MAX_DIFF_LINES),
+        addedLines: added.slice(0, MAX_DIFF_LINES),
+        similarity: Math.round(similarity * 1000) / 1000
+      };
+    })
+    .filter(diff => diff.status !== 'unchanged');
 }
 
-// 페이지 번호 계산 함수 (텍스트 위치 기반)
-function calculatePageNumber(textPosition, totalTextLength, totalPages) {
-  if (totalPages === 0 || totalTextLength === 0) return 1;
-  const pageNumber = Math.floor((textPosition / totalTextLength) * totalPages) + 1;
-  return Math.min(pageNumber, totalPages); // 최대 페이지 수 제한
+// 판본 비교 결과를 Firestore에 일괄 저장
+async function saveEditionDiffsBatch(baseEdition, targetEdition, diffs) {
+  let savedCount = 0;
+  for (let i = 0; i < diffs.length; i += 200) {
+    try {
+      const batch = writeBatch(db);
+      diffs.slice(i, i + 200).forEach(diff => {
+        batch.set(doc(collection(db, 'document_diffs')), {
+          ...diff,
+          editionGroup: targetEdition.editionGroup,
+          baseDocumentId: baseEdition.documentId,
+          baseVersion: baseEdition.version,
+          targetDocumentId: targetEdition.documentId,
+          targetVersion: targetEdition.version,
+          createdAt: Timestamp.now()
+        });
+      });
+      await batch.commit();
+      savedCount += Math.min(200, diffs.length - i);
+    } catch (error) {
+      console.error(`❌ 판본 비교 배치 저장 실패:`, error.message);
+    }
+  }
+  return savedCount;
 }
 
-// 스트리밍 청크 처리 (WriteBatch 최적화) - 수정된 버전
-async function processChunksStreaming(documentId, filename, text, totalPages = 0) {
-  const chunkSize = 2000;
-  const overlap = 200;
-  let position = 0;
-  let chunkIndex = 0;
+// 스트리밍 청크 처리 (WriteBatch 최적화)
+// ✅ 구조 인식 분할: 조/항, 지침 번호 제목, 표 행 경계에서 나누고 청크마다 section 경로 기록
+async function processChunksStreaming(documentId, filename, text, pageMap = [], legalNodes = [], tables = []) {
   let successCount = 0;
-  let lastPosition = -1; // 무한 루프 방지용
-  let stuckCount = 0; // 같은 위치에서 멈춘 횟수
   
   // WriteBatch를 위한 청크 데이터 수집
   const chunkDataList = [];
   const batchSize = 2; // WriteBatch 크기 (메모리 안정성을 위해 2개)
   
   console.log(`📦 스트리밍 청크 처리 시작: ${text.length.toLocaleString()}자`);
-  if (totalPages > 0) {
-    console.log(`📄 총 페이지 수: ${totalPages} (페이지 정보 저장 활성화)`);
+  if (pageMap.length > 0) {
+    console.log(`📄 총 페이지 수: ${pageMap.length} (청크별 시작/끝 페이지 저장)`);
   }
   console.log(`🔧 배치 크기: ${batchSize}개 (메모리 안정적 모드)`);
   console.log(`💾 초기 메모리: ${JSON.stringify(getMemoryUsage())}MB`);
   
-  while (position < text.length) {
-    // 무한 루프 방지 체크
-    if (position === lastPosition) {
-      stuckCount++;
-      if (stuckCount > 3) {
-        console.error(`❌ 무한 루프 감지! position이 ${position}에서 멈춤. 처리 중단.`);
-        break;
-      }
-    } else {
-      stuckCount = 0;
-      lastPosition = position;
-    }
-    
-    const end = Math.min(position + chunkSize, text.length);
-    let chunk = text.slice(position, end);
-    
-    // 문장 경계에서 자르기 (개선된 로직)
-    if (end < text.length) {
-      const lastSentenceEnd = chunk.lastIndexOf('.');
-      const lastNewline = chunk.lastIndexOf('\n');
-      const lastSpace = chunk.lastIndexOf(' ');
-      
-      // 더 나은 자르기 지점 찾기
-      let cutPoint = Math.max(lastSentenceEnd, lastNewline, lastSpace);
-      
-      // 최소 50% 이상은 유지
-      if (cutPoint > position + chunkSize * 0.5) {
-        chunk = chunk.slice(0, cutPoint + 1);
-      }
-    }
+  const { chunks, stats } = chunkByStructure(text);
+  console.log(`🧩 구조 인식 청크 분할 (${CHUNKER_VERSION}): ${formatChunkingStats(stats)}`);
+  
+  for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+    const chunk = chunks[chunkIndex];
     
     // 청크 데이터 수집
-    const keywords = extractKeywords(chunk.trim());
-    // ✅ 페이지 번호 계산 (텍스트 위치 기반)
-    const pageNumber = totalPages > 0 
-      ? calculatePageNumber(position, text.length, totalPages)
-      : 1; // 페이지 정보가 없으면 기본값 1
+    const keywords = extractKeywords(chunk.content);
+    // ✅ 페이지 맵에서 청크가 걸친 물리/인쇄 페이지 조회 (페이지 정보가 없으면 기본값 1)
+    const pageSpan = getPageSpan(pageMap, chunk.startPos, chunk.endPos);
+    
+    // ✅ 청크 ID를 미리 발급하여 조문 인덱스와 연결
+    const chunkId = doc(collection(db, 'pdf_chunks')).id;
+    const articles = linkLegalArticlesToChunk(legalNodes, chunkId, chunk.startPos, chunk.endPos);
+    linkTablesToChunk(tables, chunkId, pageSpan);
     
     chunkDataList.push({
+      id: chunkId,
       documentId: documentId,
       filename: filename,
-      content: chunk.trim(),
+      content: chunk.content,
       keywords: keywords,
       metadata: {
         position: chunkIndex,
-        startPos: position,
-        endPos: position + chunk.length,
-        originalSize: chunk.length,
+        startPos: chunk.startPos,
+        endPos: chunk.endPos,
+        originalSize: chunk.content.length,
         source: 'Direct PDF Processing',
-        page: pageNumber // ✅ 페이지 정보 추가
+        page: pageSpan ? pageSpan.page : 1, // ✅ 시작 물리 페이지 (PDF 뷰어 이동 기준)
+        pageEnd: pageSpan ? pageSpan.pageEnd : 1,
+        ...(pageSpan && pageSpan.printedPage !== null ? { printedPage: pageSpan.printedPage } : {}), // ✅ 인쇄 쪽 번호 (인용 "p.23" 기준)
+        ...(pageSpan && pageSpan.printedPageEnd !== null ? { printedPageEnd: pageSpan.printedPageEnd } : {}),
+        articles: articles, // ✅ 청크에 포함된 조문 (예: "국민건강증진법 시행규칙 제6조")
+        section: chunk.section, // ✅ 구조 경로 (예: "국민건강증진법 > 제1장 총칙 > 제3조(책임)")
+        sectionPath: chunk.sectionPath,
+        chunkType: chunk.chunkType, // ✅ article | heading | table | list | text
+        chunker: CHUNKER_VERSION
       },
-      searchableText: chunk.trim().toLowerCase(),
+      searchableText: chunk.content.toLowerCase(),
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now()
     });
@@ -386,25 +1181,14 @@ async function processChunksStreaming(documentId, filename, text, totalPages = 0
       }
     }
     
-    // ✅ 올바른 position 업데이트 로직
-    if (end >= text.length) {
-      // 마지막 청크인 경우 루프 종료
-      position = text.length;
-    } else {
-      // 다음 청크를 위해 오버랩 적용
-      position = end - overlap;
-      if (position < 0) position = 0;
-    }
-    chunkIndex++;
-    
-    // 진행률 표시 (청크 크기도 함께 표시)
-    const progress = ((position / text.length) * 100).toFixed(1);
-    console.log(`  ✓ 청크 ${chunkIndex} 처리 완료 (${progress}%) - 크기: ${chunk.length}자`);
+    // 진행률 표시 (청크 크기·경로도 함께 표시)
+    const progress = ((chunk.endPos / text.length) * 100).toFixed(1);
+    console.log(`  ✓ 청크 ${chunkIndex + 1} 처리 완료 (${progress}%) - 크기: ${chunk.content.length}자${chunk.section ? ` - ${chunk.section}` : ''}`);
     
     // 메모리 정리 (매 20개마다 - 2개 배치에 맞춰 조정)
-    if (chunkIndex % 20 === 0 && global.gc) {
+    if ((chunkIndex + 1) % 20 === 0 && global.gc) {
       global.gc();
-      console.log(`  🧹 메모리 정리 완료 (${chunkIndex}개 처리 후)`);
+      console.log(`  🧹 메모리 정리 완료 (${chunkIndex + 1}개 처리 후)`);
     }
   }
   
@@ -414,8 +1198,8 @@ async function processChunksStreaming(documentId, filename, text, totalPages = 0
     successCount += saved;
   }
   
-  console.log(`✅ 스트리밍 청크 처리 완료: ${successCount}/${chunkIndex}개 성공`);
-  return successCount;
+  console.log(`✅ 스트리밍 청크 처리 완료: ${successCount}/${chunks.length}개 성공`);
+  return { savedCount: successCount, stats };
 }
 
 // WriteBatch로 청크들을 일괄 저장
@@ -423,12 +1207,14 @@ async function saveChunksBatch(chunkDataList) {
   try {
     const batch = writeBatch(db);
     
-    chunkDataList.forEach(chunkData => {
-      const docRef = doc(collection(db, 'pdf_chunks'));
+    chunkDataList.forEach(({ id, ...chunkData }) => {
+      const docRef = id ? doc(db, 'pdf_chunks', id) : doc(collection(db, 'pdf_chunks'));
       batch.set(docRef, chunkData);
     });
     
     await batch.commit();
+    // ✅ 저장된 청크만 BM25 역색인에 추가
+    chunkDataList.forEach(({ id, documentId, content }) => bm25IndexBuilder.addChunk(id, documentId, content));
     console.log(`  📦 청크 배치 저장 완료: ${chunkDataList.length}개 (메모리 안정적)`);
     return chunkDataList.length;
   } catch (error) {
@@ -441,13 +1227,9 @@ async function saveChunksBatch(chunkDataList) {
 function extractKeywords(text) {
   const keywords = new Set();
   
-  // 1. 모든 한글 단어 자동 추출 (2-10글자)
-  const koreanWords = text.match(/[가-힣]{2,10}/g) || [];
-  koreanWords.forEach(word => {
-    // 일반적인 조사, 보조사 제외
-    if (!isCommonWord(word) && word.length >= 2 && word.length <= 10) {
-      keywords.add(word);
-    }
+  // 1. 공용 토크나이저로 어간·복합명사 추출 (조사/어미 제거, 불용어 제외, 2-10글자)
+  extractTokenKeywords(text, { maxLength: 10 }).forEach(word => {
+    keywords.add(word);
   });
   
   // 2. 영어 단어 추출 (시설명, 법령명 등)
@@ -494,15 +1276,91 @@ function extractKeywords(text) {
   return Array.from(keywords);
 }
 
-// 일반적인 단어 필터
-function isCommonWord(word) {
-  const commonWords = [
-    '은', '는', '이', '가', '을', '를', '의', '과', '와', '에', '로', '에서',
-    '및', '또는', '이다', '것', '등', '밖', '까지', '부터', '만', '도',
-    '것을', '것이', '것이', '것에', '것을', '것으로', '것에서는',
-    '년', '월', '일', '시', '분', '초'
-  ];
-  return commonWords.includes(word);
+// ✅ BM25 역색인: 청크 저장 시 토큰 빈도를 누적하고 마이그레이션 끝에 정적 파일로 저장
+// (data/ → public/data/ 로 복사되어 클라이언트 bm25SearchService가 로드)
+const BM25_INDEX_PATH = path.join(__dirname, '..', 'data', 'bm25-index.json');
+const BM25_META_PATH = path.join(__dirname, '..', 'data', 'bm25-index-meta.json');
+const BM25_PARAMS = { k1: 1.2, b: 0.75 };
+
+// 토큰화는 services/koreanTokenizer.js의 tokenizeForIndex (클라이언트 질의와 같은 규칙)
+function createBM25IndexBuilder() {
+  const chunkIds = [];
+  const chunkDocuments = [];
+  const chunkLengths = [];
+  const documentIds = [];
+  const documentIndexById = new Map();
+  const postings = new Map(); // term → [chunkIndex, tf, chunkIndex, tf, ...]
+  
+  return {
+    get chunkCount() {
+      return chunkIds.length;
+    },
+    
+    addChunk(chunkId, documentId, text) {
+      const tokens = tokenizeForIndex(text);
+      const termFrequencies = new Map();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      
+      if (!documentIndexById.has(documentId)) {
+        documentIndexById.set(documentId, documentIds.length);
+        documentIds.push(documentId);
+      }
+      
+      const chunkIndex = chunkIds.length;
+      chunkIds.push(chunkId);
+      chunkDocuments.push(documentIndexById.get(documentId));
+      chunkLengths.push(tokens.length);
+      
+      termFrequencies.forEach((tf, term) => {
+        if (!postings.has(term)) postings.set(term, []);
+        postings.get(term).push(chunkIndex, tf);
+      });
+    },
+    
+    build() {
+      const totalLength = chunkLengths.reduce((sum, length) => sum + length, 0);
+      return {
+        version: 1,
+        tokenizer: INDEX_TOKENIZER,
+        builtAt: new Date().toISOString(),
+        ...BM25_PARAMS,
+        chunkCount: chunkIds.length,
+        averageLength: chunkIds.length > 0 ? Number((totalLength / chunkIds.length).toFixed(2)) : 0,
+        documentIds,
+        chunkIds,
+        chunkDocuments,
+        chunkLengths,
+        postings: Object.fromEntries(postings)
+      };
+    }
+  };
+}
+
+const bm25IndexBuilder = createBM25IndexBuilder();
+
+// BM25 역색인 파일 저장 (메타 파일은 클라이언트 IndexedDB 캐시 갱신 여부 판단용)
+function writeBM25Index() {
+  try {
+    const index = bm25IndexBuilder.build();
+    const meta = {
+      version: index.version,
+      tokenizer: index.tokenizer,
+      builtAt: index.builtAt,
+      chunkCount: index.chunkCount,
+      termCount: Object.keys(index.postings).length
+    };
+    
+    fs.mkdirSync(path.dirname(BM25_INDEX_PATH), { recursive: true });
+    fs.writeFileSync(BM25_INDEX_PATH, JSON.stringify(index));
+    fs.writeFileSync(BM25_META_PATH, JSON.stringify(meta, null, 2));
+    
+    const sizeMB = (fs.statSync(BM25_INDEX_PATH).size / 1024 / 1024).toFixed(2);
+    console.log(`🔎 BM25 역색인 저장 완료: 청크 ${meta.chunkCount}개, 용어 ${meta.termCount}개, ${sizeMB}MB`);
+    return meta;
+  } catch (error) {
+    console.error('❌ BM25 역색인 저장 실패:', error.message);
+    return null;
+  }
 }
 
 // 문서 타입 분류
@@ -519,13 +1377,21 @@ function getDocumentType(filename) {
 }
 
 // PDF 문서를 Firestore에 추가
-async function addDocumentToFirestore(filename, pdfData, chunks) {
+async function addDocumentToFirestore(filename, pdfData, chunks, edition = null, effectiveFrom = null) {
   try {
+    const editionInfo = edition || { ...parseEditionInfo(filename), isLatestEdition: true };
     const documentData = {
       filename: filename,
       title: filename.replace('.pdf', ''),
       type: getDocumentType(filename),
+      version: editionInfo.version,                  // ✅ 판본 (예: "2025", "2025.08")
+      editionGroup: editionInfo.editionGroup,        // ✅ 같은 문서의 판본 묶음
+      isLatestEdition: editionInfo.isLatestEdition,  // ✅ 최신판 여부 (이전 판은 검색에서 제외)
+      effectiveFrom: effectiveFrom,                  // ✅ 시행일 (YYYY-MM-DD)
+      effectiveTo: null,                             // ✅ 다음 판본 시행 전날 (마이그레이션 마지막에 갱신)
       totalPages: pdfData.pages || 0,  // undefined 방지
+      pageMap: pdfData.pageMap || [],                // ✅ 물리 페이지 ↔ 인쇄 쪽 번호 ↔ 텍스트 범위
+      pageMapVersion: PAGE_MAP_VERSION,
       totalChunks: chunks.length || 0,
       totalSize: pdfData.text ? pdfData.text.length : 0,
       createdAt: Timestamp.now(),
@@ -546,7 +1412,7 @@ async function addDocumentToFirestore(filename, pdfData, chunks) {
 // 기존 함수들 제거됨 - 스트리밍 처리로 교체
 
 // 스트리밍 PDF 처리 함수
-async function processPdfStreaming(pdfFile, pdfPath, index, totalFiles) {
+async function processPdfStreaming(pdfFile, pdfPath, index, totalFiles, edition = null) {
   try {
     console.log(`\n📄 [${index + 1}/${totalFiles}] 처리 중: ${pdfFile}`);
     console.log(`💾 메모리 사용량: ${JSON.stringify(getMemoryUsage())}MB`);
@@ -563,23 +1429,68 @@ async function processPdfStreaming(pdfFile, pdfPath, index, totalFiles) {
     
     // Firestore에 문서 추가 (청크 없이)
     console.log(`[2/3] 문서 메타데이터 저장 중...`);
-    const documentId = await addDocumentToFirestore(pdfFile, pdfData, []);
+    const effectiveFrom = getDocumentEffectiveFrom(pdfData.text, edition ? edition.version : parseEditionInfo(pdfFile).version);
+    const documentId = await addDocumentToFirestore(pdfFile, pdfData, [], edition, effectiveFrom);
+    
+    // 법령 문서는 조문 계층 파싱 (청크 저장 시 조문과 연결)
+    const legalNodes = getDocumentType(pdfFile) === '법령'
+      ? parseLegalArticleTree(pdfData.text, pdfFile, pdfData.pageMap)
+      : [];
+    if (legalNodes.length > 0) {
+      const articleCount = legalNodes.filter(node => node.nodeType === '조').length;
+      console.log(`⚖️ 조문 파싱 완료: 조 ${articleCount}개, 전체 노드 ${legalNodes.length}개`);
+      const referenceCount = buildCrossReferenceGraph(legalNodes, pdfData.text);
+      console.log(`🔗 조문 상호 참조: ${referenceCount}개 연결`);
+    }
     
     // 스트리밍 청크 처리
     console.log(`[3/3] 스트리밍 청크 처리 중...`);
-    const addedChunks = await processChunksStreaming(documentId, pdfFile, pdfData.text, pdfData.pages || 0);
+    const tables = (pdfData.tables || []).map(table => ({ ...table, chunkIds: [] }));
+    const { savedCount: addedChunks, stats: chunkingStats } = await processChunksStreaming(documentId, pdfFile, pdfData.text, pdfData.pageMap, legalNodes, tables);
+    
+    // ✅ 실제 청크 수와 분할 통계를 문서에 기록
+    try {
+      await updateDoc(doc(db, 'pdf_documents', documentId), {
+        totalChunks: addedChunks,
+        totalTables: tables.length,
+        chunking: chunkingStats,
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.warn(`⚠️ 청크 분할 통계 저장 실패: ${pdfFile}`, error.message);
+    }
+    
+    // 청크 ID가 연결된 조문 인덱스 저장
+    if (legalNodes.length > 0) {
+      await saveLegalArticlesBatch(documentId, legalNodes);
+    }
+    
+    // 청크 ID가 연결된 표 저장
+    if (tables.length > 0) {
+      await saveDocumentTablesBatch(documentId, pdfFile, tables, pdfData.pageMap);
+    }
+    
+    // 다른 판본이 있는 문서는 판본 비교용 섹션 추출 (텍스트 해제 전)
+    const sections = edition && edition.editionCount > 1
+      ? extractDocumentSections(pdfData.text, legalNodes)
+      : [];
+    if (sections.length > 0) {
+      console.log(`📑 판본 비교용 섹션 추출: ${sections.length}개 (${edition.version || '버전 없음'})`);
+    }
     
     console.log(`[4/4] 메모리 정리 중...`);
     
     // 즉시 메모리 정리
     pdfData.text = null;
+    pdfData.pageMap = null;
+    pdfData.tables = null;
     
     if (global.gc) {
       global.gc();
     }
     
     console.log(`✅ ${pdfFile} 처리 완료 (품질: 100)`);
-    return { success: true, chunks: addedChunks };
+    return { success: true, chunks: addedChunks, tables: tables.length, chunkingStats, documentId, effectiveFrom, sections };
     
   } catch (error) {
     console.error(`❌ ${pdfFile} 처리 실패:`, error.message);
@@ -605,20 +1516,36 @@ async function migrateToFirestore() {
     const pdfFiles = getPdfFiles();
     console.log(`📄 처리할 PDF 파일: ${pdfFiles.length}개`);
     
+    // 판본 그룹 구성 (이전 판본도 매니페스트에 남겨 두면 함께 보존)
+    const editionPlan = buildEditionPlan(pdfFiles);
+    const processedEditions = new Map(); // filename → { documentId, version, editionGroup, sections }
+    const documentEditions = [];         // 판본 유효기간 계산용
+    
     let totalDocuments = 0;
     let totalChunks = 0;
+    let totalTables = 0;
     let failedFiles = [];
+    const chunkingTotals = { tables: 0, oversizedBlocks: 0, midSentenceCuts: 0, withSection: 0 };
     
     // 순차적으로 PDF 파일 처리 (메모리 안정성)
     for (let i = 0; i < pdfFiles.length; i++) {
       const pdfFile = pdfFiles[i];
       const pdfPath = path.join(__dirname, '..', 'public', 'pdf', pdfFile);
       
-      const result = await processPdfStreaming(pdfFile, pdfPath, i, pdfFiles.length);
+      const edition = editionPlan.get(pdfFile);
+      const result = await processPdfStreaming(pdfFile, pdfPath, i, pdfFiles.length, edition);
       
       if (result.success) {
         totalDocuments++;
         totalChunks += result.chunks;
+        totalTables += result.tables;
+        Object.keys(chunkingTotals).forEach(key => { chunkingTotals[key] += result.chunkingStats[key] || 0; });
+        if (edition && edition.editionCount > 1) {
+          documentEditions.push({ ...edition, documentId: result.documentId, effectiveFrom: result.effectiveFrom });
+        }
+        if (result.sections.length > 0) {
+          processedEditions.set(pdfFile, { ...edition, documentId: result.documentId, sections: result.sections });
+        }
       } else {
         failedFiles.push({ file: pdfFile, error: result.error });
       }
@@ -634,6 +1561,25 @@ async function migrateToFirestore() {
       console.log(`💾 현재 메모리: ${JSON.stringify(getMemoryUsage())}MB`);
     }
     
+    // 판본 비교: 각 판본을 직전 판본과 섹션 단위로 비교하여 저장
+    let totalDiffs = 0;
+    for (const [filename, targetEdition] of processedEditions) {
+      const baseEdition = targetEdition.previousFilename ? processedEditions.get(targetEdition.previousFilename) : null;
+      if (!baseEdition) continue;
+      
+      const diffs = diffEditionSections(baseEdition.sections, targetEdition.sections);
+      const saved = await saveEditionDiffsBatch(baseEdition, targetEdition, diffs);
+      totalDiffs += saved;
+      console.log(`📑 판본 비교: ${targetEdition.editionGroup} ${baseEdition.version} → ${targetEdition.version} (변경 섹션 ${saved}개, ${filename})`);
+    }
+    processedEditions.clear();
+    
+    // 판본 유효기간: 이전 판본은 다음 판본 시행 전날까지 유효
+    await updateEditionEffectiveRanges(documentEditions);
+    
+    // 키워드 검색용 BM25 역색인
+    const bm25Meta = writeBM25Index();
+    
     const endTime = Date.now();
     const duration = ((endTime - Date.now()) / 1000).toFixed(2);
     
@@ -642,6 +1588,10 @@ async function migrateToFirestore() {
     console.log(`📊 처리 결과:`);
     console.log(`  - PDF 문서: ${totalDocuments}개`);
     console.log(`  - 청크 데이터: ${totalChunks}개`);
+    console.log(`  - 청크 분할 (${CHUNKER_VERSION}): 경로 있음 ${chunkingTotals.withSection}개, 표 ${chunkingTotals.tables}개, 긴 블록 분할 ${chunkingTotals.oversizedBlocks}개 (문장 중간 ${chunkingTotals.midSentenceCuts}회)`);
+    console.log(`  - 추출한 표 (${TABLE_EXTRACTOR_VERSION}): ${totalTables}개`);
+    console.log(`  - 판본 변경 섹션: ${totalDiffs}개`);
+    console.log(`  - BM25 역색인: ${bm25Meta ? `${bm25Meta.termCount}개 용어` : '저장 실패'}`);
     console.log(`⏱️ 소요 시간: ${duration}초`);
     console.log(`💾 최종 메모리 사용량: ${JSON.stringify(getMemoryUsage())}MB`);
     
@@ -0,0 +1,31 @@
+/**
+ * 결정적 임베딩 (회귀 테스트용 @xenova/transformers 대체)
+ * 문자 바이그램을 해시하여 고정 차원 벡터로 만든 뒤 정규화 - 모델 다운로드 없이 항상 같은 결과
+ */
+
+const DIMENSIONS = 256;
+
+export function embedDeterministic(text) {
+  const vector = new Float32Array(DIMENSIONS);
+  const normalized = (text || '').replace(/\s+/g, ' ').toLowerCase();
+
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.slice(i, i + 2);
+    if (bigram.includes(' ')) continue;
+    let hash = 0;
+    for (let j = 0; j < bigram.length; j++) {
+      hash = (hash * 31 + bigram.charCodeAt(j)) >>> 0;
+    }
+    vector[hash % DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+// LocalEmbeddingService가 사용하는 transformers.js API 형태
+export const env = {};
+
+export async function pipeline() {
+  return async (text) => ({ data: embedDeterministic(text) });
+}
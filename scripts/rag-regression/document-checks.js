@@ -0,0 +1,171 @@
+/**
+ * 수집 모듈 고정 검사 (회귀 테스트 하네스용)
+ * public/pdf의 실제 PDF를 마이그레이션(parsePdfFile)과 같은 방식으로 pdf.js로 읽어
+ * 구조 인식 청크 분할·페이지 맵·표 추출 결과를 fixtures/document-checks.json의 기대값과 비교
+ *
+ * - chunking: 청크가 문장 중간에서 잘리지 않는지, 긴 조문을 나눈 청크의 section 경로(법령 > 장 > 조) 형식
+ * - pageMaps: 물리 페이지별 인쇄 쪽 번호 (표지·목차는 null), 본문 위치의 페이지와 인용 라벨
+ * - tables: 알려진 표의 제목·머리글·행 복원 (텍스트 좌표 기반 추출)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { buildPageMap, findPageAt, formatPageLabel } from '../../services/pdfPageMap.js';
+import { chunkByStructure } from '../../services/structureAwareChunker.js';
+import { extractTablesFromTextItems } from '../../services/pdfTableExtractor.js';
+
+// 청크가 끝나도 되는 곳: 문장 끝, 또는 다음 청크가 조·장·편·절 제목이나 항(①)·호(1.)·목(가.)으로 시작
+const SENTENCE_END = /(?:다\.|[.!?。])$/;
+const STRUCTURE_START = /^(?:제\d+(?:조|장|절|편)|부칙|[①-⑳]|\d{1,2}\.|[가-하]\.)/;
+const MAX_REPORTED_CUTS = 3;
+
+/**
+ * PDF 페이지별 텍스트 (같은 PDF는 한 번만 파싱)
+ */
+async function loadPdfPages(pdfPath, cache) {
+  if (cache.has(pdfPath)) return cache.get(pdfPath);
+
+  const data = new Uint8Array(fs.readFileSync(pdfPath));
+  const pdfDocument = await getDocument({ data, useSystemFonts: true, disableFontFace: true, verbosity: 0 }).promise;
+  const pages = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      let text = '';
+      for (const item of textContent.items) {
+        if (typeof item.str !== 'string') continue;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+      }
+      pages.push({ text, items: textContent.items, width: page.view[2] });
+      page.cleanup();
+    }
+  } finally {
+    await pdfDocument.destroy();
+  }
+
+  cache.set(pdfPath, pages);
+  return pages;
+}
+
+/**
+ * 청크 분할: 모든 청크 경계가 문장 끝·구조 경계에 있고, 지정한 긴 조문이 여러 청크로 나뉘어도 같은 section 경로를 갖는지
+ */
+function checkChunking(expectation, pages) {
+  const failures = [];
+  const { text } = buildPageMap(pages.map(page => page.text));
+  const { chunks, stats } = chunkByStructure(text);
+
+  if (stats.midSentenceCuts > 0) {
+    failures.push(`문장 중간 분할 ${stats.midSentenceCuts}회 (분할기 통계)`);
+  }
+  const cuts = chunks.filter((chunk, index) =>
+    index + 1 < chunks.length && !SENTENCE_END.test(chunk.content) && !STRUCTURE_START.test(chunks[index + 1].content));
+  cuts.slice(0, MAX_REPORTED_CUTS).forEach(chunk => {
+    const next = chunks[chunks.indexOf(chunk) + 1];
+    failures.push(`문장 중간에서 나뉨: "…${chunk.content.slice(-15)}" | "${next.content.slice(0, 15)}…"`);
+  });
+  if (cuts.length > MAX_REPORTED_CUTS) {
+    failures.push(`외 ${cuts.length - MAX_REPORTED_CUTS}곳`);
+  }
+
+  const articleChunks = chunks.filter(chunk => chunk.sectionPath[chunk.sectionPath.length - 1] === expectation.article);
+  if (articleChunks.length < (expectation.minChunks || 1)) {
+    failures.push(`${expectation.article} 청크 ${articleChunks.length}개 (기대 ${expectation.minChunks || 1}개 이상)`);
+  }
+  articleChunks
+    .filter(chunk => chunk.section !== expectation.section)
+    .forEach(chunk => failures.push(`section 경로 "${chunk.section}" (기대 "${expectation.section}")`));
+  return failures;
+}
+
+/**
+ * 페이지 맵: 물리 페이지 → 인쇄 쪽 번호, 본문 문구 위치 → 페이지·인용 라벨
+ */
+function checkPageMap(expectation, pages) {
+  const failures = [];
+  const { text, pages: pageMap } = buildPageMap(pages.map(page => page.text));
+
+  Object.entries(expectation.printedPages || {}).forEach(([page, printedPage]) => {
+    const entry = pageMap[Number(page) - 1];
+    if (!entry) {
+      failures.push(`${page}페이지 없음 (전체 ${pageMap.length}페이지)`);
+    } else if (entry.printedPage !== printedPage) {
+      failures.push(`${page}페이지 인쇄 쪽 번호 ${entry.printedPage} (기대 ${printedPage})`);
+    }
+  });
+
+  (expectation.locate || []).forEach(({ text: phrase, page, printedPage, label }) => {
+    const offset = text.indexOf(phrase);
+    const entry = offset >= 0 ? findPageAt(pageMap, offset) : null;
+    if (!entry) {
+      failures.push(`"${phrase}" 찾지 못함`);
+      return;
+    }
+    const actualLabel = formatPageLabel(entry);
+    if (entry.page !== page || entry.printedPage !== printedPage || actualLabel !== label) {
+      failures.push(`"${phrase}" ${entry.page}페이지 / 인쇄 ${entry.printedPage} / ${actualLabel} (기대 ${page}페이지 / 인쇄 ${printedPage} / ${label})`);
+    }
+  });
+  return failures;
+}
+
+/**
+ * 표 추출: 지정한 페이지에서 제목이 같은 표를 찾아 머리글·행을 칸 단위로 비교
+ */
+function checkTable(expectation, pages) {
+  const page = pages[expectation.page - 1];
+  if (!page) return [`${expectation.page}페이지 없음 (전체 ${pages.length}페이지)`];
+
+  const tables = extractTablesFromTextItems(page.items, { pageWidth: page.width });
+  const table = tables.find(candidate => candidate.title === expectation.title);
+  if (!table) {
+    return [`"${expectation.title}" 표 없음 (추출된 표: ${tables.map(candidate => `"${candidate.title}"`).join(', ') || '없음'})`];
+  }
+
+  const failures = [];
+  if (JSON.stringify(table.headers) !== JSON.stringify(expectation.headers)) {
+    failures.push(`머리글 ${JSON.stringify(table.headers)} (기대 ${JSON.stringify(expectation.headers)})`);
+  }
+  if (table.rows.length !== expectation.rows.length) {
+    failures.push(`행 ${table.rows.length}개 (기대 ${expectation.rows.length}개)`);
+  }
+  expectation.rows.forEach((cells, index) => {
+    const actual = table.rows[index];
+    if (actual && JSON.stringify(actual) !== JSON.stringify(cells)) {
+      failures.push(`${index + 1}행 ${JSON.stringify(actual)} (기대 ${JSON.stringify(cells)})`);
+    }
+  });
+  return failures;
+}
+
+/**
+ * 고정 검사 실행
+ * @returns [{ id, kind, passed, failures }]
+ */
+export async function runDocumentChecks(projectRoot, expectations) {
+  const cache = new Map();
+  const results = [];
+  const run = async (kind, entry, check) => {
+    try {
+      const pages = await loadPdfPages(path.join(projectRoot, 'public', 'pdf', entry.pdf), cache);
+      const failures = check(entry, pages);
+      results.push({ id: entry.id, kind, passed: failures.length === 0, failures });
+    } catch (error) {
+      results.push({ id: entry.id, kind, passed: false, failures: [`실행 실패: ${error.message}`] });
+    }
+  };
+
+  for (const entry of expectations.chunking || []) {
+    await run('청크 분할', entry, checkChunking);
+  }
+  for (const entry of expectations.pageMaps || []) {
+    await run('페이지 맵', entry, checkPageMap);
+  }
+  for (const entry of expectations.tables || []) {
+    await run('표 추출', entry, checkTable);
+  }
+  return results;
+}
@@ -0,0 +1,156 @@
+/**
+ * 결정적(deterministic) 가짜 LLM 서버
+ * OpenAI 호환 /chat/completions 엔드포인트를 흉내 내어 LocalOpenAICompatibleProvider로 연결
+ *
+ * - JSON 모드(response_format: json_object): 정답셋에 스크립트된 질문 분석 결과 반환
+ * - 일반 채팅: 시스템 지시사항의 [문서 n: ...] 컨텍스트 중 질문 단어가 가장 많이 겹치는
+ *   상위 2개 문서의 첫 문장을 인용하고 [n] 표기를 붙여 답변 (같은 입력 → 항상 같은 출력)
+ */
+
+import http from 'http';
+
+const QUESTION_SUFFIXES = ['하나요', '인가요', '있나요', '되나요', '나요', '에서', '으로', '은', '는', '이', '가', '을', '를', '에', '로', '의', '요'];
+const MAX_CITED_DOCUMENTS = 2;
+
+/**
+ * 질문에서 비교용 어간 추출 (조사/어미 제거)
+ */
+function extractQuestionTerms(question) {
+  const words = question.match(/[가-힣A-Za-z0-9]{2,}/g) || [];
+  return [...new Set(words.map(word => {
+    const suffix = QUESTION_SUFFIXES.find(s => word.endsWith(s) && word.length - s.length >= 2);
+    return suffix ? word.slice(0, -suffix.length) : word;
+  }))];
+}
+
+/**
+ * 컨텍스트 블록 파싱: "[문서 n: 제목 - 섹션 | 조문: ...]\n본문"
+ */
+function parseContextBlocks(text) {
+  const blocks = [];
+  const pattern = /\[문서 (\d+): ([^\]\n]*)\]\n([\s\S]*?)(?=\n\n---\n\n|\n---END OF SOURCE---|$)/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const header = match[2];
+    const articleMatch = header.match(/\| 조문: (.+)$/);
+    blocks.push({
+      index: parseInt(match[1], 10),
+      articles: articleMatch ? articleMatch[1].split(', ') : [],
+      content: match[3].trim()
+    });
+  }
+  return blocks;
+}
+
+/**
+ * 블록 본문의 첫 문장 (최대 160자)
+ */
+function firstSentence(content) {
+  const flat = content.replace(/\s*\n\s*/g, ' ');
+  const end = flat.search(/다\.(\s|$)/);
+  const sentence = end >= 0 ? flat.slice(0, end + 2) : flat;
+  return sentence.length > 160 ? `${sentence.slice(0, 160)}...` : sentence;
+}
+
+/**
+ * 스크립트된 답변 생성
+ */
+export function buildScriptedAnswer(systemText, question) {
+  const terms = extractQuestionTerms(question);
+  const ranked = parseContextBlocks(systemText)
+    .map(block => ({ block, score: terms.filter(term => block.content.includes(term)).length }))
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.block.index - b.block.index)
+    .slice(0, MAX_CITED_DOCUMENTS);
+
+  if (ranked.length === 0) {
+    return '제공된 자료에서 해당 내용을 찾을 수 없습니다.';
+  }
+
+  const lines = ranked.map(({ block }, i) => {
+    const citation = block.articles.length > 0 ? `${block.articles[0]}에 따르면, ` : '';
+    return `${i + 1}. ${citation}${firstSentence(block.content)} [${block.index}]`;
+  });
+  return `질문하신 내용의 근거는 다음과 같습니다.\n\n${lines.join('\n')}`;
+}
+
+/**
+ * 스크립트된 질문 분석 (정답셋에 없으면 질문 단어로 구성)
+ */
+function buildScriptedAnalysis(prompt, analyses) {
+  const question = (prompt.match(/질문: "([^"]+)"/) || [])[1] || prompt.slice(0, 100);
+  const scripted = analyses.get(question);
+  if (scripted) {
+    return { ...scripted, context: question };
+  }
+  const terms = extractQuestionTerms(question);
+  return {
+    intent: question,
+    keywords: terms,
+    expandedKeywords: [],
+    category: 'general',
+    complexity: 'simple',
+    entities: [],
+    context: question
+  };
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * 서버 시작 (port 0 → 임의 포트)
+ * @param {Map<string, object>} analyses 질문 → 스크립트된 분석 결과
+ */
+export async function startFakeLLMServer(analyses = new Map()) {
+  const stats = { analysisRequests: 0, chatRequests: 0 };
+
+  const server = http.createServer(async (request, response) => {
+    if (request.method !== 'POST' || !request.url.endsWith('/chat/completions')) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const body = JSON.parse(await readBody(request));
+    const messages = body.messages || [];
+    const systemText = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+
+    let content;
+    if (body.response_format?.type === 'json_object') {
+      stats.analysisRequests++;
+      content = JSON.stringify(buildScriptedAnalysis(lastUser, analyses));
+    } else {
+      stats.chatRequests++;
+      content = buildScriptedAnswer(systemText, lastUser);
+    }
+
+    if (body.stream) {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // 문장 단위로 나누어 스트리밍
+      for (const piece of content.split(/(?<=\n)/)) {
+        response.write(`data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`);
+      }
+      response.end('data: [DONE]\n\n');
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    stats,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
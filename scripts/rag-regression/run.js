@@ -0,0 +1,430 @@
+#!/usr/bin/env node
+
+/**
+ * RAG 회귀 테스트 하네스
+ * 고정 코퍼스(fixtures/corpus.json)와 가짜 LLM 서버로 실제 검색 파이프라인을 실행하고
+ * 정답셋(fixtures/golden-set.json) 기준 recall@k, 인용 정확도, AnswerValidationSystem 점수를 보고
+ * 기대 표가 있는 질문은 표가 선택되어 컨텍스트에 표 블록으로 들어갔는지(tableHitRate)도 확인
+ * 답변 보류 판정(기본 기준값)이 정답셋 질문은 통과시키고 범위 밖 질문은 보류하는지도 확인
+ * 수집 모듈은 실제 PDF로 고정 검사(fixtures/document-checks.json): 청크 분할, 페이지 맵, 표 추출
+ *
+ * 파이프라인: questionAnalyzer.analyzeQuestion → AdvancedSearchQualityService.executeAdvancedSearch
+ *            → 관련 표 선택 → 컨텍스트/시스템 프롬프트 구성 → LLM(가짜 서버) → 답변 검증
+ *
+ * 사용법:
+ *   npm run test:rag
+ *   npm run test:rag -- --json rag-report.json   # 결과 JSON 저장
+ *   npm run test:rag -- --verbose                # 서비스 로그 출력
+ *
+ * 평균 지표가 정답셋의 thresholds 미만이거나 수집 모듈 검사가 실패하면 종료 코드 1
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+import { startFakeLLMServer } from './fake-llm-server.js';
+import { embedDeterministic } from './deterministic-embedding.js';
+import { runDocumentChecks } from './document-checks.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '..', '..');
+
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const jsonIndex = args.indexOf('--json');
+const jsonOutputPath = jsonIndex >= 0 ? args[jsonIndex + 1] : null;
+const RECALL_KS = [5, 10];
+
+const corpus = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'corpus.json'), 'utf8'));
+const goldenSet = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'golden-set.json'), 'utf8'));
+const documentExpectations = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'document-checks.json'), 'utf8'));
+
+const out = console.log.bind(console);
+const originalConsole = { log: console.log, info: console.info, warn: console.warn, debug: console.debug, error: console.error };
+
+/**
+ * 서비스 로그 숨김 (--verbose 시 유지)
+ */
+function muteServiceLogs() {
+  if (verbose) return;
+  console.log = console.info = console.warn = console.debug = console.error = () => {};
+}
+
+function restoreServiceLogs() {
+  Object.assign(console, originalConsole);
+}
+
+/**
+ * 브라우저 전용 모듈 대체: Firebase 초기화(Analytics는 window 필요), transformers.js 모델 다운로드
+ */
+function fixtureModulesPlugin() {
+  const embeddingModulePath = path.join(__dirname, 'deterministic-embedding.js');
+  return {
+    name: 'rag-regression-fixture-modules',
+    enforce: 'pre',
+    resolveId(source) {
+      if (source === '@xenova/transformers') return '\0rag-fixture:transformers';
+      if (/\/firebaseConfig(\.ts)?$/.test(source)) return '\0rag-fixture:firebase';
+      return null;
+    },
+    load(id) {
+      if (id === '\0rag-fixture:firebase') {
+        return 'export const db = null;\nexport const analytics = null;\nexport default null;\n';
+      }
+      if (id === '\0rag-fixture:transformers') {
+        return `export { env, pipeline } from ${JSON.stringify(embeddingModulePath)};\n`;
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * FirestoreService의 Firestore 접근 메서드를 고정 코퍼스로 대체
+ * 키워드 점수 계산(calculateKeywordMatchScore)과 캐시/변환 로직은 실제 구현 그대로 사용
+ */
+function installFixtureBackend(firestoreService) {
+  const timestamp = { seconds: 0, nanoseconds: 0 };
+  const chunks = corpus.chunks.map(chunk => ({
+    ...chunk,
+    embedding: chunk.embedding || Array.from(embedDeterministic(chunk.content)),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }));
+  const documents = corpus.documents.map(document => ({ ...document, processedAt: timestamp }));
+
+  const rank = (scored, limitCount) => scored
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limitCount)
+    .map(item => item.chunk);
+
+  Object.assign(firestoreService, {
+    fetchChunksFromFirestore: async (keywords, documentId, limitCount = 15) => rank(
+      chunks
+        .filter(chunk => !documentId || chunk.documentId === documentId)
+        .map(chunk => ({ chunk, score: firestoreService.calculateKeywordMatchScore(keywords, chunk) })),
+      limitCount
+    ),
+    fetchChunksByTextFromFirestore: async (searchText, documentId, limitCount = 10) => {
+      const searchTextLower = searchText.toLowerCase();
+      return rank(
+        chunks
+          .filter(chunk => !documentId || chunk.documentId === documentId)
+          .map(chunk => ({
+            chunk,
+            score: (chunk.searchableText.includes(searchTextLower) ? 8 : 0) +
+              (chunk.content.toLowerCase().includes(searchTextLower) ? 2 : 0) +
+              chunk.keywords.filter(keyword => keyword.toLowerCase().includes(searchTextLower)).length
+          })),
+        limitCount
+      );
+    },
+    fetchEmbeddedChunksFromFirestore: async (documentId) => chunks
+      .filter(chunk => !documentId || chunk.documentId === documentId),
+    fetchChunksByDocumentFromFirestore: async (documentId) => chunks
+      .filter(chunk => chunk.documentId === documentId)
+      .sort((a, b) => a.metadata.position - b.metadata.position),
+    fetchDocumentsFromFirestore: async () => documents,
+    getDocumentById: async (documentId) => documents.find(document => document.id === documentId) || null,
+    getLegalArticles: async () => corpus.legalArticles || [],
+    getDocumentDiffs: async () => [],
+    getDocumentTables: async () => corpus.tables || []
+  });
+}
+
+/**
+ * 브라우저 저장소 대체: IndexedDB 캐시 비활성화 (매 실행 동일 결과)
+ */
+function disableBrowserCache(FirestoreCacheService) {
+  Object.assign(FirestoreCacheService, {
+    getCache: async () => null,
+    setCache: async () => {}
+  });
+}
+
+/**
+ * 앱 기준 상대 경로 fetch("/data/...")를 프로젝트 파일로 응답 (동의어 사전 등)
+ */
+function installStaticFetch() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const url = typeof input === 'string' ? input : input.url;
+    if (url.startsWith('/')) {
+      const candidates = [path.join(projectRoot, 'public', url), path.join(projectRoot, url)];
+      const filePath = candidates.find(candidate => fs.existsSync(candidate));
+      return filePath
+        ? new Response(fs.readFileSync(filePath), { status: 200 })
+        : new Response('Not Found', { status: 404 });
+    }
+    return originalFetch(input, init);
+  };
+}
+
+function average(values) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * 질문 1건 평가
+ */
+async function evaluateQuestion(entry, services) {
+  const { questionAnalyzer, advancedSearch, geminiService, llmProvider, AnswerValidationSystem, abstention, tableIndexService } = services;
+  const goldIds = new Set(entry.expected.chunkIds);
+
+  const analysis = await questionAnalyzer.analyzeQuestion(entry.question);
+
+  const searchStart = Date.now();
+  const searchResult = await advancedSearch.executeAdvancedSearch(analysis);
+  const searchLatency = Date.now() - searchStart;
+  const retrievedIds = searchResult.chunks.map(chunk => chunk.id);
+  const assessment = abstention.service.assessRetrieval(entry.question, analysis, searchResult.chunks, abstention.config);
+
+  const recall = {};
+  RECALL_KS.forEach(k => {
+    const topK = new Set(retrievedIds.slice(0, k));
+    recall[k] = entry.expected.chunkIds.filter(id => topK.has(id)).length / entry.expected.chunkIds.length;
+  });
+  const firstGoldRank = retrievedIds.findIndex(id => goldIds.has(id));
+  const reciprocalRank = firstGoldRank >= 0 ? 1 / (firstGoldRank + 1) : 0;
+
+  // 실제 답변 생성 경로와 같은 방식으로 관련 표를 고르고 컨텍스트와 시스템 프롬프트 구성
+  await tableIndexService.loadIndex();
+  const tablesByChunkId = tableIndexService.selectTablesForChunks(entry.question, retrievedIds);
+  const contextText = searchResult.chunks
+    .map((chunk, index) => geminiService.formatContextChunk(chunk, index, tablesByChunkId.get(chunk.id)))
+    .join('\n\n---\n\n');
+  const selectedTables = [...tablesByChunkId.values()].flat();
+  // 표 적중: 기대 표가 모두 선택되고 표 블록(제목·쪽 + 마크다운 표)으로 컨텍스트에 들어갔는지
+  const tableHit = entry.expected.tables
+    ? entry.expected.tables.every(tableId => {
+      const table = selectedTables.find(item => item.tableId === tableId);
+      return !!table && contextText.includes(tableIndexService.formatTableContext(table));
+    })
+    : undefined;
+  const systemInstruction = geminiService.createDynamicSystemInstruction(analysis, contextText);
+  const chat = llmProvider.createChat({ systemInstruction, history: [] });
+  const answer = (await chat.sendMessage({ message: entry.question })).text;
+
+  // 인용 정확도: [n] → n번째 컨텍스트 청크가 정답 청크인지
+  const citedIndexes = [...new Set([...answer.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1], 10)))];
+  const citedChunks = citedIndexes
+    .map(index => searchResult.chunks[index - 1])
+    .filter(Boolean);
+  const citationPrecision = citedChunks.length > 0
+    ? citedChunks.filter(chunk => goldIds.has(chunk.id)).length / citedChunks.length
+    : 0;
+
+  const corpusById = new Map(corpus.chunks.map(chunk => [chunk.id, chunk]));
+  const citedArticles = new Set(citedChunks.flatMap(chunk => corpusById.get(chunk.id)?.metadata.articles || []));
+  const citedPages = new Set(citedChunks.map(chunk => chunk.metadata?.page));
+  const expectedArticleHitRate = entry.expected.articles.length > 0
+    ? entry.expected.articles.filter(article => citedArticles.has(article) || answer.includes(article)).length / entry.expected.articles.length
+    : 1;
+  const pageHit = (entry.expected.pages || []).some(page => citedPages.has(page));
+
+  const validation = AnswerValidationSystem.validateAnswer(answer, entry.question, searchResult.chunks, analysis);
+
+  return {
+    id: entry.id,
+    question: entry.question,
+    retrieved: retrievedIds.slice(0, 10),
+    recall,
+    reciprocalRank,
+    searchLatency,
+    cited: citedChunks.map(chunk => chunk.id),
+    citationPrecision,
+    expectedArticleHitRate,
+    pageHit,
+    tableHit,
+    selectedTables: selectedTables.map(table => table.tableId),
+    validationScore: validation.metrics.overallScore,
+    validationConfidence: validation.confidence,
+    abstained: assessment.abstained,
+    retrievalScore: assessment.retrievalScore,
+    answer
+  };
+}
+
+/**
+ * 범위 밖 질문 1건 평가 (답변 보류되어야 함)
+ */
+async function evaluateOutOfScope(entry, services) {
+  const { questionAnalyzer, advancedSearch, abstention } = services;
+  const analysis = await questionAnalyzer.analyzeQuestion(entry.question);
+  const searchResult = await advancedSearch.executeAdvancedSearch(analysis);
+  const assessment = abstention.service.assessRetrieval(entry.question, analysis, searchResult.chunks, abstention.config);
+  return {
+    id: entry.id,
+    question: entry.question,
+    abstained: assessment.abstained,
+    retrievalScore: assessment.retrievalScore,
+    contextQuality: assessment.contextQuality
+  };
+}
+
+function formatPercent(value) {
+  return `${(value * 100).toFixed(0)}%`.padStart(5);
+}
+
+async function main() {
+  const analyses = new Map(goldenSet.questions.map(entry => [entry.question, entry.analysis]));
+  const fakeLLM = await startFakeLLMServer(analyses);
+
+  // 로컬 OpenAI 호환 제공자로 가짜 서버 연결 (.env.local의 실제 키는 읽지 않음)
+  process.env.VITE_LLM_PROVIDER = 'local';
+  process.env.VITE_LOCAL_LLM_BASE_URL = fakeLLM.url;
+  process.env.VITE_LOCAL_LLM_MODEL = 'fake-llm';
+
+  const vite = await createServer({
+    root: projectRoot,
+    configFile: false,
+    envDir: __dirname,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, watch: null },
+    optimizeDeps: { noDiscovery: true, include: [] },
+    ssr: { noExternal: ['@xenova/transformers'] },
+    plugins: [fixtureModulesPlugin()]
+  });
+
+  let exitCode = 0;
+  try {
+    muteServiceLogs();
+    installStaticFetch();
+    const { FirestoreCacheService } = await vite.ssrLoadModule('/services/firestoreCacheService.ts');
+    disableBrowserCache(FirestoreCacheService);
+    const { FirestoreService } = await vite.ssrLoadModule('/services/firestoreService.ts');
+    installFixtureBackend(FirestoreService.getInstance());
+
+    const { questionAnalyzer } = await vite.ssrLoadModule('/services/questionBasedContextService.ts');
+    const { AdvancedSearchQualityService } = await vite.ssrLoadModule('/services/advancedSearchQualityService.ts');
+    const { geminiService } = await vite.ssrLoadModule('/services/geminiService.ts');
+    const { llmProvider } = await vite.ssrLoadModule('/services/llmProvider.ts');
+    const { AnswerValidationSystem } = await vite.ssrLoadModule('/services/answerValidationSystem.ts');
+    const { abstentionService, DEFAULT_ABSTENTION_CONFIG } = await vite.ssrLoadModule('/services/abstentionService.ts');
+    const { tableIndexService } = await vite.ssrLoadModule('/services/tableIndexService.ts');
+    const services = {
+      questionAnalyzer,
+      advancedSearch: new AdvancedSearchQualityService(),
+      geminiService,
+      llmProvider,
+      AnswerValidationSystem,
+      abstention: { service: abstentionService, config: DEFAULT_ABSTENTION_CONFIG },
+      tableIndexService
+    };
+
+    const results = [];
+    for (const entry of goldenSet.questions) {
+      try {
+        results.push(await evaluateQuestion(entry, services));
+      } catch (error) {
+        results.push({ id: entry.id, question: entry.question, error: error.message });
+      }
+    }
+    const outOfScopeResults = [];
+    for (const entry of goldenSet.outOfScope || []) {
+      try {
+        outOfScopeResults.push(await evaluateOutOfScope(entry, services));
+      } catch (error) {
+        outOfScopeResults.push({ id: entry.id, question: entry.question, error: error.message });
+      }
+    }
+    const documentChecks = await runDocumentChecks(projectRoot, documentExpectations);
+    restoreServiceLogs();
+
+    out(`\n📊 RAG 회귀 테스트 (${corpus.chunks.length}개 청크, ${goldenSet.questions.length}개 질문, LLM: ${llmProvider.type})\n`);
+    out(`${'질문'.padEnd(26)} ${RECALL_KS.map(k => `R@${k}`.padStart(5)).join(' ')}   MRR  인용  조문  쪽  검증  ms`);
+    results.forEach(result => {
+      if (result.error) {
+        out(`❌ ${result.id.padEnd(24)} 실행 실패: ${result.error}`);
+        return;
+      }
+      out(`${result.id.padEnd(26)} ${RECALL_KS.map(k => formatPercent(result.recall[k])).join(' ')} ` +
+        `${result.reciprocalRank.toFixed(2).padStart(5)} ${formatPercent(result.citationPrecision)} ` +
+        `${formatPercent(result.expectedArticleHitRate)} ${result.pageHit ? ' ✓' : ' ✗'} ` +
+        `${result.validationScore.toFixed(2).padStart(5)} ${String(result.searchLatency).padStart(4)}` +
+        `${result.tableHit === undefined ? '' : `  표 ${result.tableHit ? '✓' : '✗'}`}` +
+        `${result.abstained ? `  🚫 답변 보류 (검색 점수 ${result.retrievalScore.toFixed(2)})` : ''}`);
+      if (verbose) {
+        out(`   검색: ${result.retrieved.join(', ')}\n   인용: ${result.cited.join(', ') || '-'}\n   표: ${result.selectedTables.join(', ') || '-'}\n${result.answer.replace(/^/gm, '   │ ')}`);
+      }
+    });
+
+    if (outOfScopeResults.length > 0) {
+      out(`\n🚫 범위 밖 질문 (답변 보류 기대, ${outOfScopeResults.length}개)`);
+      outOfScopeResults.forEach(result => {
+        if (result.error) {
+          out(`❌ ${result.id.padEnd(24)} 실행 실패: ${result.error}`);
+          return;
+        }
+        out(`${result.abstained ? '✓' : '✗'} ${result.id.padEnd(24)} 검색 점수 ${result.retrievalScore.toFixed(2)}, 근거 품질 ${result.contextQuality.toFixed(2)}`);
+      });
+    }
+
+    out(`\n📄 수집 모듈 검사 (실제 PDF, ${documentChecks.length}개)`);
+    documentChecks.forEach(check => {
+      out(`${check.passed ? '✓' : '✗'} ${check.kind} ${check.id}`);
+      check.failures.forEach(failure => out(`   ${failure}`));
+    });
+
+    const evaluated = results.filter(result => !result.error);
+    const evaluatedOutOfScope = outOfScopeResults.filter(result => !result.error);
+    const summary = {
+      recallAt5: average(evaluated.map(result => result.recall[5])),
+      recallAt10: average(evaluated.map(result => result.recall[10])),
+      mrr: average(evaluated.map(result => result.reciprocalRank)),
+      citationPrecision: average(evaluated.map(result => result.citationPrecision)),
+      expectedArticleHitRate: average(evaluated.map(result => result.expectedArticleHitRate)),
+      pageHitRate: average(evaluated.map(result => (result.pageHit ? 1 : 0))),
+      validationScore: average(evaluated.map(result => result.validationScore)),
+      validationConfidence: average(evaluated.map(result => result.validationConfidence)),
+      answeredRate: average(evaluated.map(result => (result.abstained ? 0 : 1))),
+      outOfScopeAbstentionRate: average(evaluatedOutOfScope.map(result => (result.abstained ? 1 : 0))),
+      tableHitRate: average(evaluated.filter(result => result.tableHit !== undefined).map(result => (result.tableHit ? 1 : 0))),
+      averageLatencyMs: Math.round(average(evaluated.map(result => result.searchLatency))),
+      failedQuestions: results.length - evaluated.length + outOfScopeResults.length - evaluatedOutOfScope.length
+    };
+
+    out('\n📈 평균');
+    Object.entries(summary).forEach(([metric, value]) => {
+      const threshold = goldenSet.thresholds[metric];
+      const status = threshold === undefined ? '  ' : value >= threshold ? '✅' : '❌';
+      const formatted = Number.isInteger(value) ? String(value) : value.toFixed(3);
+      out(`${status} ${metric.padEnd(24)} ${formatted}${threshold !== undefined ? ` (기준 ${threshold})` : ''}`);
+    });
+
+    const failedMetrics = Object.entries(goldenSet.thresholds).filter(([metric, threshold]) => summary[metric] < threshold);
+    const failedChecks = documentChecks.filter(check => !check.passed);
+    if (failedMetrics.length > 0 || summary.failedQuestions > 0 || failedChecks.length > 0) {
+      exitCode = 1;
+      const reasons = [
+        ...failedMetrics.map(([metric]) => metric),
+        ...(summary.failedQuestions > 0 ? [`실행 실패 ${summary.failedQuestions}건`] : []),
+        ...failedChecks.map(check => `${check.kind} ${check.id}`)
+      ];
+      out(`\n❌ 회귀 감지: ${reasons.join(', ')}`);
+    } else {
+      out('\n✅ 모든 지표가 기준을 충족합니다.');
+    }
+    out(`🤖 가짜 LLM 호출: 분석 ${fakeLLM.stats.analysisRequests}회, 답변 ${fakeLLM.stats.chatRequests}회`);
+
+    if (jsonOutputPath) {
+      fs.writeFileSync(jsonOutputPath, JSON.stringify({ summary, thresholds: goldenSet.thresholds, results, outOfScopeResults, documentChecks }, null, 2));
+      out(`💾 결과 저장: ${jsonOutputPath}`);
+    }
+  } catch (error) {
+    restoreServiceLogs();
+    console.error('❌ 회귀 테스트 실행 오류:', error);
+    exitCode = 1;
+  } finally {
+    await vite.close();
+    await fakeLLM.close();
+  }
+
+  process.exit(exitCode);
+}
+
+main();
@@ -0,0 +1,348 @@
+/**
+ * Gemini 프록시 서버
+ * Gemini API 키를 서버 환경변수에만 두고, 브라우저는 이 서버만 호출
+ * 모든 Gemini 호출(질문 분석, 키워드 확장, 답변 생성)은 QuotaManager를 거쳐 키별 RPM·TPM·RPD 한도를 지킴
+ *
+ * 실행: npm run proxy  (.env.local / .env의 GEMINI_API_KEY, GEMINI_API_KEY_1 ~ _5 사용)
+ *
+ * 엔드포인트:
+ * - GET  /health                        키 개수·모델 확인
+ * - POST /api/chat                      단발 응답 { text } (responseMimeType: 'application/json'이면 JSON 모드)
+ * - POST /api/chat/stream               스트리밍 응답 (SSE: data: {"text": "..."} ... data: [DONE])
+ * - GET  /api/rpd?model=...             키별 RPM·TPM·RPD 사용량 (마스킹된 키, 기본 GEMINI_MODEL)
+ * - POST /api/rpd/keys/:keyId/toggle    키 활성/비활성 전환
+ *
+ * 요청 본문: { message, systemInstruction?, history?: [{ role: 'user' | 'model', text }], model?, temperature?, responseMimeType? }
+ *
+ * 답변 생성·키 전환(POST) 요청은 인증 필요:
+ * - PROXY_SHARED_SECRET이 있으면 X-Proxy-Token 헤더가 같아야 함
+ * - 없으면 허용된 origin의 브라우저 요청만 허용 (Origin 헤더 없는 curl·스크립트 요청 거부)
+ *
+ * 환경변수:
+ * - PROXY_HOST: 바인딩 주소 (기본 127.0.0.1, 다른 기기에서 접속하려면 0.0.0.0과 PROXY_SHARED_SECRET 함께 설정)
+ * - PROXY_PORT: 포트 (기본 8787)
+ * - PROXY_SHARED_SECRET: 공유 비밀값 (브라우저는 VITE_LLM_PROXY_TOKEN으로 전송, 번들에 포함되므로 공개 배포한 앱에서는 누구나 읽을 수 있음)
+ * - PROXY_ALLOWED_ORIGINS: 허용할 브라우저 origin (쉼표 구분, 기본 http://localhost:5173,http://localhost:4173)
+ * - PROXY_ALLOWED_MODELS: 허용할 모델 (쉼표 구분, 기본 GEMINI_MODEL)
+ * - GEMINI_MODEL: 기본 모델 (기본 gemini-2.5-flash)
+ * - PROXY_RPD_STATE: 일일 사용량 집계 파일 경로 (기본 .rpd-usage.json)
+ * - PROXY_MODEL_LIMITS: 모델별 한도 JSON (예: {"gemini-2.5-flash":{"rpm":10,"tpm":250000,"rpd":250}}, 기본은 무료 등급 한도)
+ * - PROXY_MAX_QUEUE_WAIT_MS: 분당 한도에 걸렸을 때 서버에서 기다릴 최대 시간 (기본 20000, 넘으면 429 + Retry-After)
+ *
+ * 429 응답에는 Retry-After 헤더(초)를 포함
+ */
+
+import http from 'http';
+import path from 'path';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { GoogleGenAI } from '@google/genai';
+import { QuotaManager, estimateTokens, parseModelLimits } from './quota-manager.js';
+
+dotenv.config({ path: '.env.local', quiet: true });
+dotenv.config({ quiet: true });
+
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const SHARED_SECRET = (process.env.PROXY_SHARED_SECRET || '').trim();
+const DEFAULT_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+const ALLOWED_ORIGINS = splitList(process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:5173,http://localhost:4173');
+const ALLOWED_MODELS = splitList(process.env.PROXY_ALLOWED_MODELS || DEFAULT_MODEL);
+const MAX_QUEUE_WAIT_MS = Number(process.env.PROXY_MAX_QUEUE_WAIT_MS) || 20000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class ProxyError extends Error {
+  constructor(status, message, retryAfterMs = null) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function splitList(value) {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * 서버 환경변수에서 Gemini 키 로드
+ * VITE_ 접두사 키는 Vite가 브라우저 번들에 넣는 이름이므로 받지 않고 시작을 중단 (서버 전용 이름 안내)
+ */
+function loadApiKeys() {
+  const names = ['GEMINI_API_KEY', ...[1, 2, 3, 4, 5].map(n => `GEMINI_API_KEY_${n}`)];
+
+  const exposedNames = Object.keys(process.env).filter(name => name.startsWith('VITE_GEMINI_API_KEY') && process.env[name]);
+  if (exposedNames.length > 0) {
+    const renames = exposedNames.map(name => `${name} → ${name.replace(/^VITE_/, '')}`).join(', ');
+    console.error(`❌ VITE_ 접두사 Gemini 키는 브라우저 번들에 노출될 수 있어 사용할 수 없습니다. 서버 전용 이름으로 바꾸세요: ${renames}`);
+    process.exit(1);
+  }
+
+  const keys = names
+    .map(name => (process.env[name] || '').trim())
+    .filter(key => key && key !== 'your_gemini_api_key_here' && !key.startsWith('your_'));
+  return [...new Set(keys)];
+}
+
+const quotaManager = new QuotaManager(loadApiKeys(), {
+  statePath: path.resolve(process.cwd(), process.env.PROXY_RPD_STATE || '.rpd-usage.json'),
+  modelLimits: parseModelLimits(process.env.PROXY_MODEL_LIMITS)
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 할당량 안에서 요청 실행
+ * - 분당 한도·백오프 중이면 MAX_QUEUE_WAIT_MS까지 기다렸다가 실행, 더 길면 429 + Retry-After
+ * - 할당량/인증 오류면 다른 키로 재시도, 키와 무관한 오류는 그대로 전달
+ * @returns {{ result, lease }} 호출한 쪽에서 실제 토큰 수와 함께 quotaManager.complete(lease, tokens) 호출
+ */
+async function withQuota(params, run) {
+  if (quotaManager.keys.length === 0) {
+    throw new ProxyError(503, 'Gemini API 키가 설정되지 않았습니다.');
+  }
+
+  const estimatedTokens = estimateRequestTokens(params);
+  const deadline = Date.now() + MAX_QUEUE_WAIT_MS;
+  const maxFailures = quotaManager.keys.length * 2;
+  let failures = 0;
+  let lastError = null;
+
+  while (failures < maxFailures) {
+    const slot = quotaManager.acquire(params.model, estimatedTokens);
+    if (!slot) break;
+
+    if (!slot.lease) {
+      if (Date.now() + slot.retryAfterMs > deadline) {
+        throw new ProxyError(429, `Gemini 분당 한도에 도달했습니다. ${Math.ceil(slot.retryAfterMs / 1000)}초 후 다시 시도하세요.`, slot.retryAfterMs);
+      }
+      console.log(`⏳ 분당 한도 대기: ${Math.ceil(slot.retryAfterMs / 1000)}초 (${params.model})`);
+      await sleep(Math.max(slot.retryAfterMs, 50));
+      continue;
+    }
+
+    const { lease } = slot;
+    try {
+      return { result: await run(new GoogleGenAI({ apiKey: lease.key })), lease };
+    } catch (error) {
+      lastError = error;
+      failures++;
+      console.warn(`⚠️ Gemini 요청 실패 (${lease.keyId}):`, error.message);
+      if (!quotaManager.fail(lease, error)) {
+        throw new ProxyError(Number(error.status) || 502, error.message);
+      }
+    }
+  }
+
+  throw new ProxyError(429, `사용 가능한 Gemini API 키가 없습니다 (일일 한도 소진 또는 비활성화)${
+    lastError ? `: ${lastError.message}` : ''
+  }`, quotaManager.getMsUntilReset());
+}
+
+/**
+ * 요청 토큰 추정 (시스템 지시 + 대화 이력 + 질문)
+ */
+function estimateRequestTokens(params) {
+  const texts = params.contents.flatMap(content => content.parts.map(part => part.text));
+  return estimateTokens([params.config.systemInstruction || '', ...texts].join(''));
+}
+
+/**
+ * 요청 본문 → Gemini generateContent 파라미터
+ */
+function buildGenerateParams(body) {
+  if (!body || typeof body.message !== 'string' || !body.message.trim()) {
+    throw new ProxyError(400, 'message가 필요합니다.');
+  }
+
+  const model = body.model || DEFAULT_MODEL;
+  if (!ALLOWED_MODELS.includes(model)) {
+    throw new ProxyError(400, `허용되지 않은 모델입니다: ${model}`);
+  }
+
+  const history = Array.isArray(body.history) ? body.history : [];
+  return {
+    model,
+    contents: [
+      ...history
+        .filter(entry => entry && typeof entry.text === 'string')
+        .map(entry => ({ role: entry.role === 'model' ? 'model' : 'user', parts: [{ text: entry.text }] })),
+      { role: 'user', parts: [{ text: body.message }] }
+    ],
+    config: {
+      ...(body.systemInstruction ? { systemInstruction: body.systemInstruction } : {}),
+      ...(typeof body.temperature === 'number' ? { temperature: body.temperature } : {}),
+      ...(body.responseMimeType === 'application/json' ? { responseMimeType: 'application/json' } : {})
+    }
+  };
+}
+
+async function handleChat(body, request, response) {
+  const params = buildGenerateParams(body);
+  const { result, lease } = await withQuota(params, ai => ai.models.generateContent(params));
+  quotaManager.complete(lease, result.usageMetadata?.totalTokenCount);
+  sendJson(request, response, 200, { text: result.text || '' });
+}
+
+async function handleChatStream(body, request, response) {
+  const params = buildGenerateParams(body);
+  // 스트림 시작 전 오류(할당량 등)는 다음 키로 재시도, 시작 후 오류는 SSE로 전달
+  const { result: stream, lease } = await withQuota(params, ai => ai.models.generateContentStream(params));
+  let totalTokens = 0;
+  let truncated = false;
+
+  // 브라우저가 중단하면 남은 스트림은 읽지 않음
+  let closed = false;
+  response.on('close', () => { closed = true; });
+
+  response.writeHead(200, {
+    ...corsHeaders(request),
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  try {
+    for await (const chunk of stream) {
+      if (closed) break;
+      totalTokens = chunk.usageMetadata?.totalTokenCount || totalTokens;
+      truncated = truncated || chunk.candidates?.[0]?.finishReason === 'MAX_TOKENS';
+      if (chunk.text) {
+        response.write(`data: ${JSON.stringify({ text: chunk.text })}\n\n`);
+      }
+    }
+    // 출력 토큰 한도로 끊긴 답변은 브라우저에서 이어서 작성할 수 있도록 알림
+    if (truncated && !closed) {
+      response.write(`data: ${JSON.stringify({ truncated: true })}\n\n`);
+    }
+    response.end('data: [DONE]\n\n');
+  } catch (error) {
+    console.error('❌ 스트리밍 중 오류:', error.message);
+    response.end(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+  } finally {
+    // 스트림이 시작됐으면 중간에 끊겨도 요청 1회로 집계
+    quotaManager.complete(lease, totalTokens);
+  }
+}
+
+function corsHeaders(request) {
+  const origin = request.headers.origin;
+  if (!origin || !(ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin))) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Proxy-Token',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    Vary: 'Origin'
+  };
+}
+
+/**
+ * 답변 생성·키 전환 요청 인증 (키 사용량 도용·키 비활성화 방지)
+ * 공유 비밀값이 설정되어 있으면 X-Proxy-Token 비교, 아니면 허용된 origin의 요청만 허용
+ */
+function isAuthorized(request) {
+  if (SHARED_SECRET) {
+    const token = Buffer.from(String(request.headers['x-proxy-token'] || ''));
+    const expected = Buffer.from(SHARED_SECRET);
+    return token.length === expected.length && crypto.timingSafeEqual(token, expected);
+  }
+  return Object.keys(corsHeaders(request)).length > 0;
+}
+
+const PROTECTED_ROUTE = /^\/api\/(chat(\/stream)?|rpd\/keys\/[^/]+\/toggle)$/;
+
+function sendJson(request, response, status, data, headers = {}) {
+  response.writeHead(status, { ...corsHeaders(request), ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(data));
+}
+
+function readJsonBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let size = 0;
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProxyError(413, '요청 본문이 너무 큽니다.'));
+        request.destroy();
+        return;
+      }
+      body += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new ProxyError(400, '요청 본문이 올바른 JSON이 아닙니다.'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (request, response) => {
+  const cors = corsHeaders(request);
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  // 허용되지 않은 origin의 브라우저 요청 차단 (키 사용량 도용 방지)
+  if (request.headers.origin && Object.keys(cors).length === 0) {
+    sendJson(request, response, 403, { error: '허용되지 않은 origin입니다.' });
+    return;
+  }
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, cors);
+    response.end();
+    return;
+  }
+
+  if (request.method === 'POST' && PROTECTED_ROUTE.test(url.pathname) && !isAuthorized(request)) {
+    sendJson(request, response, 401, {
+      error: SHARED_SECRET ? 'X-Proxy-Token이 올바르지 않습니다.' : '허용된 origin의 브라우저 요청만 처리합니다.'
+    });
+    return;
+  }
+
+  try {
+    if (request.method === 'GET' && url.pathname === '/health') {
+      sendJson(request, response, 200, { ok: true, keys: quotaManager.keys.length, model: DEFAULT_MODEL, limits: quotaManager.getLimits(DEFAULT_MODEL) });
+    } else if (request.method === 'POST' && url.pathname === '/api/chat') {
+      await handleChat(await readJsonBody(request), request, response);
+    } else if (request.method === 'POST' && url.pathname === '/api/chat/stream') {
+      await handleChatStream(await readJsonBody(request), request, response);
+    } else if (request.method === 'GET' && url.pathname === '/api/rpd') {
+      sendJson(request, response, 200, quotaManager.getStats(url.searchParams.get('model') || DEFAULT_MODEL));
+    } else if (request.method === 'POST' && /^\/api\/rpd\/keys\/[^/]+\/toggle$/.test(url.pathname)) {
+      const keyId = decodeURIComponent(url.pathname.split('/')[4]);
+      if (!quotaManager.toggleKey(keyId)) throw new ProxyError(404, `알 수 없는 키: ${keyId}`);
+      sendJson(request, response, 200, quotaManager.getStats(DEFAULT_MODEL));
+    } else {
+      sendJson(request, response, 404, { error: 'Not Found' });
+    }
+  } catch (error) {
+    const status = error instanceof ProxyError ? error.status : 500;
+    if (status >= 500) console.error('❌ 프록시 요청 처리 실패:', error);
+    if (!response.headersSent) {
+      const retryHeaders = error.retryAfterMs ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } : {};
+      sendJson(request, response, status, { error: error.message }, retryHeaders);
+    } else {
+      response.end();
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`🤖 Gemini 프록시 서버: http://${HOST}:${PORT} (키 ${quotaManager.keys.length}개, 모델 ${ALLOWED_MODELS.join(', ')})`);
+  ALLOWED_MODELS.forEach(model => {
+    const { rpm, tpm, rpd } = quotaManager.getLimits(model);
+    console.log(`📊 ${model} 키당 한도: 분당 ${rpm}회 · 분당 ${tpm.toLocaleString()}토큰 · 일일 ${rpd}회`);
+  });
+  if (quotaManager.keys.length === 0) {
+    console.warn('⚠️ GEMINI_API_KEY가 설정되지 않았습니다. .env.local에 추가하세요.');
+  }
+  console.log(`🔗 허용 origin: ${ALLOWED_ORIGINS.join(', ')}`);
+  console.log(`🔐 답변 생성·키 전환 인증: ${SHARED_SECRET ? 'X-Proxy-Token 공유 비밀값' : '허용 origin 요청만'}`);
+  if (!['127.0.0.1', 'localhost', '::1'].includes(HOST) && !SHARED_SECRET) {
+    console.warn('⚠️ 외부 인터페이스에 바인딩되었지만 PROXY_SHARED_SECRET이 없습니다. Origin 헤더는 위조할 수 있으니 공유 비밀값을 설정하세요.');
+  }
+});
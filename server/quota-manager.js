@@ -0,0 +1,397 @@
+/**
+ * Gemini 할당량 관리자 (프록시 서버 전용)
+ * 키 로테이션과 키·모델별 RPM(분당 요청)·TPM(분당 토큰)·RPD(일일 요청) 집계를 한곳에서 처리
+ *
+ * - 키는 서버 환경변수에만 존재하며 통계에는 마스킹된 키만 노출
+ * - 모델별 한도는 DEFAULT_MODEL_LIMITS 기본값에 PROXY_MODEL_LIMITS(JSON)로 덮어쓰기
+ * - 사용 가능한 키(활성 + 일일 한도 미만 + 분당 한도 여유)를 순서대로 돌아가며 선택
+ * - 429는 일일 한도 초과면 그날 해당 모델 소진, 분당 한도면 retryDelay와 지수 백오프 중 긴 시간만큼 쉬게 함
+ * - 일일 집계는 JSON 파일에 저장하여 서버를 다시 시작해도 유지 (Gemini와 같이 태평양 시간 자정에 리셋), 분당 집계는 메모리에만 유지
+ * - 키 ID는 키 해시 앞부분 (환경변수의 키 순서가 바뀌거나 키를 빼도 다른 키의 집계가 섞이지 않음)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Gemini 무료 등급 기준 기본 한도
+export const DEFAULT_MODEL_LIMITS = {
+  'gemini-2.5-flash': { rpm: 10, tpm: 250000, rpd: 250 },
+  'gemini-2.5-flash-lite': { rpm: 15, tpm: 250000, rpd: 1000 },
+  'gemini-2.5-pro': { rpm: 5, tpm: 250000, rpd: 100 },
+  'gemini-2.0-flash': { rpm: 15, tpm: 1000000, rpd: 200 }
+};
+const FALLBACK_LIMITS = { rpm: 10, tpm: 250000, rpd: 250 };  // 표에 없는 모델
+
+const WINDOW_MS = 60 * 1000;           // RPM·TPM 집계 구간
+const BACKOFF_BASE_MS = 2000;          // 연속 429 백오프 시작값
+const BACKOFF_MAX_MS = 60 * 1000;      // 백오프 상한
+const MAX_AUTH_FAILURES = 3;           // 인증 오류가 이만큼 나면 비활성화
+const RESET_TIME_ZONE = 'America/Los_Angeles';  // Gemini 일일 한도 리셋 기준
+
+const resetDateFormat = new Intl.DateTimeFormat('en-CA', { timeZone: RESET_TIME_ZONE });
+const resetClockFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: RESET_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric'
+});
+
+/**
+ * 키 ID (키 SHA-256 해시 앞 8자리 - 통계·관리 화면에 노출해도 키를 알 수 없음)
+ */
+export function getKeyId(key) {
+  return `key-${crypto.createHash('sha256').update(key).digest('hex').substring(0, 8)}`;
+}
+
+/**
+ * API 키 마스킹 (보안)
+ */
+export function maskApiKey(key) {
+  if (!key || key.length < 8) return '****';
+  return key.substring(0, 4) + '****' + key.substring(key.length - 4);
+}
+
+/**
+ * 모델별 한도 설정 파싱 (예: {"gemini-2.5-flash": {"rpm": 10, "tpm": 250000, "rpd": 250}})
+ * 잘못된 값은 무시하고 기본값 유지
+ */
+export function parseModelLimits(json) {
+  const limits = { ...DEFAULT_MODEL_LIMITS };
+  if (!json) return limits;
+
+  try {
+    const overrides = JSON.parse(json);
+    Object.entries(overrides).forEach(([model, value]) => {
+      const base = limits[model] || FALLBACK_LIMITS;
+      limits[model] = {
+        rpm: toPositiveNumber(value?.rpm, base.rpm),
+        tpm: toPositiveNumber(value?.tpm, base.tpm),
+        rpd: toPositiveNumber(value?.rpd, base.rpd)
+      };
+    });
+  } catch (error) {
+    console.warn('⚠️ PROXY_MODEL_LIMITS 파싱 실패, 기본 한도 사용:', error.message);
+  }
+  return limits;
+}
+
+/**
+ * 토큰 수 추정 (한국어 기준 대략 2자당 1토큰 - 실제 사용량은 응답의 usageMetadata로 보정)
+ */
+export function estimateTokens(text) {
+  return Math.ceil((text || '').length / 2);
+}
+
+/**
+ * 할당량/속도 제한 오류 여부
+ */
+export function isQuotaError(error) {
+  const message = String(error?.message || error);
+  return error?.status === 429 || /429|RESOURCE_EXHAUSTED|RATE_LIMIT_EXCEEDED|quota/i.test(message);
+}
+
+/**
+ * 429 오류의 재시도 대기 시간 (RetryInfo.retryDelay 또는 "retry in 12.3s" 문구, 없으면 null)
+ */
+export function parseRetryAfterMs(error) {
+  const message = String(error?.message || error);
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+}
+
+// 일일 한도 초과 (quotaId 예: GenerateRequestsPerDayPerProjectPerModel-FreeTier)
+function isDailyQuotaError(error) {
+  return /PerDay|per day|daily/i.test(String(error?.message || error));
+}
+
+function toPositiveNumber(value, fallback) {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * 일일 집계 기준 날짜 (태평양 시간 YYYY-MM-DD)
+ */
+export function getQuotaDateString(time) {
+  return resetDateFormat.format(new Date(time));
+}
+
+/**
+ * 다음 일일 리셋 시각 (태평양 시간 자정, 서머타임 전환일 포함)
+ */
+export function getNextResetTime(time) {
+  const [year, month, day] = getQuotaDateString(time).split('-').map(Number);
+  const nextMidnight = Date.UTC(year, month - 1, day + 1);
+  const reset = nextMidnight - getResetZoneOffsetMs(time);
+  return nextMidnight - getResetZoneOffsetMs(reset);
+}
+
+// 태평양 시간과 UTC의 차이 (서머타임이면 -7시간, 아니면 -8시간)
+function getResetZoneOffsetMs(time) {
+  const parts = Object.fromEntries(resetClockFormat.formatToParts(new Date(time)).map(part => [part.type, part.value]));
+  const wallClock = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+export class QuotaManager {
+  /**
+   * @param {string[]} keys Gemini API 키 목록
+   * @param {{ statePath: string, modelLimits?: Record<string, { rpm: number, tpm: number, rpd: number }>, now?: () => number }} options
+   *   now: 현재 시각 (테스트에서 시계 고정용)
+   */
+  constructor(keys, { statePath, modelLimits = DEFAULT_MODEL_LIMITS, now = Date.now }) {
+    this.keys = keys.map(key => ({ keyId: getKeyId(key), key }));
+    this.statePath = statePath;
+    this.modelLimits = modelLimits;
+    this.now = now;
+    this.nextIndex = 0;
+    this.authFailures = new Map();
+    this.runtime = new Map();  // `${keyId}:${model}` → { window: [{ time, tokens }], cooldownUntil, consecutive429 }
+    this.state = this.loadState();
+  }
+
+  getLimits(model) {
+    return this.modelLimits[model] || FALLBACK_LIMITS;
+  }
+
+  /**
+   * 요청 슬롯 확보
+   * @returns {{ lease: { keyId, key, model, entry } } | { retryAfterMs: number } | null}
+   *   lease: 바로 호출 가능 / retryAfterMs: 분당 한도·백오프로 대기 필요 / null: 모든 키가 일일 한도 소진 또는 비활성화
+   */
+  acquire(model, estimatedTokens) {
+    this.resetIfNewDay();
+    const limits = this.getLimits(model);
+    const now = this.now();
+    let shortestWait = Infinity;
+
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const index = (this.nextIndex + offset) % this.keys.length;
+      const candidate = this.keys[index];
+      const usage = this.state.keys[candidate.keyId];
+      if (!usage.isActive || (usage.models[model] || 0) >= limits.rpd) continue;
+
+      const wait = this.getWaitMs(this.getRuntime(candidate.keyId, model), limits, estimatedTokens, now);
+      if (wait > 0) {
+        shortestWait = Math.min(shortestWait, wait);
+        continue;
+      }
+
+      const entry = { time: now, tokens: estimatedTokens };
+      this.getRuntime(candidate.keyId, model).window.push(entry);
+      this.nextIndex = (index + 1) % this.keys.length;
+      return { lease: { keyId: candidate.keyId, key: candidate.key, model, entry } };
+    }
+
+    return Number.isFinite(shortestWait) ? { retryAfterMs: shortestWait } : null;
+  }
+
+  /**
+   * 요청 성공 기록 (tokens: 응답의 실제 토큰 수, 없으면 추정치 유지)
+   */
+  complete(lease, tokens) {
+    this.resetIfNewDay();
+    const usage = this.state.keys[lease.keyId];
+    if (!usage) return;
+
+    if (tokens > 0) lease.entry.tokens = tokens;
+    usage.models[lease.model] = (usage.models[lease.model] || 0) + 1;
+    this.getRuntime(lease.keyId, lease.model).consecutive429 = 0;
+    this.authFailures.delete(lease.keyId);
+    this.saveState();
+    console.log(`📊 할당량 기록: ${lease.keyId} ${lease.model} ${usage.models[lease.model]}/${this.getLimits(lease.model).rpd} (토큰 ${lease.entry.tokens})`);
+  }
+
+  /**
+   * 실패 처리 - 일일 한도 초과면 그날 소진, 분당 한도면 백오프, 인증 오류가 반복되면 비활성화
+   * @returns {boolean} 다른 키로(또는 대기 후) 재시도할 만한 오류인지
+   */
+  fail(lease, error) {
+    const usage = this.state.keys[lease.keyId];
+    if (!usage) return false;
+
+    const message = String(error?.message || error);
+    if (isQuotaError(error)) {
+      if (isDailyQuotaError(error)) {
+        usage.models[lease.model] = this.getLimits(lease.model).rpd;
+        this.saveState();
+        console.warn(`⚠️ ${lease.keyId} ${lease.model} 일일 할당량 초과 - 오늘은 다음 키 사용`);
+        return true;
+      }
+
+      const runtime = this.getRuntime(lease.keyId, lease.model);
+      runtime.consecutive429++;
+      const backoff = Math.min(BACKOFF_BASE_MS * Math.pow(2, runtime.consecutive429 - 1), BACKOFF_MAX_MS);
+      const delay = Math.max(parseRetryAfterMs(error) || 0, backoff);
+      runtime.cooldownUntil = this.now() + delay;
+      console.warn(`⚠️ ${lease.keyId} ${lease.model} 분당 한도 초과 (연속 ${runtime.consecutive429}회) - ${Math.ceil(delay / 1000)}초 대기`);
+      return true;
+    }
+
+    if (/401|403|API_KEY_INVALID|UNAUTHENTICATED|PERMISSION_DENIED/.test(message)) {
+      const failures = (this.authFailures.get(lease.keyId) || 0) + 1;
+      this.authFailures.set(lease.keyId, failures);
+      if (failures >= MAX_AUTH_FAILURES) {
+        usage.isActive = false;
+        this.saveState();
+        console.error(`❌ ${lease.keyId} 인증 실패 ${failures}회 - 비활성화`);
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 키 활성/비활성 전환 (관리 화면용)
+   */
+  toggleKey(keyId) {
+    const usage = this.state.keys[keyId];
+    if (!usage) return false;
+
+    usage.isActive = !usage.isActive;
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * 모델별 사용량 통계 (브라우저 RpdStats와 같은 형태, 키는 마스킹)
+   */
+  getStats(model) {
+    this.resetIfNewDay();
+    const limits = this.getLimits(model);
+    const now = this.now();
+
+    const apiKeys = this.keys.map(({ keyId, key }, index) => {
+      const runtime = this.getRuntime(keyId, model);
+      this.pruneWindow(runtime, now);
+      return {
+        keyId,
+        keyName: `API Key #${index + 1}`,
+        maskedKey: maskApiKey(key),
+        usedToday: this.state.keys[keyId].models[model] || 0,
+        maxPerDay: limits.rpd,
+        lastResetDate: this.state.resetTime,
+        isActive: this.state.keys[keyId].isActive,
+        requestsLastMinute: runtime.window.length,
+        maxPerMinute: limits.rpm,
+        tokensLastMinute: runtime.window.reduce((sum, entry) => sum + entry.tokens, 0),
+        maxTokensPerMinute: limits.tpm,
+        cooldownSeconds: Math.max(0, Math.ceil((runtime.cooldownUntil - now) / 1000))
+      };
+    });
+    const totalUsed = apiKeys.reduce((sum, key) => sum + key.usedToday, 0);
+    const totalMax = limits.rpd * apiKeys.length;
+
+    return {
+      model,
+      totalUsed,
+      totalMax,
+      remaining: Math.max(0, totalMax - totalUsed),
+      resetTime: this.state.resetTime,
+      apiKeys
+    };
+  }
+
+  /**
+   * 일일 집계 리셋까지 남은 시간 (태평양 시간 자정)
+   */
+  getMsUntilReset() {
+    const now = this.now();
+    return getNextResetTime(now) - now;
+  }
+
+  // 분당 한도·백오프로 기다려야 하는 시간 (0이면 바로 사용 가능)
+  getWaitMs(runtime, limits, estimatedTokens, now) {
+    this.pruneWindow(runtime, now);
+    if (runtime.cooldownUntil > now) {
+      return runtime.cooldownUntil - now;
+    }
+    if (runtime.window.length >= limits.rpm) {
+      return runtime.window[0].time + WINDOW_MS - now;
+    }
+
+    // 추정 토큰이 들어갈 만큼 오래된 요청이 구간을 벗어날 때까지 대기 (구간이 비어 있으면 한도보다 커도 허용)
+    let tokens = runtime.window.reduce((sum, entry) => sum + entry.tokens, 0);
+    for (const entry of runtime.window) {
+      if (tokens + estimatedTokens <= limits.tpm) break;
+      tokens -= entry.tokens;
+      if (tokens + estimatedTokens <= limits.tpm || tokens === 0) {
+        return entry.time + WINDOW_MS - now;
+      }
+    }
+    return 0;
+  }
+
+  getRuntime(keyId, model) {
+    const runtimeKey = `${keyId}:${model}`;
+    let runtime = this.runtime.get(runtimeKey);
+    if (!runtime) {
+      runtime = { window: [], cooldownUntil: 0, consecutive429: 0 };
+      this.runtime.set(runtimeKey, runtime);
+    }
+    return runtime;
+  }
+
+  pruneWindow(runtime, now) {
+    while (runtime.window.length > 0 && runtime.window[0].time + WINDOW_MS <= now) {
+      runtime.window.shift();
+    }
+  }
+
+  resetIfNewDay() {
+    const today = getQuotaDateString(this.now());
+    if (this.state.resetTime === today) return;
+
+    this.state = this.createEmptyState(today, this.state);
+    this.saveState();
+    console.log(`🔄 일일 할당량 집계 리셋: ${today}`);
+  }
+
+  // 날짜가 바뀌면 사용량만 리셋 (관리자가 비활성화한 키는 유지)
+  createEmptyState(today, previous) {
+    const keys = {};
+    this.keys.forEach(({ keyId }) => {
+      keys[keyId] = {
+        isActive: previous?.keys?.[keyId]?.isActive ?? true,
+        models: {}
+      };
+    });
+    return { resetTime: today, keys };
+  }
+
+  loadState() {
+    const today = getQuotaDateString(this.now());
+    try {
+      if (fs.existsSync(this.statePath)) {
+        const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+        const state = this.createEmptyState(today, saved);
+        if (saved.resetTime === today) {
+          Object.keys(state.keys).forEach(keyId => {
+            Object.entries(saved.keys?.[keyId]?.models || {}).forEach(([model, used]) => {
+              state.keys[keyId].models[model] = Number(used) || 0;
+            });
+          });
+        }
+        return state;
+      }
+    } catch (error) {
+      console.warn('⚠️ 할당량 집계 파일 읽기 실패, 새로 시작:', error.message);
+    }
+    return this.createEmptyState(today);
+  }
+
+  saveState() {
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.warn('⚠️ 할당량 집계 파일 저장 실패:', error.message);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 할당량 관리자 테스트 (node --test)
+ * 고정 시계로 키 로테이션, 분당 한도·429 대기 시간(retryAfterMs), 태평양 시간 자정 리셋을 확인
+ *
+ * 사용법: npm run test:proxy
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { QuotaManager, getKeyId } from './quota-manager.js';
+
+const MODEL = 'test-model';
+const KEYS = ['AIzaTestKeyAAAA1111', 'AIzaTestKeyBBBB2222'];
+
+// 테스트마다 새 집계 파일과 조절 가능한 시계로 관리자 생성
+function createManager(keys, { time, limits = { rpm: 10, tpm: 100000, rpd: 3 }, statePath } = {}) {
+  const clock = { time: Date.parse(time || '2026-01-15T12:00:00Z') };
+  const manager = new QuotaManager(keys, {
+    statePath: statePath || path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'quota-test-')), 'rpd.json'),
+    modelLimits: { [MODEL]: limits },
+    now: () => clock.time
+  });
+  return { manager, clock };
+}
+
+test('키 ID는 키 순서와 무관하게 같은 키에 고정', () => {
+  const statePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'quota-test-')), 'rpd.json');
+  const { manager } = createManager(KEYS, { statePath });
+  const { lease } = manager.acquire(MODEL, 10);
+  manager.complete(lease, 10);
+  assert.equal(lease.keyId, getKeyId(KEYS[0]));
+
+  // 키 순서를 바꿔 다시 시작해도 사용량은 같은 키에 남음
+  const { manager: reordered } = createManager([...KEYS].reverse(), { statePath });
+  const stats = reordered.getStats(MODEL);
+  assert.deepEqual(stats.apiKeys.map(key => key.keyId), [getKeyId(KEYS[1]), getKeyId(KEYS[0])]);
+  assert.deepEqual(stats.apiKeys.map(key => key.usedToday), [0, 1]);
+});
+
+test('사용 가능한 키를 순서대로 돌아가며 선택하고 일일 한도를 다 쓰면 null', () => {
+  const { manager } = createManager(KEYS);
+  const used = [];
+  for (let i = 0; i < 6; i++) {
+    const { lease } = manager.acquire(MODEL, 10);
+    manager.complete(lease, 10);
+    used.push(lease.keyId);
+  }
+
+  const [first, second] = KEYS.map(getKeyId);
+  assert.deepEqual(used, [first, second, first, second, first, second]);
+  assert.equal(manager.acquire(MODEL, 10), null);
+});
+
+test('분당 한도에 걸리면 가장 오래된 요청이 구간을 벗어날 때까지의 retryAfterMs', () => {
+  const { manager, clock } = createManager([KEYS[0]], { limits: { rpm: 1, tpm: 100000, rpd: 100 } });
+  manager.complete(manager.acquire(MODEL, 10).lease, 10);
+
+  clock.time += 15 * 1000;
+  assert.deepEqual(manager.acquire(MODEL, 10), { retryAfterMs: 45 * 1000 });
+
+  clock.time += 45 * 1000;
+  assert.ok(manager.acquire(MODEL, 10).lease);
+});
+
+test('429 retryDelay가 백오프보다 길면 retryDelay만큼 대기, 일일 한도 429는 그날 소진', () => {
+  const { manager, clock } = createManager([KEYS[0]], { limits: { rpm: 10, tpm: 100000, rpd: 100 } });
+  const { lease } = manager.acquire(MODEL, 10);
+  const retryable = manager.fail(lease, new Error('429 RESOURCE_EXHAUSTED {"retryDelay": "30s"}'));
+
+  assert.equal(retryable, true);
+  assert.deepEqual(manager.acquire(MODEL, 10), { retryAfterMs: 30 * 1000 });
+
+  clock.time += 30 * 1000;
+  const next = manager.acquire(MODEL, 10);
+  manager.fail(next.lease, new Error('429 quota exceeded: GenerateRequestsPerDayPerProjectPerModel-FreeTier'));
+  assert.equal(manager.acquire(MODEL, 10), null);
+});
+
+test('일일 집계는 UTC 자정이 아니라 태평양 시간 자정에 리셋', () => {
+  // 2026-01-15 00:00 UTC = 1월 14일 16:00 PST
+  const { manager, clock } = createManager([KEYS[0]], { time: '2026-01-14T23:59:00Z', limits: { rpm: 10, tpm: 100000, rpd: 1 } });
+  manager.complete(manager.acquire(MODEL, 10).lease, 10);
+
+  clock.time = Date.parse('2026-01-15T00:01:00Z');
+  assert.equal(manager.acquire(MODEL, 10), null);
+
+  // 1월 15일 00:00 PST = 08:00 UTC
+  clock.time = Date.parse('2026-01-15T07:59:00Z');
+  assert.equal(manager.getMsUntilReset(), 60 * 1000);
+  assert.equal(manager.acquire(MODEL, 10), null);
+
+  clock.time = Date.parse('2026-01-15T08:00:00Z');
+  assert.ok(manager.acquire(MODEL, 10).lease);
+  assert.equal(manager.getStats(MODEL).resetTime, '2026-01-15');
+});
+
+test('서머타임 기간에는 07:00 UTC에 리셋, 전환일은 하루가 23시간', () => {
+  const { manager, clock } = createManager([KEYS[0]], { time: '2026-07-15T06:59:00Z' });
+  assert.equal(manager.getMsUntilReset(), 60 * 1000);
+
+  // 2026-03-08 02:00 PST → 03:00 PDT (자정부터 다음 자정까지 23시간)
+  clock.time = Date.parse('2026-03-08T08:00:00Z');
+  assert.equal(manager.getMsUntilReset(), 23 * 60 * 60 * 1000);
+});
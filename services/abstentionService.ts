@@ -0,0 +1,267 @@
+/**
+ * 답변 보류(근거 없음) 판정 서비스
+ * 검색 결과가 질문과 맞지 않을 때 추측성 답변 대신 가까운 조문과 문의처를 안내
+ *
+ * - 답변 생성 전: 검색 점수(핵심어 일치, 검색기 합의, 관련성)와 ContextQualityMetrics로 판정
+ * - 답변 생성 후: AnswerValidationSystem 신뢰도로 재확인하여 미달이면 주의 문구 추가
+ * - 기준값은 관리자 페이지에서 조정하고 Firestore(app_settings/abstention)에 저장하여 모든 사용자에게 적용
+ */
+
+import { AnswerConfidence, ChunkReference, QuestionAnalysis } from '../types';
+import { EnhancedChunk } from './contextQualityOptimizer';
+import { AnswerValidationSystem } from './answerValidationSystem';
+import { tokenize } from './koreanTokenizer.js';
+import { formatPageLabel } from './pdfPageMap.js';
+import { FirestoreService } from './firestoreService';
+import { RETRIEVAL_SOURCES } from './retrievalOrchestrator';
+
+export interface AbstentionConfig {
+  enabled: boolean;
+  minRetrievalScore: number;    // 검색 점수 기준 (미만이면 답변 보류)
+  minContextQuality: number;    // 컨텍스트 품질 기준 (미만이면 답변 보류)
+  minAnswerConfidence: number;  // 답변 검증 신뢰도 기준 (미만이면 주의 문구)
+  nearestArticleCount: number;  // 거절 안내에 표시할 가까운 조문 수
+}
+
+// 검색 점수 가중치: 질문 핵심어가 근거에 실제로 나타나는지가 가장 중요
+const RETRIEVAL_WEIGHTS = { coverage: 0.6, agreement: 0.2, relevance: 0.2 };
+const ASSESSED_CHUNK_COUNT = 5;
+// 질문 형식어 (어느 질문에나 붙어 근거 일치 판단을 흐림)
+const QUESTION_FILLER_PATTERN = /^(얼마|어떻게|어떤|어디|언제|무엇|누가|알려|궁금|있나|되나|하나|방법|절차|기준)/;
+
+export const DEFAULT_ABSTENTION_CONFIG: AbstentionConfig = {
+  enabled: true,
+  minRetrievalScore: 0.6,
+  minContextQuality: 0.5,
+  minAnswerConfidence: 0.5,
+  nearestArticleCount: 3
+};
+
+// 질문 주제별 문의처 (위에서부터 먼저 일치하는 항목 사용)
+const DEPARTMENT_RULES: Array<{ pattern: RegExp; department: string }> = [
+  { pattern: /과태료|이의\s*제기|질서위반|체납|징수|납부/, department: '과태료를 부과한 시·군·구 과태료 담당 부서' },
+  { pattern: /공동주택|아파트|금연구역\s*지정|지정\s*신청/, department: '관할 시·군·구 보건소 금연구역 지정 담당' },
+  { pattern: /소매|판매|청소년|광고|자동판매기/, department: '관할 시·군·구 담배소매업·광고 단속 담당 부서' },
+  { pattern: /금연\s*치료|금연\s*상담|금연\s*클리닉|니코틴|보조제/, department: '관할 보건소 금연클리닉 또는 금연상담전화(1544-9030)' },
+  { pattern: /부담금|담뱃값|가격|세금/, department: '보건복지부 건강증진과' }
+];
+const DEFAULT_DEPARTMENT = '관할 시·군·구 보건소 금연사업 담당 부서';
+
+export class AbstentionService {
+  private static instance: AbstentionService;
+  private readonly CONFIG_ID = 'abstention';
+  private firestoreService: FirestoreService;
+  private config: AbstentionConfig | null = null;
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  public static getInstance(): AbstentionService {
+    if (!AbstentionService.instance) {
+      AbstentionService.instance = new AbstentionService();
+    }
+    return AbstentionService.instance;
+  }
+
+  /**
+   * 답변 생성 전 판정: 검색 결과만으로 답변 가능 여부 확인
+   */
+  assessRetrieval(
+    question: string,
+    questionAnalysis: QuestionAnalysis,
+    chunks: EnhancedChunk[],
+    config: AbstentionConfig
+  ): AnswerConfidence {
+    const topChunks = chunks.slice(0, ASSESSED_CHUNK_COUNT);
+    const suggestedDepartment = this.suggestDepartment(question);
+
+    if (topChunks.length === 0) {
+      return {
+        retrievalScore: 0,
+        keywordCoverage: 0,
+        contextQuality: 0,
+        abstained: config.enabled,
+        lowConfidence: true,
+        reasons: ['검색된 근거 문서가 없습니다.'],
+        suggestedDepartment
+      };
+    }
+
+    // 1. 질문 핵심어 일치율 (상위 청크 전체 토큰 기준)
+    const chunkTokens = new Set(topChunks.flatMap(chunk => tokenize(chunk.content)));
+    const specificKeywords = (questionAnalysis.keywords || []).filter(keyword => !QUESTION_FILLER_PATTERN.test(keyword.trim()));
+    const keywords = specificKeywords.length > 0 ? specificKeywords : [question];
+    const keywordTokens = keywords
+      .map(keyword => tokenize(keyword))
+      .filter(tokens => tokens.length > 0);
+    const keywordCoverage = keywordTokens.length > 0
+      ? keywordTokens.filter(tokens => tokens.every(token => chunkTokens.has(token))).length / keywordTokens.length
+      : 0;
+
+    // 2. 검색기 합의 (최상위 청크를 찾은 검색기 비율, 융합 정보가 없으면 중립값)
+    const provenance = topChunks[0].retrievalProvenance;
+    const agreement = provenance ? Math.min(1, provenance.sources.length / RETRIEVAL_SOURCES.length) : 0.5;
+
+    // 3. 최상위 청크 관련성
+    const relevance = topChunks[0].qualityMetrics?.relevanceScore || 0;
+
+    const retrievalScore =
+      keywordCoverage * RETRIEVAL_WEIGHTS.coverage +
+      agreement * RETRIEVAL_WEIGHTS.agreement +
+      relevance * RETRIEVAL_WEIGHTS.relevance;
+    const contextQuality = topChunks.reduce((sum, chunk) => sum + (chunk.qualityMetrics?.overallScore || 0), 0) / topChunks.length;
+
+    const reasons: string[] = [];
+    if (retrievalScore < config.minRetrievalScore) {
+      reasons.push(`질문 핵심어 중 ${Math.round(keywordCoverage * 100)}%만 자료에서 확인됩니다.`);
+    }
+    if (contextQuality < config.minContextQuality) {
+      reasons.push(`검색된 근거의 품질 점수(${contextQuality.toFixed(2)})가 기준(${config.minContextQuality})보다 낮습니다.`);
+    }
+
+    const belowThreshold = reasons.length > 0;
+    console.log(`⚖️ 근거 신뢰도 판정: 검색 ${retrievalScore.toFixed(2)} (핵심어 ${keywordCoverage.toFixed(2)}), 품질 ${contextQuality.toFixed(2)}${belowThreshold ? ' → 기준 미달' : ''}`);
+
+    return {
+      retrievalScore,
+      keywordCoverage,
+      contextQuality,
+      abstained: config.enabled && belowThreshold,
+      lowConfidence: belowThreshold,
+      reasons,
+      suggestedDepartment
+    };
+  }
+
+  /**
+   * 답변 생성 후 판정: AnswerValidationSystem 신뢰도로 재확인
+   */
+  assessAnswer(
+    assessment: AnswerConfidence,
+    answer: string,
+    question: string,
+    chunks: EnhancedChunk[],
+    questionAnalysis: QuestionAnalysis,
+    config: AbstentionConfig
+  ): AnswerConfidence {
+    if (!answer.trim()) return assessment;
+
+    const { confidence } = AnswerValidationSystem.validateAnswer(answer, question, chunks, questionAnalysis);
+    const belowThreshold = confidence < config.minAnswerConfidence;
+
+    return {
+      ...assessment,
+      answerConfidence: confidence,
+      lowConfidence: assessment.lowConfidence || belowThreshold,
+      reasons: belowThreshold
+        ? [...assessment.reasons, `답변 검증 신뢰도(${confidence.toFixed(2)})가 기준(${config.minAnswerConfidence})보다 낮습니다.`]
+        : assessment.reasons
+    };
+  }
+
+  /**
+   * 답변 보류 안내문 (가까운 조문은 **n** 참조 번호로 연결)
+   */
+  buildRefusal(assessment: AnswerConfidence, references: ChunkReference[]): string {
+    const lines = [
+      '제공된 자료에서 이 질문에 답할 수 있는 충분한 근거를 찾지 못했습니다. 부정확한 답변을 드리는 대신, 가장 가까운 관련 조문과 문의처를 안내해 드립니다.',
+      ''
+    ];
+
+    if (references.length > 0) {
+      lines.push('**가장 가까운 관련 조문**', '', ...this.formatNearestArticles(references), '');
+    }
+
+    lines.push(
+      '**문의처**',
+      '',
+      `정확한 안내는 ${assessment.suggestedDepartment || DEFAULT_DEPARTMENT}에 문의해 주세요. 질문을 법령 용어(예: 금연구역, 과태료, 지정 신청)로 바꾸어 다시 질문하시면 더 정확한 근거를 찾을 수 있습니다.`
+    );
+
+    if (assessment.reasons.length > 0) {
+      lines.push('', `> 판정 근거: ${assessment.reasons.join(' ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 답변 신뢰도 미달 시 답변 끝에 붙이는 주의 문구
+   */
+  buildLowConfidenceNotice(assessment: AnswerConfidence, references: ChunkReference[]): string {
+    const nearest = this.formatNearestArticles(references);
+    const lines = [
+      '',
+      '---',
+      '',
+      `⚠️ **근거 신뢰도가 낮은 답변입니다.** ${assessment.reasons.join(' ')}`
+    ];
+    if (nearest.length > 0) {
+      lines.push('', '아래 조문 원문을 직접 확인해 주세요.', '', ...nearest);
+    }
+    lines.push('', `추가 확인은 ${assessment.suggestedDepartment || DEFAULT_DEPARTMENT}에 문의해 주세요.`);
+    return lines.join('\n');
+  }
+
+  /**
+   * 질문 주제로 문의처 추천
+   */
+  suggestDepartment(question: string): string {
+    return DEPARTMENT_RULES.find(rule => rule.pattern.test(question))?.department || DEFAULT_DEPARTMENT;
+  }
+
+  // 참조 목록 한 줄: 조문(없으면 문서명·섹션), 페이지, 참조 번호
+  private formatNearestArticles(references: ChunkReference[]): string[] {
+    return references.map((reference, index) => {
+      const articles = (reference.articles || []).map(article => article.citation).slice(0, 2).join(', ');
+      const label = articles || [reference.documentTitle, reference.section].filter(Boolean).join(' - ');
+      const pageLabel = formatPageLabel(reference);
+      const page = pageLabel ? ` (${pageLabel})` : '';
+      return `- ${label}${page} **${index + 1}**`;
+    });
+  }
+
+  /**
+   * 판정 기준 조회 (저장된 값이 없으면 기본값)
+   */
+  async getConfig(): Promise<AbstentionConfig> {
+    if (this.config) return this.config;
+
+    const saved = await this.firestoreService.getAppSetting<AbstentionConfig>(this.CONFIG_ID);
+    this.config = this.normalizeConfig(saved || {});
+    return this.config;
+  }
+
+  /**
+   * 판정 기준 저장
+   */
+  async saveConfig(config: Partial<AbstentionConfig>): Promise<AbstentionConfig> {
+    const normalized = this.normalizeConfig(config);
+    if (!(await this.firestoreService.saveAppSetting(this.CONFIG_ID, normalized))) {
+      throw new Error('답변 보류 기준을 저장하지 못했습니다.');
+    }
+    this.config = normalized;
+    console.log('✅ 답변 보류 기준 저장:', this.config);
+    return this.config;
+  }
+
+  private normalizeConfig(config: Partial<AbstentionConfig>): AbstentionConfig {
+    const ratio = (value: unknown, fallback: number) => {
+      const number = Number(value);
+      return Number.isFinite(number) && number >= 0 && number <= 1 ? number : fallback;
+    };
+    const count = Number(config.nearestArticleCount);
+
+    return {
+      enabled: typeof config.enabled === 'boolean' ? config.enabled : DEFAULT_ABSTENTION_CONFIG.enabled,
+      minRetrievalScore: ratio(config.minRetrievalScore, DEFAULT_ABSTENTION_CONFIG.minRetrievalScore),
+      minContextQuality: ratio(config.minContextQuality, DEFAULT_ABSTENTION_CONFIG.minContextQuality),
+      minAnswerConfidence: ratio(config.minAnswerConfidence, DEFAULT_ABSTENTION_CONFIG.minAnswerConfidence),
+      nearestArticleCount: Number.isFinite(count) && count >= 1
+        ? Math.round(count)
+        : DEFAULT_ABSTENTION_CONFIG.nearestArticleCount
+    };
+  }
+}
+
+export const abstentionService = AbstentionService.getInstance();
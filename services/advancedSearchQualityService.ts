@@ -3,7 +3,7 @@
  * 모든 새로운 검색 시스템을 통합하여 사용
  */
 
-import { Chunk, QuestionAnalysis } from '../types';
+import { Chunk, QuestionAnalysis, LegalReferenceHop } from '../types';
 import { ContextQualityOptimizer, EnhancedChunk } from './contextQualityOptimizer';
 import { UnifiedSearchEngine, UnifiedSearchResult } from './unifiedSearchEngine';
 import { AnswerValidationSystem } from './answerValidationSystem';
@@ -35,6 +35,7 @@ export interface AdvancedSearchResult {
     mediumQualityChunks: number;
     lowQualityChunks: number;
   };
+  referenceChain?: LegalReferenceHop[];  // ✅ 추가: 조문 상호 참조 체인
 }
 
 export interface AnswerValidationResult {
@@ -59,7 +60,8 @@ export class AdvancedSearchQualityService {
    */
   async executeAdvancedSearch(
     questionAnalysis: QuestionAnalysis,
-    maxChunks: number = AdvancedSearchQualityService.DEFAULT_MAX_CHUNKS
+    maxChunks: number = AdvancedSearchQualityService.DEFAULT_MAX_CHUNKS,
+    signal?: AbortSignal  // 중지하면 다음 Firestore 조회 전에 AbortError
   ): Promise<AdvancedSearchResult> {
     const startTime = Date.now();
     console.log(`🚀 통합 검색 실행: "${questionAnalysis.context}"`);
@@ -71,7 +73,8 @@ export class AdvancedSearchQualityService {
       // ✅ 통합 검색 엔진 사용 (중복 제거, 성능 최적화)
       const unifiedResult = await this.unifiedSearch.executeUnifiedSearch(
         questionAnalysis,
-        validMaxChunks
+        validMaxChunks,
+        signal
       );
 
       const executionTime = Date.now() - startTime;
@@ -87,7 +90,8 @@ export class AdvancedSearchQualityService {
           executionTime,
           scoreBreakdown: unifiedResult.searchMetrics.scoreBreakdown
         },
-        qualityMetrics: ContextQualityOptimizer.generateQualitySummary(unifiedResult.chunks)
+        qualityMetrics: ContextQualityOptimizer.generateQualitySummary(unifiedResult.chunks),
+        referenceChain: unifiedResult.referenceChain || []
       };
 
       console.log(`🎉 통합 검색 완료: ${unifiedResult.chunks.length}개 최종 결과, ${executionTime}ms`);
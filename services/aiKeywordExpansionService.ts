@@ -3,7 +3,7 @@
  * 실시간 키워드 학습 및 동적 동의어 생성
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { llmProvider } from './llmProvider';
 
 export interface KeywordExpansionResult {
   originalKeyword: string;
@@ -26,13 +26,10 @@ export interface LearningData {
 export class AIKeywordExpansionService {
   private static instance: AIKeywordExpansionService;
   private learningDatabase: Map<string, LearningData[]> = new Map();
-  private aiService: GoogleGenAI | null = null;
   private readonly MAX_LEARNING_HISTORY = 1000;
   private readonly MIN_CONFIDENCE_THRESHOLD = 0.7;
 
-  private constructor() {
-    this.initializeAI();
-  }
+  private constructor() {}
 
   public static getInstance(): AIKeywordExpansionService {
     if (!AIKeywordExpansionService.instance) {
@@ -41,44 +38,14 @@ export class AIKeywordExpansionService {
     return AIKeywordExpansionService.instance;
   }
 
-  private initializeAI(): void {
-    try {
-      const apiKey = this.getApiKey();
-      if (apiKey) {
-        this.aiService = new GoogleGenAI({ apiKey });
-        console.log('✅ AI 키워드 확장 서비스 초기화 완료');
-      }
-    } catch (error) {
-      console.warn('⚠️ AI 키워드 확장 서비스 초기화 실패:', error);
-    }
-  }
-
-  private getApiKey(): string | null {
-    // 환경변수에서 API 키 가져오기
-    const apiKeys = [
-      import.meta.env.VITE_GEMINI_API_KEY,
-      import.meta.env.VITE_GEMINI_API_KEY_1,
-      import.meta.env.VITE_GEMINI_API_KEY_2
-    ].filter(key => key && key.trim() !== '');
-
-    return apiKeys.length > 0 ? apiKeys[0] : null;
-  }
-
   /**
    * AI 기반 키워드 확장
    */
   async expandKeywordWithAI(keyword: string, context?: string): Promise<KeywordExpansionResult> {
-    if (!this.aiService) {
-      return this.getFallbackExpansion(keyword);
-    }
-
     try {
       const prompt = this.createExpansionPrompt(keyword, context);
-      const chat = this.aiService.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: '당신은 한국어 키워드 확장 전문가입니다. 주어진 키워드에 대해 관련된 동의어, 유의어, 전문용어를 생성해주세요.'
-        },
+      const chat = llmProvider.createChat({
+        systemInstruction: '당신은 한국어 키워드 확장 전문가입니다. 주어진 키워드에 대해 관련된 동의어, 유의어, 전문용어를 생성해주세요.',
         history: []
       });
 
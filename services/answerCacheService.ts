@@ -0,0 +1,311 @@
+/**
+ * 의미 기반 답변 캐시 서비스
+ * 질문 임베딩·검색된 청크 ID·최종 답변을 IndexedDB에 저장하고, 거의 같은 질문이 다시 들어오면
+ * 질문 분석·검색·Gemini 호출 없이 저장된 답변을 반환
+ *
+ * - 키워드 문자열이 같아야 적중하는 FirestoreCacheService 검색 캐시와 달리 표현이 달라도 적중
+ * - 답변이 근거로 삼은 문서의 PDFDocument.version이 바뀌었거나(재업로드) 최신판이 아니게 되면 무효화
+ * - 질문의 숫자(연도·금액·조문 번호 등)가 다르면 유사도가 높아도 다른 질문으로 취급
+ * - 신뢰도 기준 미달·답변 보류 답변은 저장하지 않음
+ */
+
+import { AnswerConfidence, CachedAnswerMatch, ChunkReference, LegalReferenceHop } from '../types';
+import { localEmbeddingService } from './localEmbeddingService';
+import { FirestoreService, PDFDocument } from './firestoreService';
+import { IndexedDbStore } from './indexedDbStore';
+
+interface AnswerCacheEntry {
+  id: string;
+  question: string;                         // 검색에 사용한 질문 (후속 질문은 재작성된 질문)
+  embedding: number[];
+  chunkIds: string[];                       // 답변 근거로 검색된 청크
+  documentVersions: Record<string, string>; // 근거 문서 ID → 저장 시점 판본 지문
+  answer: string;
+  chunkReferences: ChunkReference[];
+  referenceChain: LegalReferenceHop[];
+  confidence: AnswerConfidence | null;
+  hitCount: number;
+  createdAt: number;
+}
+
+export interface AnswerCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: string;  // 예: "12.50%"
+}
+
+export interface AnswerCacheHit {
+  match: CachedAnswerMatch;
+  answer: string;
+  chunkReferences: ChunkReference[];
+  referenceChain: LegalReferenceHop[];
+  confidence: AnswerConfidence | null;
+}
+
+const MATCH_THRESHOLD = 0.95;
+const MAX_ENTRIES = 300;
+const CACHE_EXPIRY = 30 * 24 * 60 * 60 * 1000; // 30일 (FirestoreCacheService와 동일)
+
+export class AnswerCacheService {
+  private static instance: AnswerCacheService;
+  private readonly ANSWER_STORE = 'answers';
+  private readonly STATS_STORE = 'stats';
+  private readonly database = new IndexedDbStore('AnswerCacheDB', 1, [this.ANSWER_STORE, this.STATS_STORE], '답변 캐시');
+  private entries: AnswerCacheEntry[] | null = null;
+  private counters: { hits: number; misses: number } | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AnswerCacheService {
+    if (!AnswerCacheService.instance) {
+      AnswerCacheService.instance = new AnswerCacheService();
+    }
+    return AnswerCacheService.instance;
+  }
+
+  /**
+   * 거의 같은 질문의 저장된 답변 조회 (근거 문서 판본이 그대로일 때만)
+   */
+  async lookup(question: string): Promise<AnswerCacheHit | null> {
+    const entries = await this.loadEntries();
+    if (entries.length === 0 || !question.trim()) {
+      await this.count(false);
+      return null;
+    }
+
+    try {
+      const embedding = await localEmbeddingService.embedText(question.trim());
+      const numbers = this.extractNumbers(question);
+      const now = Date.now();
+
+      let best: { entry: AnswerCacheEntry; similarity: number } | null = null;
+      for (const entry of entries) {
+        if (now - entry.createdAt > CACHE_EXPIRY || this.extractNumbers(entry.question) !== numbers) continue;
+        const similarity = localEmbeddingService.cosineSimilarity(embedding, entry.embedding);
+        if (similarity >= MATCH_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { entry, similarity };
+        }
+      }
+
+      if (!best) {
+        await this.count(false);
+        return null;
+      }
+
+      const documents = await FirestoreService.getInstance().getAllDocuments();
+      if (documents.length === 0) {
+        // 문서 목록을 불러오지 못하면 판본 확인이 불가하므로 사용하지 않음 (항목은 유지)
+        await this.count(false);
+        return null;
+      }
+      if (!this.isFresh(best.entry, documents)) {
+        console.log(`🗑️ 근거 문서 판본 변경으로 답변 캐시 무효화: "${best.entry.question}"`);
+        await this.deleteEntry(best.entry.id);
+        await this.count(false);
+        return null;
+      }
+
+      best.entry.hitCount += 1;
+      await this.putEntry(best.entry);
+      await this.count(true);
+      console.log(`📦 답변 캐시 적중: "${best.entry.question}" (유사도 ${best.similarity.toFixed(3)})`);
+
+      return {
+        match: {
+          cachedQuestion: best.entry.question,
+          similarity: best.similarity,
+          cachedAt: new Date(best.entry.createdAt)
+        },
+        answer: best.entry.answer,
+        chunkReferences: best.entry.chunkReferences,
+        referenceChain: best.entry.referenceChain,
+        confidence: best.entry.confidence
+      };
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 조회 실패, 검색으로 진행:', error);
+      await this.count(false);
+      return null;
+    }
+  }
+
+  /**
+   * 완성된 답변 저장 (같은 질문의 기존 항목은 교체, 최대 개수 초과 시 오래된 항목부터 삭제)
+   */
+  async store(params: {
+    question: string;
+    answer: string;
+    chunkReferences: ChunkReference[];
+    referenceChain: LegalReferenceHop[];
+    confidence: AnswerConfidence | null;
+  }): Promise<void> {
+    const { question, answer, chunkReferences, referenceChain, confidence } = params;
+    if (!question.trim() || !answer.trim() || chunkReferences.length === 0) return;
+    if (confidence?.abstained || confidence?.lowConfidence) return;
+
+    try {
+      const documents = await FirestoreService.getInstance().getAllDocuments();
+      const documentVersions: Record<string, string> = {};
+      for (const reference of chunkReferences) {
+        const document = documents.find(doc => doc.id === reference.documentId);
+        if (!document) return;  // 판본을 확인할 수 없는 근거는 캐시하지 않음
+        documentVersions[document.id] = this.getVersionFingerprint(document);
+      }
+
+      const entries = await this.loadEntries();
+      const normalizedQuestion = question.trim();
+      const entry: AnswerCacheEntry = {
+        id: `answer_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        question: normalizedQuestion,
+        embedding: await localEmbeddingService.embedText(normalizedQuestion),
+        chunkIds: chunkReferences.map(reference => reference.chunkId),
+        documentVersions,
+        answer,
+        chunkReferences,
+        referenceChain,
+        confidence,
+        hitCount: 0,
+        createdAt: Date.now()
+      };
+
+      const replaced = entries.filter(existing => existing.question === normalizedQuestion);
+      const overflow = [...entries]
+        .filter(existing => existing.question !== normalizedQuestion)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(0, Math.max(0, entries.length - replaced.length + 1 - MAX_ENTRIES));
+      for (const stale of [...replaced, ...overflow]) {
+        await this.deleteEntry(stale.id);
+      }
+
+      await this.putEntry(entry);
+      this.entries = [...(this.entries || []), entry];
+      console.log(`✅ 답변 캐시 저장: "${normalizedQuestion}" (근거 청크 ${entry.chunkIds.length}개)`);
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 저장 실패:', error);
+    }
+  }
+
+  async getStats(): Promise<AnswerCacheStats> {
+    const entries = await this.loadEntries();
+    const { hits, misses } = await this.loadCounters();
+    const total = hits + misses;
+    return {
+      entries: entries.length,
+      hits,
+      misses,
+      hitRate: `${(total > 0 ? (hits / total) * 100 : 0).toFixed(2)}%`
+    };
+  }
+
+  /**
+   * 저장된 답변과 적중률 통계 모두 삭제
+   */
+  async clearCache(): Promise<void> {
+    try {
+      const db = await this.database.open();
+      const transaction = db.transaction([this.ANSWER_STORE, this.STATS_STORE], 'readwrite');
+      transaction.objectStore(this.ANSWER_STORE).clear();
+      transaction.objectStore(this.STATS_STORE).clear();
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      console.log('🗑️ 답변 캐시 전체 삭제 완료');
+    } catch (error) {
+      console.error('❌ 답변 캐시 삭제 실패:', error);
+    }
+    this.entries = [];
+    this.counters = { hits: 0, misses: 0 };
+  }
+
+  // 판본 지문: 같은 문서를 다시 올리면 version이, 새 판본이 추가되면 최신판 여부가 바뀜
+  private getVersionFingerprint(document: PDFDocument): string {
+    return `${document.version}${document.isLatestEdition === false ? ':superseded' : ''}`;
+  }
+
+  private isFresh(entry: AnswerCacheEntry, documents: PDFDocument[]): boolean {
+    return Object.entries(entry.documentVersions).every(([documentId, fingerprint]) => {
+      const document = documents.find(doc => doc.id === documentId);
+      return !!document && this.getVersionFingerprint(document) === fingerprint;
+    });
+  }
+
+  private extractNumbers(question: string): string {
+    return (question.match(/\d+/g) || []).join(',');
+  }
+
+  private async loadEntries(): Promise<AnswerCacheEntry[]> {
+    if (this.entries) return this.entries;
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.ANSWER_STORE], 'readonly').objectStore(this.ANSWER_STORE);
+      this.entries = await new Promise<AnswerCacheEntry[]>((resolve) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+      });
+      console.log(`📦 답변 캐시 로드: ${this.entries.length}건`);
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 로드 실패:', error);
+      this.entries = [];
+    }
+    return this.entries;
+  }
+
+  private async loadCounters(): Promise<{ hits: number; misses: number }> {
+    if (this.counters) return this.counters;
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STATS_STORE], 'readonly').objectStore(this.STATS_STORE);
+      const saved = await new Promise<{ hits: number; misses: number } | null>((resolve) => {
+        const request = store.get('current');
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+      });
+      this.counters = { hits: Number(saved?.hits) || 0, misses: Number(saved?.misses) || 0 };
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 통계 로드 실패:', error);
+      this.counters = { hits: 0, misses: 0 };
+    }
+    return this.counters;
+  }
+
+  // 적중/미적중 기록 (새로고침 후에도 적중률 유지)
+  private async count(hit: boolean): Promise<void> {
+    const counters = await this.loadCounters();
+    if (hit) counters.hits += 1;
+    else counters.misses += 1;
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STATS_STORE], 'readwrite').objectStore(this.STATS_STORE);
+      store.put({ id: 'current', ...counters, timestamp: Date.now() });
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 통계 저장 실패:', error);
+    }
+  }
+
+  private async putEntry(entry: AnswerCacheEntry): Promise<void> {
+    const db = await this.database.open();
+    const store = db.transaction([this.ANSWER_STORE], 'readwrite').objectStore(this.ANSWER_STORE);
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async deleteEntry(id: string): Promise<void> {
+    this.entries = (this.entries || []).filter(entry => entry.id !== id);
+    try {
+      const db = await this.database.open();
+      db.transaction([this.ANSWER_STORE], 'readwrite').objectStore(this.ANSWER_STORE).delete(id);
+    } catch (error) {
+      console.warn('⚠️ 답변 캐시 항목 삭제 실패:', error);
+    }
+  }
+}
+
+export const answerCacheService = AnswerCacheService.getInstance();
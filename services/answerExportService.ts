@@ -0,0 +1,232 @@
+/**
+ * 답변 보고서 내보내기 서비스
+ * 답변 하나 또는 대화 전체를 공문·민원 회신에 붙여 넣을 수 있는 문서로 변환
+ *
+ * - 답변의 참조 번호(**1 2**, [1])를 각주로 바꾸고 문서명·조문·페이지로 풀어 씀
+ * - 머리말에 생성 일시와 근거로 사용된 문서 판본 표시
+ * - HTML(한글·HWP에서 열기 가능), Word(.doc, Word용 HTML), PDF(브라우저 인쇄 → PDF로 저장) 지원
+ */
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChunkReference, Message } from '../types';
+import { documentVersionService } from './documentVersionService';
+import { formatPageLabel } from './pdfPageMap.js';
+
+export type ExportFormat = 'html' | 'doc' | 'pdf';
+
+export interface ExportEntry {
+  question: string;
+  answer: Message;
+}
+
+interface Footnote {
+  number: number;
+  text: string;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  html: 'HTML (한글 호환)',
+  doc: 'Word 문서',
+  pdf: 'PDF (인쇄)'
+};
+
+// 답변 본문의 참조 표기: **1 2** (기본 형식) 또는 [1], [1, 2]
+const BOLD_REFERENCE_PATTERN = /\*\*((?:\d+\s*)+)\*\*/g;
+const BRACKET_REFERENCE_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+const FOOTNOTE_TOKEN_PATTERN = /⟦(\d+)⟧/g;
+
+const REPORT_STYLE = `
+  body { font-family: '맑은 고딕', 'Malgun Gothic', '바탕', sans-serif; font-size: 11pt; line-height: 1.6; color: #111; margin: 2cm; }
+  h1 { font-size: 16pt; margin-bottom: 4pt; }
+  h2 { font-size: 12pt; margin-top: 18pt; border-bottom: 1px solid #999; padding-bottom: 2pt; }
+  .meta { font-size: 9pt; color: #555; margin-bottom: 12pt; }
+  .question { background: #f3f3f3; padding: 6pt 8pt; margin: 6pt 0; }
+  table { border-collapse: collapse; width: 100%; margin: 6pt 0; }
+  th, td { border: 1px solid #666; padding: 3pt 6pt; font-size: 10pt; }
+  sup { font-size: 8pt; }
+  .footnotes { margin-top: 18pt; border-top: 1px solid #999; font-size: 9pt; }
+  .footnotes li { margin-bottom: 2pt; }
+`;
+
+export class AnswerExportService {
+  private static instance: AnswerExportService;
+
+  private constructor() {}
+
+  public static getInstance(): AnswerExportService {
+    if (!AnswerExportService.instance) {
+      AnswerExportService.instance = new AnswerExportService();
+    }
+    return AnswerExportService.instance;
+  }
+
+  /**
+   * 메시지 목록에서 질문/답변 쌍 추출 (답변 직전의 사용자 메시지를 질문으로 사용)
+   */
+  createEntries(messages: Message[]): ExportEntry[] {
+    const entries: ExportEntry[] = [];
+    messages.forEach((message, index) => {
+      if (message.role !== 'model' || !message.content.trim()) return;
+      const previous = messages[index - 1];
+      entries.push({
+        question: previous?.role === 'user' ? previous.content : '',
+        answer: message
+      });
+    });
+    return entries;
+  }
+
+  /**
+   * 보고서 HTML 생성
+   */
+  async buildReport(entries: ExportEntry[], title: string): Promise<string> {
+    const footnotes: Footnote[] = [];
+    const footnoteByChunk = new Map<string, number>();
+
+    const sections = entries.map((entry, index) => {
+      const references = entry.answer.chunkReferences || [];
+      const markdown = this.replaceReferences(entry.answer.content, references, footnotes, footnoteByChunk);
+      const answerHtml = renderToStaticMarkup(
+        createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, markdown)
+      ).replace(FOOTNOTE_TOKEN_PATTERN, (_, number) => `<sup><a href="#fn-${number}">[${number}]</a></sup>`);
+
+      const heading = entries.length > 1 ? `<h2>${index + 1}. 질의 및 답변</h2>` : '';
+      const question = entry.question
+        ? `<div class="question"><strong>질문</strong> ${this.escapeHtml(entry.question)}</div>`
+        : '';
+      return `${heading}${question}<div class="answer">${answerHtml}</div>`;
+    });
+
+    const documentIds = entries.flatMap(entry => (entry.answer.chunkReferences || []).map(reference => reference.documentId));
+    const editions = await documentVersionService.listEditionsUsed(documentIds);
+    const generatedAt = new Date().toLocaleString('ko-KR');
+
+    const footnoteHtml = footnotes.length > 0
+      ? `<ol class="footnotes">${footnotes
+          .map(footnote => `<li id="fn-${footnote.number}">${this.escapeHtml(footnote.text)}</li>`)
+          .join('')}</ol>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${this.escapeHtml(title)}</h1>
+<div class="meta">
+  생성 일시: ${generatedAt}<br>
+  적용 판본: ${editions.length > 0 ? this.escapeHtml(editions.join(', ')) : '-'}
+</div>
+${sections.join('\n')}
+${footnoteHtml}
+</body>
+</html>`;
+  }
+
+  /**
+   * 보고서 내보내기 (HTML/Word는 파일 다운로드, PDF는 인쇄 창)
+   */
+  async exportReport(entries: ExportEntry[], title: string, format: ExportFormat): Promise<void> {
+    if (entries.length === 0) {
+      console.warn('⚠️ 내보낼 답변이 없습니다.');
+      return;
+    }
+
+    const html = await this.buildReport(entries, title);
+    const fileName = `${title.replace(/[\\/:*?"<>|]/g, '').trim().slice(0, 50) || '답변'}_${new Date().toISOString().split('T')[0]}`;
+
+    if (format === 'pdf') {
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        console.warn('⚠️ 팝업이 차단되어 HTML 파일로 내보냅니다.');
+        this.download(html, `${fileName}.html`, 'text/html;charset=utf-8');
+        return;
+      }
+      printWindow.document.open();
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.focus();
+      setTimeout(() => printWindow.print(), 300);
+    } else if (format === 'doc') {
+      const wordHtml = html.replace(
+        '<html lang="ko">',
+        '<html lang="ko" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">'
+      );
+      this.download(`\ufeff${wordHtml}`, `${fileName}.doc`, 'application/msword');
+    } else {
+      this.download(`\ufeff${html}`, `${fileName}.html`, 'text/html;charset=utf-8');
+    }
+
+    console.log(`📑 답변 보고서 내보내기: ${format}, 답변 ${entries.length}개`);
+  }
+
+  /**
+   * 참조 번호를 전역 각주 번호 토큰으로 치환 (같은 청크는 같은 각주 재사용)
+   */
+  private replaceReferences(
+    content: string,
+    references: ChunkReference[],
+    footnotes: Footnote[],
+    footnoteByChunk: Map<string, number>
+  ): string {
+    // ✅ 모든 번호가 참조 목록 범위 안일 때만 각주로 변환 (굵게 쓴 금액·기간 등 일반 숫자는 그대로 둠)
+    const toTokens = (original: string, numbers: number[]) => {
+      if (numbers.some(number => !Number.isInteger(number) || number < 1 || number > references.length)) {
+        return original;
+      }
+      return numbers.map(number => {
+        const reference = references[number - 1];
+        let footnoteNumber = footnoteByChunk.get(reference.chunkId);
+        if (!footnoteNumber) {
+          footnoteNumber = footnotes.length + 1;
+          footnoteByChunk.set(reference.chunkId, footnoteNumber);
+          footnotes.push({ number: footnoteNumber, text: this.describeReference(reference) });
+        }
+        return `⟦${footnoteNumber}⟧`;
+      }).join('');
+    };
+
+    return content
+      .replace(BOLD_REFERENCE_PATTERN, (match, numbers: string) =>
+        toTokens(match, numbers.trim().split(/\s+/).map(Number)))
+      .replace(BRACKET_REFERENCE_PATTERN, (match, numbers: string) =>
+        toTokens(match, numbers.split(',').map(number => Number(number.trim()))));
+  }
+
+  // 각주 문구: 문서명, 조문, 페이지(없으면 섹션)
+  private describeReference(reference: ChunkReference): string {
+    const articles = (reference.articles || []).map(article => article.citation).slice(0, 3).join(', ');
+    const location = formatPageLabel(reference) || reference.section || '';
+    // 조문 표기에 법령명이 이미 있으면 문서명 생략
+    const title = articles.startsWith(reference.documentTitle) ? '' : reference.documentTitle;
+    return [title, articles, location].filter(Boolean).join(', ');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private download(content: string, fileName: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const answerExportService = AnswerExportService.getInstance();
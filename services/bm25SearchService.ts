@@ -0,0 +1,196 @@
+/**
+ * BM25 키워드 검색 서비스
+ * 마이그레이션 스크립트가 생성한 역색인(data/bm25-index.json)을 로드하여
+ * Firestore 전체 스캔 없이 클라이언트에서 IDF 가중 BM25 점수로 청크 순위를 계산
+ *
+ * - 메타 파일(bm25-index-meta.json)의 builtAt이 같으면 IndexedDB 캐시 사용
+ * - 역색인을 사용할 수 없으면 search()가 null을 반환 → 호출 측이 기존 키워드 매칭으로 폴백
+ * - 질의 토큰화는 마이그레이션과 같은 공용 토크나이저(koreanTokenizer) 사용
+ */
+
+import { tokenizeForIndex, INDEX_TOKENIZER } from './koreanTokenizer.js';
+import { IndexedDbStore } from './indexedDbStore';
+
+export interface BM25IndexMeta {
+  version: number;
+  tokenizer: string;
+  builtAt: string;
+  chunkCount: number;
+  termCount: number;
+}
+
+export interface BM25IndexArtifact {
+  version: number;
+  tokenizer: string;
+  builtAt: string;
+  k1: number;
+  b: number;
+  chunkCount: number;
+  averageLength: number;
+  documentIds: string[];
+  chunkIds: string[];
+  chunkDocuments: number[];          // 청크 → documentIds 인덱스
+  chunkLengths: number[];            // 청크별 토큰 수
+  postings: Record<string, number[]>; // 용어 → [청크 인덱스, tf, 청크 인덱스, tf, ...]
+}
+
+export interface BM25Hit {
+  chunkId: string;
+  documentId: string;
+  score: number;
+}
+
+export interface BM25SearchOptions {
+  limit?: number;
+  documentId?: string;
+}
+
+const INDEX_URL = '/data/bm25-index.json';
+const META_URL = '/data/bm25-index-meta.json';
+
+export class BM25SearchService {
+  private static instance: BM25SearchService;
+  private readonly STORE_NAME = 'index';
+  private readonly database = new IndexedDbStore('BM25IndexDB', 1, [this.STORE_NAME], 'BM25');
+  private index: BM25IndexArtifact | null = null;
+  private loadingPromise: Promise<boolean> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): BM25SearchService {
+    if (!BM25SearchService.instance) {
+      BM25SearchService.instance = new BM25SearchService();
+    }
+    return BM25SearchService.instance;
+  }
+
+  /**
+   * 역색인 로드 (최초 1회, 실패 시 false)
+   */
+  async load(): Promise<boolean> {
+    if (this.index) return true;
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadIndex().then(index => {
+        this.index = index;
+        return index !== null;
+      });
+    }
+    return this.loadingPromise;
+  }
+
+  isReady(): boolean {
+    return this.index !== null;
+  }
+
+  private async loadIndex(): Promise<BM25IndexArtifact | null> {
+    try {
+      const metaResponse = await fetch(META_URL);
+      if (!metaResponse.ok) {
+        console.warn(`⚠️ BM25 역색인 없음 (${metaResponse.status}) - 기존 키워드 검색 사용`);
+        return null;
+      }
+      const meta: BM25IndexMeta = await metaResponse.json();
+      if (meta.tokenizer !== INDEX_TOKENIZER) {
+        console.warn(`⚠️ 지원하지 않는 BM25 토크나이저: ${meta.tokenizer} - 기존 키워드 검색 사용`);
+        return null;
+      }
+
+      const cached = await this.loadCachedIndex();
+      if (cached && cached.builtAt === meta.builtAt) {
+        console.log(`📦 캐시에서 BM25 역색인 로드: 청크 ${cached.chunkCount}개`);
+        return cached;
+      }
+
+      const response = await fetch(INDEX_URL);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const index: BM25IndexArtifact = await response.json();
+      console.log(`✅ BM25 역색인 로드 완료: 청크 ${index.chunkCount}개, 용어 ${meta.termCount}개`);
+
+      await this.saveCachedIndex(index);
+      return index;
+    } catch (error) {
+      console.warn('⚠️ BM25 역색인 로드 실패 - 기존 키워드 검색 사용:', error);
+      return null;
+    }
+  }
+
+  /**
+   * BM25 검색 (역색인을 사용할 수 없으면 null)
+   * IDF = ln(1 + (N - df + 0.5) / (df + 0.5)), 청크 길이는 평균 길이로 정규화
+   */
+  async search(keywords: string[], options: BM25SearchOptions = {}): Promise<BM25Hit[] | null> {
+    if (!(await this.load()) || !this.index) return null;
+
+    const index = this.index;
+    const { k1, b, chunkCount, averageLength } = index;
+    const documentIndex = options.documentId ? index.documentIds.indexOf(options.documentId) : -1;
+    if (options.documentId && documentIndex < 0) return [];
+
+    const queryTerms = [...new Set(keywords.flatMap(keyword => tokenizeForIndex(keyword)))];
+    const scores = new Map<number, number>();
+
+    queryTerms.forEach(term => {
+      const posting = index.postings[term];
+      if (!posting) return;
+
+      const documentFrequency = posting.length / 2;
+      const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      for (let i = 0; i < posting.length; i += 2) {
+        const chunkIndex = posting[i];
+        if (documentIndex >= 0 && index.chunkDocuments[chunkIndex] !== documentIndex) continue;
+
+        const tf = posting[i + 1];
+        const lengthNorm = 1 - b + b * (index.chunkLengths[chunkIndex] / (averageLength || 1));
+        const termScore = idf * (tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+        scores.set(chunkIndex, (scores.get(chunkIndex) || 0) + termScore);
+      }
+    });
+
+    const hits = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit ?? 15)
+      .map(([chunkIndex, score]) => ({
+        chunkId: index.chunkIds[chunkIndex],
+        documentId: index.documentIds[index.chunkDocuments[chunkIndex]],
+        score
+      }));
+
+    console.log(`🔎 BM25 검색: 질의 용어 ${queryTerms.length}개, 매칭 청크 ${scores.size}개, 최고 점수 ${hits[0]?.score.toFixed(2) || 0}`);
+    return hits;
+  }
+
+  private async loadCachedIndex(): Promise<BM25IndexArtifact | null> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+
+      return await new Promise<BM25IndexArtifact | null>((resolve) => {
+        const request = store.get('current');
+        request.onsuccess = () => resolve(request.result?.index || null);
+        request.onerror = () => resolve(null);
+      });
+    } catch (error) {
+      console.warn('⚠️ BM25 역색인 캐시 조회 실패:', error);
+      return null;
+    }
+  }
+
+  private async saveCachedIndex(index: BM25IndexArtifact): Promise<void> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put({ id: 'current', index, timestamp: Date.now() });
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.warn('⚠️ BM25 역색인 캐시 저장 실패:', error);
+    }
+  }
+}
+
+export const bm25SearchService = BM25SearchService.getInstance();
@@ -0,0 +1,212 @@
+/**
+ * 문장 단위 근거 정렬 서비스
+ * 답변을 문장으로 나누고 각 문장을 뒷받침하는 참조 청크의 원문 구간을 찾아 연결
+ *
+ * - 어휘 중복(공용 토크나이저 어간)으로 후보 구간을 고른 뒤 로컬 임베딩 유사도로 재확인
+ * - 임베딩 모델을 쓸 수 없으면 어휘 점수만으로 판정
+ * - 근거를 찾지 못한 문장은 supported: false로 표시 (Message에서 경고 표시)
+ */
+
+import { ChunkReference, GroundingSpan, SentenceGrounding } from '../types';
+import { tokenize } from './koreanTokenizer.js';
+import { localEmbeddingService } from './localEmbeddingService';
+
+interface SourceSpan {
+  referenceIndex: number;
+  reference: ChunkReference;
+  start: number;
+  end: number;
+  text: string;
+  tokens: Set<string>;
+}
+
+// 답변 문장 경계 (마침표·물음표·느낌표 뒤 공백 또는 줄 끝)
+const SENTENCE_END_PATTERN = /[.!?。](?=\s|$)/g;
+// 근거 확인 대상이 아닌 줄 (표, 코드, 인용 머리말, 제목, 구분선)
+const SKIPPED_LINE_PATTERN = /^\s*(\||```|>|#{1,6}\s|-{3,}|\*{3,})/;
+// 목록 기호 (문장 범위에서 제외)
+const LIST_MARKER_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+// 본문 참조 번호 표기 (**1 2**, [1])
+const CITATION_MARK_PATTERN = /\*\*((?:\d+\s*)+)\*\*|\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export class CitationGroundingService {
+  private static instance: CitationGroundingService;
+  private static readonly MIN_SENTENCE_LENGTH = 8;
+  private static readonly CANDIDATES_PER_SENTENCE = 3;
+  private static readonly LEXICAL_WEIGHT = 0.6;
+  private static readonly EMBEDDING_WEIGHT = 0.4;
+  private static readonly SUPPORT_THRESHOLD = 0.45;
+  private static readonly CITED_REFERENCE_BONUS = 0.1;
+
+  private constructor() {}
+
+  public static getInstance(): CitationGroundingService {
+    if (!CitationGroundingService.instance) {
+      CitationGroundingService.instance = new CitationGroundingService();
+    }
+    return CitationGroundingService.instance;
+  }
+
+  /**
+   * 답변 문장별 근거 정렬
+   */
+  async groundAnswer(answer: string, references: ChunkReference[]): Promise<SentenceGrounding[]> {
+    const sentences = this.splitSentences(answer);
+    if (sentences.length === 0) return [];
+
+    const spans = references.flatMap((reference, index) => this.splitSource(reference, index));
+    let useEmbedding = spans.length > 0;
+
+    const groundings: SentenceGrounding[] = [];
+    for (const sentence of sentences) {
+      const plainText = this.stripMarkup(sentence.text);
+      const sentenceTokens = new Set(tokenize(plainText));
+      const citedIndexes = this.extractCitedIndexes(sentence.text);
+
+      // 1. 어휘 중복으로 후보 구간 선택
+      const candidates = spans
+        .map(span => {
+          const overlap = [...sentenceTokens].filter(token => span.tokens.has(token)).length;
+          return { span, lexicalScore: sentenceTokens.size > 0 ? overlap / sentenceTokens.size : 0 };
+        })
+        .filter(candidate => candidate.lexicalScore > 0)
+        .sort((a, b) => b.lexicalScore - a.lexicalScore)
+        .slice(0, CitationGroundingService.CANDIDATES_PER_SENTENCE);
+
+      // 2. 후보 구간만 임베딩 유사도로 재확인
+      const supports: GroundingSpan[] = [];
+      for (const { span, lexicalScore } of candidates) {
+        let embeddingScore = 0;
+        if (useEmbedding) {
+          try {
+            const [sentenceVector, spanVector] = await Promise.all([
+              localEmbeddingService.embedText(plainText),
+              localEmbeddingService.embedText(span.text)
+            ]);
+            embeddingScore = Math.max(0, localEmbeddingService.cosineSimilarity(sentenceVector, spanVector));
+          } catch (error) {
+            console.warn('⚠️ 근거 정렬 임베딩 실패 - 어휘 점수만 사용:', error);
+            useEmbedding = false;
+          }
+        }
+
+        const baseScore = useEmbedding
+          ? lexicalScore * CitationGroundingService.LEXICAL_WEIGHT + embeddingScore * CitationGroundingService.EMBEDDING_WEIGHT
+          : lexicalScore;
+        const bonus = citedIndexes.has(span.referenceIndex) ? CitationGroundingService.CITED_REFERENCE_BONUS : 0;
+
+        supports.push({
+          referenceIndex: span.referenceIndex,
+          chunkId: span.reference.chunkId,
+          documentId: span.reference.documentId,
+          start: span.start,
+          end: span.end,
+          text: span.text,
+          lexicalScore,
+          embeddingScore,
+          score: Math.min(1, baseScore + bonus)
+        });
+      }
+
+      supports.sort((a, b) => b.score - a.score);
+      const score = supports[0]?.score || 0;
+      groundings.push({
+        sentence: plainText,
+        start: sentence.start,
+        end: sentence.end,
+        supported: score >= CitationGroundingService.SUPPORT_THRESHOLD,
+        score,
+        supports: supports.filter(support => support.score >= CitationGroundingService.SUPPORT_THRESHOLD)
+      });
+    }
+
+    const unsupported = groundings.filter(grounding => !grounding.supported).length;
+    console.log(`🔗 문장 근거 정렬: ${groundings.length}문장 중 근거 없음 ${unsupported}개${useEmbedding ? '' : ' (어휘 점수만 사용)'}`);
+    return groundings;
+  }
+
+  /**
+   * 답변을 문장 단위로 분할 (원문 위치 포함, 목록 기호 제외)
+   */
+  splitSentences(answer: string): Array<{ text: string; start: number; end: number }> {
+    const sentences: Array<{ text: string; start: number; end: number }> = [];
+    let lineStart = 0;
+
+    answer.split('\n').forEach(line => {
+      const offset = lineStart;
+      lineStart += line.length + 1;
+      if (!line.trim() || SKIPPED_LINE_PATTERN.test(line)) return;
+
+      const markerLength = line.match(LIST_MARKER_PATTERN)?.[0].length || 0;
+      const body = line.slice(markerLength);
+      let sentenceStart = 0;
+
+      const pushSentence = (end: number) => {
+        const raw = body.slice(sentenceStart, end);
+        const leading = raw.length - raw.trimStart().length;
+        const text = raw.trim();
+        // 강조 표기(**)가 열린 채로 끝나면 다음 문장과 합침
+        if ((text.match(/\*\*/g) || []).length % 2 === 1 && end < body.length) return false;
+        if (this.stripMarkup(text).length >= CitationGroundingService.MIN_SENTENCE_LENGTH) {
+          const start = offset + markerLength + sentenceStart + leading;
+          sentences.push({ text, start, end: start + text.length });
+        }
+        sentenceStart = end;
+        return true;
+      };
+
+      for (const match of body.matchAll(SENTENCE_END_PATTERN)) {
+        pushSentence((match.index ?? 0) + match[0].length);
+      }
+      if (sentenceStart < body.length) {
+        pushSentence(body.length);
+      }
+    });
+
+    return sentences;
+  }
+
+  // 청크 원문을 문장 구간으로 분할
+  private splitSource(reference: ChunkReference, referenceIndex: number): SourceSpan[] {
+    const content = reference.content || '';
+    const spans: SourceSpan[] = [];
+    const pattern = /[^\n.!?。]+(?:[.!?。]+|\n|$)/g;
+
+    for (const match of content.matchAll(pattern)) {
+      const raw = match[0];
+      const text = raw.trim();
+      if (text.length < CitationGroundingService.MIN_SENTENCE_LENGTH) continue;
+      const start = (match.index ?? 0) + (raw.length - raw.trimStart().length);
+      spans.push({
+        referenceIndex,
+        reference,
+        start,
+        end: start + text.length,
+        text,
+        tokens: new Set(tokenize(text))
+      });
+    }
+    return spans;
+  }
+
+  private extractCitedIndexes(sentence: string): Set<number> {
+    const indexes = new Set<number>();
+    for (const match of sentence.matchAll(CITATION_MARK_PATTERN)) {
+      const numbers = (match[1] || match[2] || '').split(/[\s,]+/).filter(Boolean);
+      numbers.forEach(number => indexes.add(Number(number) - 1));
+    }
+    return indexes;
+  }
+
+  // 참조 번호와 마크다운 기호 제거
+  private stripMarkup(text: string): string {
+    return text
+      .replace(CITATION_MARK_PATTERN, '')
+      .replace(/[*_`~]/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/\s+([.!?。])/g, '$1')
+      .trim();
+  }
+}
+
+export const citationGroundingService = CitationGroundingService.getInstance();
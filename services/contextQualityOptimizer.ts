@@ -3,7 +3,7 @@
  * 관련성 점수 기반 필터링 및 컨텍스트 품질 향상
  */
 
-import { Chunk, QuestionAnalysis } from '../types';
+import { Chunk, QuestionAnalysis, RetrievalProvenance } from '../types';
 
 export interface ContextQualityMetrics {
   relevanceScore: number;
@@ -21,6 +21,7 @@ export interface EnhancedChunk extends Chunk {
     importance: 'high' | 'medium' | 'low';
     lastUpdated?: Date;
   };
+  retrievalProvenance?: RetrievalProvenance;  // ✅ 추가: RRF 융합 시 검색기별 순위 (왜 선택됐는지)
 }
 
 export class ContextQualityOptimizer {
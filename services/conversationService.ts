@@ -0,0 +1,169 @@
+/**
+ * 대화 스레드 저장 서비스
+ * 대화를 IndexedDB에 스레드 단위로 보관하여 새로고침 후에도 이어서 대화할 수 있도록 함
+ *
+ * - 메시지는 chunkReferences를 포함한 전체 Message 객체로 저장 (Date는 구조화 복제로 유지)
+ * - 목록은 고정된 스레드 우선, 그다음 최근 수정 순
+ */
+
+import { ConversationThread, Message } from '../types';
+import { IndexedDbStore } from './indexedDbStore';
+
+const TITLE_MAX_LENGTH = 30;
+
+export class ConversationService {
+  private static instance: ConversationService;
+  private readonly STORE_NAME = 'threads';
+  private readonly database = new IndexedDbStore('ConversationDB', 1, [this.STORE_NAME], '대화');
+
+  private constructor() {}
+
+  public static getInstance(): ConversationService {
+    if (!ConversationService.instance) {
+      ConversationService.instance = new ConversationService();
+    }
+    return ConversationService.instance;
+  }
+
+  /**
+   * 첫 사용자 질문으로 기본 제목 생성
+   */
+  createTitle(messages: Message[]): string {
+    const firstQuestion = messages.find(message => message.role === 'user')?.content.trim() || '';
+    if (!firstQuestion) return '새 대화';
+    const singleLine = firstQuestion.replace(/\s+/g, ' ');
+    return singleLine.length > TITLE_MAX_LENGTH
+      ? `${singleLine.slice(0, TITLE_MAX_LENGTH)}…`
+      : singleLine;
+  }
+
+  /**
+   * 새 스레드 생성 (저장까지 수행)
+   */
+  async createThread(messages: Message[]): Promise<ConversationThread> {
+    const now = new Date();
+    const thread: ConversationThread = {
+      id: `thread_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+      title: this.createTitle(messages),
+      pinned: false,
+      createdAt: now,
+      updatedAt: now,
+      messages
+    };
+    await this.saveThread(thread);
+    return thread;
+  }
+
+  /**
+   * 스레드 목록 (고정 우선, 최근 수정 순)
+   */
+  async listThreads(): Promise<ConversationThread[]> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+
+      const threads = await new Promise<ConversationThread[]>((resolve) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+      });
+
+      return this.sortThreads(threads);
+    } catch (error) {
+      console.warn('⚠️ 대화 목록 조회 실패:', error);
+      return [];
+    }
+  }
+
+  async getThread(id: string): Promise<ConversationThread | null> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+
+      return await new Promise<ConversationThread | null>((resolve) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+      });
+    } catch (error) {
+      console.warn('⚠️ 대화 조회 실패:', error);
+      return null;
+    }
+  }
+
+  async saveThread(thread: ConversationThread): Promise<void> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(thread);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ 대화 저장 실패:', error);
+    }
+  }
+
+  /**
+   * 기존 스레드의 메시지 갱신
+   */
+  async updateMessages(id: string, messages: Message[]): Promise<ConversationThread | null> {
+    const thread = await this.getThread(id);
+    if (!thread) return null;
+
+    const updated: ConversationThread = { ...thread, messages, updatedAt: new Date() };
+    await this.saveThread(updated);
+    return updated;
+  }
+
+  async renameThread(id: string, title: string): Promise<void> {
+    const thread = await this.getThread(id);
+    const trimmed = title.trim();
+    if (!thread || !trimmed) return;
+    await this.saveThread({ ...thread, title: trimmed });
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    const thread = await this.getThread(id);
+    if (!thread) return;
+    await this.saveThread({ ...thread, pinned });
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.delete(id);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ 대화 삭제 실패:', error);
+    }
+  }
+
+  /**
+   * 제목과 메시지 본문에서 검색
+   */
+  async searchThreads(query: string): Promise<ConversationThread[]> {
+    const threads = await this.listThreads();
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return threads;
+
+    return threads.filter(thread =>
+      thread.title.toLowerCase().includes(normalized) ||
+      thread.messages.some(message => message.content.toLowerCase().includes(normalized))
+    );
+  }
+
+  private sortThreads(threads: ConversationThread[]): ConversationThread[] {
+    return [...threads].sort((a, b) => {
+      if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    });
+  }
+}
+
+export const conversationService = ConversationService.getInstance();
@@ -0,0 +1,327 @@
+/**
+ * 문서 판본(개정판) 서비스
+ * 마이그레이션 시 생성된 판본 간 섹션 변경 내역을 조회하고
+ * "2024년 대비 바뀐 점" 같은 변경 질문에 근거가 되는 변경 섹션을 선택,
+ * "2023년 5월 1일 기준" 같은 시점 질문에는 그날 시행 중이던 판본을 선택
+ */
+
+import { FirestoreService, PDFDocument, DocumentEditionDiff } from './firestoreService';
+
+export interface ChangeQuestionIntent {
+  years: string[];   // 질문에 언급된 연도 (예: ["2024"], ["2024", "2025"])
+}
+
+export interface EditionComparison {
+  editionGroup: string;
+  baseDocumentId: string;
+  baseVersion: string;
+  targetDocumentId: string;
+  targetVersion: string;
+  diffs: DocumentEditionDiff[];
+}
+
+const CHANGE_QUESTION_PATTERN = /(바뀐|바뀌었|변경|달라진|달라졌|개정된|개정\s*사항|개정\s*내용|차이|신설|삭제된|새로\s*생긴)/;
+// 판본 비교 맥락 표현 (연도가 없는 "과태료와 벌금의 차이" 같은 일반 질문과 구분)
+const EDITION_CONTEXT_PATTERN = /(대비|이전|작년|전년|지난|개정|판)/;
+
+// 시점 기준 질문 표현 (날짜와 함께 쓰인 경우만 기준일로 인정)
+const AS_OF_CUE_PATTERN = /(기준|당시|시점|때|적용되던|적용된|시행되던|시행 중)/;
+
+const DIFF_STATUS_LABELS: Record<DocumentEditionDiff['status'], string> = {
+  added: '신설',
+  removed: '삭제',
+  modified: '변경'
+};
+
+export class DocumentVersionService {
+  private static instance: DocumentVersionService;
+  private firestoreService: FirestoreService;
+  private diffs: DocumentEditionDiff[] = [];
+  private documents: PDFDocument[] = [];
+  private loadingPromise: Promise<void> | null = null;
+  private isLoaded = false;
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  public static getInstance(): DocumentVersionService {
+    if (!DocumentVersionService.instance) {
+      DocumentVersionService.instance = new DocumentVersionService();
+    }
+    return DocumentVersionService.instance;
+  }
+
+  /**
+   * 판본 정보 및 변경 내역 로드 (최초 1회)
+   */
+  async load(): Promise<void> {
+    if (this.isLoaded) return;
+    if (this.loadingPromise) return this.loadingPromise;
+
+    this.loadingPromise = Promise.all([
+      this.firestoreService.getDocumentDiffs(),
+      this.firestoreService.getAllDocuments()
+    ])
+      .then(([diffs, documents]) => {
+        this.diffs = diffs;
+        this.documents = documents;
+        this.isLoaded = true;
+        console.log(`📑 판본 변경 내역 준비 완료: ${diffs.length}개 섹션`);
+      })
+      .catch(error => {
+        console.error('❌ 판본 변경 내역 로드 실패:', error);
+      })
+      .finally(() => {
+        this.loadingPromise = null;
+      });
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * 기준일에 시행 중인 문서인지 확인 (시행일 정보가 없으면 항상 시행 중으로 간주)
+   */
+  isDocumentInForce(document: PDFDocument, asOfDate: string): boolean {
+    return (!document.effectiveFrom || document.effectiveFrom <= asOfDate) &&
+      (!document.effectiveTo || asOfDate <= document.effectiveTo);
+  }
+
+  /**
+   * 판본 그룹별 사용할 판본 선택
+   * 기준일이 없으면 최신판, 있으면 그날 시행 중인 판본 (없으면 가장 오래된 판본)
+   */
+  private selectEditions(asOfDate?: string): Map<string, PDFDocument> {
+    const groups = new Map<string, PDFDocument[]>();
+    this.documents.forEach(document => {
+      const groupKey = document.editionGroup || document.id;
+      if (!groups.has(groupKey)) {
+        groups.set(groupKey, []);
+      }
+      groups.get(groupKey)!.push(document);
+    });
+
+    const selected = new Map<string, PDFDocument>();
+    groups.forEach((editions, groupKey) => {
+      const byEffectiveFrom = [...editions].sort((a, b) => (a.effectiveFrom || '').localeCompare(b.effectiveFrom || ''));
+      if (!asOfDate) {
+        selected.set(groupKey, editions.find(document => document.isLatestEdition !== false) || byEffectiveFrom[byEffectiveFrom.length - 1]);
+        return;
+      }
+      const inForce = byEffectiveFrom.filter(document => this.isDocumentInForce(document, asOfDate));
+      selected.set(groupKey, inForce.length > 0 ? inForce[inForce.length - 1] : byEffectiveFrom[0]);
+    });
+    return selected;
+  }
+
+  /**
+   * 검색에서 제외할 문서 ID 목록
+   * 기준일이 없으면 개정 전 판본, 있으면 기준일에 시행 중이 아닌 판본
+   */
+  async getExcludedDocumentIds(asOfDate?: string): Promise<Set<string>> {
+    await this.load();
+    const selectedIds = new Set([...this.selectEditions(asOfDate).values()].map(document => document.id));
+    return new Set(
+      this.documents
+        .filter(document => !selectedIds.has(document.id))
+        .map(document => document.id)
+    );
+  }
+
+  /**
+   * 기준일에 시행 중인 판본의 청크만 남김 (documentId가 없는 로컬 청크는 유지)
+   */
+  async filterChunksAsOf<T extends { documentId?: string }>(chunks: T[], asOfDate?: string): Promise<T[]> {
+    const excludedIds = await this.getExcludedDocumentIds(asOfDate);
+    if (excludedIds.size === 0) return chunks;
+    return chunks.filter(chunk => !chunk.documentId || !excludedIds.has(chunk.documentId));
+  }
+
+  /**
+   * 시점 기준 질문에서 기준일 추출: "2023년 5월 1일 기준", "2023. 5. 1. 당시", "2023-05-01 시점"
+   * 월까지만 있으면 해당 월 말일, 연도만 있으면 해당 연도 말일 기준
+   */
+  extractAsOfDate(question: string): string | null {
+    if (!AS_OF_CUE_PATTERN.test(question) || this.detectChangeQuestion(question)) return null;
+
+    const toIsoDate = (year: number, month: number, day: number): string | null => {
+      if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    };
+    const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+    const fullDate = question.match(/((?:19|20)\d{2})\s*(?:년|\.|-|\/)\s*(\d{1,2})\s*(?:월|\.|-|\/)\s*(\d{1,2})\s*일?/);
+    if (fullDate) {
+      return toIsoDate(parseInt(fullDate[1], 10), parseInt(fullDate[2], 10), parseInt(fullDate[3], 10));
+    }
+    const yearMonth = question.match(/((?:19|20)\d{2})\s*년\s*(\d{1,2})\s*월/);
+    if (yearMonth) {
+      const year = parseInt(yearMonth[1], 10);
+      const month = parseInt(yearMonth[2], 10);
+      return month >= 1 && month <= 12 ? toIsoDate(year, month, lastDayOfMonth(year, month)) : null;
+    }
+    const yearOnly = question.match(/((?:19|20)\d{2})\s*년/);
+    return yearOnly ? toIsoDate(parseInt(yearOnly[1], 10), 12, 31) : null;
+  }
+
+  /**
+   * 답변 머리말: 기준일과 실제 사용한 판본 표시
+   */
+  async describeEditionsUsed(documentIds: string[], asOfDate: string): Promise<string> {
+    const usedDocuments = await this.getUsedDocuments(documentIds);
+    if (usedDocuments.length === 0) return '';
+
+    const editions = usedDocuments.map(document => {
+      const warning = this.isDocumentInForce(document, asOfDate) ? '' : ' ⚠️ 기준일 당시 판본 없음';
+      return `${this.formatEdition(document)}${warning}`;
+    });
+
+    return `> 📅 **${asOfDate} 기준** 적용 판본: ${editions.join(', ')}`;
+  }
+
+  /**
+   * 답변에 사용된 문서의 판본 목록 (내보내기 문서 머리말용)
+   */
+  async listEditionsUsed(documentIds: string[]): Promise<string[]> {
+    const usedDocuments = await this.getUsedDocuments(documentIds);
+    return usedDocuments.map(document => this.formatEdition(document));
+  }
+
+  private async getUsedDocuments(documentIds: string[]): Promise<PDFDocument[]> {
+    await this.load();
+    return [...new Set(documentIds)]
+      .map(documentId => this.documents.find(document => document.id === documentId))
+      .filter((document): document is PDFDocument => !!document);
+  }
+
+  private formatEdition(document: PDFDocument): string {
+    const name = document.editionGroup || document.title;
+    const version = document.version ? ` ${document.version}판` : '';
+    const period = document.effectiveFrom
+      ? ` (${document.effectiveFrom} ~ ${document.effectiveTo || '현재'})`
+      : '';
+    return `${name}${version}${period}`;
+  }
+
+  /**
+   * 문서가 포함된 판본 비교 목록 (최신 비교 우선)
+   */
+  getComparisonsForDocument(documentId: string): EditionComparison[] {
+    const comparisons = new Map<string, EditionComparison>();
+
+    this.diffs
+      .filter(diff => diff.baseDocumentId === documentId || diff.targetDocumentId === documentId)
+      .forEach(diff => {
+        const pairKey = `${diff.baseDocumentId}|${diff.targetDocumentId}`;
+        if (!comparisons.has(pairKey)) {
+          comparisons.set(pairKey, {
+            editionGroup: diff.editionGroup,
+            baseDocumentId: diff.baseDocumentId,
+            baseVersion: diff.baseVersion,
+            targetDocumentId: diff.targetDocumentId,
+            targetVersion: diff.targetVersion,
+            diffs: []
+          });
+        }
+        comparisons.get(pairKey)!.diffs.push(diff);
+      });
+
+    return [...comparisons.values()]
+      .map(comparison => ({
+        ...comparison,
+        diffs: comparison.diffs.sort((a, b) => (a.targetPage ?? a.basePage ?? 0) - (b.targetPage ?? b.basePage ?? 0))
+      }))
+      .sort((a, b) => b.targetVersion.localeCompare(a.targetVersion));
+  }
+
+  /**
+   * 판본 변경 질문 감지: "2024년 대비 바뀐 점", "작년과 달라진 내용" 등
+   */
+  detectChangeQuestion(question: string): ChangeQuestionIntent | null {
+    if (!CHANGE_QUESTION_PATTERN.test(question)) return null;
+    const years = [...question.matchAll(/(20\d{2})\s*년?/g)].map(match => match[1]);
+    if (years.length === 0 && !EDITION_CONTEXT_PATTERN.test(question)) return null;
+    return { years };
+  }
+
+  /**
+   * 변경 질문에 해당하는 변경 섹션 선택 (키워드 일치 → 변경량 순)
+   */
+  findChangedSections(question: string, keywords: string[] = [], maxSections: number = 8): DocumentEditionDiff[] {
+    const intent = this.detectChangeQuestion(question);
+    if (!intent || this.diffs.length === 0) return [];
+
+    // 1. 연도로 비교 대상 판본 선택 (연도가 없으면 최신판과 직전판 비교)
+    let candidates = this.diffs.filter(diff => {
+      if (intent.years.length >= 2) {
+        return diff.baseVersion.startsWith(intent.years[0]) && diff.targetVersion.startsWith(intent.years[1]);
+      }
+      if (intent.years.length === 1) {
+        return diff.baseVersion.startsWith(intent.years[0]) || diff.targetVersion.startsWith(intent.years[0]);
+      }
+      const target = this.documents.find(document => document.id === diff.targetDocumentId);
+      return !target || target.isLatestEdition !== false;
+    });
+
+    // 2. 질문에 문서명이 언급되면 해당 판본 그룹으로 한정
+    const compactQuestion = question.replace(/\s+/g, '');
+    const groupScores = new Map<string, number>();
+    candidates.forEach(diff => {
+      if (groupScores.has(diff.editionGroup)) return;
+      const words = diff.editionGroup.split(/[\s_()]+/).filter(word => word.length >= 2);
+      groupScores.set(diff.editionGroup, words.filter(word => compactQuestion.includes(word)).length);
+    });
+    const bestGroupScore = Math.max(0, ...groupScores.values());
+    if (bestGroupScore > 0) {
+      candidates = candidates.filter(diff => groupScores.get(diff.editionGroup) === bestGroupScore);
+    }
+
+    // 3. 키워드 일치 점수 (제목 가중치 3, 변경 줄 가중치 1)
+    const scored = candidates.map(diff => {
+      const changedText = [...diff.addedLines, ...diff.removedLines].join('\n');
+      const keywordScore = keywords.reduce((score, keyword) => {
+        if (diff.sectionTitle.includes(keyword)) score += 3;
+        if (changedText.includes(keyword)) score += 1;
+        return score;
+      }, 0);
+      return { diff, keywordScore, changeSize: diff.addedLines.length + diff.removedLines.length };
+    });
+
+    const hasKeywordMatch = scored.some(item => item.keywordScore > 0);
+    return scored
+      .filter(item => !hasKeywordMatch || item.keywordScore > 0)
+      .sort((a, b) => b.keywordScore - a.keywordScore || b.changeSize - a.changeSize)
+      .slice(0, maxSections)
+      .map(item => item.diff);
+  }
+
+  /**
+   * 변경 섹션을 프롬프트 컨텍스트 형식으로 변환
+   */
+  formatChangeContext(diffs: DocumentEditionDiff[], maxLinesPerSide: number = 20): string {
+    return diffs
+      .map((diff, index) => {
+        const pages = [
+          diff.basePage ? `${diff.baseVersion}판 p.${diff.basePage}` : '',
+          diff.targetPage ? `${diff.targetVersion}판 p.${diff.targetPage}` : ''
+        ].filter(Boolean).join(', ');
+        const renamed = diff.baseSectionTitle && diff.baseSectionTitle !== diff.sectionTitle
+          ? ` (이전 제목: ${diff.baseSectionTitle})`
+          : '';
+        const header = `[변경 내역 ${index + 1}: ${diff.editionGroup} ${diff.baseVersion}판 → ${diff.targetVersion}판 | ${diff.sectionTitle}${renamed} | ${DIFF_STATUS_LABELS[diff.status]}${pages ? ` | ${pages}` : ''}]`;
+        const removed = diff.removedLines.slice(0, maxLinesPerSide).map(line => `- ${line}`);
+        const added = diff.addedLines.slice(0, maxLinesPerSide).map(line => `+ ${line}`);
+        return [header, ...removed, ...added].join('\n');
+      })
+      .join('\n\n---\n\n');
+  }
+
+  /**
+   * 로드 여부
+   */
+  isReady(): boolean {
+    return this.isLoaded;
+  }
+}
+
+export const documentVersionService = DocumentVersionService.getInstance();
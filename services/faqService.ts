@@ -0,0 +1,228 @@
+/**
+ * 검수된 FAQ 서비스
+ * 관리자가 등록한 질문 변형·승인 답변·고정 근거(ChunkReference)와 일치 기준을 Firestore(faqs, app_settings/faq)에 저장하여
+ * 모든 사용자가 공유하고, 들어온 질문을 RAG 파이프라인 전에 로컬 임베딩으로 대조
+ *
+ * - 질문 변형과의 코사인 유사도가 기준 이상이면 검수된 답변을 즉시 반환 (Gemini 호출·RPD 소모 없음)
+ * - 등록된 FAQ가 없으면 임베딩 모델을 로드하지 않음
+ * - 기준값은 관리자 페이지에서 조정
+ */
+
+import { ChunkReference, FaqEntry, FaqMatch } from '../types';
+import { localEmbeddingService } from './localEmbeddingService';
+import { FirestoreService, PDFChunk } from './firestoreService';
+import { legalArticleIndexService } from './legalArticleIndexService';
+
+export interface FaqConfig {
+  enabled: boolean;
+  matchThreshold: number;  // 질문 변형과의 최소 코사인 유사도 (이상이면 검수된 답변 사용)
+}
+
+export interface FaqMatchResult extends FaqMatch {
+  faq: FaqEntry;
+}
+
+export const DEFAULT_FAQ_CONFIG: FaqConfig = {
+  enabled: true,
+  matchThreshold: 0.9
+};
+
+export class FaqService {
+  private static instance: FaqService;
+  private readonly CONFIG_ID = 'faq';
+  private firestoreService: FirestoreService;
+  private faqs: FaqEntry[] | null = null;
+  private config: FaqConfig | null = null;
+  // 질문 변형 임베딩 (임베딩 서비스 캐시가 비워져도 다시 계산하지 않도록 별도 보관)
+  private variantEmbeddings = new Map<string, number[]>();
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  public static getInstance(): FaqService {
+    if (!FaqService.instance) {
+      FaqService.instance = new FaqService();
+    }
+    return FaqService.instance;
+  }
+
+  /**
+   * 등록된 FAQ 전체 (최근 수정 순)
+   */
+  async listFaqs(): Promise<FaqEntry[]> {
+    if (this.faqs) return this.faqs;
+
+    this.faqs = this.sortFaqs(await this.firestoreService.getFaqs());
+    console.log(`📚 검수된 FAQ 로드: ${this.faqs.length}건`);
+    return this.faqs;
+  }
+
+  /**
+   * FAQ 저장 (id가 같으면 수정, 빈 질문 변형은 제외)
+   */
+  async saveFaq(
+    faq: Omit<FaqEntry, 'id' | 'hitCount' | 'createdAt' | 'updatedAt'> & { id?: string }
+  ): Promise<FaqEntry> {
+    const faqs = await this.listFaqs();
+    const existing = faq.id ? faqs.find(item => item.id === faq.id) : undefined;
+    const now = new Date();
+    const entry: FaqEntry = {
+      ...faq,
+      id: existing?.id || `faq_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      questions: [...new Set(faq.questions.map(question => question.trim()).filter(Boolean))],
+      answer: faq.answer.trim(),
+      hitCount: existing?.hitCount || 0,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    if (!(await this.firestoreService.saveFaq(entry))) {
+      throw new Error('FAQ를 저장하지 못했습니다.');
+    }
+    this.faqs = this.sortFaqs([...faqs.filter(item => item.id !== entry.id), entry]);
+    console.log(`✅ 검수된 FAQ 저장: "${entry.questions[0]}" (질문 변형 ${entry.questions.length}개, 근거 ${entry.references.length}개)`);
+    return entry;
+  }
+
+  async deleteFaq(id: string): Promise<void> {
+    if (!(await this.firestoreService.deleteFaq(id))) {
+      throw new Error('FAQ를 삭제하지 못했습니다.');
+    }
+    this.faqs = (this.faqs || []).filter(item => item.id !== id);
+    console.log('🗑️ 검수된 FAQ 삭제:', id);
+  }
+
+  /**
+   * 질문과 가장 가까운 활성 FAQ (기준 미달이면 null)
+   */
+  async findMatch(question: string): Promise<FaqMatchResult | null> {
+    const config = await this.getConfig();
+    if (!config.enabled) return null;
+
+    const [best] = await this.rankMatches(question, 1);
+    if (!best || best.similarity < config.matchThreshold) return null;
+
+    console.log(`✅ 검수된 FAQ 일치: "${best.matchedQuestion}" (유사도 ${best.similarity.toFixed(3)})`);
+    return best;
+  }
+
+  /**
+   * 활성 FAQ를 질문과의 유사도 순으로 정렬 (관리자 일치 테스트용, FAQ당 가장 가까운 질문 변형 기준)
+   */
+  async rankMatches(question: string, limit: number = 5): Promise<FaqMatchResult[]> {
+    const faqs = (await this.listFaqs()).filter(faq => faq.enabled && faq.questions.length > 0 && faq.answer);
+    if (faqs.length === 0 || !question.trim()) return [];
+
+    try {
+      const questionEmbedding = await localEmbeddingService.embedText(question.trim());
+      const results: FaqMatchResult[] = [];
+
+      for (const faq of faqs) {
+        let best: FaqMatchResult | null = null;
+        for (const variant of faq.questions) {
+          const similarity = localEmbeddingService.cosineSimilarity(
+            questionEmbedding,
+            await this.getVariantEmbedding(variant)
+          );
+          if (!best || similarity > best.similarity) {
+            best = { faqId: faq.id, matchedQuestion: variant, similarity, faq };
+          }
+        }
+        if (best) results.push(best);
+      }
+
+      return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+    } catch (error) {
+      console.warn('⚠️ FAQ 임베딩 대조 실패, RAG 검색으로 진행:', error);
+      return [];
+    }
+  }
+
+  /**
+   * FAQ 답변 사용 횟수 기록
+   */
+  async recordHit(id: string): Promise<void> {
+    const faq = (await this.listFaqs()).find(item => item.id === id);
+    if (!faq) return;
+
+    faq.hitCount += 1;
+    await this.firestoreService.incrementFaqHitCount(id);
+  }
+
+  /**
+   * 검색한 청크를 FAQ 고정 근거로 변환 (답변 화면의 청크 참조와 같은 형식)
+   */
+  async createReference(chunk: PDFChunk): Promise<ChunkReference> {
+    const allDocuments = await this.firestoreService.getAllDocuments();
+    const matchingDoc = allDocuments.find(doc => doc.id === chunk.documentId);
+    const chunkId = chunk.id || '';
+
+    try {
+      await legalArticleIndexService.loadIndex();
+    } catch (error) {
+      console.warn('⚠️ 조문 색인 로드 실패, 조문 정보 없이 근거 저장:', error);
+    }
+
+    return {
+      chunkId,
+      documentId: chunk.documentId,
+      documentTitle: matchingDoc?.title || chunk.metadata.title || '',
+      page: chunk.metadata.page,
+      pageEnd: chunk.metadata.pageEnd,
+      printedPage: chunk.metadata.printedPage,
+      printedPageEnd: chunk.metadata.printedPageEnd,
+      section: chunk.metadata.section,
+      content: chunk.content,
+      metadata: {
+        startPos: chunk.metadata.startPos || 0,
+        endPos: chunk.metadata.endPos || 0,
+        position: chunk.metadata.position || 0
+      },
+      articles: legalArticleIndexService.getArticleRefsForChunk(chunkId)
+    };
+  }
+
+  async getConfig(): Promise<FaqConfig> {
+    if (this.config) return this.config;
+
+    const saved = await this.firestoreService.getAppSetting<FaqConfig>(this.CONFIG_ID);
+    this.config = this.normalizeConfig(saved || {});
+    return this.config;
+  }
+
+  async saveConfig(config: Partial<FaqConfig>): Promise<FaqConfig> {
+    const normalized = this.normalizeConfig(config);
+    if (!(await this.firestoreService.saveAppSetting(this.CONFIG_ID, normalized))) {
+      throw new Error('FAQ 일치 기준을 저장하지 못했습니다.');
+    }
+    this.config = normalized;
+    console.log('✅ FAQ 설정 저장:', this.config);
+    return this.config;
+  }
+
+  private async getVariantEmbedding(variant: string): Promise<number[]> {
+    let embedding = this.variantEmbeddings.get(variant);
+    if (!embedding) {
+      embedding = await localEmbeddingService.embedText(variant);
+      this.variantEmbeddings.set(variant, embedding);
+    }
+    return embedding;
+  }
+
+  private sortFaqs(faqs: FaqEntry[]): FaqEntry[] {
+    return [...faqs].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  private normalizeConfig(config: Partial<FaqConfig>): FaqConfig {
+    const threshold = Number(config.matchThreshold);
+    return {
+      enabled: typeof config.enabled === 'boolean' ? config.enabled : DEFAULT_FAQ_CONFIG.enabled,
+      matchThreshold: Number.isFinite(threshold) && threshold > 0 && threshold <= 1
+        ? threshold
+        : DEFAULT_FAQ_CONFIG.matchThreshold
+    };
+  }
+}
+
+export const faqService = FaqService.getInstance();
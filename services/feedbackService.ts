@@ -0,0 +1,235 @@
+/**
+ * 답변 피드백 서비스
+ * 👍/👎 평가와 사용자가 지정한 "올바른 근거" 청크를 IndexedDB에 저장하고 검색 순위에 반영
+ *
+ * - 피드백은 답변 메시지당 하나 (다시 제출하면 덮어씀)
+ * - 비슷한 질문(토큰 자카드 유사도)의 피드백만 청크 순위 보정에 사용
+ *   올바른 근거 +1, 👍 답변의 인용 청크 +0.3, 👎 답변의 인용 청크 -0.5 (유사도 가중 합, -1~1로 제한)
+ *   양수 청크는 검색 오케스트레이터의 피드백 검색기로 후보에 추가, 음수 청크는 융합 점수에서 감점
+ * - 평가는 질문 키워드 학습 데이터(AIKeywordExpansionService.LearningData)에도 답변당 한 번만 전달
+ * - 팀 검토용 JSONL 내보내기
+ */
+
+import { AnswerFeedback } from '../types';
+import { extractKeywords, tokenize } from './koreanTokenizer.js';
+import { UnifiedSynonymService } from './unifiedSynonymService';
+import { IndexedDbStore } from './indexedDbStore';
+
+export interface FeedbackSignal {
+  chunkId: string;
+  signal: number;         // -1~1
+  documentIds: string[];  // 청크를 조회할 문서 (올바른 근거의 문서, 인용 청크는 그 답변이 인용한 문서)
+}
+
+export interface FeedbackStats {
+  total: number;
+  up: number;
+  down: number;
+  withEvidence: number;
+}
+
+const MIN_QUERY_SIMILARITY = 0.5;
+const CORRECT_EVIDENCE_SIGNAL = 1;
+const HELPFUL_CITATION_SIGNAL = 0.3;
+const UNHELPFUL_CITATION_SIGNAL = -0.5;
+
+export class FeedbackService {
+  private static instance: FeedbackService;
+  private readonly STORE_NAME = 'feedback';
+  private readonly database = new IndexedDbStore('FeedbackDB', 1, [this.STORE_NAME], '답변 피드백');
+  private entries: AnswerFeedback[] | null = null;
+  private queryTokens = new Map<string, Set<string>>();
+  private learnedMessageIds = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): FeedbackService {
+    if (!FeedbackService.instance) {
+      FeedbackService.instance = new FeedbackService();
+    }
+    return FeedbackService.instance;
+  }
+
+  /**
+   * 저장된 피드백 전체 (최초 로드 시 키워드 학습 데이터로 재생)
+   */
+  async loadFeedback(): Promise<AnswerFeedback[]> {
+    if (this.entries) return this.entries;
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+      this.entries = await new Promise<AnswerFeedback[]>((resolve) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+      });
+      this.entries.forEach(entry => this.learnKeywords(entry));
+      console.log(`📚 답변 피드백 로드: ${this.entries.length}건`);
+    } catch (error) {
+      console.warn('⚠️ 답변 피드백 로드 실패:', error);
+      this.entries = [];
+    }
+    return this.entries;
+  }
+
+  async getFeedback(messageId: string): Promise<AnswerFeedback | null> {
+    const entries = await this.loadFeedback();
+    return entries.find(entry => entry.id === messageId) || null;
+  }
+
+  /**
+   * 피드백 저장 (같은 답변의 기존 피드백은 교체)
+   */
+  async saveFeedback(feedback: Omit<AnswerFeedback, 'createdAt'>): Promise<AnswerFeedback> {
+    const entries = await this.loadFeedback();
+    const entry: AnswerFeedback = { ...feedback, createdAt: new Date() };
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(entry);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ 답변 피드백 저장 실패:', error);
+    }
+
+    this.entries = [...entries.filter(existing => existing.id !== entry.id), entry];
+    this.learnKeywords(entry);
+    console.log(`✅ 답변 피드백 저장: ${entry.rating === 'up' ? '👍' : '👎'} 올바른 근거 ${entry.correctEvidence.length}개`);
+    return entry;
+  }
+
+  /**
+   * 질문과 비슷한 과거 피드백으로 청크별 순위 보정 신호 계산 (-1~1, 신호가 큰 순)
+   */
+  async getRankingSignals(question: string): Promise<FeedbackSignal[]> {
+    const entries = await this.loadFeedback();
+    if (entries.length === 0 || !question.trim()) return [];
+
+    const signals = new Map<string, { signal: number; documentIds: Set<string> }>();
+    const tokens = new Set(tokenize(question));
+    const add = (chunkId: string, value: number, documentIds: string[]) => {
+      const current = signals.get(chunkId) || { signal: 0, documentIds: new Set<string>() };
+      current.signal += value;
+      documentIds.forEach(documentId => current.documentIds.add(documentId));
+      signals.set(chunkId, current);
+    };
+
+    entries.forEach(entry => {
+      const similarity = this.jaccard(tokens, this.getQueryTokens(entry.question));
+      if (similarity < MIN_QUERY_SIMILARITY) return;
+
+      const correctEvidence = new Map(entry.correctEvidence.map(evidence => [evidence.chunkId, evidence.documentId]));
+      correctEvidence.forEach((documentId, chunkId) => add(chunkId, CORRECT_EVIDENCE_SIGNAL * similarity, [documentId]));
+      [...new Set(entry.citedChunkIds)]
+        .filter(chunkId => !correctEvidence.has(chunkId))
+        .forEach(chunkId => add(
+          chunkId,
+          (entry.rating === 'up' ? HELPFUL_CITATION_SIGNAL : UNHELPFUL_CITATION_SIGNAL) * similarity,
+          entry.citedDocumentIds || []
+        ));
+    });
+
+    const result = Array.from(signals.entries())
+      .map(([chunkId, { signal, documentIds }]) => ({
+        chunkId,
+        signal: Math.max(-1, Math.min(1, signal)),
+        documentIds: [...documentIds]
+      }))
+      .filter(item => item.signal !== 0)
+      .sort((a, b) => b.signal - a.signal);
+    if (result.length > 0) {
+      console.log(`📚 피드백 순위 보정: ${result.length}개 청크`);
+    }
+    return result;
+  }
+
+  async getStats(): Promise<FeedbackStats> {
+    const entries = await this.loadFeedback();
+    return {
+      total: entries.length,
+      up: entries.filter(entry => entry.rating === 'up').length,
+      down: entries.filter(entry => entry.rating === 'down').length,
+      withEvidence: entries.filter(entry => entry.correctEvidence.length > 0).length
+    };
+  }
+
+  /**
+   * 팀 검토용 JSONL 내보내기 (한 줄에 피드백 하나)
+   */
+  async exportJsonl(): Promise<number> {
+    const entries = await this.loadFeedback();
+    const jsonl = [...entries]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(entry => JSON.stringify(entry))
+      .join('\n');
+
+    const blob = new Blob([jsonl ? `${jsonl}\n` : ''], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `answer-feedback-${new Date().toISOString().split('T')[0]}.jsonl`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    console.log(`📑 답변 피드백 내보내기: ${entries.length}건`);
+    return entries.length;
+  }
+
+  async clearFeedback(): Promise<void> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.clear();
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+      this.entries = [];
+      console.log('🗑️ 답변 피드백 초기화 완료');
+    } catch (error) {
+      console.error('❌ 답변 피드백 초기화 실패:', error);
+    }
+  }
+
+  // 평가를 질문 키워드별 학습 데이터로 전달 (함께 쓰인 키워드를 변형 후보로 기록)
+  // ✅ 답변당 한 번만 학습 - 피드백을 다시 제출하거나 저장소를 다시 읽어도 중복 기록하지 않음
+  private learnKeywords(entry: AnswerFeedback): void {
+    if (this.learnedMessageIds.has(entry.id)) return;
+    this.learnedMessageIds.add(entry.id);
+
+    const keywords = extractKeywords(entry.question, { limit: 5 });
+    const satisfaction = entry.rating === 'up' ? 1 : 0;
+    keywords.forEach(keyword => {
+      UnifiedSynonymService.getInstance().learnFromUserFeedback(
+        keyword,
+        keywords.filter(other => other !== keyword),
+        satisfaction,
+        entry.question
+      );
+    });
+  }
+
+  private getQueryTokens(question: string): Set<string> {
+    let tokens = this.queryTokens.get(question);
+    if (!tokens) {
+      tokens = new Set(tokenize(question));
+      this.queryTokens.set(question, tokens);
+    }
+    return tokens;
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const intersection = [...a].filter(token => b.has(token)).length;
+    return intersection / (a.size + b.size - intersection);
+  }
+}
+
+export const feedbackService = FeedbackService.getInstance();
@@ -5,6 +5,8 @@
  * - AI 답변이나 동적 분석 결과는 캐싱하지 않음
  */
 
+import type { DocumentEditionDiff, DocumentTable, LegalArticleNode } from './firestoreService';
+
 export interface PDFDocument {
   id: string;
   title: string;
@@ -80,6 +82,57 @@ export class FirestoreCacheService {
     console.log(`✅ 청크 데이터 캐시 저장: ${documentId} (${chunks.length}개)`);
   }
 
+  /**
+   * 법령 조문 인덱스 캐싱 조회
+   */
+  static async getCachedLegalArticles(): Promise<LegalArticleNode[] | null> {
+    const cacheKey = `${this.CACHE_PREFIX}legal_articles_all`;
+    return this.getCache(cacheKey);
+  }
+
+  /**
+   * 법령 조문 인덱스 캐싱 저장
+   */
+  static async setCachedLegalArticles(articles: LegalArticleNode[]): Promise<void> {
+    const cacheKey = `${this.CACHE_PREFIX}legal_articles_all`;
+    await this.setCache(cacheKey, articles);
+    console.log(`✅ 조문 인덱스 캐시 저장: ${articles.length}개`);
+  }
+
+  /**
+   * 판본 비교 결과 캐싱 조회
+   */
+  static async getCachedDocumentDiffs(): Promise<DocumentEditionDiff[] | null> {
+    const cacheKey = `${this.CACHE_PREFIX}document_diffs_all`;
+    return this.getCache(cacheKey);
+  }
+
+  /**
+   * 판본 비교 결과 캐싱 저장
+   */
+  static async setCachedDocumentDiffs(diffs: DocumentEditionDiff[]): Promise<void> {
+    const cacheKey = `${this.CACHE_PREFIX}document_diffs_all`;
+    await this.setCache(cacheKey, diffs);
+    console.log(`✅ 판본 비교 결과 캐시 저장: ${diffs.length}개`);
+  }
+
+  /**
+   * PDF 표 캐싱 조회
+   */
+  static async getCachedDocumentTables(): Promise<DocumentTable[] | null> {
+    const cacheKey = `${this.CACHE_PREFIX}document_tables_all`;
+    return this.getCache(cacheKey);
+  }
+
+  /**
+   * PDF 표 캐싱 저장
+   */
+  static async setCachedDocumentTables(tables: DocumentTable[]): Promise<void> {
+    const cacheKey = `${this.CACHE_PREFIX}document_tables_all`;
+    await this.setCache(cacheKey, tables);
+    console.log(`✅ 표 캐시 저장: ${tables.length}개`);
+  }
+
   /**
    * 검색 결과 캐싱 조회 (키워드 기반)
    */
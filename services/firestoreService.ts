@@ -13,13 +13,20 @@ import {
   addDoc, 
   doc, 
   getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  increment,
   writeBatch,
   QuerySnapshot,
   DocumentData,
-  Timestamp
+  Timestamp,
+  documentId as firestoreDocumentId
 } from 'firebase/firestore';
 import { db } from './firebaseConfig';
+import { ChunkingStats, FaqEntry, PageMapEntry } from '../types';
 import { FirestoreCacheService } from './firestoreCacheService';
+import { bm25SearchService } from './bm25SearchService';
 
 export interface PDFChunk {
   id?: string;
@@ -29,14 +36,21 @@ export interface PDFChunk {
   embedding?: number[]; // ✅ 추가: 벡터 임베딩
   embeddingModel?: string; // ✅ 추가: 어떤 모델로 생성했는지
   metadata: {
-    page?: number;
-    section?: string;
+    page?: number;           // 시작 물리 페이지 (pdf.js 페이지 맵 기준)
+    pageEnd?: number;        // ✅ 끝 물리 페이지
+    printedPage?: number;    // ✅ 인쇄 쪽 번호 (번호 없는 페이지는 없음)
+    printedPageEnd?: number;
+    section?: string;       // ✅ 구조 경로 (예: "국민건강증진법 > 제1장 총칙 > 제3조(책임)")
+    sectionPath?: string[];
+    chunkType?: 'article' | 'heading' | 'table' | 'list' | 'text';  // ✅ 청크 시작 블록 종류
+    chunker?: string;       // ✅ 청크 분할기 버전 (예: "structure-v1")
     position: number;
     startPos: number;
     endPos: number;
     originalSize: number;
     title?: string;      // ✅ 문서 제목
     source?: string;     // ✅ 문서 출처
+    articles?: string[]; // ✅ 청크에 포함된 조문 인용 (예: "국민건강증진법 시행규칙 제6조")
   };
   searchableText: string;
   createdAt: Timestamp;
@@ -52,16 +66,112 @@ export interface PDFDocument {
   totalSize: number;
   processedAt: Timestamp;
   version: string;
+  editionGroup?: string;      // ✅ 추가: 같은 문서의 판본 묶음 (예: "금연구역 지정 관리 업무지침")
+  isLatestEdition?: boolean;  // ✅ 추가: 최신판 여부
+  effectiveFrom?: string | null;  // ✅ 추가: 시행일 (YYYY-MM-DD)
+  effectiveTo?: string | null;    // ✅ 추가: 다음 판본 시행 전날 (현행판은 null)
+  chunking?: ChunkingStats;       // ✅ 추가: 마이그레이션 청크 분할 통계
+  totalTables?: number;           // ✅ 추가: 추출한 표 개수
+  pageMap?: PageMapEntry[];       // ✅ 추가: 물리 페이지 ↔ 인쇄 쪽 번호 ↔ 텍스트 범위
+  pageMapVersion?: string;
   metadata: {
     source: string;
     title: string;
   };
 }
 
+/**
+ * 판본 간 섹션 변경 내역 (마이그레이션 시 직전 판본과 비교하여 생성)
+ */
+export interface DocumentEditionDiff {
+  id: string;
+  editionGroup: string;
+  baseDocumentId: string;
+  baseVersion: string;
+  targetDocumentId: string;
+  targetVersion: string;
+  sectionKey: string;
+  sectionTitle: string;
+  baseSectionTitle: string | null;   // 제목이 바뀐 경우 이전 제목
+  status: 'added' | 'removed' | 'modified';
+  basePage: number | null;
+  targetPage: number | null;
+  baseText: string;
+  targetText: string;
+  removedLines: string[];
+  addedLines: string[];
+  similarity: number;                // 0~1, 줄 단위 유사도
+}
+
+/**
+ * 법령 조문 노드 (마이그레이션 시 생성되는 조/항/호/목 계층)
+ */
+export interface LegalArticleNode {
+  id: string;
+  documentId: string;
+  filename: string;
+  lawName: string;               // 예: "국민건강증진법 시행규칙"
+  lawLevel: '법률' | '시행령' | '시행규칙';
+  nodeType: '조' | '항' | '호' | '목';
+  article: string;               // 예: "6", "3의2"
+  paragraph: number | null;
+  item: string | null;           // 예: "3", "6의2"
+  subItem: string | null;        // 예: "가"
+  title: string;                 // 조 제목
+  citation: string;              // 예: "국민건강증진법 시행규칙 제6조제2항제3호"
+  path: string;
+  parentPath: string | null;
+  page: number;
+  startPos: number;
+  endPos: number;
+  heading: string;               // 노드 첫 줄 (최대 200자)
+  effectiveFrom?: string | null; // 시행 예정 조문의 시행일 (YYYY-MM-DD)
+  effectiveTo?: string | null;   // 시행 예정 조문으로 대체되는 현행 조문의 마지막 유효일
+  chunkIds: string[];            // 노드를 포함하는 PDFChunk ID
+  references?: LegalCrossReference[];  // 조 노드에만 존재
+}
+
+/**
+ * PDF 표 (마이그레이션 시 텍스트 좌표로 추출, 행은 Firestore 중첩 배열 제한으로 { cells } 객체)
+ */
+export interface DocumentTable {
+  id: string;
+  documentId: string;
+  filename: string;
+  documentTitle: string;
+  tableIndex: number;
+  page: number;
+  printedPage?: number;
+  title: string;
+  headers: string[];
+  rows: { cells: string[] }[];
+  markdown: string;
+  searchText: string;
+  chunkIds: string[];            // 표가 있는 페이지에 걸친 PDFChunk ID
+  extractor: string;
+}
+
+/**
+ * 조문 간 상호 참조 (마이그레이션 시 같은 문서 안에서 해석)
+ */
+export interface LegalCrossReference {
+  sourcePath: string;
+  sourceCitation: string;
+  targetPath: string;
+  targetCitation: string;
+  relation: 'explicit' | 'delegation';
+  phrase: string;
+}
+
 export class FirestoreService {
   private static instance: FirestoreService;
   private readonly chunksCollection = 'pdf_chunks';
   private readonly documentsCollection = 'pdf_documents';
+  private readonly legalArticlesCollection = 'legal_articles';
+  private readonly documentDiffsCollection = 'document_diffs';
+  private readonly tablesCollection = 'pdf_tables';
+  private readonly faqsCollection = 'faqs';
+  private readonly settingsCollection = 'app_settings';
   private firestoreCache: FirestoreCacheService;
 
   private constructor() {
@@ -118,6 +228,14 @@ export class FirestoreService {
     documentId?: string, 
     limitCount: number = 15
   ): Promise<PDFChunk[]> {
+    // ✅ BM25 역색인이 있으면 순위가 매겨진 청크만 ID로 조회
+    const bm25Hits = await bm25SearchService.search(keywords, { documentId, limit: limitCount });
+    if (bm25Hits) {
+      const chunks = await this.fetchChunksByIds(bm25Hits.map(hit => hit.chunkId));
+      console.log(`✅ BM25 검색 완료: ${chunks.length}개 청크 (최고 점수: ${bm25Hits[0]?.score.toFixed(2) || 0})`);
+      return chunks;
+    }
+
     // ✅ 개선: 충분한 수량 조회 (30개 → 1000개)
     let q = query(
       collection(db, this.chunksCollection),
@@ -172,6 +290,32 @@ export class FirestoreService {
     return limitedChunks;
   }
 
+  /**
+   * 청크 ID 목록으로 조회 (입력 순서 유지, 'in' 쿼리는 최대 30개씩)
+   */
+  private async fetchChunksByIds(chunkIds: string[]): Promise<PDFChunk[]> {
+    const batchSize = 30;
+    const batches: string[][] = [];
+    for (let i = 0; i < chunkIds.length; i += batchSize) {
+      batches.push(chunkIds.slice(i, i + batchSize));
+    }
+
+    const snapshots = await Promise.all(batches.map(ids =>
+      getDocs(query(collection(db, this.chunksCollection), where(firestoreDocumentId(), 'in', ids)))
+    ));
+
+    const chunksById = new Map<string, PDFChunk>();
+    snapshots.forEach(snapshot => {
+      snapshot.forEach((doc) => {
+        chunksById.set(doc.id, { id: doc.id, ...(doc.data() as PDFChunk) });
+      });
+    });
+
+    return chunkIds
+      .map(id => chunksById.get(id))
+      .filter((chunk): chunk is PDFChunk => !!chunk);
+  }
+
   /**
    * 키워드 매칭 점수 계산
    */
@@ -473,6 +617,204 @@ export class FirestoreService {
     return documents;
   }
 
+  /**
+   * 법령 조문 인덱스 가져오기 (캐싱 적용)
+   */
+  async getLegalArticles(): Promise<LegalArticleNode[]> {
+    try {
+      // 1. 캐시에서 먼저 조회
+      const cached = await FirestoreCacheService.getCachedLegalArticles();
+      if (cached) {
+        console.log(`📦 캐시에서 조문 인덱스 조회: ${cached.length}개`);
+        return cached;
+      }
+
+      // 2. Firestore에서 조회
+      console.log('🔥 Firestore에서 조문 인덱스 조회');
+      const snapshot = await getDocs(query(collection(db, this.legalArticlesCollection)));
+      const articles: LegalArticleNode[] = [];
+      
+      snapshot.forEach((doc) => {
+        const { createdAt, ...data } = doc.data();
+        articles.push({
+          id: doc.id,
+          ...data
+        } as LegalArticleNode);
+      });
+
+      // 3. 캐시에 저장
+      await FirestoreCacheService.setCachedLegalArticles(articles);
+      
+      console.log(`✅ 조문 인덱스 로드 완료: ${articles.length}개`);
+      return articles;
+    } catch (error) {
+      console.error('❌ 조문 인덱스 로드 오류:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 판본 비교 결과 가져오기 (캐싱 적용)
+   */
+  async getDocumentDiffs(): Promise<DocumentEditionDiff[]> {
+    try {
+      // 1. 캐시에서 먼저 조회
+      const cached = await FirestoreCacheService.getCachedDocumentDiffs();
+      if (cached) {
+        console.log(`📦 캐시에서 판본 비교 결과 조회: ${cached.length}개`);
+        return cached;
+      }
+
+      // 2. Firestore에서 조회
+      console.log('🔥 Firestore에서 판본 비교 결과 조회');
+      const snapshot = await getDocs(query(collection(db, this.documentDiffsCollection)));
+      const diffs: DocumentEditionDiff[] = [];
+      
+      snapshot.forEach((doc) => {
+        const { createdAt, ...data } = doc.data();
+        diffs.push({
+          id: doc.id,
+          ...data
+        } as DocumentEditionDiff);
+      });
+
+      // 3. 캐시에 저장
+      await FirestoreCacheService.setCachedDocumentDiffs(diffs);
+      
+      console.log(`✅ 판본 비교 결과 로드 완료: ${diffs.length}개`);
+      return diffs;
+    } catch (error) {
+      console.error('❌ 판본 비교 결과 로드 오류:', error);
+      return [];
+    }
+  }
+
+  /**
+   * PDF 표 가져오기 (캐싱 적용)
+   */
+  async getDocumentTables(): Promise<DocumentTable[]> {
+    try {
+      // 1. 캐시에서 먼저 조회
+      const cached = await FirestoreCacheService.getCachedDocumentTables();
+      if (cached) {
+        console.log(`📦 캐시에서 표 조회: ${cached.length}개`);
+        return cached;
+      }
+
+      // 2. Firestore에서 조회
+      console.log('🔥 Firestore에서 표 조회');
+      const snapshot = await getDocs(query(collection(db, this.tablesCollection)));
+      const tables: DocumentTable[] = [];
+      
+      snapshot.forEach((doc) => {
+        const { createdAt, ...data } = doc.data();
+        tables.push({
+          id: doc.id,
+          ...data
+        } as DocumentTable);
+      });
+
+      // 3. 캐시에 저장
+      await FirestoreCacheService.setCachedDocumentTables(tables);
+      
+      console.log(`✅ 표 로드 완료: ${tables.length}개`);
+      return tables;
+    } catch (error) {
+      console.error('❌ 표 로드 오류:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 검수된 FAQ 가져오기 (관리자가 등록한 FAQ를 모든 사용자가 공유, 수정이 바로 반영되도록 캐시하지 않음)
+   */
+  async getFaqs(): Promise<FaqEntry[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, this.faqsCollection)));
+      const faqs: FaqEntry[] = [];
+
+      snapshot.forEach((doc) => {
+        const { createdAt, updatedAt, ...data } = doc.data();
+        faqs.push({
+          ...data,
+          id: doc.id,
+          createdAt: createdAt?.toDate?.() || new Date(),
+          updatedAt: updatedAt?.toDate?.() || new Date()
+        } as FaqEntry);
+      });
+
+      console.log(`✅ 검수된 FAQ 로드 완료: ${faqs.length}개`);
+      return faqs;
+    } catch (error) {
+      console.error('❌ 검수된 FAQ 로드 오류:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 검수된 FAQ 저장 (id가 같으면 덮어씀)
+   */
+  async saveFaq(faq: FaqEntry): Promise<boolean> {
+    try {
+      await setDoc(doc(db, this.faqsCollection, faq.id), this.removeUndefinedFields({
+        ...faq,
+        createdAt: Timestamp.fromDate(new Date(faq.createdAt)),
+        updatedAt: Timestamp.fromDate(new Date(faq.updatedAt))
+      }));
+      return true;
+    } catch (error) {
+      console.error('❌ 검수된 FAQ 저장 오류:', error);
+      return false;
+    }
+  }
+
+  async deleteFaq(id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(db, this.faqsCollection, id));
+      return true;
+    } catch (error) {
+      console.error('❌ 검수된 FAQ 삭제 오류:', error);
+      return false;
+    }
+  }
+
+  /**
+   * FAQ 답변 사용 횟수 증가 (여러 사용자가 동시에 올려도 누락되지 않도록 서버에서 증가)
+   */
+  async incrementFaqHitCount(id: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.faqsCollection, id), { hitCount: increment(1) });
+    } catch (error) {
+      console.warn('⚠️ FAQ 사용 횟수 기록 실패:', error);
+    }
+  }
+
+  /**
+   * 관리자 설정 가져오기 (app_settings/{settingId}, 없으면 null)
+   */
+  async getAppSetting<T>(settingId: string): Promise<Partial<T> | null> {
+    try {
+      const snapshot = await getDoc(doc(db, this.settingsCollection, settingId));
+      return snapshot.exists() ? (snapshot.data().value as Partial<T>) ?? null : null;
+    } catch (error) {
+      console.error(`❌ 설정 로드 오류 (${settingId}):`, error);
+      return null;
+    }
+  }
+
+  async saveAppSetting<T>(settingId: string, value: T): Promise<boolean> {
+    try {
+      await setDoc(doc(db, this.settingsCollection, settingId), {
+        value: this.removeUndefinedFields(value),
+        updatedAt: Timestamp.now()
+      });
+      return true;
+    } catch (error) {
+      console.error(`❌ 설정 저장 오류 (${settingId}):`, error);
+      return false;
+    }
+  }
+
   /**
    * 청크 데이터 추가 (배치)
    */
@@ -562,31 +904,13 @@ export class FirestoreService {
     try {
       console.log('🔍 벡터 유사도 검색 시작');
       
-      // 모든 청크 가져오기
-      const q = query(collection(db, this.chunksCollection));
-      const snapshot = await getDocs(q);
-      
-      const chunksWithSimilarity: Array<PDFChunk & { similarity: number }> = [];
+      // 임베딩이 있는 청크 가져오기
+      const embeddedChunks = await this.fetchEmbeddedChunksFromFirestore(documentId);
       
-      snapshot.forEach((doc) => {
-        const data = doc.data() as PDFChunk;
-        
-        // 문서 필터링
-        if (documentId && data.documentId !== documentId) {
-          return;
-        }
-        
-        // 임베딩이 있는 청크만 처리
-        if (data.embedding && data.embedding.length > 0) {
-          const similarity = this.cosineSimilarity(queryEmbedding, data.embedding);
-          
-          chunksWithSimilarity.push({
-            id: doc.id,
-            ...data,
-            similarity
-          });
-        }
-      });
+      const chunksWithSimilarity: Array<PDFChunk & { similarity: number }> = embeddedChunks.map(chunk => ({
+        ...chunk,
+        similarity: this.cosineSimilarity(queryEmbedding, chunk.embedding!)
+      }));
       
       // 유사도 순으로 정렬
       chunksWithSimilarity.sort((a, b) => b.similarity - a.similarity);
@@ -606,6 +930,30 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Firestore에서 임베딩이 있는 청크 조회 (내부 메서드)
+   */
+  private async fetchEmbeddedChunksFromFirestore(documentId?: string): Promise<PDFChunk[]> {
+    const q = query(collection(db, this.chunksCollection));
+    const snapshot = await getDocs(q);
+    
+    const chunks: PDFChunk[] = [];
+    snapshot.forEach((doc) => {
+      const data = doc.data() as PDFChunk;
+      
+      // 문서 필터링
+      if (documentId && data.documentId !== documentId) {
+        return;
+      }
+      
+      // 임베딩이 있는 청크만 처리
+      if (data.embedding && data.embedding.length > 0) {
+        chunks.push({ id: doc.id, ...data });
+      }
+    });
+    return chunks;
+  }
+
   /**
    * 코사인 유사도 계산
    */
@@ -703,6 +1051,23 @@ export class FirestoreService {
     return score;
   }
 
+  /**
+   * Firestore에 쓸 수 없는 undefined 필드 제거 (선택 필드가 비어 있는 근거 참조 등)
+   */
+  private removeUndefinedFields<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.removeUndefinedFields(item)) as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, field]) => field !== undefined)
+          .map(([key, field]) => [key, this.removeUndefinedFields(field)])
+      ) as T;
+    }
+    return value;
+  }
+
   /**
    * 데이터베이스 상태 확인
    */
@@ -1,5 +1,4 @@
-import { GoogleGenAI } from '@google/genai';
-import { SourceInfo, Chunk, QuestionAnalysis } from '../types';
+import { SourceInfo, Chunk, QuestionAnalysis, LegalReferenceHop, Message, ChunkReference, TableReference, ConversationTurn, QueryRewrite, AnswerConfidence, FaqMatch, CachedAnswerMatch, ResponseProgressDetail, ResponseProgressEvent, ResponseStreamItem } from '../types';
 import { pdfCompressionService, CompressionResult } from './pdfCompressionService';
 import { questionAnalyzer, contextSelector, ContextSelector } from './questionBasedContextService';
 import { rpdService } from './rpdService';
@@ -8,11 +7,39 @@ import { progressiveLoadingService, LoadingProgress } from './progressiveLoading
 import { memoryOptimizationService, MemoryStats } from './memoryOptimizationService';
 import { FirestoreService, PDFChunk } from './firestoreService';
 import { AdvancedSearchQualityService } from './advancedSearchQualityService';
+import { legalArticleIndexService } from './legalArticleIndexService';
+import { tableIndexService } from './tableIndexService';
+import { documentVersionService } from './documentVersionService';
+import { llmProvider, LLMChatMessage, LLMRequestError, LLMStreamChunk, isAbortError } from './llmProvider';
+import { abstentionService } from './abstentionService';
+import { faqService } from './faqService';
+import { answerCacheService } from './answerCacheService';
+import { extractPrintedPageNumber, formatPageLabel } from './pdfPageMap.js';
 
 // API 키는 런타임에 동적으로 로딩 (브라우저 로딩 타이밍 문제 해결)
 
 // API 키 로테이션을 위한 인덱스 (전역 변수 제거)
 
+/**
+ * 마지막 답변의 검색 컨텍스트 (다시 생성·이어서 작성 시 분석·검색 없이 재사용)
+ */
+interface GenerationContext {
+  message: string;                      // 사용자가 입력한 질문
+  systemInstruction: string;            // 검색 결과가 들어간 시스템 지시
+  history: LLMChatMessage[];            // 질문 당시 대화 이력 (이번 턴 제외)
+  chunkReferences: ChunkReference[];
+  referenceChain: LegalReferenceHop[];
+  citations: string[];                  // 후속 질문 재작성용 근거 요약
+  editionHeader: string;                // 시점 기준 질문의 적용 판본 머리말
+  answer: string;                       // 지금까지 생성된 답변 (중지되면 일부)
+  finish: 'complete' | 'stopped' | 'truncated';  // 마지막 스트림이 끝난 방식 (이어서 작성은 중지·끊김일 때만)
+  turnIndex: number | null;             // 기록된 대화 턴 위치 (다시 생성하면 교체)
+  assessAnswer: (answer: string) => string;          // 답변 검증 후 신뢰도 낮음 안내 문구 반환
+  cacheAnswer: (answer: string) => Promise<void>;    // 의미 기반 답변 캐시에 저장
+}
+
+type GenerationMode = 'answer' | 'continue';
+
 // PDF.js를 전역으로 선언
 declare global {
   interface Window {
@@ -26,6 +53,9 @@ export class GeminiService {
   private sessionCreationCount: number = 0;
   private static readonly MAX_SESSION_CREATION_ATTEMPTS = 3;
   
+  // ✅ 429 재시도 시 기다릴 최대 시간 (프록시가 알려준 Retry-After가 더 길면 바로 실패 처리)
+  private static readonly MAX_RETRY_WAIT_MS = 30000;
+  
   // 🚨 중복 초기화 방지 플래그
   private isInitializing: boolean = false;
   
@@ -47,6 +77,29 @@ export class GeminiService {
   // ✅ 마지막으로 사용된 청크 참조 정보
   private lastChunkReferences: any[] = [];
   
+  // ✅ 마지막 답변의 조문 상호 참조 체인
+  private lastReferenceChain: LegalReferenceHop[] = [];
+  
+  // ✅ 이전 대화 턴 (새 세션 history 및 후속 질문 재작성에 사용)
+  private conversationTurns: ConversationTurn[] = [];
+  private static readonly MAX_HISTORY_TURNS = 10;
+  
+  // ✅ 마지막 질문의 검색 질의 재작성 결과
+  private lastQueryRewrite: QueryRewrite | null = null;
+  
+  // ✅ 마지막 답변의 근거 신뢰도 판정 (답변 보류·신뢰도 낮음)
+  private lastAnswerConfidence: AnswerConfidence | null = null;
+  
+  // ✅ 마지막 답변이 검수된 FAQ로 응답한 경우의 일치 정보
+  private lastFaqMatch: FaqMatch | null = null;
+  
+  // ✅ 마지막 답변이 의미 기반 답변 캐시에서 나온 경우의 일치 정보
+  private lastCachedAnswer: CachedAnswerMatch | null = null;
+  
+  // ✅ 마지막 답변의 검색 컨텍스트 (다시 생성·이어서 작성용, FAQ·캐시·답변 보류는 없음)
+  private lastGenerationContext: GenerationContext | null = null;
+  private static readonly CONTINUE_PROMPT = '앞의 답변이 중간에 끊겼습니다. 이미 작성한 내용은 반복하지 말고 끊긴 지점부터 바로 이어서 작성해 주세요.';
+  
   private static readonly SYSTEM_INSTRUCTION_TEMPLATE = `You are an expert assistant specialized in Korean legal and administrative documents. Your name is NotebookLM Assistant. 
 
 THINKING APPROACH:
@@ -120,7 +173,9 @@ IMPORTANT INSTRUCTIONS:
       * "금연지원서비스 매뉴얼, p.7" for 금연지원서비스 통합시스템 사용자매뉴얼
     - IMPORTANT CITATION RULES:
       * For legal documents: Use [ARTICLE_X] markers to find article references
+      * When a context header lists "조문: ...", cite the article exactly as listed, narrowed to the most specific 항/호/목 that supports the statement (e.g. "국민건강증진법 시행규칙 제6조제2항제3호")
       * For non-legal documents: Use [PAGE_X] markers to find page references
+      * When "[변경 내역 ...]" blocks are provided, answer questions about what changed between editions ONLY from those blocks: for each changed section give the section title, the previous text (- lines) and the new text (+ lines), and cite both editions with pages (e.g. "금연구역 지정 관리 업무지침 2024판 p.12 → 2025판 p.13")
       * When information appears in multiple articles/pages, include ALL relevant references
       * For multiple articles: "국민건강증진법 제1조, 제3조, 제5조" instead of just "국민건강증진법 제1조"
       * For multiple pages: "금연구역 지정 관리 업무지침, p.7, p.9, p.12" instead of just "금연구역 지정 관리 업무지침, p.7"
@@ -266,6 +321,16 @@ Here is the source material:
       formatGuidance += '\n**COMPLEXITY**: This is a simple question. Prefer concise text format over tables.';
     }
     
+    // ✅ 추가: 원문 표가 컨텍스트에 있으면 행·열 값을 그대로 사용하도록 안내
+    if (contextText.includes('[표: ')) {
+      formatGuidance += '\n**SOURCE TABLES**: Blocks marked [표: ...] are tables extracted row by row from the source PDF. Quote their cell values exactly, keep the row/column relationships, and cite the table page. The original table is shown to the user below the answer, so reproduce only the rows relevant to the question.';
+    }
+    
+    // ✅ 추가: 시점 기준 질문 안내
+    if (questionAnalysis.asOfDate) {
+      formatGuidance += `\n**AS-OF DATE**: The user asks about the rules in force on ${questionAnalysis.asOfDate}. The source text contains only the editions in force on that date; answer as of that date and do not describe later amendments as current.`;
+    }
+    
     return baseTemplate.replace('{sourceText}', contextText) + formatGuidance;
   }
 
@@ -291,39 +356,12 @@ Here is the source material:
     this.isCreatingSession = true;
 
     try {
-      // API 키 선택
-      const selectedApiKey = this.getNextAvailableKey();
-      if (!selectedApiKey) {
-        throw new Error('사용 가능한 API 키가 없습니다.');
-      }
-
-      console.log(`Creating dynamic chat session with API key: ${selectedApiKey.substring(0, 10)}...`);
-
-      // 새로운 AI 인스턴스 생성 (선택된 키로)
-      const ai = new GoogleGenAI({ apiKey: selectedApiKey });
-      
-      // chat_index.html과 정확히 동일한 방식
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: systemInstruction,
-        },
-        history: [],
+      // 선택된 LLM 제공자로 채팅 세션 생성 (Gemini 키 선택·RPD 기록은 프록시 서버에서 처리)
+      const chat = llmProvider.createChat({
+        systemInstruction: systemInstruction,
+        history: this.getRecentHistory(),
       });
 
-      // RPD 기록 - 안전한 인덱스 계산
-      const apiKeys = this.getApiKeys();
-      
-      // currentKeyIndex가 NaN이거나 유효하지 않은 경우 0으로 초기화
-      if (isNaN(GeminiService.currentKeyIndex) || GeminiService.currentKeyIndex < 0) {
-        GeminiService.currentKeyIndex = 0;
-      }
-      
-      // 선택된 키의 인덱스 계산 (현재 키가 아닌 선택된 키 기준)
-      const selectedKeyIndex = apiKeys.findIndex(key => key === selectedApiKey);
-      const actualKeyIndex = selectedKeyIndex >= 0 ? selectedKeyIndex : 0;
-      console.log(`RPD 기록 - 사용된 키 인덱스: ${actualKeyIndex}/${apiKeys.length}`);
-      
       console.log(`✅ 동적 세션 생성 완료 (시도 ${this.sessionCreationCount}/${GeminiService.MAX_SESSION_CREATION_ATTEMPTS})`);
       return chat;
     } catch (error) {
@@ -355,6 +393,20 @@ Here is the source material:
     }
   }
 
+  /**
+   * 컨텍스트 청크 헤더 생성 (법령 청크는 포함 조문을 함께 표기하여 정확한 인용 유도)
+   * 청크 페이지의 관련 표는 평문 대신 행·열 구조를 유지한 마크다운 표로 덧붙임
+   */
+  private formatContextChunk(chunk: Chunk, index: number, tables: TableReference[] = []): string {
+    const articleRefs = legalArticleIndexService.getArticleRefsForChunk(chunk.id);
+    const articles = articleRefs.length > 0
+      ? articleRefs.map(ref => ref.citation)
+      : (chunk.metadata?.articles || []);
+    const articleLabel = articles.length > 0 ? ` | 조문: ${articles.join(', ')}` : '';
+    const tableText = tables.map(table => `\n\n${tableIndexService.formatTableContext(table)}`).join('');
+    return `[문서 ${index + 1}: ${chunk.metadata.title} - ${chunk.location.section || '일반'}${articleLabel}]\n${chunk.content}${tableText}`;
+  }
+
   /**
    * 청크에서 출처 정보 생성 (문서 유형별 처리)
    */
@@ -408,8 +460,6 @@ Here is the source material:
   private allChunks: Chunk[] = [];
   private fullPdfText: string = '';
   private currentAbortController: AbortController | null = null;
-  private apiKeyFailures: Map<string, number> = new Map(); // API 키별 실패 횟수 추적
-  private static currentKeyIndex: number = 0; // API 키 로테이션을 위한 인덱스 (static으로 변경)
   
   // 성능 개선 관련 속성들
   private loadingProgress: LoadingProgress | null = null;
@@ -449,238 +499,44 @@ Here is the source material:
 
   private initializeAI() {
     console.log('GeminiService AI 초기화 중...');
-    
-    try {
-      // 런타임에 API 키 확인
-      const apiKeys = this.getApiKeys();
-      console.log(`사용 가능한 API 키 개수: ${apiKeys.length}`);
-      
-      if (apiKeys.length > 0) {
-        console.log('API 키 로테이션 시스템 활성화');
-        console.log('매 질문마다 다른 API 키를 사용합니다.');
-        // 하이브리드 방식에서는 초기화 시 AI 인스턴스를 생성하지 않음
-        // 매 질문마다 새로운 키로 인스턴스 생성
-      } else {
-        console.warn("API_KEY가 설정되지 않았습니다. 채팅 기능이 제한됩니다.");
-        console.log('환경변수 확인:');
-        console.log('VITE_GEMINI_API_KEY:', import.meta.env.VITE_GEMINI_API_KEY ? '설정됨' : '설정되지 않음');
-        console.log('VITE_GEMINI_API_KEY_1:', import.meta.env.VITE_GEMINI_API_KEY_1 ? '설정됨' : '설정되지 않음');
-        console.log('VITE_GEMINI_API_KEY_2:', import.meta.env.VITE_GEMINI_API_KEY_2 ? '설정됨' : '설정되지 않음');
-      }
-    } catch (error) {
-      console.error('AI 초기화 중 오류 발생:', error);
-    }
-  }
-
-  // ✅ 런타임에 API 키를 동적으로 가져오는 메서드 (폴백 메커니즘 포함)
-  private getApiKeys(): string[] {
-    try {
-      const keys = [
-        import.meta.env.VITE_GEMINI_API_KEY || '',
-        import.meta.env.VITE_GEMINI_API_KEY_1 || '',
-        import.meta.env.VITE_GEMINI_API_KEY_2 || '',
-      ].filter(key => key && key !== 'YOUR_GEMINI_API_KEY_HERE' && key !== '');
-      
-      console.log('런타임 API 키 로딩:', keys.map(k => k ? k.substring(0, 10) + '...' : 'undefined'));
-      console.log(`총 ${keys.length}개의 유효한 API 키 발견`);
-      return keys;
-    } catch (error) {
-      console.error('API 키 로딩 중 오류 발생:', error);
-      return [];
-    }
-  }
-
-  // 다음 사용 가능한 API 키를 가져오는 메서드 (런타임 동적 로딩)
-  private getNextAvailableKey(): string | null {
-    const API_KEYS = this.getApiKeys(); // 런타임에 동적 로딩
-    
-    if (API_KEYS.length === 0) {
-      log.warn('런타임에 API 키를 찾을 수 없습니다.');
-      return null;
-    }
-    
-    // 실패한 키들을 제외하고 사용 가능한 키 찾기
-    const availableKeys = API_KEYS.filter(key => {
-      const failures = this.apiKeyFailures.get(key) || 0;
-      return failures < 3; // 3번 이상 실패한 키는 제외
-    });
-    
-    if (availableKeys.length === 0) {
-      log.warn('모든 API 키가 실패했습니다. 첫 번째 키로 재시도합니다.');
-      // 모든 키가 실패했으면 실패 카운트를 리셋하고 첫 번째 키 사용
-      this.apiKeyFailures.clear();
-      return API_KEYS[0];
-    }
-    
-    // currentKeyIndex 초기화 체크 (더 안전한 검증)
-    if (isNaN(GeminiService.currentKeyIndex) || GeminiService.currentKeyIndex < 0) {
-      GeminiService.currentKeyIndex = 0;
-    }
-    
-    // 로테이션 방식으로 다음 키 선택 (매번 다른 키 사용)
-    const selectedKey = availableKeys[GeminiService.currentKeyIndex % availableKeys.length];
-    const keyIndex = GeminiService.currentKeyIndex % availableKeys.length;
-    
-    // 다음 호출을 위해 인덱스 증가
-    GeminiService.currentKeyIndex = (GeminiService.currentKeyIndex + 1) % availableKeys.length;
-    
-    log.info(`API 키 선택`, {
-      selectedKey: selectedKey.substring(0, 10) + '...',
-      keyIndex,
-      totalKeys: availableKeys.length,
-      availableKeys: availableKeys.map(k => k.substring(0, 10) + '...')
-    });
-    
-    // API 키 유효성 검증
-    if (!this.isValidApiKey(selectedKey)) {
-      log.warn(`API 키가 유효하지 않습니다`, { key: selectedKey.substring(0, 10) + '...' });
-      this.apiKeyFailures.set(selectedKey, (this.apiKeyFailures.get(selectedKey) || 0) + 1);
-      return this.getNextAvailableKey(); // 다음 키 시도
-    }
-    
-    return selectedKey;
-  }
-
-  // API 키 유효성 검증
-  private isValidApiKey(key: string): boolean {
-    if (!key || key.length < 20) return false;
-    if (!key.startsWith('AIza')) return false;
-    return true;
+    // ✅ Gemini API 키·키 로테이션·RPD 집계는 프록시 서버(server/gemini-proxy.js)에서 처리
+    console.log(`LLM 제공자 사용: ${llmProvider.type} (${llmProvider.defaultModel})`);
   }
 
-  // API 키를 교체하는 메서드 (개선된 강제 키 로테이션)
-  private switchToNextKey(): boolean {
-    const newKey = this.getNextAvailableKey();
-    if (newKey) {
-      try {
-        // 현재 키와 다른 키인지 확인
-        const currentKey = this.getApiKeys()[GeminiService.currentKeyIndex];
-        if (currentKey === newKey) {
-          console.log('⚠️ 같은 키가 선택됨, 강제로 다음 키로 이동...');
-          GeminiService.currentKeyIndex = (GeminiService.currentKeyIndex + 1) % this.getApiKeys().length;
-          const forcedNewKey = this.getNextAvailableKey();
-          if (forcedNewKey && forcedNewKey !== currentKey) {
-            console.log(`✅ 강제 키 교체: ${forcedNewKey.substring(0, 10)}...`);
-        return true;
-          }
-        } else {
-          console.log(`✅ 키 교체 성공: ${newKey.substring(0, 10)}...`);
-          return true;
-        }
-      } catch (error) {
-        console.error('키 교체 중 오류:', error);
-      }
-    }
-    
-    console.log('❌ 사용 가능한 키가 없습니다.');
-    return false;
-  }
-
-  // API 호출 실패 시 키 교체 로직 (개선된 즉시 키 교체)
-  private handleApiKeyFailure(usedKey: string, error: any): boolean {
-    const failures = this.apiKeyFailures.get(usedKey) || 0;
-    this.apiKeyFailures.set(usedKey, failures + 1);
-    
-    console.warn(`API 키 실패 (${failures + 1}/3): ${usedKey.substring(0, 10)}...`);
-    console.error('오류 상세:', error);
-    
-    // 🔥 개선: 429/할당량 오류 시 즉시 키 교체
-    if (error.message && (
-      error.message.includes('429') || 
-      error.message.includes('RATE_LIMIT_EXCEEDED') ||
-      error.message.includes('quota') ||
-      error.message.includes('RESOURCE_EXHAUSTED')
-    )) {
-      console.log('🚨 할당량 초과 감지, 즉시 다음 키로 전환...');
-      
-      // RPD에서 해당 키 비활성화
-      const keyIndex = this.getApiKeys().findIndex(key => key === usedKey);
-      if (keyIndex >= 0) {
-        const keyId = `key${keyIndex + 1}`;
-        rpdService.toggleKeyStatus(keyId);
-        console.log(`RPD에서 키 ${keyId} 비활성화`);
-      }
-      
-      return this.switchToNextKey();
-    }
-    
-    // 다른 오류들도 즉시 키 교체
-    if (error.message && (
-      error.message.includes('quota_limit_value') && error.message.includes('"0"') ||
-      error.message.includes('401') ||
-      error.message.includes('UNAUTHENTICATED')
-    )) {
-      console.warn('API 키 문제 감지, 다음 키로 전환...');
-      return this.switchToNextKey();
-    }
-    
-    // 기본적으로 키 교체 시도
-      return this.switchToNextKey();
-    }
-    
-  // API 호출 시 RPD 기록 (비동기)
-  private async recordApiCall(keyId: string): Promise<boolean> {
-    console.log(`RPD 기록 시도: ${keyId}`);
-    const result = await rpdService.recordApiCall(keyId);
-    console.log(`RPD 기록 결과: ${result ? '성공' : '실패'}`);
-    return result;
-  }
-
-  // 재시도 로직이 포함된 API 호출 래퍼 (개선된 키 로테이션)
+  // 재시도 로직이 포함된 API 호출 래퍼 (키 교체는 프록시 서버가 하므로 할당량 오류는 지연 후 재시도)
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
     maxRetries: number = 3,
-    retryDelay: number = 1000
+    retryDelay: number = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      signal?.throwIfAborted();
       try {
         return await operation();
       } catch (error) {
+        // 사용자가 중지한 요청은 재시도하지 않음
+        if (isAbortError(error)) throw error;
         lastError = error;
         console.warn(`API 호출 실패 (시도 ${attempt}/${maxRetries}):`, error);
         
-        // 🔥 핵심 개선: 429/할당량 오류 시 즉시 키 교체
-        if (error.message && (
+        if (attempt < maxRetries && error.message && (
           error.message.includes('429') || 
           error.message.includes('RATE_LIMIT_EXCEEDED') ||
           error.message.includes('quota') ||
           error.message.includes('RESOURCE_EXHAUSTED')
         )) {
-          console.log('🚨 할당량/429 오류 감지, 즉시 키 교체 시도...');
-          
-          // 즉시 키 교체 시도
-          const apiKeys = this.getApiKeys();
-          const currentKeyIndex = (GeminiService.currentKeyIndex - 1 + apiKeys.length) % apiKeys.length;
-          
-          if (this.handleApiKeyFailure(apiKeys[currentKeyIndex], error)) {
-            console.log('✅ 키 교체 성공, 즉시 재시도...');
-            continue; // 키 교체 후 즉시 재시도
-          } else {
-            console.log('❌ 키 교체 실패, 지연 후 재시도...');
-          if (attempt < maxRetries) {
-              const delay = retryDelay * Math.pow(2, attempt - 1);
-            console.log(`${delay}ms 후 재시도...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
+          // ✅ 프록시가 알려준 Retry-After와 지수 백오프 중 긴 시간만큼 대기
+          const retryAfterMs = error instanceof LLMRequestError ? error.retryAfterMs : null;
+          if (retryAfterMs && retryAfterMs > GeminiService.MAX_RETRY_WAIT_MS) {
+            console.warn(`⚠️ 할당량 소진 - ${Math.ceil(retryAfterMs / 1000)}초 후에 사용할 수 있어 재시도하지 않음`);
+            break;
           }
-        }
-        } else {
-          // 다른 오류의 경우 기존 로직
-        const apiKeys = this.getApiKeys();
-        const currentKeyIndex = (GeminiService.currentKeyIndex - 1 + apiKeys.length) % apiKeys.length;
-        if (this.handleApiKeyFailure(apiKeys[currentKeyIndex], error)) {
-          if (attempt < maxRetries) {
-            console.log('API 키 교체 후 재시도...');
-            continue;
-            }
-          }
-        }
-        
-        // 마지막 시도가 아니면 계속
-        if (attempt < maxRetries) {
-          continue;
+          const delay = Math.max(retryDelay * Math.pow(2, attempt - 1), retryAfterMs || 0);
+          console.log(`🚨 할당량/429 오류 감지, ${delay}ms 후 재시도...`);
+          await this.wait(delay, signal);
         }
       }
     }
@@ -688,20 +544,19 @@ Here is the source material:
     throw lastError;
   }
 
-  // 다음 사용 가능한 키 조회 (RPD 고려) - 비동기
-  private async getNextAvailableKeyWithRpd(): Promise<string | null> {
-    try {
-    // RPD에서 사용 가능한 키 확인
-      const rpdAvailableKey = await rpdService.getNextAvailableKey();
-    if (rpdAvailableKey) {
-      return rpdAvailableKey;
-      }
-    } catch (error) {
-      console.warn('RPD 키 조회 실패:', error);
-    }
-
-    // RPD에서 사용 불가능하면 기존 로직 사용
-    return this.getNextAvailableKey();
+  // 중지하면 바로 AbortError로 끝나는 대기
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   private async loadDefaultSources() {
@@ -760,9 +615,204 @@ Here is the source material:
     return this.lastChunkReferences;
   }
   
+  // ✅ 마지막 답변의 조문 상호 참조 체인 가져오기
+  getLastReferenceChain(): LegalReferenceHop[] {
+    return this.lastReferenceChain;
+  }
+  
   // ✅ 청크 참조 정보 초기화
   clearChunkReferences(): void {
     this.lastChunkReferences = [];
+    this.lastReferenceChain = [];
+  }
+
+  /**
+   * 저장된 대화를 이어서 진행할 수 있도록 모델 history 복원
+   */
+  restoreConversation(messages: Message[]): void {
+    this.conversationTurns = [];
+    messages.forEach((message, index) => {
+      const reply = messages[index + 1];
+      if (message.role !== 'user' || !reply || reply.role !== 'model' || !reply.content.trim()) return;
+      this.conversationTurns.push({
+        question: message.content,
+        answer: reply.content,
+        citations: this.summarizeCitations(reply.chunkReferences || [])
+      });
+    });
+    this.currentChatSession = null;
+    this.lastQueryRewrite = null;
+    this.lastGenerationContext = null;
+    this.clearChunkReferences();
+    console.log(`💬 대화 복원: 이전 질문/답변 ${this.conversationTurns.length}턴`);
+  }
+
+  // ✅ 마지막 질문의 검색 질의 재작성 결과 가져오기
+  getLastQueryRewrite(): QueryRewrite | null {
+    return this.lastQueryRewrite;
+  }
+
+  // ✅ 마지막 답변의 근거 신뢰도 판정 가져오기
+  getLastAnswerConfidence(): AnswerConfidence | null {
+    return this.lastAnswerConfidence;
+  }
+
+  // ✅ 마지막 답변의 검수된 FAQ 일치 정보 가져오기
+  getLastFaqMatch(): FaqMatch | null {
+    return this.lastFaqMatch;
+  }
+
+  // ✅ 마지막 답변의 답변 캐시 일치 정보 가져오기
+  getLastCachedAnswer(): CachedAnswerMatch | null {
+    return this.lastCachedAnswer;
+  }
+
+  // 최근 대화 턴만 전달 (컨텍스트 길이 제한)
+  private getRecentHistory(): LLMChatMessage[] {
+    return this.conversationTurns
+      .slice(-GeminiService.MAX_HISTORY_TURNS)
+      .flatMap(turn => [
+        { role: 'user' as const, text: turn.question },
+        { role: 'model' as const, text: turn.answer }
+      ]);
+  }
+
+  // 완료된 질문/답변 한 턴 기록
+  private recordTurn(question: string, answer: string, citations: string[]): void {
+    if (!answer.trim()) return;
+    this.conversationTurns.push({ question, answer, citations });
+  }
+
+  // 생성한 답변 턴 기록 - 다시 생성·이어서 작성이면 같은 질문의 턴을 교체
+  private recordGenerationTurn(generation: GenerationContext): void {
+    if (!generation.answer.trim()) return;
+    const turn = { question: generation.message, answer: generation.answer, citations: generation.citations };
+    if (generation.turnIndex !== null && this.conversationTurns[generation.turnIndex]?.question === generation.message) {
+      this.conversationTurns[generation.turnIndex] = turn;
+      return;
+    }
+    this.conversationTurns.push(turn);
+    generation.turnIndex = this.conversationTurns.length - 1;
+  }
+
+  /**
+   * LLM 스트림을 답변 텍스트로 전달하고, 끝나면 답변 검증·대화 기록·캐시 저장
+   * 'continue'는 지금까지의 답변 뒤에 이어 붙임 (중지되면 그때까지의 답변이 generation.answer에 남음)
+   * 출력 토큰 한도로 끊긴 답변은 신뢰도 안내를 붙이지 않고 캐시하지 않음 (이어서 작성이 끝나면 한 번만 안내)
+   */
+  private streamGeneration(
+    generation: GenerationContext,
+    stream: AsyncIterable<LLMStreamChunk>,
+    mode: GenerationMode
+  ): AsyncGenerator<string, void, unknown> {
+    const completeAnswer = (): string => {
+      const notice = generation.assessAnswer(generation.answer);
+      this.recordGenerationTurn(generation);
+      return notice;
+    };
+
+    return (async function* () {
+      // 스트림을 끝까지 읽지 못하면(중지·오류) 'stopped'로 남음
+      generation.finish = 'stopped';
+      if (mode === 'answer') {
+        generation.answer = '';
+        if (generation.editionHeader) {
+          yield `${generation.editionHeader}\n\n`;
+        }
+      }
+      let truncated = false;
+      for await (const chunk of stream) {
+        truncated = truncated || !!chunk.truncated;
+        if (chunk.text) {
+          generation.answer += chunk.text;
+          yield chunk.text;
+        }
+      }
+      generation.finish = truncated ? 'truncated' : 'complete';
+      const notice = completeAnswer();
+      if (truncated) {
+        console.log('✂️ 출력 한도로 답변이 끊김 - 이어서 작성 가능');
+        return;
+      }
+      if (notice) {
+        yield notice;
+      }
+      await generation.cacheAnswer(generation.answer);
+    })();
+  }
+
+  /**
+   * 마지막 답변 다시 생성 - 질문 분석·검색 없이 같은 검색 컨텍스트로 LLM만 다시 호출
+   */
+  async regenerateLastResponse(options: { signal?: AbortSignal } = {}): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> {
+    return this.generateFromLastContext('answer', options.signal);
+  }
+
+  /**
+   * 중지되거나 끊긴 마지막 답변을 같은 검색 컨텍스트로 이어서 작성
+   * 반환 스트림은 이어지는 부분만 yield (기존 답변 뒤에 붙여서 표시)
+   */
+  async continueLastResponse(options: { signal?: AbortSignal } = {}): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> {
+    return this.generateFromLastContext('continue', options.signal);
+  }
+
+  // ✅ 마지막 답변에 다시 생성·이어서 작성을 쓸 수 있는지 (FAQ·캐시·답변 보류는 검색 컨텍스트가 없음)
+  getReusableContextState(): { canRegenerate: boolean; canContinue: boolean } {
+    const generation = this.lastGenerationContext;
+    return {
+      canRegenerate: !!generation,
+      canContinue: !!generation && generation.finish !== 'complete' && generation.answer.trim().length > 0
+    };
+  }
+
+  private async generateFromLastContext(
+    mode: GenerationMode,
+    callerSignal?: AbortSignal
+  ): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> {
+    const generation = this.lastGenerationContext;
+    if (!generation) {
+      throw new Error('다시 사용할 검색 결과가 없습니다. 질문을 다시 입력해 주세요.');
+    }
+    if (mode === 'continue' && generation.finish === 'complete') {
+      throw new Error('이미 끝까지 작성된 답변입니다. 다시 생성을 사용해 주세요.');
+    }
+    const signal = this.beginRequest(callerSignal);
+    const isContinue = mode === 'continue' && generation.answer.trim().length > 0;
+
+    // ✅ 답변에 붙는 출처 정보를 검색 당시 그대로 유지
+    this.lastChunkReferences = generation.chunkReferences;
+    this.lastReferenceChain = generation.referenceChain;
+    this.lastFaqMatch = null;
+    this.lastCachedAnswer = null;
+    this.lastAnswerConfidence = null;
+
+    const chat = llmProvider.createChat({
+      systemInstruction: generation.systemInstruction,
+      history: isContinue
+        ? [...generation.history, { role: 'user', text: generation.message }, { role: 'model', text: generation.answer }]
+        : generation.history
+    });
+    console.log(isContinue ? '➡️ 같은 검색 컨텍스트로 답변 이어서 작성' : '🔄 같은 검색 컨텍스트로 답변 다시 생성');
+
+    const stream = await this.executeWithRetry(
+      () => chat.sendMessageStream({
+        message: isContinue ? GeminiService.CONTINUE_PROMPT : generation.message,
+        signal
+      }),
+      3, 1000, signal
+    );
+    return this.streamGeneration(generation, stream, isContinue ? 'continue' : 'answer');
+  }
+
+  // 후속 질문 재작성용 근거 요약 (문서명·조문·페이지·발췌)
+  private summarizeCitations(references: ChunkReference[]): string[] {
+    return references.slice(0, 5).map(reference => {
+      const articles = (reference.articles || []).slice(0, 2).map(article => article.citation).join(', ');
+      const location = [reference.documentTitle, articles, formatPageLabel(reference)]
+        .filter(Boolean)
+        .join(' · ');
+      return `${location}: ${reference.content.replace(/\s+/g, ' ').substring(0, 150)}`;
+    });
   }
 
   // PDF.js를 로컬 파일에서 로드하는 함수 (최적화)
@@ -909,64 +959,13 @@ Here is the source material:
     });
   }
 
-  // 실제 PDF 페이지 번호를 추출하는 메서드 (개선된 버전)
+  // 실제 PDF 페이지 번호를 추출하는 메서드 (마이그레이션과 같은 pdfPageMap 규칙, 없으면 순차 인덱스)
   private extractActualPageNumber(pageText: string, pageIndex: number): number {
-    // 1. 줄바꿈을 보존하여 텍스트를 라인별로 분할
-    const lines = pageText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    
-    // 2. 페이지 하단에서 페이지 번호 찾기 (마지막 5줄에서 검색)
-    const bottomLines = lines.slice(-5);
-    
-    for (let i = bottomLines.length - 1; i >= 0; i--) {
-      const line = bottomLines[i];
-      
-      // 3. 페이지 번호 패턴들 (우선순위 순)
-      const pageNumberPatterns = [
-        // "69" (단독 숫자만 있는 줄)
-        /^(\d+)$/,
-        // "페이지 69" 형태
-        /^페이지\s*(\d+)$/i,
-        // "Page 69" 형태  
-        /^Page\s*(\d+)$/i,
-        // "69/124" 형태 (분수에서 분자만)
-        /^(\d+)\s*\/\s*\d+$/,
-        // "69 of 124" 형태
-        /^(\d+)\s*of\s*\d+$/i,
-        // "p.69" 형태
-        /^p\.\s*(\d+)$/i,
-        // "P.69" 형태
-        /^P\.\s*(\d+)$/i
-      ];
-      
-      // 각 패턴을 순서대로 시도
-      for (const pattern of pageNumberPatterns) {
-        const match = line.match(pattern);
-        if (match && match[1]) {
-          const pageNum = parseInt(match[1], 10);
-          // 유효한 페이지 번호인지 확인 (1-999 범위)
-          if (pageNum >= 1 && pageNum <= 999) {
-            console.log(`페이지 ${pageIndex}에서 실제 페이지 번호 ${pageNum} 발견 (라인: "${line}")`);
-            return pageNum;
-          }
-        }
-      }
-    }
-    
-    // 4. 페이지 하단에서 숫자만 있는 라인 찾기
-    for (let i = bottomLines.length - 1; i >= 0; i--) {
-      const line = bottomLines[i];
-      // 숫자만 있는 라인인지 확인
-      if (/^\d+$/.test(line)) {
-        const pageNum = parseInt(line, 10);
-        if (pageNum >= 1 && pageNum <= 999) {
-          console.log(`페이지 ${pageIndex}에서 추정 페이지 번호 ${pageNum} 발견 (라인: "${line}")`);
-          return pageNum;
-        }
-      }
+    const printedPage = extractPrintedPageNumber(pageText);
+    if (printedPage !== null) {
+      console.log(`페이지 ${pageIndex}에서 실제 페이지 번호 ${printedPage} 발견`);
+      return printedPage;
     }
-    
-    // 5. 찾지 못하면 순차 인덱스 사용 (fallback)
-    console.warn(`페이지 ${pageIndex}에서 실제 페이지 번호를 찾지 못함, 순차 인덱스 ${pageIndex} 사용`);
     return pageIndex;
   }
 
@@ -1465,7 +1464,9 @@ Here is the source material:
       const answerStream = await this.generateStreamingResponse(question);
       let answer = '';
       for await (const chunk of answerStream) {
-        answer += chunk;
+        if (typeof chunk === 'string') {
+          answer += chunk;
+        }
       }
       return {
         answer,
@@ -1540,12 +1541,16 @@ Here is the source material:
             source: doc.filename,
             title: doc.title,
             page: firestoreChunk.metadata.page,
+            pageEnd: firestoreChunk.metadata.pageEnd,
+            printedPage: firestoreChunk.metadata.printedPage,
+            printedPageEnd: firestoreChunk.metadata.printedPageEnd,
             section: firestoreChunk.metadata.section,
             position: firestoreChunk.metadata.position,
             startPosition: firestoreChunk.metadata.startPos,
             endPosition: firestoreChunk.metadata.endPos,
             originalSize: firestoreChunk.metadata.originalSize,
-            documentType: this.getDocumentType(doc.filename)
+            documentType: this.getDocumentType(doc.filename),
+            articles: firestoreChunk.metadata.articles || []
           },
           keywords: firestoreChunk.keywords,
           location: {
@@ -1675,14 +1680,6 @@ Here is the source material:
     this.isCreatingSession = true;
 
     try {
-    // 매번 새로운 API 키 선택
-    const selectedApiKey = this.getNextAvailableKey();
-    if (!selectedApiKey) {
-      throw new Error('사용 가능한 API 키가 없습니다.');
-    }
-
-    console.log(`채팅 세션 생성 - API 키: ${selectedApiKey.substring(0, 10)}...`);
-
     // PDF 내용이 아직 초기화되지 않았다면 초기화
     if (!this.isInitialized) {
       await this.initializeWithPdfSources();
@@ -1703,49 +1700,17 @@ Here is the source material:
 
     console.log(`Creating chat session with compressed text: ${actualSourceText.length.toLocaleString()} characters`);
 
-      // 새로운 AI 인스턴스 생성 (선택된 키로)
-      const ai = new GoogleGenAI({ apiKey: selectedApiKey });
-      
-      // chat_index.html과 정확히 동일한 방식
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: systemInstruction,
-        },
-        history: [],
+      // 선택된 LLM 제공자로 채팅 세션 생성 (Gemini 키 선택·RPD 기록은 프록시 서버에서 처리)
+      const chat = llmProvider.createChat({
+        systemInstruction: systemInstruction,
+        history: this.getRecentHistory(),
       });
 
-      // RPD 기록 - 안전한 인덱스 계산
-      const apiKeys = this.getApiKeys();
-      
-      // currentKeyIndex가 NaN이거나 유효하지 않은 경우 0으로 초기화
-      if (isNaN(GeminiService.currentKeyIndex) || GeminiService.currentKeyIndex < 0) {
-        GeminiService.currentKeyIndex = 0;
-      }
-      
-      // 선택된 키의 인덱스 계산 (현재 키가 아닌 선택된 키 기준)
-      const selectedKeyIndex = apiKeys.findIndex(key => key === selectedApiKey);
-      const actualKeyIndex = selectedKeyIndex >= 0 ? selectedKeyIndex : 0;
-      const currentKeyId = `key${actualKeyIndex + 1}`;
-      
-      console.log(`API 키 상태 - currentKeyIndex: ${GeminiService.currentKeyIndex}, selectedKeyIndex: ${selectedKeyIndex}`);
-      console.log(`사용된 키 인덱스: ${actualKeyIndex}, RPD 키 ID: ${currentKeyId}`);
-      await this.recordApiCall(currentKeyId);
-
       this.currentChatSession = chat;
       console.log(`✅ 세션 생성 완료 (시도 ${this.sessionCreationCount}/${GeminiService.MAX_SESSION_CREATION_ATTEMPTS})`);
       return chat;
     } catch (error) {
       console.error('채팅 세션 생성 실패:', error);
-      
-      // API 키 교체 시도
-      const apiKeys = this.getApiKeys();
-      const failedKeyIndex = (GeminiService.currentKeyIndex - 1 + apiKeys.length) % apiKeys.length;
-      if (this.handleApiKeyFailure(apiKeys[failedKeyIndex], error)) {
-        // 키 교체 후 재시도
-        return this.createNotebookChatSession(sourceText);
-      }
-      
       throw error;
     } finally {
       // 🚨 무한 루프 방지 플래그 리셋
@@ -1756,24 +1721,128 @@ Here is the source material:
     }
   }
 
-  // 스트리밍 응답 생성 (질문별 컨텍스트 선택 사용 + 재시도 로직)
-  async generateStreamingResponse(message: string): Promise<AsyncGenerator<string, void, unknown>> {
+  /**
+   * 스트리밍 응답 생성 - 답변 텍스트와 함께 검색 과정 진행 이벤트를 yield
+   * 분석·검색이 끝나기 전에 바로 반환하여 진행 이벤트를 실시간으로 전달
+   * options.signal로 중지하면 분석·검색·LLM 호출을 멈추고 AbortError로 끝남
+   */
+  async generateStreamingResponse(
+    message: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<AsyncGenerator<ResponseStreamItem, void, unknown>> {
+    const signal = this.beginRequest(options.signal);
+    const startedAt = Date.now();
+    const pendingEvents: ResponseProgressEvent[] = [];
+    let wakeUp: (() => void) | null = null;
+    let settled = false;
+
+    const emitProgress = (detail: ResponseProgressDetail) => {
+      pendingEvents.push({ ...detail, type: 'progress', elapsedMs: Date.now() - startedAt });
+      wakeUp?.();
+    };
+
+    const answerStreamPromise = this.createAnswerStream(message, emitProgress, signal);
+    answerStreamPromise.then(
+      () => { settled = true; wakeUp?.(); },
+      () => { settled = true; wakeUp?.(); }
+    );
+
+    return (async function* () {
+      while (!settled || pendingEvents.length > 0) {
+        const event = pendingEvents.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        await new Promise<void>(resolve => { wakeUp = resolve; });
+        wakeUp = null;
+      }
+      yield* await answerStreamPromise;
+    })();
+  }
+
+  // 답변 텍스트 스트림 생성 (질문별 컨텍스트 선택 사용 + 재시도 로직, 단계마다 emitProgress 호출)
+  private async createAnswerStream(
+    message: string,
+    emitProgress: (detail: ResponseProgressDetail) => void,
+    signal: AbortSignal
+  ): Promise<AsyncGenerator<string, void, unknown>> {
+    this.lastGenerationContext = null;
     return log.monitor(async () => {
       return this.executeWithRetry(async () => {
         try {
+          // 0. 후속 질문이면 이전 대화를 반영한 독립 질문으로 재작성
+          const queryRewrite = await questionAnalyzer.condenseQuestion(message, this.conversationTurns, signal);
+          this.lastQueryRewrite = queryRewrite;
+          this.lastAnswerConfidence = null;
+          this.lastFaqMatch = null;
+          this.lastCachedAnswer = null;
+          const searchQuestion = queryRewrite.standaloneQuestion;
+          if (queryRewrite.isFollowUp) {
+            log.info('후속 질문 재작성', { original: message, standalone: searchQuestion, method: queryRewrite.method });
+            emitProgress({ stage: 'rewrite', standaloneQuestion: searchQuestion });
+          }
+
+          // ✅ 검수된 FAQ와 일치하면 검색·LLM 호출 없이 승인된 답변과 고정 근거 반환
+          const faqMatch = await faqService.findMatch(searchQuestion);
+          if (faqMatch) {
+            log.info('검수된 FAQ 답변 사용', { faqId: faqMatch.faqId, similarity: faqMatch.similarity });
+            const { faq, ...match } = faqMatch;
+            emitProgress({ stage: 'faq', matchedQuestion: match.matchedQuestion, similarity: match.similarity });
+            this.lastFaqMatch = match;
+            this.lastChunkReferences = faq.references;
+            this.lastReferenceChain = [];
+            const citations = this.summarizeCitations(faq.references);
+            const recordFaqTurn = () => this.recordTurn(message, faq.answer, citations);
+            return (async function* () {
+              yield faq.answer;
+              recordFaqTurn();
+              await faqService.recordHit(faq.id);
+            })();
+          }
+
+          // ✅ 거의 같은 질문의 답변이 캐시에 있고 근거 문서 판본이 그대로면 분석·검색·LLM 호출 없이 반환
+          const cachedAnswer = await answerCacheService.lookup(searchQuestion);
+          if (cachedAnswer) {
+            log.info('답변 캐시 사용', { cachedQuestion: cachedAnswer.match.cachedQuestion, similarity: cachedAnswer.match.similarity });
+            emitProgress({ stage: 'cache', cachedQuestion: cachedAnswer.match.cachedQuestion, similarity: cachedAnswer.match.similarity });
+            this.lastCachedAnswer = cachedAnswer.match;
+            this.lastChunkReferences = cachedAnswer.chunkReferences;
+            this.lastReferenceChain = cachedAnswer.referenceChain;
+            this.lastAnswerConfidence = cachedAnswer.confidence;
+            const recordCachedTurn = () => this.recordTurn(
+              message, cachedAnswer.answer, this.summarizeCitations(cachedAnswer.chunkReferences)
+            );
+            return (async function* () {
+              yield cachedAnswer.answer;
+              recordCachedTurn();
+            })();
+          }
+
           // 1. 질문 분석
-          log.debug('질문 분석 시작', { messageLength: message.length });
-          const questionAnalysis = await questionAnalyzer.analyzeQuestion(message);
+          log.debug('질문 분석 시작', { messageLength: searchQuestion.length });
+          const questionAnalysis = await questionAnalyzer.analyzeQuestion(searchQuestion, signal);
           log.info('질문 분석 완료', { analysis: questionAnalysis });
+          emitProgress({
+            stage: 'analysis',
+            keywords: questionAnalysis.keywords,
+            category: questionAnalysis.category,
+            asOfDate: questionAnalysis.asOfDate
+          });
 
           // 2. 고급 검색 시스템을 사용한 관련 컨텍스트 선택
           log.debug('고급 검색 시스템 시작');
-          const advancedSearchResult = await this.advancedSearchService.executeAdvancedSearch(questionAnalysis);
+          const advancedSearchResult = await this.advancedSearchService.executeAdvancedSearch(questionAnalysis, undefined, signal);
           log.info(`고급 검색 완료`, { 
             selectedChunks: advancedSearchResult.chunks.length,
             searchMetrics: advancedSearchResult.searchMetrics,
             qualityMetrics: advancedSearchResult.qualityMetrics
           });
+          emitProgress({
+            stage: 'search',
+            chunkCount: advancedSearchResult.chunks.length,
+            documentCount: new Set(advancedSearchResult.chunks.map(chunk => chunk.documentId).filter(Boolean)).size
+          });
 
           // 2.5. 청크에서 출처 정보 생성 (문서 유형별 처리)
           const sourceInfo = this.generateSourceInfoFromChunks(advancedSearchResult.chunks);
@@ -1786,11 +1855,14 @@ Here is the source material:
             }))
           });
 
-          // 3. 동적 프롬프트 생성 준비
+          // 3. 동적 프롬프트 생성 준비 (조문 인덱스로 청크별 조문 표기, 청크 페이지의 관련 표 첨부)
+          await Promise.all([legalArticleIndexService.loadIndex(), tableIndexService.loadIndex()]);
+          const tablesByChunkId = tableIndexService.selectTablesForChunks(
+            searchQuestion,
+            advancedSearchResult.chunks.map(chunk => chunk.id)
+          );
           const initialContextText = advancedSearchResult.chunks
-            .map((chunk, index) => {
-              return `[문서 ${index + 1}: ${chunk.metadata.title} - ${chunk.location.section || '일반'}]\n${chunk.content}`;
-            })
+            .map((chunk, index) => this.formatContextChunk(chunk, index, tablesByChunkId.get(chunk.id)))
             .join('\n\n---\n\n');
 
           // 컨텍스트 길이 검증 및 제한
@@ -1846,15 +1918,33 @@ Here is the source material:
             
             // 선택된 청크로 컨텍스트 재구성
             finalContextText = selectedChunks
-              .map((chunk, index) => {
-                return `[문서 ${index + 1}: ${chunk.metadata.title} - ${chunk.location.section || '일반'}]\n${chunk.content}`;
-              })
+              .map((chunk, index) => this.formatContextChunk(chunk, index, tablesByChunkId.get(chunk.id)))
               .join('\n\n---\n\n');
             
             console.log(`✅ 컨텍스트 길이 조정: ${finalContextText.length}자 (${selectedChunks.length}개 청크)`);
           }
 
+          // ✅ 판본 변경 질문이면 실제 변경 섹션을 컨텍스트 앞에 추가
+          await documentVersionService.load();
+          const changedSections = documentVersionService.findChangedSections(searchQuestion, questionAnalysis.keywords);
+          if (changedSections.length > 0) {
+            finalContextText = `${documentVersionService.formatChangeContext(changedSections)}\n\n---\n\n${finalContextText}`;
+            console.log(`📑 판본 변경 내역 ${changedSections.length}개 섹션을 컨텍스트에 추가`);
+          }
+          emitProgress({
+            stage: 'context',
+            chunkCount: finalChunks.length,
+            totalChunks: advancedSearchResult.chunks.length,
+            contextLength: finalContextText.length,
+            maxContextLength: MAX_CONTEXT_LENGTH,
+            trimmed: finalChunks.length < advancedSearchResult.chunks.length
+          });
+          
+          // ✅ 조문 상호 참조 체인 저장 (관련 조문 표시용)
+          this.lastReferenceChain = advancedSearchResult.referenceChain || [];
+          
           // ✅ AI가 실제로 사용한 청크로 chunkReferences 생성
+          signal.throwIfAborted();
           const allDocuments = await this.firestoreService.getAllDocuments();
           this.lastChunkReferences = finalChunks
             .map((chunk, index) => {
@@ -1882,16 +1972,47 @@ Here is the source material:
                 documentId,
                 documentTitle: matchingDoc?.title || chunk.metadata?.title || '',
                 page: chunk.metadata?.page,
+                pageEnd: chunk.metadata?.pageEnd,
+                printedPage: chunk.metadata?.printedPage,
+                printedPageEnd: chunk.metadata?.printedPageEnd,
                 section: chunk.metadata?.section,
                 content: chunk.content,
                 metadata: {
                   startPos: chunk.metadata?.startPosition || 0,
                   endPos: chunk.metadata?.endPosition || 0,
                   position: chunk.metadata?.position || 0
-                }
+                },
+                articles: legalArticleIndexService.getArticleRefsForChunk(chunk.id),  // ✅ 포함 조문
+                ...(tablesByChunkId.has(chunk.id) ? { tables: tablesByChunkId.get(chunk.id) } : {})  // ✅ 관련 표
               };
             })
             .filter(ref => ref !== null);
+          emitProgress({
+            stage: 'citations',
+            referenceCount: this.lastChunkReferences.length,
+            articleCount: new Set(this.lastChunkReferences.flatMap(ref => (ref.articles || []).map(article => article.articleId))).size,
+            tableCount: this.lastChunkReferences.reduce((count, ref) => count + (ref.tables?.length || 0), 0),
+            documentTitles: [...new Set<string>(this.lastChunkReferences.map(ref => ref.documentTitle).filter(Boolean))]
+          });
+
+          // ✅ 근거 신뢰도 판정: 기준 미달이면 LLM 호출 없이 거절 안내 (가까운 조문 + 문의처)
+          const abstentionConfig = await abstentionService.getConfig();
+          const retrievalAssessment = abstentionService.assessRetrieval(searchQuestion, questionAnalysis, finalChunks, abstentionConfig);
+          this.lastAnswerConfidence = retrievalAssessment;
+          const nearestReferences = this.lastChunkReferences.slice(0, abstentionConfig.nearestArticleCount);
+          
+          if (retrievalAssessment.abstained) {
+            log.info('근거 부족으로 답변 보류', { reasons: retrievalAssessment.reasons });
+            emitProgress({ stage: 'abstained', reasons: retrievalAssessment.reasons });
+            this.lastChunkReferences = nearestReferences;
+            this.lastReferenceChain = [];
+            const refusal = abstentionService.buildRefusal(retrievalAssessment, nearestReferences);
+            const recordRefusal = () => this.recordTurn(message, refusal, []);
+            return (async function* () {
+              yield refusal;
+              recordRefusal();
+            })();
+          }
 
           // ✅ finalContextText로 dynamicPrompt 생성
           const dynamicPrompt = this.advancedSearchService.generateDynamicPrompt(
@@ -1915,19 +2036,58 @@ Here is the source material:
           const dynamicSystemInstruction = this.createDynamicSystemInstruction(questionAnalysis, finalContextText);
           
           // 5. 새 채팅 세션 생성 (질문 분석 결과 포함)
+          const history = this.getRecentHistory();
           const newSession = await this.createNotebookChatSessionWithAnalysis(dynamicSystemInstruction);
 
           // 5. 스트리밍 응답 생성
-          const stream = await newSession.sendMessageStream({ message: message });
+          signal.throwIfAborted();
+          emitProgress({ stage: 'generating' });
+          const stream = await newSession.sendMessageStream({ message: message, signal });
           
-          return (async function* () {
-            for await (const chunk of stream) {
-              if (chunk.text) {
-                yield chunk.text;
-              }
-            }
-          })();
+          // ✅ 시점 기준 질문이면 답변 머리말에 기준일과 적용 판본 표시
+          const editionHeader = questionAnalysis.asOfDate
+            ? await documentVersionService.describeEditionsUsed(
+                finalChunks.map(chunk => chunk.documentId).filter((id): id is string => !!id),
+                questionAnalysis.asOfDate
+              )
+            : '';
+          
+          const chunkReferences: ChunkReference[] = this.lastChunkReferences;
+          const referenceChain = this.lastReferenceChain;
+          // ✅ 검색 컨텍스트 보관 (다시 생성·이어서 작성 시 분석·검색 없이 재사용)
+          const generation: GenerationContext = {
+            message,
+            systemInstruction: dynamicSystemInstruction,
+            history,
+            chunkReferences,
+            referenceChain,
+            citations: this.summarizeCitations(chunkReferences),
+            editionHeader,
+            answer: '',
+            finish: 'stopped',
+            turnIndex: null,
+            // ✅ 답변 검증 신뢰도가 기준 미달이면 주의 문구 반환
+            assessAnswer: (answer: string): string => {
+              const assessment = abstentionService.assessAnswer(
+                retrievalAssessment, answer, searchQuestion, finalChunks, questionAnalysis, abstentionConfig
+              );
+              this.lastAnswerConfidence = assessment;
+              return assessment.lowConfidence ? abstentionService.buildLowConfidenceNotice(assessment, nearestReferences) : '';
+            },
+            // ✅ 완성된 답변을 의미 기반 답변 캐시에 저장 (신뢰도 기준 미달이면 저장하지 않음)
+            cacheAnswer: (answer: string) => answerCacheService.store({
+              question: searchQuestion,
+              answer: editionHeader ? `${editionHeader}\n\n${answer}` : answer,
+              chunkReferences,
+              referenceChain,
+              confidence: this.lastAnswerConfidence
+            })
+          };
+          this.lastGenerationContext = generation;
+          
+          return this.streamGeneration(generation, stream, 'answer');
         } catch (error) {
+          if (isAbortError(error)) throw error;
           log.error('컨텍스트 기반 응답 생성 실패, 제한된 컨텍스트로 폴백', { error: error.message });
           
           // 🔥 핵심 수정: 폴백 시에도 컨텍스트 길이 제한 적용
@@ -1957,16 +2117,24 @@ Here is the source material:
           }
 
           const stream = await this.currentChatSession.sendMessageStream({ message: message });
+          const recordTurn = (answer: string) => this.recordTurn(message, answer, []);
           
           return (async function* () {
+            let answer = '';
             for await (const chunk of stream) {
               if (chunk.text) {
+                answer += chunk.text;
                 yield chunk.text;
               }
             }
+            recordTurn(answer);
           })();
         }
-      }, 3, 1000).catch(error => {
+      }, 3, 1000, signal).catch(error => {
+        if (isAbortError(error)) {
+          log.info('사용자가 답변 생성을 중지함');
+          throw error;
+        }
         log.error('모든 재시도 시도 실패', { error: error.message });
         
         // 사용자 친화적인 오류 메시지 제공
@@ -1990,17 +2158,8 @@ Here is the source material:
   // 출처 정보를 포함한 응답 생성
   async generateResponseWithSources(message: string): Promise<{ content: string; sources: SourceInfo[] }> {
     return this.executeWithRetry(async () => {
-      // 매 질문마다 새로운 API 키 선택
-      const selectedApiKey = this.getNextAvailableKey();
-      if (!selectedApiKey) {
-        throw new Error('사용 가능한 API 키가 없습니다.');
-      }
+      console.log('질문 처리 (출처 포함)');
 
-      console.log(`질문 처리 (출처 포함) - API 키: ${selectedApiKey.substring(0, 10)}...`);
-
-      // 새로운 AI 인스턴스 생성 (선택된 키로)
-      const ai = new GoogleGenAI({ apiKey: selectedApiKey });
-      
       // PDF 소스 텍스트 로드
       if (!this.cachedSourceText) {
         await this.initializeWithPdfSources();
@@ -2030,19 +2189,16 @@ Here is the source material:
       // 시스템 지시사항과 소스 텍스트 결합
       const systemInstruction = GeminiService.SYSTEM_INSTRUCTION_TEMPLATE.replace('{sourceText}', contextText);
       
-      // Gemini API 호출
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-        systemInstruction: systemInstruction
-        },
+      // LLM 호출
+      const chat = llmProvider.createChat({
+        systemInstruction: systemInstruction,
         history: [],
       });
 
       const result = await chat.sendMessage({ message: message });
       const text = result.text;
       
-      console.log(`응답 생성 완료 (출처 포함) - 사용된 키: ${selectedApiKey.substring(0, 10)}...`);
+      console.log('응답 생성 완료 (출처 포함)');
       return { content: text, sources: sourceInfo };
     }, 3, 1000).catch(error => {
       console.error('All retry attempts failed:', error);
@@ -2076,17 +2232,8 @@ Here is the source material:
   // 하이브리드 방식: 매 질문마다 새로운 API 키로 AI 인스턴스 생성 + 재시도 로직
   async generateResponse(message: string): Promise<string> {
     return this.executeWithRetry(async () => {
-      // 매 질문마다 새로운 API 키 선택
-      const selectedApiKey = this.getNextAvailableKey();
-      if (!selectedApiKey) {
-        throw new Error('사용 가능한 API 키가 없습니다.');
-      }
-
-      console.log(`질문 처리 - API 키: ${selectedApiKey.substring(0, 10)}...`);
+      console.log('질문 처리');
 
-      // 새로운 AI 인스턴스 생성 (선택된 키로)
-      const ai = new GoogleGenAI({ apiKey: selectedApiKey });
-      
       // PDF 소스 텍스트 로드
       if (!this.cachedSourceText) {
         await this.initializeWithPdfSources();
@@ -2099,19 +2246,16 @@ Here is the source material:
       // 시스템 지시사항과 소스 텍스트 결합
       const systemInstruction = GeminiService.SYSTEM_INSTRUCTION_TEMPLATE.replace('{sourceText}', this.cachedSourceText);
       
-      // Gemini API 호출
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-        systemInstruction: systemInstruction
-        },
+      // LLM 호출
+      const chat = llmProvider.createChat({
+        systemInstruction: systemInstruction,
         history: [],
       });
 
       const result = await chat.sendMessage({ message: message });
       const text = result.text;
       
-      console.log(`응답 생성 완료 - 사용된 키: ${selectedApiKey.substring(0, 10)}...`);
+      console.log('응답 생성 완료');
       return text;
     }, 3, 1000).catch(error => {
       console.error('All retry attempts failed:', error);
@@ -2139,8 +2283,11 @@ Here is the source material:
       // 현재 진행 중인 요청이 있다면 취소
       this.cancelCurrentRequest();
       
-      // 현재 채팅 세션 초기화
+      // 현재 채팅 세션과 대화 history 초기화
       this.currentChatSession = null;
+      this.conversationTurns = [];
+      this.lastQueryRewrite = null;
+      this.lastGenerationContext = null;
       
       // PDF 내용은 다시 압축하지 않고 기존 캐시 사용
       await this.createNotebookChatSession();
@@ -2161,6 +2308,19 @@ Here is the source material:
     }
   }
 
+  // 새 요청 시작 - 진행 중인 요청은 취소하고, 호출한 쪽 signal이나 cancelCurrentRequest로 중지되는 signal 반환
+  private beginRequest(callerSignal?: AbortSignal): AbortSignal {
+    this.cancelCurrentRequest();
+    const controller = new AbortController();
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    this.currentAbortController = controller;
+    return controller.signal;
+  }
+
   // 압축 통계 정보 가져오기
   getCompressionStats(): CompressionResult | null {
     return this.compressionResult;
@@ -2190,15 +2350,6 @@ Here is the source material:
     try {
       console.log(`🔄 동적 프롬프트 세션 생성 시작 (시도 ${this.sessionCreationCount}/${GeminiService.MAX_SESSION_CREATION_ATTEMPTS})`);
       
-      const selectedApiKey = this.getNextAvailableKey();
-      if (!selectedApiKey) {
-        throw new Error('사용 가능한 API 키가 없습니다.');
-      }
-
-      console.log(`🔑 API 키 선택: ${selectedApiKey.substring(0, 10)}...`);
-
-      const ai = new GoogleGenAI({ apiKey: selectedApiKey });
-      
       // 컨텍스트 길이 제한 적용
       const MAX_CONTEXT_LENGTH = 50000; // 50,000자로 확장 (답변 품질 향상)
       const actualSourceText = sourceText.length > MAX_CONTEXT_LENGTH 
@@ -2207,11 +2358,8 @@ Here is the source material:
 
       console.log(`📏 소스 텍스트 길이: ${actualSourceText.length}자 (제한: ${MAX_CONTEXT_LENGTH}자)`);
 
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: systemInstruction
-        },
+      const chat = llmProvider.createChat({
+        systemInstruction: systemInstruction,
         history: []
       });
 
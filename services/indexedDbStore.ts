@@ -0,0 +1,56 @@
+/**
+ * IndexedDB 연결 공용 헬퍼
+ * 서비스마다 반복되던 initDB(open → onupgradeneeded에서 저장소 생성) 보일러플레이트를 한곳에서 처리
+ *
+ * - DB는 처음 요청할 때 한 번만 열고 연결을 재사용 (동시에 요청해도 open은 한 번)
+ * - 새로 만들거나 버전이 오르면 없는 객체 저장소만 keyPath 'id'로 생성
+ * - 열기에 실패하면 다음 요청에서 다시 시도
+ */
+
+export class IndexedDbStore {
+  private db: IDBDatabase | null = null;
+  private opening: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName IndexedDB 이름
+   * @param version DB 버전 (저장소를 추가하면 올림)
+   * @param storeNames 객체 저장소 이름 (keyPath 'id')
+   * @param label 오류 로그에 쓸 이름 (예: '대화')
+   */
+  constructor(
+    private readonly dbName: string,
+    private readonly version: number,
+    private readonly storeNames: string[],
+    private readonly label: string
+  ) {}
+
+  async open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+    if (this.opening) return this.opening;
+
+    this.opening = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => {
+        console.error(`${this.label} IndexedDB 초기화 실패:`, request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        this.storeNames
+          .filter(storeName => !db.objectStoreNames.contains(storeName))
+          .forEach(storeName => db.createObjectStore(storeName, { keyPath: 'id' }));
+      };
+    }).finally(() => {
+      this.opening = null;
+    });
+
+    return this.opening;
+  }
+}
@@ -1,9 +1,11 @@
 /**
  * 지능형 청크 분할 시스템
- * 의미 단위 청크 분할 및 문맥 보존
+ * 구조 단위(조/항, 지침 번호 제목, 표) 청크 분할 및 문맥 보존
+ * 청크 경계는 마이그레이션과 같은 구조 인식 분할기(structureAwareChunker) 사용
  */
 
 import { Chunk } from '../types';
+import { chunkByStructure, DEFAULT_CHUNKING_OPTIONS } from './structureAwareChunker.js';
 
 export interface SemanticChunk extends Chunk {
   semanticInfo: {
@@ -13,33 +15,17 @@ export interface SemanticChunk extends Chunk {
     importance: 'high' | 'medium' | 'low';
     contextPreserved: boolean;
   };
-  chunkType: 'sentence' | 'paragraph' | 'topic' | 'section';
-  boundaries: {
-    startSentence: number;
-    endSentence: number;
-    startParagraph: number;
-    endParagraph: number;
-  };
+  chunkType: 'article' | 'heading' | 'table' | 'list' | 'text';
+  sectionPath: string[];  // 구조 경로 (법령명 > 장 > 절 > 조)
 }
 
 export interface ChunkingOptions {
   maxChunkSize: number;
-  minChunkSize: number;
-  overlapSize: number;
-  preserveSentences: boolean;
-  preserveParagraphs: boolean;
-  preserveTopics: boolean;
+  minChunkSize: number;  // 이보다 짧은 청크는 다음 조·제목과 합침
 }
 
 export class IntelligentChunkingSystem {
-  private static readonly DEFAULT_OPTIONS: ChunkingOptions = {
-    maxChunkSize: 2000,
-    minChunkSize: 100,
-    overlapSize: 200,
-    preserveSentences: true,
-    preserveParagraphs: true,
-    preserveTopics: true
-  };
+  private static readonly DEFAULT_OPTIONS: ChunkingOptions = { ...DEFAULT_CHUNKING_OPTIONS };
 
   /**
    * 지능형 청크 분할 실행
@@ -53,30 +39,16 @@ export class IntelligentChunkingSystem {
     console.log(`🔄 지능형 청크 분할 시작: ${content.length}자`);
     
     try {
-      // 1. 텍스트 구조 분석
-      const textStructure = this.analyzeTextStructure(content);
-      
-      // 2. 의미적 단위 식별
-      const semanticUnits = this.identifySemanticUnits(content, textStructure);
+      // 1. 구조 경계(조/항, 번호 제목, 표 행)에 맞춰 분할
+      const { chunks, stats } = chunkByStructure(content, chunkingOptions);
       
-      // 3. 청크 경계 결정
-      const chunkBoundaries = this.determineChunkBoundaries(
-        semanticUnits,
-        chunkingOptions
-      );
+      // 2. 의미적 청크 생성
+      const semanticChunks = chunks.map((chunk, index) => this.createSemanticChunk(chunk, index, metadata));
       
-      // 4. 의미적 청크 생성
-      const semanticChunks = this.createSemanticChunks(
-        content,
-        chunkBoundaries,
-        metadata,
-        semanticUnits
-      );
-      
-      // 5. 청크 품질 검증
+      // 3. 청크 품질 검증
       const validatedChunks = this.validateChunkQuality(semanticChunks);
       
-      console.log(`✅ 지능형 청크 분할 완료: ${validatedChunks.length}개 청크`);
+      console.log(`✅ 지능형 청크 분할 완료: ${validatedChunks.length}개 청크 (경로 ${stats.withSection}개, 표 ${stats.tables}개, 문장 중간 분할 ${stats.midSentenceCuts}회)`);
       
       return validatedChunks;
       
@@ -87,75 +59,43 @@ export class IntelligentChunkingSystem {
   }
 
   /**
-   * 텍스트 구조 분석
+   * 의미적 청크 생성
    */
-  private static analyzeTextStructure(content: string): {
-    sentences: string[];
-    paragraphs: string[];
-    sections: string[];
-    headings: string[];
-  } {
-    // 문장 분할
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    // 문단 분할
-    const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-    
-    // 섹션 분할 (제목 기반)
-    const sections = content.split(/\n(?=[가-힣]{2,}.*[:\-])/).filter(s => s.trim().length > 0);
-    
-    // 제목 추출
-    const headings = content.match(/^[가-힣]{2,}.*[:\-]/gm) || [];
+  private static createSemanticChunk(
+    chunk: { content: string; startPos: number; endPos: number; section: string; sectionPath: string[]; chunkType: string },
+    index: number,
+    metadata: any
+  ): SemanticChunk {
+    const topic = this.extractTopic(chunk.content);
+    const concepts = this.extractConcepts(chunk.content);
     
     return {
-      sentences,
-      paragraphs,
-      sections,
-      headings: headings.map(h => h.trim())
-    };
-  }
-
-  /**
-   * 의미적 단위 식별
-   */
-  private static identifySemanticUnits(
-    content: string,
-    structure: any
-  ): Array<{
-    type: 'sentence' | 'paragraph' | 'section';
-    content: string;
-    startPos: number;
-    endPos: number;
-    topic: string;
-    concepts: string[];
-    importance: 'high' | 'medium' | 'low';
-  }> {
-    const units: any[] = [];
-    let currentPos = 0;
-    
-    // 문장 단위 분석
-    structure.sentences.forEach((sentence: string, index: number) => {
-      const startPos = content.indexOf(sentence, currentPos);
-      const endPos = startPos + sentence.length;
-      
-      const topic = this.extractTopic(sentence);
-      const concepts = this.extractConcepts(sentence);
-      const importance = this.determineImportance(sentence, concepts);
-      
-      units.push({
-        type: 'sentence',
-        content: sentence.trim(),
-        startPos,
-        endPos,
+      id: `${metadata.id || 'chunk'}_${index}`,
+      content: chunk.content,
+      metadata: {
+        ...metadata,
+        section: chunk.section,
+        position: index,
+        startPosition: chunk.startPos,
+        endPosition: chunk.endPos,
+        originalSize: chunk.content.length
+      },
+      keywords: concepts,
+      location: {
+        document: metadata.title || 'Unknown',
+        section: chunk.section || topic,
+        page: metadata.page || 0
+      },
+      semanticInfo: {
         topic,
         concepts,
-        importance
-      });
-      
-      currentPos = endPos;
-    });
-    
-    return units;
+        sentiment: this.determineSentiment(chunk.content),
+        importance: this.determineImportance(chunk.content, concepts),
+        contextPreserved: true
+      },
+      chunkType: chunk.chunkType as SemanticChunk['chunkType'],
+      sectionPath: chunk.sectionPath
+    };
   }
 
   /**
@@ -232,205 +172,6 @@ export class IntelligentChunkingSystem {
     return 'low';
   }
 
-  /**
-   * 청크 경계 결정
-   */
-  private static determineChunkBoundaries(
-    semanticUnits: any[],
-    options: ChunkingOptions
-  ): Array<{
-    startUnit: number;
-    endUnit: number;
-    startPos: number;
-    endPos: number;
-    chunkType: 'sentence' | 'paragraph' | 'topic' | 'section';
-  }> {
-    const boundaries: any[] = [];
-    let currentStart = 0;
-    
-    while (currentStart < semanticUnits.length) {
-      let currentEnd = currentStart;
-      let currentLength = 0;
-      
-      // 최소 청크 크기 확보
-      while (currentEnd < semanticUnits.length && currentLength < options.minChunkSize) {
-        currentLength += semanticUnits[currentEnd].content.length;
-        currentEnd++;
-      }
-      
-      // 최대 청크 크기 제한
-      while (currentEnd < semanticUnits.length && currentLength < options.maxChunkSize) {
-        const nextUnit = semanticUnits[currentEnd];
-        if (currentLength + nextUnit.content.length > options.maxChunkSize) {
-          break;
-        }
-        currentLength += nextUnit.content.length;
-        currentEnd++;
-      }
-      
-      // 의미적 경계 확인
-      if (options.preserveTopics) {
-        currentEnd = this.adjustForTopicBoundary(semanticUnits, currentStart, currentEnd);
-      }
-      
-      if (options.preserveParagraphs) {
-        currentEnd = this.adjustForParagraphBoundary(semanticUnits, currentStart, currentEnd);
-      }
-      
-      if (options.preserveSentences) {
-        currentEnd = this.adjustForSentenceBoundary(semanticUnits, currentStart, currentEnd);
-      }
-      
-      const startPos = semanticUnits[currentStart].startPos;
-      const endPos = semanticUnits[currentEnd - 1].endPos;
-      
-      boundaries.push({
-        startUnit: currentStart,
-        endUnit: currentEnd,
-        startPos,
-        endPos,
-        chunkType: this.determineChunkType(semanticUnits, currentStart, currentEnd)
-      });
-      
-      // 오버랩 적용
-      currentStart = Math.max(currentStart + 1, currentEnd - Math.floor(options.overlapSize / 100));
-    }
-    
-    return boundaries;
-  }
-
-  /**
-   * 주제 경계 조정
-   */
-  private static adjustForTopicBoundary(
-    semanticUnits: any[],
-    start: number,
-    end: number
-  ): number {
-    // 현재 청크 내에서 주제가 바뀌는 지점 찾기
-    const startTopic = semanticUnits[start].topic;
-    
-    for (let i = start + 1; i < end; i++) {
-      if (semanticUnits[i].topic !== startTopic) {
-        return i;
-      }
-    }
-    
-    return end;
-  }
-
-  /**
-   * 문단 경계 조정
-   */
-  private static adjustForParagraphBoundary(
-    semanticUnits: any[],
-    start: number,
-    end: number
-  ): number {
-    // 문단 경계를 찾아서 조정 (실제 구현에서는 더 정교한 로직 필요)
-    return end;
-  }
-
-  /**
-   * 문장 경계 조정
-   */
-  private static adjustForSentenceBoundary(
-    semanticUnits: any[],
-    start: number,
-    end: number
-  ): number {
-    // 문장 경계를 찾아서 조정
-    return end;
-  }
-
-  /**
-   * 청크 유형 결정
-   */
-  private static determineChunkType(
-    semanticUnits: any[],
-    start: number,
-    end: number
-  ): 'sentence' | 'paragraph' | 'topic' | 'section' {
-    const unitCount = end - start;
-    
-    if (unitCount === 1) return 'sentence';
-    if (unitCount <= 3) return 'paragraph';
-    if (unitCount <= 10) return 'topic';
-    return 'section';
-  }
-
-  /**
-   * 의미적 청크 생성
-   */
-  private static createSemanticChunks(
-    content: string,
-    boundaries: any[],
-    metadata: any,
-    semanticUnits: any[]
-  ): SemanticChunk[] {
-    return boundaries.map((boundary, index) => {
-      const chunkContent = content.substring(boundary.startPos, boundary.endPos);
-      const unitsInChunk = semanticUnits.slice(boundary.startUnit, boundary.endUnit);
-      
-      // 청크의 의미적 정보 집계
-      const topics = [...new Set(unitsInChunk.map(unit => unit.topic))];
-      const concepts = [...new Set(unitsInChunk.flatMap(unit => unit.concepts))];
-      const importance = this.aggregateImportance(unitsInChunk);
-      const sentiment = this.determineSentiment(chunkContent);
-      
-      return {
-        id: `${metadata.id || 'chunk'}_${index}`,
-        content: chunkContent,
-        metadata: {
-          ...metadata,
-          position: index,
-          startPosition: boundary.startPos,
-          endPosition: boundary.endPos,
-          originalSize: chunkContent.length
-        },
-        keywords: concepts,
-        location: {
-          document: metadata.title || 'Unknown',
-          section: topics[0] || 'general',
-          page: metadata.page || 0
-        },
-        semanticInfo: {
-          topic: topics[0] || 'general',
-          concepts,
-          sentiment,
-          importance,
-          contextPreserved: true
-        },
-        chunkType: boundary.chunkType,
-        boundaries: {
-          startSentence: boundary.startUnit,
-          endSentence: boundary.endUnit,
-          startParagraph: boundary.startUnit,
-          endParagraph: boundary.endUnit
-        }
-      };
-    });
-  }
-
-  /**
-   * 중요도 집계
-   */
-  private static aggregateImportance(units: any[]): 'high' | 'medium' | 'low' {
-    const importanceCounts = { high: 0, medium: 0, low: 0 };
-    
-    units.forEach(unit => {
-      importanceCounts[unit.importance]++;
-    });
-    
-    if (importanceCounts.high > importanceCounts.medium + importanceCounts.low) {
-      return 'high';
-    } else if (importanceCounts.medium > importanceCounts.low) {
-      return 'medium';
-    } else {
-      return 'low';
-    }
-  }
-
   /**
    * 감정 분석
    */
@@ -0,0 +1,235 @@
+/**
+ * 공용 한국어 토크나이저 (사전 기반, 오프라인)
+ * 마이그레이션 스크립트(Node)와 브라우저 서비스가 같은 모듈을 사용하여
+ * 색인 시 추출한 용어와 질문/하이라이트 용어가 같은 규칙으로 만들어지도록 함
+ *
+ * - 정규화: 전각/호환 문자(NFKC), 법령 한자(第·條·項 등), 숫자 표기(1,000 / 10만원)
+ * - 형태 분석: 조사·어미 제거 (사전에 있는 명사는 보존), 복합명사 분해 (금연구역지정 → 금연구역 + 지정 → 금연 + 구역)
+ * - 불용어: 조사, 대명사, 형식명사, 질문 어미
+ *
+ * ⚠️ 규칙을 바꾸면 INDEX_TOKENIZER 값을 올리고 마이그레이션을 다시 실행 (BM25 역색인 재생성)
+ */
+
+export const INDEX_TOKENIZER = 'ko-morph-v3';
+
+// 업무 영역 명사 사전 (복합명사 분해 및 조사·어미 제거 보호용)
+const DOMAIN_NOUNS = [
+  // 금연·담배
+  '금연', '흡연', '담배', '궐련', '전자담배', '액상', '니코틴', '보조제', '니코틴보조제', '패치', '금단',
+  '금연구역', '흡연구역', '흡연실', '금연시설', '금연아파트', '금연지도원', '지도원', '금연교육', '금연상담',
+  '금연지원', '금연지원서비스', '금연치료', '금연클리닉', '금연캠프',
+  '담배자동판매기', '자동판매기', '판매기', '성인인증장치', '성인인증', '인증장치', '성인', '인증', '장치',
+  '광고', '담배광고', '경고', '경고그림', '경고문구', '판매', '소매인', '지정소매인', '청소년', '미성년자',
+  // 장소·시설
+  '공동주택', '아파트', '세대', '세대주', '복도', '계단', '엘리베이터', '지하주차장', '주차장',
+  '구역', '시설', '건물', '청사', '학교', '유치원', '어린이', '어린이집', '놀이터', '놀이시설', '어린이놀이시설',
+  '병원', '의료기관', '보건소', '보건지소', '음식점', '휴게음식점', '일반음식점', '제과점', '숙박업소',
+  '체육시설', '목욕장', '공연장', '도서관', '학원', '지하도', '상가', '정류장', '버스정류장', '택시', '철도',
+  '공항', '터미널', '주유소', '게임제공업소', '피시방', '만화대여업소', '사무실', '공장', '회의실', '강당',
+  // 법령·행정
+  '법률', '법령', '시행령', '시행규칙', '조문', '조항', '규정', '조례', '고시', '훈령', '지침', '업무지침', '매뉴얼',
+  '국민건강증진법', '국민건강증진', '건강증진', '질서위반행위규제법', '질서위반행위', '질서', '위반행위', '규제',
+  '보건복지부', '보건복지부령', '보건복지부장관', '대통령령', '총리령', '지방자치단체', '행정청', '시장', '군수',
+  '구청장', '시도지사', '특별자치도', '관할', '지정', '신청', '신청서', '지정신청', '동의', '동의서', '해제',
+  '취소', '변경', '등록', '신고', '공고', '게시', '표시', '표지', '표지판', '안내', '안내표지', '설치', '장소',
+  '관리', '관리자', '소유자', '점유자', '운영자', '위반', '위반자', '위반행위자', '당사자', '단속', '점검', '조사', '적발',
+  '과태료', '부과', '징수', '감면', '납부', '체납', '가산금', '중가산금', '벌금', '벌칙', '처벌', '과징금',
+  '이의', '이의제기', '제기', '의견', '의견제출', '제출', '통지', '사전통지', '재판', '법원', '불복',
+  '기간', '기한', '납부기한', '금액', '기준', '부과기준', '절차', '방법', '요건', '자격', '위촉', '해촉', '직무',
+  '교육', '서비스', '사업', '지역사회', '통합건강증진사업', '보건사업', '예산', '지원', '보조금', '교부', '정산',
+  '상담', '치료', '건강', '증진', '국민', '운영', '시스템', '실적', '보고', '평가', '홍보', '캠페인'
+];
+
+// 조사 (긴 것부터 확인)
+const JOSA_SUFFIXES = [
+  '에서부터', '으로부터', '에서는', '에게서', '으로서', '으로써', '이라도', '이라는', '이라고', '에서도', '에서만',
+  '에게는', '까지는', '부터는', '에서', '에게', '한테', '으로', '까지', '부터', '조차', '마저', '이나', '이며',
+  '이고', '이란', '라는', '라고', '보다', '처럼', '만큼', '밖에', '과의', '와의', '에는', '에도', '으로는', '로는',
+  '은', '는', '이', '가', '을', '를', '의', '에', '로', '와', '과', '도', '만', '께', '나', '랑'
+];
+
+// 용언 어미 (어간 + 하/되/시키 포함, 긴 것부터 확인)
+const EOMI_SUFFIXES = [
+  '하여야', '해야만', '하려면', '하나요', '합니까', '합니다', '했나요', '했습니다', '하는지', '하는데', '하도록',
+  '하기로', '하기는', '하시나요', '되나요', '됩니까', '됩니다', '되는지', '되도록', '되었는지', '인가요', '입니까',
+  '입니다', '인지요', '일까요', '있나요', '있습니까', '없나요', '없습니까', '받나요', '받을', '받는',
+  '해야', '하여', '하고', '하면', '하는', '하게', '하기', '해서', '했다', '한다', '하며', '되어', '되는', '되면',
+  '되고', '된다', '인지', '인가', '이다', '할', '한', '된', '될', '함', '됨'
+];
+
+// 불용어 (조사·대명사·형식명사·질문 어미 등)
+const STOPWORDS = new Set([
+  '것', '수', '등', '때', '및', '또는', '또한', '그리고', '그러나', '하지만', '이다', '있다', '없다', '하다', '되다',
+  '것을', '것이', '것에', '것으로', '것에서는', '경우', '위해', '위하여', '때문', '관한', '관하여', '대한', '대하여',
+  '따라', '따른', '따르면', '의하여', '의한', '통하여', '해당', '다음', '각호', '각목', '이상', '이하', '이내',
+  '여기', '저기', '어디', '언제', '어떻게', '어떤', '무엇', '누구', '얼마', '얼마나', '며칠', '왜', '모든', '전체',
+  '일부', '대부분', '각각', '그', '이', '저', '새', '오래', '같다', '다르다', '크다', '작다', '많다', '적다',
+  '인가', '인가요', '인지', '인지요', '있습니', '없습니', '입니다', '까요', '나요', '네요', '세요', '주세요',
+  '해주세요', '알려', '알려주세요', '궁금', '궁금합니다', '문의', '질문', '이야', '이야요', '야', '어', '요',
+  '있는', '없는', '않는', '않고', '않으면', '내지', '조의', '원을', '전에', '후에', '줘야', '주나요',
+  '년', '월', '일', '시', '분', '초', '조', '항', '호', '목'
+]);
+
+// 법령 한자 → 한글
+const HANJA_MAP = {
+  '第': '제', '條': '조', '項': '항', '號': '호', '目': '목', '法': '법', '令': '령', '則': '칙', '規': '규',
+  '施': '시', '行': '행', '附': '부', '年': '년', '月': '월', '日': '일', '萬': '만', '千': '천', '億': '억',
+  '圓': '원', '円': '원', '者': '자', '及': '및', '又': '또', '等': '등'
+};
+
+const NUMBER_UNITS = { '천': 1000, '만': 10000, '억': 100000000 };
+
+const lexicon = new Set(DOMAIN_NOUNS);
+const maxNounLength = Math.max(...DOMAIN_NOUNS.map(noun => noun.length));
+
+/**
+ * @param {string} word
+ * @returns {boolean}
+ */
+export function isStopword(word) {
+  return STOPWORDS.has(word);
+}
+
+/**
+ * 텍스트 정규화: NFKC → 법령 한자 → 숫자 표기 → 소문자
+ * @param {string} text
+ * @returns {string}
+ */
+export function normalizeText(text) {
+  return (text || '')
+    .normalize('NFKC')
+    .replace(/[第條項號目法令則規施行附年月日萬千億圓円者及又等]/g, char => HANJA_MAP[char] || char)
+    .replace(/(\d),(?=\d{3}(\D|$))/g, '$1')                               // 1,000 → 1000
+    .replace(/(\d+)\s*(천|만|억)(?=\s*원)/g, (_, num, unit) => String(parseInt(num, 10) * NUMBER_UNITS[unit])) // 10만원 → 100000원
+    .toLowerCase();
+}
+
+/**
+ * 사전 기반 복합명사 분해 (모든 구성 요소가 사전에 있을 때만, 가장 적은 조각 수 우선)
+ * @param {string} word
+ * @returns {string[] | null}
+ */
+function splitCompound(word) {
+  if (word.length < 4) return null;
+
+  // best[i] = word.slice(0, i)를 분해한 조각 목록
+  const best = new Array(word.length + 1).fill(null);
+  best[0] = [];
+  for (let end = 2; end <= word.length; end++) {
+    for (let start = Math.max(0, end - maxNounLength); start <= end - 2; start++) {
+      const piece = word.slice(start, end);
+      if (best[start] && lexicon.has(piece) && (!best[end] || best[start].length + 1 < best[end].length)) {
+        best[end] = [...best[start], piece];
+      }
+    }
+  }
+
+  const parts = best[word.length];
+  return parts && parts.length >= 2 ? parts : null;
+}
+
+/**
+ * 복합명사 재귀 분해 (금연구역지정 → 금연구역, 지정, 금연, 구역)
+ * @param {string} word
+ * @returns {string[]}
+ */
+function expandCompound(word) {
+  const parts = splitCompound(word);
+  if (!parts) return [];
+  return parts.flatMap(part => [part, ...expandCompound(part)]);
+}
+
+/**
+ * 어절 하나 분석: 조사 → 어미 순으로 떼어 어간을 구하고 복합명사 분해
+ * @param {string} word 정규화된 한글 어절
+ * @returns {{ surface: string, stem: string, parts: string[] }}
+ */
+export function analyzeWord(word) {
+  let stem = word;
+
+  if (!lexicon.has(stem)) {
+    const josa = JOSA_SUFFIXES.find(suffix => stem.endsWith(suffix) && stem.length - suffix.length >= 2);
+    if (josa) stem = stem.slice(0, -josa.length);
+  }
+
+  if (!lexicon.has(stem)) {
+    const eomi = EOMI_SUFFIXES.find(suffix => stem.endsWith(suffix) && stem.length - suffix.length >= 2);
+    if (eomi) stem = stem.slice(0, -eomi.length);
+  }
+
+  return { surface: word, stem, parts: expandCompound(stem) };
+}
+
+/**
+ * 토큰 수집 (withBigrams: 3자 이상 한글 어간의 2-gram 추가)
+ * @param {string} text
+ * @param {boolean} withBigrams
+ * @returns {string[]}
+ */
+function collectTokens(text, withBigrams) {
+  const tokens = [];
+  const normalized = normalizeText(text);
+
+  (normalized.match(/제\s*\d+\s*(?:조(?:\s*의\s*\d+)?|항|호)/g) || []).forEach(reference => {
+    tokens.push(reference.replace(/\s+/g, ''));
+  });
+
+  (normalized.match(/[가-힣]+|[a-z0-9]+/g) || []).forEach(word => {
+    if (!/[가-힣]/.test(word)) {
+      if (word.length >= 2) tokens.push(word);
+      return;
+    }
+
+    const { stem, parts } = analyzeWord(word);
+    if (stem.length < 2 || isStopword(stem) || EOMI_SUFFIXES.includes(stem)) return;
+    tokens.push(stem);
+    parts.forEach(part => tokens.push(part));
+    if (withBigrams && stem.length >= 3) {
+      for (let i = 0; i < stem.length - 1; i++) {
+        tokens.push(stem.slice(i, i + 2));
+      }
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * 본문 용어 토큰화 (빈도 계산을 위해 중복 유지)
+ * 조문 번호(제6조의2, 제2항) + 어간 + 복합명사 구성 요소 + 영문/숫자
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function tokenize(text) {
+  return collectTokens(text, false);
+}
+
+/**
+ * BM25 색인/질의용 토큰화: tokenize() + 어간의 한글 2-gram (사전에 없는 복합어 부분 일치용)
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function tokenizeForIndex(text) {
+  return collectTokens(text, true);
+}
+
+/**
+ * 키워드 추출 (중복 제거, 빈도순)
+ * @param {string} text
+ * @param {{ limit?: number, minLength?: number, maxLength?: number }} [options]
+ * @returns {string[]}
+ */
+export function extractKeywords(text, options = {}) {
+  const { limit, minLength = 2, maxLength = 20 } = options;
+  const frequencies = new Map();
+
+  tokenize(text).forEach(token => {
+    if (token.length < minLength || token.length > maxLength || isStopword(token)) return;
+    frequencies.set(token, (frequencies.get(token) || 0) + 1);
+  });
+
+  const keywords = Array.from(frequencies.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([token]) => token);
+  return limit ? keywords.slice(0, limit) : keywords;
+}
@@ -0,0 +1,276 @@
+/**
+ * 법령 조문 인덱스 서비스
+ * 마이그레이션 시 생성된 법률 → 시행령 → 시행규칙의 조/항/호/목 계층을 조회하고
+ * 청크 ↔ 조문 연결, 인용 문자열("시행규칙 제6조제2항제3호") 해석을 담당
+ */
+
+import { FirestoreService, LegalArticleNode } from './firestoreService';
+import { LegalArticleRef, LegalReferenceHop } from '../types';
+
+export interface ParsedLegalCitation {
+  lawName?: string;
+  lawLevel?: '법률' | '시행령' | '시행규칙';
+  article: string;
+  paragraph?: number;
+  item?: string;
+  subItem?: string;
+}
+
+export interface LegalArticleTreeNode {
+  node: LegalArticleNode;
+  children: LegalArticleTreeNode[];
+}
+
+export class LegalArticleIndexService {
+  private static instance: LegalArticleIndexService;
+  private firestoreService: FirestoreService;
+  private nodes: LegalArticleNode[] = [];
+  private nodesById = new Map<string, LegalArticleNode>();
+  private nodesByChunkId = new Map<string, LegalArticleNode[]>();
+  private nodesByPath = new Map<string, LegalArticleNode>();
+  private loadingPromise: Promise<void> | null = null;
+  private isLoaded = false;
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  public static getInstance(): LegalArticleIndexService {
+    if (!LegalArticleIndexService.instance) {
+      LegalArticleIndexService.instance = new LegalArticleIndexService();
+    }
+    return LegalArticleIndexService.instance;
+  }
+
+  /**
+   * 조문 인덱스 로드 (최초 1회)
+   */
+  async loadIndex(): Promise<void> {
+    if (this.isLoaded) return;
+    if (this.loadingPromise) return this.loadingPromise;
+
+    this.loadingPromise = this.firestoreService.getLegalArticles()
+      .then(nodes => {
+        this.buildIndex(nodes);
+        this.isLoaded = true;
+        console.log(`⚖️ 조문 인덱스 준비 완료: ${nodes.length}개 노드`);
+      })
+      .catch(error => {
+        console.error('❌ 조문 인덱스 로드 실패:', error);
+      })
+      .finally(() => {
+        this.loadingPromise = null;
+      });
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * 조회용 맵 구성
+   */
+  private buildIndex(nodes: LegalArticleNode[]): void {
+    this.nodes = [...nodes].sort((a, b) =>
+      a.documentId === b.documentId ? a.startPos - b.startPos : a.documentId.localeCompare(b.documentId)
+    );
+    this.nodesById.clear();
+    this.nodesByChunkId.clear();
+    this.nodesByPath.clear();
+
+    const today = new Date().toISOString().slice(0, 10);
+    this.nodes.forEach(node => {
+      this.nodesById.set(node.id, node);
+      // 같은 경로에 현행/시행 예정 조문이 함께 있으면 오늘 시행 중인 조문 우선
+      const pathKey = `${node.documentId}|${node.path}`;
+      const existing = this.nodesByPath.get(pathKey);
+      if (!existing || (!this.isNodeInForce(existing, today) && this.isNodeInForce(node, today))) {
+        this.nodesByPath.set(pathKey, node);
+      }
+      (node.chunkIds || []).forEach(chunkId => {
+        if (!this.nodesByChunkId.has(chunkId)) {
+          this.nodesByChunkId.set(chunkId, []);
+        }
+        this.nodesByChunkId.get(chunkId)!.push(node);
+      });
+    });
+  }
+
+  /**
+   * 기준일에 시행 중인 조문인지 확인 (시행일 정보가 없으면 시행 중으로 간주)
+   */
+  isNodeInForce(node: LegalArticleNode, asOfDate: string): boolean {
+    return (!node.effectiveFrom || node.effectiveFrom <= asOfDate) &&
+      (!node.effectiveTo || asOfDate <= node.effectiveTo);
+  }
+
+  /**
+   * ID로 조문 노드 조회
+   */
+  getNodeById(articleId: string): LegalArticleNode | undefined {
+    return this.nodesById.get(articleId);
+  }
+
+  /**
+   * 청크에 포함된 조문 노드 조회 (nodeType 지정 시 해당 단위만)
+   */
+  getNodesForChunk(chunkId: string, nodeType?: LegalArticleNode['nodeType']): LegalArticleNode[] {
+    const nodes = this.nodesByChunkId.get(chunkId) || [];
+    return nodeType ? nodes.filter(node => node.nodeType === nodeType) : nodes;
+  }
+
+  /**
+   * 청크에 포함된 조 단위 참조 목록 (답변 인용용)
+   */
+  getArticleRefsForChunk(chunkId: string): LegalArticleRef[] {
+    return this.getNodesForChunk(chunkId, '조').map(node => this.toArticleRef(node));
+  }
+
+  /**
+   * 조문 노드를 참조 형식으로 변환
+   */
+  private toArticleRef(node: LegalArticleNode): LegalArticleRef {
+    return { articleId: node.id, citation: node.citation, page: node.page };
+  }
+
+  /**
+   * 청크에 포함된 조문에서 출발하여 상호 참조를 따라가며 관련 조문 수집 (너비 우선)
+   */
+  getReferenceHops(chunkIds: string[], maxHops: number = 2, maxResults: number = 10): LegalReferenceHop[] {
+    const hops: LegalReferenceHop[] = [];
+    const visited = new Set<string>();
+    let frontier: LegalArticleNode[] = [];
+
+    chunkIds.forEach(chunkId => {
+      this.getNodesForChunk(chunkId, '조').forEach(node => {
+        if (!visited.has(node.id)) {
+          visited.add(node.id);
+          frontier.push(node);
+        }
+      });
+    });
+
+    for (let hop = 1; hop <= maxHops && frontier.length > 0 && hops.length < maxResults; hop++) {
+      const nextFrontier: LegalArticleNode[] = [];
+
+      for (const articleNode of frontier) {
+        for (const reference of articleNode.references || []) {
+          const target = this.nodesByPath.get(`${articleNode.documentId}|${reference.targetPath}`);
+          if (!target) continue;
+
+          // 대상 조 노드 기준으로 방문 여부 확인 (항/호 대상은 상위 조로 확장)
+          const targetArticle = this.nodesByPath.get(
+            `${target.documentId}|${target.path.split('/').slice(0, 2).join('/')}`
+          ) || target;
+          if (visited.has(targetArticle.id)) continue;
+          visited.add(targetArticle.id);
+
+          const source = this.nodesByPath.get(`${articleNode.documentId}|${reference.sourcePath}`) || articleNode;
+          hops.push({
+            from: this.toArticleRef(source),
+            to: this.toArticleRef(target),
+            relation: reference.relation,
+            phrase: reference.phrase,
+            hop,
+            documentId: target.documentId,
+            chunkId: target.chunkIds[0]
+          });
+          nextFrontier.push(targetArticle);
+
+          if (hops.length >= maxResults) break;
+        }
+        if (hops.length >= maxResults) break;
+      }
+
+      frontier = nextFrontier;
+    }
+
+    return hops;
+  }
+
+  /**
+   * 문서별 조문 트리 구성 (SourceViewer 조문 이동용)
+   */
+  getDocumentTree(documentId: string): LegalArticleTreeNode[] {
+    const byPath = new Map<string, LegalArticleTreeNode>();
+    const roots: LegalArticleTreeNode[] = [];
+
+    this.nodes
+      .filter(node => node.documentId === documentId)
+      .forEach(node => {
+        const treeNode: LegalArticleTreeNode = { node, children: [] };
+        byPath.set(node.path, treeNode);
+        const parent = node.parentPath ? byPath.get(node.parentPath) : undefined;
+        if (parent) {
+          parent.children.push(treeNode);
+        } else {
+          roots.push(treeNode);
+        }
+      });
+
+    return roots;
+  }
+
+  /**
+   * 인용 문자열 해석: "국민건강증진법 시행규칙 제6조 제2항 제3호", "시행령 제5조의2제1항" 등
+   */
+  parseCitation(text: string): ParsedLegalCitation | null {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    const match = normalized.match(
+      /(?:([가-힣ㆍ·\s]*?)\s*)?제\s?(\d+)\s?조(?:\s?의\s?(\d+))?(?:\s?제\s?(\d+)\s?항)?(?:\s?제\s?(\d+)\s?호(?:\s?의\s?(\d+))?)?(?:\s?([가-하])\s?목)?/
+    );
+    if (!match) return null;
+
+    const prefix = (match[1] || '').trim();
+    let lawLevel: ParsedLegalCitation['lawLevel'];
+    if (prefix.endsWith('시행규칙')) lawLevel = '시행규칙';
+    else if (prefix.endsWith('시행령') || prefix === '영') lawLevel = '시행령';
+    else if (prefix.endsWith('법') || prefix.endsWith('법률')) lawLevel = '법률';
+
+    const lawName = prefix && !['법', '영', '시행령', '시행규칙'].includes(prefix) ? prefix : undefined;
+
+    return {
+      lawName,
+      lawLevel,
+      article: match[3] ? `${match[2]}의${match[3]}` : match[2],
+      paragraph: match[4] ? parseInt(match[4], 10) : undefined,
+      item: match[5] ? (match[6] ? `${match[5]}의${match[6]}` : match[5]) : undefined,
+      subItem: match[7] || undefined
+    };
+  }
+
+  /**
+   * 인용 문자열에 해당하는 가장 구체적인 조문 노드 찾기
+   */
+  findByCitation(text: string, documentId?: string): LegalArticleNode | null {
+    const parsed = this.parseCitation(text);
+    if (!parsed) return null;
+
+    const candidates = this.nodes.filter(node =>
+      (!documentId || node.documentId === documentId) &&
+      node.article === parsed.article &&
+      (!parsed.lawLevel || node.lawLevel === parsed.lawLevel) &&
+      (!parsed.lawName || node.lawName === parsed.lawName || node.lawName.endsWith(parsed.lawName))
+    );
+    if (candidates.length === 0) return null;
+
+    // 항/호/목 순으로 좁혀가며 가장 깊은 노드 선택
+    let best = candidates.find(node => node.nodeType === '조') || candidates[0];
+    const narrowed = candidates.filter(node =>
+      (parsed.paragraph === undefined || node.paragraph === parsed.paragraph) &&
+      (parsed.item === undefined || node.item === parsed.item) &&
+      (parsed.subItem === undefined || node.subItem === parsed.subItem)
+    );
+    const targetType = parsed.subItem ? '목' : parsed.item ? '호' : parsed.paragraph ? '항' : '조';
+    best = narrowed.find(node => node.nodeType === targetType) || best;
+
+    return best;
+  }
+
+  /**
+   * 인덱스 로드 여부
+   */
+  isReady(): boolean {
+    return this.isLoaded;
+  }
+}
+
+export const legalArticleIndexService = LegalArticleIndexService.getInstance();
@@ -0,0 +1,357 @@
+/**
+ * LLM 제공자 추상화
+ * 채팅 / 스트리밍 / JSON 모드 분석을 공통 인터페이스로 제공하여
+ * Gemini 대신 로컬 OpenAI 호환 서버(llama.cpp, Ollama 등)로도 전체 RAG 파이프라인을 실행
+ *
+ * Gemini는 브라우저에서 직접 호출하지 않고 프록시 서버(server/gemini-proxy.js)를 거침
+ * (API 키·키 로테이션·RPM/TPM/RPD 할당량 관리는 프록시 서버에서 처리)
+ *
+ * 환경변수:
+ * - VITE_LLM_PROVIDER: 'gemini'(기본) | 'local'
+ * - VITE_LLM_PROXY_URL: Gemini 프록시 서버 주소 (기본 http://localhost:8787)
+ * - VITE_LLM_PROXY_TOKEN: 프록시 공유 비밀값 (프록시에 PROXY_SHARED_SECRET을 설정한 경우, 번들에 포함되므로 공개 배포에서는 보호 수단이 아님)
+ * - VITE_GEMINI_MODEL: Gemini 모델명 (기본 gemini-2.5-flash, 프록시에서 허용한 모델이어야 함)
+ * - VITE_LOCAL_LLM_BASE_URL: 로컬 서버 주소 (기본 http://localhost:11434/v1)
+ * - VITE_LOCAL_LLM_MODEL: 로컬 모델명
+ * - VITE_LOCAL_LLM_API_KEY: 로컬 서버 인증 키 (선택)
+ */
+
+export type LLMProviderType = 'gemini' | 'local';
+
+export interface LLMChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMChatOptions {
+  systemInstruction?: string;
+  history?: LLMChatMessage[];
+  model?: string;
+  temperature?: number;
+}
+
+export interface LLMJsonRequest extends LLMChatOptions {
+  prompt: string;
+  signal?: AbortSignal;  // 중지하면 요청 취소 (AbortError)
+}
+
+export interface LLMSendParams {
+  message: string;
+  signal?: AbortSignal;  // 중지하면 요청·스트림 취소 (AbortError)
+}
+
+export interface LLMResponse {
+  text: string;
+}
+
+export interface LLMStreamChunk {
+  text?: string;
+  truncated?: boolean;  // 출력 토큰 한도에 걸려 답변이 끊김 (마지막에 한 번)
+}
+
+/**
+ * 채팅 세션 (GoogleGenAI chat과 동일한 호출 형태)
+ */
+export interface LLMChatSession {
+  sendMessage(params: LLMSendParams): Promise<LLMResponse>;
+  sendMessageStream(params: LLMSendParams): Promise<AsyncIterable<LLMStreamChunk>>;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly defaultModel: string;
+  createChat(options: LLMChatOptions): LLMChatSession;
+  /**
+   * JSON 모드 단발 요청 - 응답 원문(JSON 문자열) 반환
+   */
+  generateJson(request: LLMJsonRequest): Promise<string>;
+}
+
+/**
+ * LLM 요청 오류 (HTTP 상태 코드와 서버가 알려준 재시도 대기 시간 포함)
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * 사용자가 중지해서 발생한 오류인지 (fetch 취소, signal.throwIfAborted)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_PROXY_URL = 'http://localhost:8787';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_MODEL = 'local-model';
+
+/**
+ * Gemini 프록시 서버 주소 (RPD 통계 조회에도 사용)
+ */
+export const LLM_PROXY_URL = (import.meta.env.VITE_LLM_PROXY_URL || DEFAULT_PROXY_URL).replace(/\/+$/, '');
+
+/**
+ * 프록시 인증 헤더 (답변 생성·키 전환 요청에 사용)
+ *
+ * VITE_LLM_PROXY_TOKEN은 빌드 시 클라이언트 번들에 그대로 들어가므로 앱을 열 수 있는 사람은 누구나 읽을 수 있음
+ * → 사내망·본인 기기처럼 앱 접근 자체가 제한된 환경에서 우발적 호출을 막는 용도일 뿐,
+ *   공개 배포(GitHub Pages 등)에서는 Origin 검사 이상의 보호가 되지 않으므로 프록시를 공개 주소에 열지 말 것
+ */
+export function getProxyAuthHeaders(): Record<string, string> {
+  const token = import.meta.env.VITE_LLM_PROXY_TOKEN;
+  return token ? { 'X-Proxy-Token': token } : {};
+}
+
+/**
+ * Gemini 구현 (프록시 서버 경유 - 브라우저에는 API 키 없음)
+ */
+export class GeminiProxyProvider implements LLMProvider {
+  readonly type = 'gemini' as const;
+
+  constructor(
+    private readonly proxyUrl: string = LLM_PROXY_URL,
+    readonly defaultModel: string = DEFAULT_GEMINI_MODEL
+  ) {}
+
+  createChat(options: LLMChatOptions): LLMChatSession {
+    // 프록시는 상태가 없으므로 세션 내 대화 이력은 여기서 유지
+    const history: LLMChatMessage[] = [...(options.history || [])];
+    const buildBody = (message: string) => ({
+      message,
+      systemInstruction: options.systemInstruction,
+      history,
+      model: options.model || this.defaultModel,
+      temperature: options.temperature
+    });
+
+    return {
+      sendMessage: async ({ message, signal }) => {
+        const response = await this.request('/api/chat', buildBody(message), signal);
+        const data = await response.json();
+        const text: string = data?.text || '';
+        history.push({ role: 'user', text: message }, { role: 'model', text });
+        return { text };
+      },
+      sendMessageStream: async ({ message, signal }) => {
+        const response = await this.request('/api/chat/stream', buildBody(message), signal);
+        return (async function* () {
+          let fullText = '';
+          for await (const payload of readServerSentEvents(response)) {
+            const data = JSON.parse(payload);
+            if (data.error) {
+              throw new Error(`LLM 프록시 스트리밍 실패: ${data.error}`);
+            }
+            if (data.text) {
+              fullText += data.text;
+              yield { text: data.text };
+            }
+            if (data.truncated) {
+              yield { truncated: true };
+            }
+          }
+          history.push({ role: 'user', text: message }, { role: 'model', text: fullText });
+        })();
+      }
+    };
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string> {
+    const response = await this.request('/api/chat', {
+      message: request.prompt,
+      systemInstruction: request.systemInstruction,
+      model: request.model || this.defaultModel,
+      temperature: request.temperature,
+      responseMimeType: 'application/json'
+    }, request.signal);
+    const data = await response.json();
+    return data?.text || '';
+  }
+
+  /**
+   * 프록시 호출 (오류 시 상태 코드를 메시지에 포함 - 429 처리 호환, Retry-After는 retryAfterMs로 전달)
+   */
+  private async request(pathname: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.proxyUrl}${pathname}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getProxyAuthHeaders() },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+      throw new LLMRequestError(
+        `LLM 프록시 요청 실패 (${response.status}): ${String(data?.error || '').substring(0, 200)}`,
+        response.status,
+        Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : null
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * 로컬 OpenAI 호환 HTTP 구현 (/chat/completions)
+ * llama.cpp server, Ollama, vLLM 등 폐쇄망 보건소 환경용
+ */
+export class LocalOpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'local' as const;
+
+  constructor(
+    private readonly baseUrl: string = DEFAULT_LOCAL_BASE_URL,
+    readonly defaultModel: string = DEFAULT_LOCAL_MODEL,
+    private readonly apiKey?: string
+  ) {}
+
+  createChat(options: LLMChatOptions): LLMChatSession {
+    // 세션 내 대화 이력 유지 (Gemini chat과 동일하게 멀티턴 지원)
+    const history: LLMChatMessage[] = [...(options.history || [])];
+
+    const buildMessages = (message: string) => [
+      ...(options.systemInstruction ? [{ role: 'system', content: options.systemInstruction }] : []),
+      ...history.map(entry => ({ role: entry.role === 'model' ? 'assistant' : 'user', content: entry.text })),
+      { role: 'user', content: message }
+    ];
+
+    return {
+      sendMessage: async ({ message, signal }) => {
+        const response = await this.request({
+          model: options.model || this.defaultModel,
+          messages: buildMessages(message),
+          temperature: options.temperature,
+          stream: false
+        }, signal);
+        const data = await response.json();
+        const text: string = data?.choices?.[0]?.message?.content || '';
+        history.push({ role: 'user', text: message }, { role: 'model', text });
+        return { text };
+      },
+      sendMessageStream: async ({ message, signal }) => {
+        const response = await this.request({
+          model: options.model || this.defaultModel,
+          messages: buildMessages(message),
+          temperature: options.temperature,
+          stream: true
+        }, signal);
+        return (async function* () {
+          let fullText = '';
+          for await (const payload of readServerSentEvents(response)) {
+            let text: string | undefined;
+            try {
+              const choice = JSON.parse(payload)?.choices?.[0];
+              text = choice?.delta?.content;
+              if (choice?.finish_reason === 'length') {
+                yield { truncated: true };
+              }
+            } catch (error) {
+              console.warn('⚠️ 로컬 LLM 스트림 파싱 실패:', payload.substring(0, 100));
+            }
+            if (!text) continue;
+            fullText += text;
+            yield { text };
+          }
+          history.push({ role: 'user', text: message }, { role: 'model', text: fullText });
+        })();
+      }
+    };
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string> {
+    const response = await this.request({
+      model: request.model || this.defaultModel,
+      messages: [
+        ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: request.temperature,
+      response_format: { type: 'json_object' },
+      stream: false
+    }, request.signal);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * /chat/completions 호출 (오류 시 상태 코드를 메시지에 포함 - 429 처리 호환)
+   */
+  private async request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`로컬 LLM 요청 실패 (${response.status}): ${errorText.substring(0, 200)}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * SSE 스트림에서 data 페이로드 추출 ("data: {...}" ~ "data: [DONE]")
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield payload;
+    }
+  }
+}
+
+/**
+ * 환경변수에 따라 LLM 제공자 생성
+ */
+export function createLLMProvider(): LLMProvider {
+  const providerType = (import.meta.env.VITE_LLM_PROVIDER || 'gemini').toLowerCase();
+
+  if (providerType === 'local') {
+    const provider = new LocalOpenAICompatibleProvider(
+      import.meta.env.VITE_LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      import.meta.env.VITE_LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL,
+      import.meta.env.VITE_LOCAL_LLM_API_KEY || undefined
+    );
+    console.log(`🤖 LLM 제공자: 로컬 OpenAI 호환 서버 (${provider.defaultModel})`);
+    return provider;
+  }
+
+  if (providerType !== 'gemini') {
+    console.warn(`⚠️ 알 수 없는 LLM 제공자 "${providerType}" - Gemini 사용`);
+  }
+  const provider = new GeminiProxyProvider(LLM_PROXY_URL, import.meta.env.VITE_GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+  console.log(`🤖 LLM 제공자: Gemini 프록시 ${LLM_PROXY_URL} (${provider.defaultModel})`);
+  return provider;
+}
+
+export const llmProvider = createLLMProvider();
@@ -107,7 +107,7 @@ export class MultiStageSearchSystem {
       const results = await this.firestoreService.searchChunksByKeywords(
         questionAnalysis.keywords,
         undefined,
-        this.MAX_RESULTS_PER_STAGE
+        MultiStageSearchSystem.MAX_RESULTS_PER_STAGE
       );
       
       const chunks = await this.convertPDFChunksToChunks(results);
@@ -146,7 +146,7 @@ export class MultiStageSearchSystem {
       const results = await this.firestoreService.searchChunksByKeywords(
         expandedKeywords,
         undefined,
-        this.MAX_RESULTS_PER_STAGE
+        MultiStageSearchSystem.MAX_RESULTS_PER_STAGE
       );
       
       const chunks = await this.convertPDFChunksToChunks(results);
@@ -187,7 +187,7 @@ export class MultiStageSearchSystem {
       const results = await this.firestoreService.searchChunksByKeywords(
         semanticKeywords,
         undefined,
-        this.MAX_RESULTS_PER_STAGE
+        MultiStageSearchSystem.MAX_RESULTS_PER_STAGE
       );
       
       const chunks = await this.convertPDFChunksToChunks(results);
@@ -225,7 +225,7 @@ export class MultiStageSearchSystem {
       const results = await this.firestoreService.searchChunksByText(
         questionAnalysis.context,
         undefined,
-        this.MAX_RESULTS_PER_STAGE
+        MultiStageSearchSystem.MAX_RESULTS_PER_STAGE
       );
       
       const chunks = await this.convertPDFChunksToChunks(results);
@@ -273,7 +273,7 @@ export class MultiStageSearchSystem {
       const results = await this.firestoreService.searchChunksByKeywords(
         uniqueKeywords,
         undefined,
-        this.MAX_RESULTS_PER_STAGE
+        MultiStageSearchSystem.MAX_RESULTS_PER_STAGE
       );
       
       const chunks = await this.convertPDFChunksToChunks(results);
@@ -391,6 +391,9 @@ export class MultiStageSearchSystem {
           source: doc?.filename || 'Firestore',
           title: pdfChunk.metadata.title || doc?.title || 'Unknown',
           page: pdfChunk.metadata.page || 0,
+          pageEnd: pdfChunk.metadata.pageEnd,
+          printedPage: pdfChunk.metadata.printedPage,
+          printedPageEnd: pdfChunk.metadata.printedPageEnd,
           section: pdfChunk.metadata.section || 'general',
           position: pdfChunk.metadata.position || 0,
           startPosition: pdfChunk.metadata.startPos || 0,
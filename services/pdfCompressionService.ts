@@ -4,6 +4,7 @@
  */
 
 import { Chunk } from '../types';
+import { extractKeywords } from './koreanTokenizer.js';
 
 export interface CompressionResult {
   compressedText: string;
@@ -48,45 +49,10 @@ export class PDFCompressionService {
   };
 
   /**
-   * PDF 텍스트에서 모든 한글 단어를 추출하여 키워드 목록에 추가
+   * PDF 텍스트에서 한글 용어를 추출하여 키워드 목록에 추가 (공용 토크나이저, 빈도순 상위 100개)
    */
   private extractDynamicKeywords(text: string): string[] {
-    // 모든 한글 단어 추출 (2글자 이상)
-    const koreanWords = text.match(/[가-힣]+/g) || [];
-    const uniqueWords = [...new Set(koreanWords)];
-    
-    // 2글자 이상이고, 너무 일반적인 단어 제외
-    const filteredWords = uniqueWords.filter(word => {
-      return word.length >= 2 && 
-             word.length <= 10 && // 너무 긴 단어 제외
-             !this.isCommonWord(word); // 일반적인 단어 제외
-    });
-    
-    // 빈도순으로 정렬하여 상위 100개만 선택
-    const wordFreq = {};
-    filteredWords.forEach(word => {
-      wordFreq[word] = (wordFreq[word] || 0) + 1;
-    });
-    
-    return Object.entries(wordFreq)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 100)
-      .map(([word]) => word);
-  }
-  
-  /**
-   * 일반적인 단어인지 확인
-   */
-  private isCommonWord(word: string): boolean {
-    const commonWords = [
-      '것', '이', '그', '저', '의', '을', '를', '에', '에서', '로', '으로',
-      '와', '과', '는', '은', '가', '이', '다', '하다', '있다', '없다',
-      '되다', '하다', '보다', '같다', '다르다', '크다', '작다', '많다', '적다',
-      '좋다', '나쁘다', '새', '오래', '빠르다', '느리다', '높다', '낮다',
-      '여기', '저기', '어디', '언제', '어떻게', '왜', '무엇', '누구',
-      '모든', '전체', '일부', '대부분', '일부', '모든', '각', '모든'
-    ];
-    return commonWords.includes(word);
+    return extractKeywords(text, { limit: 100, maxLength: 10 });
   }
 
   /**
@@ -0,0 +1,200 @@
+/**
+ * 공용 PDF 페이지 매핑 (물리 페이지 ↔ 인쇄 페이지 ↔ 텍스트 오프셋)
+ * 마이그레이션 스크립트(Node)가 pdf.js로 페이지별 텍스트를 추출해 페이지 맵을 만들고,
+ * 브라우저 서비스는 같은 규칙으로 인쇄 페이지 번호를 읽고 인용 라벨을 만든다
+ *
+ * - page: PDF 뷰어 기준 물리 페이지 (1부터)
+ * - printedPage: 본문에 인쇄된 쪽 번호 (해설집 "28 질서위반행위규제법 해설집", 지침 "- 1 -", 법제처 "- 1 / 34 -")
+ *   표지·목차처럼 번호가 없거나 앞뒤 페이지와 맞지 않으면 null
+ * - startPos/endPos: 전체 텍스트에서 해당 페이지 텍스트의 범위 [startPos, endPos)
+ *
+ * ⚠️ 페이지 구분 표시("-- N of M --")는 기존 pdf-parse 출력과 같은 형식을 유지
+ *    (structureAwareChunker의 노이즈 판정, 개정 비교의 섹션 추출이 이 표시를 사용)
+ */
+
+export const PAGE_MAP_VERSION = 'pdfjs-pages-v1';
+
+const MAX_PRINTED_PAGE = 999;
+const EDGE_LINE_COUNT = 3;
+const MAX_HEADER_LENGTH = 60;
+const NEIGHBOUR_WINDOW = 3;
+
+// 한 줄 전체가 쪽 번호인 패턴 (우선순위 순)
+const PAGE_NUMBER_LINE_PATTERNS = [
+  /^(\d+)$/,                       // "69"
+  /^-\s*(\d+)\s*-$/,               // "- 69 -"
+  /^페이지\s*(\d+)$/i,             // "페이지 69"
+  /^Page\s*(\d+)$/i,               // "Page 69"
+  /^(\d+)\s*\/\s*\d+$/,            // "69/124"
+  /^(\d+)\s*of\s*\d+$/i,           // "69 of 124"
+  /^p\.\s*(\d+)$/i                 // "p.69"
+];
+
+// 머리말·꼬리말 안에 쪽 번호가 섞인 패턴
+const PAGE_NUMBER_HEADER_PATTERNS = [
+  /-\s*(\d+)\s*\/\s*\d+\s*-/,      // "법제처 - 3 / 34 - 국가법령정보센터"
+  /^(\d{1,3})\s+[^\d\s.]/,         // "28 질서위반행위규제법 해설집" (짝수 쪽 머리말)
+  /[^\d\s](\d{1,3})$/              // "제1편 ┃ ... 제5편 ┃ 부록29" (홀수 쪽 머리말)
+];
+
+const toPageNumber = (value) => {
+  const pageNum = parseInt(value, 10);
+  return pageNum >= 1 && pageNum <= MAX_PRINTED_PAGE ? pageNum : null;
+};
+
+/**
+ * 페이지 텍스트의 위/아래 줄에서 쪽 번호 후보 추출 (우선순위 순, 중복 제거)
+ */
+export function findPageNumberCandidates(pageText) {
+  const lines = String(pageText || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const bottomLines = lines.slice(-EDGE_LINE_COUNT).reverse();
+  const topLines = lines.slice(0, EDGE_LINE_COUNT);
+  const edgeLines = [...bottomLines, ...topLines];
+  const candidates = [];
+  const addCandidate = (value) => {
+    const pageNum = toPageNumber(value);
+    if (pageNum !== null && !candidates.includes(pageNum)) {
+      candidates.push(pageNum);
+    }
+  };
+
+  for (const line of edgeLines) {
+    for (const pattern of PAGE_NUMBER_LINE_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        addCandidate(match[1]);
+        break;
+      }
+    }
+  }
+
+  for (const line of edgeLines) {
+    if (line.length > MAX_HEADER_LENGTH && !line.includes('┃')) continue;
+    for (const pattern of PAGE_NUMBER_HEADER_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        addCandidate(match[1]);
+        break;
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * 단일 페이지의 인쇄 쪽 번호 (앞뒤 페이지 정보 없이 판단할 때 사용)
+ */
+export function extractPrintedPageNumber(pageText) {
+  const candidates = findPageNumberCandidates(pageText);
+  return candidates.length > 0 ? candidates[0] : null;
+}
+
+/**
+ * 페이지별 텍스트로 전체 텍스트와 페이지 맵 생성
+ * 인쇄 쪽 번호는 이웃 페이지(±3)와 "물리 페이지 - 인쇄 페이지" 차이가 같을 때만 채택하고,
+ * 채택된 두 페이지 사이의 번호 없는 페이지(간지 등)는 같은 차이로 보간
+ */
+export function buildPageMap(pageTexts) {
+  const totalPages = pageTexts.length;
+  const candidateOffsets = pageTexts.map((pageText, index) =>
+    findPageNumberCandidates(pageText).map(printed => ({ printed, offset: index + 1 - printed }))
+  );
+
+  // 이웃 페이지 중 같은 차이를 가진 후보가 가장 많은 번호 채택 (사례 번호·목차 번호 등 배제)
+  const accepted = [];
+  candidateOffsets.forEach((candidates, index) => {
+    const previous = accepted[index - 1];
+    let best = null;
+    let bestSupport = 0;
+    for (const candidate of candidates) {
+      let support = 0;
+      for (let distance = 1; distance <= NEIGHBOUR_WINDOW; distance++) {
+        for (const list of [candidateOffsets[index - distance], candidateOffsets[index + distance]]) {
+          if (list && list.some(other => other.offset === candidate.offset)) support++;
+        }
+      }
+      const continuesPrevious = previous && previous.offset === candidate.offset;
+      if (support > bestSupport || (support > 0 && support === bestSupport && continuesPrevious)) {
+        best = candidate;
+        bestSupport = support;
+      }
+    }
+    accepted.push(best);
+  });
+
+  const printedPages = accepted.map(candidate => (candidate ? candidate.printed : null));
+  let previousIndex = -1;
+  for (let index = 0; index < totalPages; index++) {
+    if (!accepted[index]) continue;
+    if (previousIndex >= 0 && index - previousIndex > 1 && accepted[previousIndex].offset === accepted[index].offset) {
+      for (let gap = previousIndex + 1; gap < index; gap++) {
+        const printed = gap + 1 - accepted[index].offset;
+        printedPages[gap] = printed >= 1 ? printed : null;
+      }
+    }
+    previousIndex = index;
+  }
+
+  let text = '';
+  const pages = pageTexts.map((pageText, index) => {
+    const startPos = text.length;
+    text += pageText;
+    const endPos = text.length;
+    text += `\n\n-- ${index + 1} of ${totalPages} --\n\n`;
+    return { page: index + 1, printedPage: printedPages[index], startPos, endPos };
+  });
+
+  return { text, pages };
+}
+
+/**
+ * 텍스트 오프셋이 속한 페이지 (페이지 구분 표시 구간은 앞 페이지로 간주)
+ */
+export function findPageAt(pages, offset) {
+  if (!pages || pages.length === 0) return null;
+  let low = 0;
+  let high = pages.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pages[mid].startPos <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return pages[low];
+}
+
+/**
+ * 텍스트 범위 [startPos, endPos)가 걸친 시작/끝 페이지
+ */
+export function getPageSpan(pages, startPos, endPos) {
+  const first = findPageAt(pages, startPos);
+  const last = findPageAt(pages, Math.max(startPos, endPos - 1));
+  if (!first || !last) return null;
+  return {
+    page: first.page,
+    pageEnd: last.page,
+    printedPage: first.printedPage,
+    printedPageEnd: last.printedPage
+  };
+}
+
+/**
+ * 인용 라벨: 인쇄 쪽 번호 우선, 여러 페이지에 걸치면 범위 ("p.23", "p.23-24")
+ * 인쇄 번호가 없으면 물리 페이지 사용
+ */
+export function formatPageLabel(location) {
+  if (!location) return '';
+  const hasPrinted = typeof location.printedPage === 'number' && location.printedPage > 0;
+  const start = hasPrinted ? location.printedPage : location.page;
+  if (typeof start !== 'number' || start <= 0) return '';
+  const end = hasPrinted ? location.printedPageEnd : location.pageEnd;
+  return typeof end === 'number' && end > start ? `p.${start}-${end}` : `p.${start}`;
+}
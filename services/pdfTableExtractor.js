@@ -0,0 +1,301 @@
+/**
+ * 공용 PDF 표 추출기 (pdf.js 텍스트 항목의 좌표 기반)
+ * 마이그레이션 스크립트(Node)가 페이지마다 표를 찾아 행·열 구조로 저장하고,
+ * 브라우저 서비스는 같은 모듈로 표를 마크다운으로 만들어 컨텍스트와 답변에 사용
+ *
+ * - 줄: 기준선(y)이 같은 텍스트 항목 묶음, 칸: 글자 높이보다 넓은 가로 간격으로 나눈 조각
+ * - 표 영역: 두 칸 이상인 줄(또는 칸 안에서 줄바꿈된 짧은 줄)이 이어진 구간
+ * - 열: 영역 안 칸들이 가로로 겹치지 않는 간격(열 사이 여백)으로 구분
+ * - 행: 새 행은 첫 열부터 채우는 줄, 칸 안 줄바꿈·세로 가운데 정렬된 칸은 직전 행에 합침
+ *
+ * ⚠️ 규칙을 바꾸면 TABLE_EXTRACTOR_VERSION 값을 올리고 마이그레이션을 다시 실행
+ */
+
+export const TABLE_EXTRACTOR_VERSION = 'layout-v1';
+
+const MARGIN_RATIO = 0.92;        // 페이지 오른쪽 8%는 탭 머리말(제1편 ┃ …) 영역으로 제외
+const NARROW_LINE_RATIO = 0.45;   // 본문 폭의 45% 미만인 한 칸 줄은 칸 안 줄바꿈으로 간주
+const MAX_LINE_GAP = 3.2;         // 표 영역 안 줄 간격 상한 (글자 높이 배수)
+const MAX_WRAP_GAP = 2.2;         // 칸 안 줄바꿈 간격 상한 (글자 높이 배수)
+const MIN_COLUMN_GAP = 3;
+const MAX_TITLE_GAP = 40;
+const TWO_COLUMN_RATIO = 0.35;    // 두 열 모두 본문 폭의 35% 이상이면 2단 편집으로 간주
+const NUMBERING_CELL = /^(\d{1,3}|[ⅠⅡⅢⅣⅤⅥⅦⅧⅨⅩ]+|[가-하]|\(\d{1,2}\)|[①-⑳])\.?$/;
+
+/**
+ * pdf.js 텍스트 항목 → 좌표가 있는 토큰 (빈 항목·여백 항목 제외)
+ */
+function toTokens(items, pageWidth) {
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim().length > 0 && item.transform)
+    .map(item => {
+      const height = item.height || Math.abs(item.transform[3]) || 10;
+      const x0 = item.transform[4];
+      return { text: item.str.trim(), x0, x1: x0 + (item.width || 0), y: item.transform[5], height };
+    })
+    .filter(token => !pageWidth || token.x0 < pageWidth * MARGIN_RATIO);
+}
+
+/**
+ * 토큰 → 줄 (위에서 아래로) → 칸
+ */
+function buildLines(tokens) {
+  const sorted = [...tokens].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  const lines = [];
+  sorted.forEach(token => {
+    const line = lines[lines.length - 1];
+    if (line && line.y - token.y <= Math.max(2, 0.35 * Math.min(token.height, line.height))) {
+      line.tokens.push(token);
+      line.height = Math.max(line.height, token.height);
+    } else {
+      lines.push({ y: token.y, height: token.height, tokens: [token] });
+    }
+  });
+
+  return lines.map(line => {
+    const tokensByX = line.tokens.sort((a, b) => a.x0 - b.x0);
+    const segments = [];
+    tokensByX.forEach(token => {
+      const segment = segments[segments.length - 1];
+      const gap = segment ? token.x0 - segment.x1 : Infinity;
+      if (segment && gap <= Math.max(6, 0.9 * Math.max(segment.height, token.height))) {
+        segment.text += gap > 0.15 * token.height ? ` ${token.text}` : token.text;
+        segment.x1 = Math.max(segment.x1, token.x1);
+        segment.height = Math.max(segment.height, token.height);
+      } else {
+        segments.push({ text: token.text, x0: token.x0, x1: token.x1, height: token.height });
+      }
+    });
+    return {
+      y: line.y,
+      height: line.height,
+      segments,
+      x0: segments[0].x0,
+      x1: segments[segments.length - 1].x1,
+      text: segments.map(segment => segment.text).join(' ')
+    };
+  });
+}
+
+/**
+ * 두 칸 이상인 줄이 이어진 구간 찾기
+ */
+function findTableRegions(lines, bodyWidth) {
+  const regions = [];
+  let current = [];
+  const closeRegion = () => {
+    if (current.filter(line => line.segments.length >= 2).length >= 2) {
+      regions.push(current);
+    }
+    current = [];
+  };
+
+  lines.forEach(line => {
+    const isMulti = line.segments.length >= 2;
+    const isNarrow = line.x1 - line.x0 < bodyWidth * NARROW_LINE_RATIO;
+    const previous = current[current.length - 1];
+    const isNear = previous && previous.y - line.y <= MAX_LINE_GAP * Math.max(previous.height, line.height);
+
+    if ((isMulti || isNarrow) && (current.length === 0 || isNear)) {
+      current.push(line);
+      return;
+    }
+    closeRegion();
+    if (isMulti) current.push(line);
+  });
+  closeRegion();
+
+  // 앞뒤의 한 칸 줄은 표와 붙어 있는 줄(여러 줄 머리글, 칸 안 줄바꿈)만 유지
+  const isWrapped = (upper, lower) => upper.y - lower.y <= MAX_WRAP_GAP * Math.max(upper.height, lower.height);
+  return regions.map(region => {
+    let start = region.findIndex(line => line.segments.length >= 2);
+    let end = region.length - 1;
+    while (region[end].segments.length < 2) end--;
+    while (start > 0 && isWrapped(region[start - 1], region[start])) start--;
+    while (end < region.length - 1 && isWrapped(region[end], region[end + 1])) end++;
+    return region.slice(start, end + 1);
+  });
+}
+
+/**
+ * 열 경계: 칸이 덮는 가로 구간의 빈 틈 (여러 열에 걸친 제목 칸 1줄은 무시)
+ */
+function findColumns(region) {
+  const segments = region.flatMap(line => line.segments);
+  const minX = Math.floor(Math.min(...segments.map(segment => segment.x0)));
+  const maxX = Math.ceil(Math.max(...segments.map(segment => segment.x1)));
+  const coverage = new Array(maxX - minX + 1).fill(0);
+  region.forEach(line => {
+    const covered = new Set();
+    line.segments.forEach(segment => {
+      for (let x = Math.floor(segment.x0); x < Math.ceil(segment.x1); x++) covered.add(x - minX);
+    });
+    covered.forEach(index => coverage[index]++);
+  });
+
+  const threshold = region.length >= 6 ? 1 : 0;
+  const columns = [];
+  let start = null;
+  let gapWidth = 0;
+  coverage.forEach((count, index) => {
+    if (count > threshold) {
+      if (start === null) {
+        start = index;
+      } else if (gapWidth >= MIN_COLUMN_GAP) {
+        columns.push({ start: minX + start, end: minX + index - gapWidth });
+        start = index;
+      }
+      gapWidth = 0;
+    } else if (start !== null) {
+      gapWidth++;
+    }
+  });
+  if (start !== null) {
+    columns.push({ start: minX + start, end: minX + coverage.length - gapWidth });
+  }
+  return columns;
+}
+
+const columnIndexOf = (columns, segment) => {
+  const center = (segment.x0 + segment.x1) / 2;
+  for (let index = 0; index < columns.length - 1; index++) {
+    if (center < (columns[index].end + columns[index + 1].start) / 2) return index;
+  }
+  return columns.length - 1;
+};
+
+/**
+ * 줄 → 행 (칸 안 줄바꿈, 세로 가운데 정렬 칸 병합)
+ */
+function buildRows(region, columns) {
+  const rows = [];
+  const filledColumns = row => new Set(row.flatMap(entry => [...entry.columns]));
+
+  region.forEach((line, index) => {
+    const entry = {
+      line,
+      columns: new Set(line.segments.map(segment => columnIndexOf(columns, segment)))
+    };
+    const row = rows[rows.length - 1];
+    const gap = index > 0 ? region[index - 1].y - line.y : Infinity;
+
+    let merge = false;
+    if (row) {
+      const filled = filledColumns(row);
+      const lineColumns = [...entry.columns];
+      const maxSegments = Math.max(...row.map(item => item.line.segments.length));
+      if (gap < 0.6 * line.height) {
+        merge = true; // 같은 높이대의 줄 (제목 칸 위아래 배치)
+      } else if (!lineColumns.some(column => filled.has(column)) && gap < line.height) {
+        merge = true; // 세로 가운데 정렬된 칸
+      } else if (lineColumns.every(column => filled.has(column)) && gap <= MAX_WRAP_GAP * line.height &&
+        (!entry.columns.has(0) || entry.columns.size < maxSegments)) {
+        merge = true; // 칸 안 줄바꿈
+      }
+    }
+
+    if (merge) {
+      row.push(entry);
+      return;
+    }
+
+    // 세로 가운데 정렬된 첫 열 칸: 바로 위에 붙은 다른 열 줄은 새 행으로 옮김
+    const newRow = [entry];
+    while (row && row.length > 1 && entry.columns.has(0)) {
+      const last = row[row.length - 1];
+      if (last.line.y - newRow[0].line.y >= line.height || [...last.columns].some(column => entry.columns.has(column))) break;
+      newRow.unshift(row.pop());
+    }
+    rows.push(newRow);
+  });
+
+  return rows.map(row => {
+    const cells = new Array(columns.length).fill('');
+    row.forEach(({ line }) => line.segments.forEach(segment => {
+      const column = columnIndexOf(columns, segment);
+      cells[column] = cells[column] ? `${cells[column]} ${segment.text}` : segment.text;
+    }));
+    return cells;
+  });
+}
+
+/**
+ * 표 제목: 표 바로 위 줄 (예: "[별표 13] 과태료의 부과기준(제48조 관련)")
+ */
+function findTitle(lines, region) {
+  const index = lines.indexOf(region[0]);
+  const above = index > 0 ? lines[index - 1] : null;
+  if (!above || above.y - region[0].y > MAX_TITLE_GAP) return '';
+  return above.text.substring(0, 120);
+}
+
+/**
+ * 페이지 텍스트 항목에서 표 추출
+ * @param items pdf.js getTextContent().items
+ * @param options.pageWidth 페이지 폭 (탭 머리말 제외용)
+ * @returns [{ title, headers, rows }]
+ */
+export function extractTablesFromTextItems(items, options = {}) {
+  const tokens = toTokens(items || [], options.pageWidth);
+  if (tokens.length === 0) return [];
+
+  const lines = buildLines(tokens);
+  const bodyWidth = Math.max(...lines.map(line => line.x1)) - Math.min(...lines.map(line => line.x0));
+  const tables = [];
+
+  findTableRegions(lines, bodyWidth).forEach(region => {
+    const columns = findColumns(region);
+    if (columns.length < 2) return;
+
+    const rows = buildRows(region, columns);
+    // 목차 쪽 번호·제목 번호(Ⅰ, 1, 가.)만 있는 열 제거
+    const keptColumns = columns
+      .map((column, index) => ({ column, index }))
+      .filter(({ index }) => !rows.every(cells => !cells[index] || NUMBERING_CELL.test(cells[index])));
+    if (keptColumns.length < 2 || rows.length < 2) return;
+
+    // 폭이 넓은 두 열은 표가 아니라 2단 편집 본문
+    if (keptColumns.length === 2 &&
+      keptColumns.every(({ column }) => column.end - column.start >= bodyWidth * TWO_COLUMN_RATIO)) return;
+
+    const compactRows = rows.map(cells => keptColumns.map(({ index }) => cells[index]));
+
+    // 행마다 두 칸 이상 채워진 표만 채택 (목차·번호 목록 배제)
+    const filledRows = compactRows.filter(cells => cells.filter(Boolean).length >= 2).length;
+    if (filledRows < Math.ceil(compactRows.length * 0.6)) return;
+
+    tables.push({
+      title: findTitle(lines, region),
+      headers: compactRows[0],
+      rows: compactRows.slice(1)
+    });
+  });
+
+  return tables;
+}
+
+const escapeCell = value => String(value || '').replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+
+/**
+ * 표 → 마크다운 표 (GFM)
+ */
+export function formatTableMarkdown(table) {
+  const columnCount = Math.max(table.headers.length, ...table.rows.map(cells => cells.length));
+  const pad = cells => Array.from({ length: columnCount }, (_, index) => escapeCell(cells[index]));
+  return [
+    `| ${pad(table.headers).join(' | ')} |`,
+    `| ${new Array(columnCount).fill('---').join(' | ')} |`,
+    ...table.rows.map(cells => `| ${pad(cells).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * 검색용 평문 (제목, 머리글, 모든 칸)
+ */
+export function tableToSearchText(table) {
+  return [table.title, ...table.headers, ...table.rows.flat()]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -5,6 +5,7 @@
 
 import { Chunk } from '../types';
 import { pdfCompressionService } from './pdfCompressionService';
+import { extractPrintedPageNumber } from './pdfPageMap.js';
 
 export interface LoadingProgress {
   current: number;
@@ -309,32 +310,10 @@ export class ProgressiveLoadingService {
   }
 
   /**
-   * 실제 PDF 페이지 번호 추출
+   * 실제 PDF 페이지 번호 추출 (pdfPageMap 공용 규칙, 없으면 순차 인덱스)
    */
   private extractActualPageNumber(pageText: string, pageIndex: number): number {
-    const lines = pageText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    const bottomLines = lines.slice(-5);
-    
-    for (let i = bottomLines.length - 1; i >= 0; i--) {
-      const line = bottomLines[i];
-      const pageNumberPatterns = [
-        /^(\d+)$/, /^페이지\s*(\d+)$/i, /^Page\s*(\d+)$/i, /^(\d+)\s*\/\s*\d+$/,
-        /^(\d+)\s*of\s*\d+$/i, /^p\.\s*(\d+)$/i, /^P\.\s*(\d+)$/i
-      ];
-      
-      for (const pattern of pageNumberPatterns) {
-        const match = line.match(pattern);
-        if (match && match[1]) {
-          const pageNum = parseInt(match[1], 10);
-          if (pageNum >= 1 && pageNum <= 999) {
-            return pageNum;
-          }
-        }
-      }
-    }
-    
-    // 폴백: 순차 인덱스 사용
-    return pageIndex;
+    return extractPrintedPageNumber(pageText) ?? pageIndex;
   }
 
   /**
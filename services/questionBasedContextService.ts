@@ -1,80 +1,49 @@
-import { GoogleGenAI } from '@google/genai';
-import { FirestoreService, PDFChunk } from './firestoreService';
-import { Chunk, QuestionAnalysis } from '../types';
-import { UnifiedSynonymService } from './unifiedSynonymService';
-import { ComprehensiveSynonymExpansion } from './comprehensiveSynonymExpansion';
-import { DynamicSynonymService } from './dynamicSynonymService';
+import { Chunk, QuestionAnalysis, ConversationTurn, QueryRewrite } from '../types';
 import { ContextQualityOptimizer, EnhancedChunk } from './contextQualityOptimizer';
-import { MultiStageSearchSystem } from './multiStageSearchSystem';
-import { SemanticSearchEngine } from './semanticSearchEngine';
+import { UnifiedSearchEngine } from './unifiedSearchEngine';
 import { AnswerValidationSystem } from './answerValidationSystem';
 import { PromptEngineeringSystem } from './promptEngineeringSystem';
+import { documentVersionService } from './documentVersionService';
+import { llmProvider, isAbortError } from './llmProvider';
+import { extractKeywords } from './koreanTokenizer.js';
+
+// 후속 질문 판별용 지시어·접속어 (앞 대화를 가리키는 표현)
+const FOLLOW_UP_PREFIX = /^(그럼|그러면|그렇다면|그런데|근데|그리고|또|또한|아까|방금|혹시 그)/;
+const FOLLOW_UP_MARKERS = /(그 경우|이 경우|그런 경우|그때|그건|그거|그것|그게|이건|이거|이것|저건|거기|해당 |위의|앞의|위에서|앞에서|말씀하신|말한|예외는|나머지|그 외|다른 건)/;
 
 /**
  * 질문 분석기 (AI 기반)
  */
 export class QuestionAnalyzer {
-  private apiKeys: string[] = [];
-  private currentKeyIndex = 0;
-
-  constructor() {
-    this.initializeApiKeys();
-  }
-
-  /**
-   * API 키 초기화
-   */
-  private initializeApiKeys(): void {
-    const primaryKey = import.meta.env.VITE_GEMINI_API_KEY;
-    const backupKeys = [
-      import.meta.env.VITE_GEMINI_API_KEY_2,
-      import.meta.env.VITE_GEMINI_API_KEY_3,
-      import.meta.env.VITE_GEMINI_API_KEY_4,
-      import.meta.env.VITE_GEMINI_API_KEY_5
-    ].filter(key => key && key.trim() !== '');
-
-    this.apiKeys = [primaryKey, ...backupKeys].filter(key => key && key.trim() !== '');
-    console.log(`QuestionAnalyzer API 키 로드: ${this.apiKeys.length}개`);
-  }
-
-  /**
-   * 사용 가능한 API 키 목록 반환
-   */
-  private getApiKeys(): string[] {
-    return this.apiKeys.filter(key => key && key.trim() !== '');
-  }
-
-  /**
-   * 다음 사용 가능한 API 키 선택
-   */
-  private getNextAvailableKey(): string | null {
-    const availableKeys = this.getApiKeys();
-    if (availableKeys.length === 0) {
-      return null;
-    }
-    
-    const selectedKey = availableKeys[this.currentKeyIndex % availableKeys.length];
-    const keyIndex = this.currentKeyIndex;
-    this.currentKeyIndex = (this.currentKeyIndex + 1) % availableKeys.length;
-    
-    console.log(`QuestionAnalyzer API 키 선택: ${selectedKey.substring(0, 10)}... (인덱스: ${keyIndex})`);
-    
-    return selectedKey;
-  }
+  private static readonly CONDENSE_TURNS = 3;  // 재작성에 참고할 최근 대화 턴 수
+  private static readonly ANALYSIS_ATTEMPTS = 2;  // 분석 재시도 횟수 (Gemini 키 교체는 프록시 서버에서 처리)
 
   /**
    * 강화된 AI 질문 분석 (다중 재시도 + 에러 처리)
    */
-  async analyzeQuestion(question: string): Promise<QuestionAnalysis> {
+  async analyzeQuestion(question: string, signal?: AbortSignal): Promise<QuestionAnalysis> {
     console.log(`🔍 질문 분석 시작: "${question}"`);
     
     try {
       // 강화된 재시도 메커니즘 사용
-      const analysis = await this.analyzeWithRetry(question);
+      const analysis = await this.analyzeWithRetry(question, signal);
+
+      // ✅ 추가: 시점 기준 질문이면 기준일 설정
+      const asOfDate = documentVersionService.extractAsOfDate(question);
+      if (asOfDate) {
+        analysis.asOfDate = asOfDate;
+        console.log(`📅 시점 기준 질문: ${asOfDate} 기준`);
+      }
+
+      // ✅ 추가: 색인과 같은 토크나이저로 추출한 어간·복합명사를 키워드에 보강
+      analysis.keywords = [...new Set([...analysis.keywords, ...extractKeywords(question)])];
+
       console.log(`✅ 질문 분석 완료: ${analysis.intent}`);
       return analysis;
       
     } catch (error) {
+      // 사용자가 중지한 경우는 그대로 전달
+      if (isAbortError(error)) throw error;
       console.error('❌ 모든 AI 분석 시도 실패:', error);
       
       // 상세한 에러 정보와 함께 시스템 종료
@@ -99,39 +68,135 @@ AI 질문 분석 서비스를 사용할 수 없습니다.
     }
   }
 
+  /**
+   * 후속 질문을 이전 대화와 근거 청크를 반영한 독립 질문으로 재작성
+   * 이전 대화가 없거나 독립 질문이면 원문을 그대로 반환
+   */
+  async condenseQuestion(question: string, turns: ConversationTurn[], signal?: AbortSignal): Promise<QueryRewrite> {
+    const noRewrite = (reason: string): QueryRewrite => ({
+      originalQuestion: question,
+      standaloneQuestion: question,
+      isFollowUp: false,
+      method: 'none',
+      reason
+    });
+
+    if (turns.length === 0) return noRewrite('이전 대화 없음');
+    if (!this.looksLikeFollowUp(question)) return noRewrite('독립 질문');
+
+    const recentTurns = turns.slice(-QuestionAnalyzer.CONDENSE_TURNS);
+
+    try {
+      const rewrite = await this.condenseWithModel(question, recentTurns, signal);
+      if (rewrite) {
+        console.log(`💬 후속 질문 재작성: "${question}" → "${rewrite.standaloneQuestion}"`);
+        return rewrite;
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('⚠️ 후속 질문 재작성 실패:', error);
+    }
+
+    // 폴백: 직전 질문의 핵심 키워드를 앞에 붙여 검색 범위 유지
+    const previousQuestion = recentTurns[recentTurns.length - 1].question;
+    const currentKeywords = new Set(extractKeywords(question));
+    const carriedKeywords = extractKeywords(previousQuestion, { limit: 5 })
+      .filter(keyword => !currentKeywords.has(keyword));
+    const standaloneQuestion = [...carriedKeywords, question].join(' ');
+    console.log(`💬 후속 질문 재작성 (키워드 폴백): "${standaloneQuestion}"`);
+
+    return {
+      originalQuestion: question,
+      standaloneQuestion,
+      isFollowUp: true,
+      method: 'heuristic',
+      reason: `직전 질문 키워드 보강: ${carriedKeywords.join(', ') || '없음'}`
+    };
+  }
+
+  /**
+   * 앞 대화를 가리키는 표현이 있거나 핵심어가 거의 없으면 후속 질문으로 판단
+   */
+  private looksLikeFollowUp(question: string): boolean {
+    const trimmed = question.trim();
+    if (FOLLOW_UP_PREFIX.test(trimmed) || FOLLOW_UP_MARKERS.test(trimmed)) return true;
+    return extractKeywords(trimmed).length <= 1;
+  }
+
+  private async condenseWithModel(question: string, turns: ConversationTurn[], signal?: AbortSignal): Promise<QueryRewrite | null> {
+    const history = turns.map((turn, index) => {
+      const citations = turn.citations.length > 0
+        ? `\n근거:\n${turn.citations.map(citation => `- ${citation}`).join('\n')}`
+        : '';
+      return `[${index + 1}] 사용자: ${turn.question}\n어시스턴트: ${turn.answer.substring(0, 300)}${citations}`;
+    }).join('\n\n');
+
+    const condensePrompt = `
+다음은 사용자와 어시스턴트의 이전 대화와 답변 근거입니다.
+
+${history}
+
+후속 질문: "${question}"
+
+후속 질문이 가리키는 대상(사업, 시설, 조문, 절차 등)을 이전 대화에서 찾아 채워 넣어
+이전 대화 없이도 이해되는 독립적인 한국어 질문 한 문장으로 다시 써주세요.
+- 질문의 의도와 범위를 바꾸지 마세요.
+- 이전 대화와 무관한 질문이면 원문을 그대로 반환하세요.
+
+다음 형식의 JSON으로만 답변해주세요:
+{
+  "standaloneQuestion": "독립 질문",
+  "reason": "어떤 대상을 보완했는지 한 줄 설명"
+}
+`;
+
+    const text = await llmProvider.generateJson({
+      systemInstruction: 'You rewrite Korean follow-up questions into standalone search queries.',
+      prompt: condensePrompt,
+      temperature: 0,
+      signal
+    });
+
+    const parsed = JSON.parse(text.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim());
+    const standaloneQuestion = typeof parsed.standaloneQuestion === 'string' ? parsed.standaloneQuestion.trim() : '';
+    if (!standaloneQuestion) return null;
+
+    return {
+      originalQuestion: question,
+      standaloneQuestion,
+      isFollowUp: standaloneQuestion !== question.trim(),
+      method: 'llm',
+      reason: typeof parsed.reason === 'string' ? parsed.reason : undefined
+    };
+  }
+
   /**
    * 강화된 AI 질문 분석 (같은 모델 재시도)
    */
-  private async analyzeWithRetry(question: string): Promise<QuestionAnalysis> {
-    const apiKeys = this.getApiKeys();
-    const model = 'gemini-2.5-flash';
+  private async analyzeWithRetry(question: string, signal?: AbortSignal): Promise<QuestionAnalysis> {
+    const model = llmProvider.defaultModel;
+    let lastError: unknown;
     
-    for (const apiKey of apiKeys) {
+    for (let attempt = 1; attempt <= QuestionAnalyzer.ANALYSIS_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
       try {
-        console.log(`AI 분석 시도: ${model} with ${apiKey.substring(0, 10)}...`);
-        return await this.analyzeWithModel(question, model, apiKey);
+        console.log(`AI 분석 시도: ${model} (${attempt}/${QuestionAnalyzer.ANALYSIS_ATTEMPTS})`);
+        return await this.analyzeWithModel(question, model, signal);
       } catch (error) {
-        console.warn(`AI 분석 실패: ${model} with ${apiKey.substring(0, 10)}...`, error);
-        continue;
+        // 중지한 요청은 재시도하지 않음
+        if (isAbortError(error)) throw error;
+        console.warn(`AI 분석 실패: ${model} (${attempt}/${QuestionAnalyzer.ANALYSIS_ATTEMPTS})`, error);
+        lastError = error;
       }
     }
     
-    throw new Error('모든 API 키로 분석에 실패했습니다.');
+    throw new Error(`AI 분석에 실패했습니다: ${lastError instanceof Error ? lastError.message : '알 수 없는 오류'}`);
   }
 
   /**
-   * 특정 모델과 API 키로 분석
+   * 특정 모델로 분석
    */
-  private async analyzeWithModel(question: string, model: string, apiKey: string): Promise<QuestionAnalysis> {
-    const ai = new GoogleGenAI({ apiKey });
-    const chat = ai.chats.create({
-      model: model,
-      config: {
-        systemInstruction: 'You are an expert assistant for analyzing Korean questions about smoking cessation policies and regulations.'
-      },
-      history: [],
-    });
-
+  private async analyzeWithModel(question: string, model: string, signal?: AbortSignal): Promise<QuestionAnalysis> {
       const analysisPrompt = `
 다음 질문을 분석하여 JSON 형태로 답변해주세요:
 
@@ -171,8 +236,13 @@ AI 질문 분석 서비스를 사용할 수 없습니다.
     console.log(`🔍 AI 모델 호출 시작: ${model}`);
     console.log(`🔍 프롬프트:`, analysisPrompt.substring(0, 200) + '...');
     
-    const result = await chat.sendMessage({ message: analysisPrompt });
-    const text = result.text;
+    // JSON 모드 요청
+    const text = await llmProvider.generateJson({
+      model,
+      systemInstruction: 'You are an expert assistant for analyzing Korean questions about smoking cessation policies and regulations.',
+      prompt: analysisPrompt,
+      signal
+    });
       
       console.log(`🔍 AI 원본 응답:`, text);
       console.log(`🔍 응답 길이:`, text.length);
@@ -229,16 +299,11 @@ AI 질문 분석 서비스를 사용할 수 없습니다.
   }
 
   /**
- * 컨텍스트 선택기 (Firestore 우선)
+ * 컨텍스트 선택기 (검색 오케스트레이터 사용)
  */
 export class ContextSelector {
   private static chunks: Chunk[] = [];
-  private static firestoreService: FirestoreService = FirestoreService.getInstance();
-  private static unifiedSynonymService: UnifiedSynonymService = UnifiedSynonymService.getInstance();
-  private static comprehensiveSynonymExpansion: ComprehensiveSynonymExpansion = ComprehensiveSynonymExpansion.getInstance();
-  private static dynamicSynonymService: DynamicSynonymService = DynamicSynonymService.getInstance();
-  private static multiStageSearch: MultiStageSearchSystem = new MultiStageSearchSystem();
-  private static semanticSearch: SemanticSearchEngine = new SemanticSearchEngine();
+  private static unifiedSearch: UnifiedSearchEngine = new UnifiedSearchEngine();
   
   // 동적 컨텍스트 길이 제한 상수
   private static readonly MIN_CONTEXT_LENGTH = 15000; // 최소 15,000자
@@ -354,12 +419,13 @@ export class ContextSelector {
   }
 
   /**
-   * Firestore에서 관련 컨텍스트 검색
+   * 검색 오케스트레이터로 관련 컨텍스트 검색
    */
   static async selectRelevantContexts(
     questionAnalysis: QuestionAnalysis,
     allChunks: Chunk[], // This will be the fallback if Firestore fails
-    maxChunks?: number // 동적으로 계산됨
+    maxChunks?: number, // 동적으로 계산됨
+    asOfDate: string | undefined = questionAnalysis.asOfDate // 기준일 (해당일 시행 판본만 사용)
   ): Promise<Chunk[]> {
     console.log(`🔍 컨텍스트 선택 시작: "${questionAnalysis.intent}"`);
     console.log(`📊 질문 분석 정보:`, {
@@ -376,83 +442,38 @@ export class ContextSelector {
     console.log(`🎯 동적 설정 적용: 최대 ${maxContextLength}자, ${actualMaxChunks}개 청크`);
     console.log(`📈 사용 가능한 총 청크 수: ${allChunks.length}개`);
     
-    // 1. Firestore에서 키워드 기반 검색
-    let firestoreChunks: Chunk[] = [];
+    // 1. 검색 오케스트레이터(어휘·동의어·임베딩 RRF 융합 + 판본 필터)로 검색 - 순위는 융합 순위 그대로 사용
+    let retrievedChunks: Chunk[] = [];
     try {
-      console.log(`🔍 1단계: Firestore 키워드 검색 시작`);
-      console.log(`🔍 검색 키워드: [${questionAnalysis.keywords.join(', ')}]`);
-      console.log(`🔍 최대 청크 수: ${actualMaxChunks}개`);
-      
-      const firestoreResults = await this.firestoreService.searchChunksByKeywords(
-        questionAnalysis.keywords,
-        undefined,
-        actualMaxChunks
-      );
-      
-      console.log(`📊 Firestore 원본 결과: ${firestoreResults.length}개 청크`);
-      
-      // Firestore 결과를 Chunk 형식으로 변환
-      firestoreChunks = await this.convertPDFChunksToChunks(firestoreResults);
-      
-      console.log(`✅ 1단계 완료: Firestore 키워드 검색 ${firestoreChunks.length}개 청크`);
-      console.log(`📋 검색된 청크 정보:`, firestoreChunks.map(c => ({
-        id: c.id,
-        contentLength: c.content.length,
-        keywords: c.keywords.slice(0, 3),
-        section: c.metadata.section
-      })));
+      console.log(`🔍 1단계: 통합 검색 (RRF 융합) 시작 - 키워드 [${(questionAnalysis.keywords || []).join(', ')}]`);
+      const searchResult = await this.unifiedSearch.executeUnifiedSearch({ ...questionAnalysis, asOfDate }, actualMaxChunks);
+      retrievedChunks = searchResult.chunks;
+      console.log(`✅ 1단계 완료: 통합 검색 ${retrievedChunks.length}개 청크`);
     } catch (error) {
-      console.warn('⚠️ 1단계 실패: Firestore 키워드 검색 실패:', error);
-    }
-
-    // 2. Firestore에서 텍스트 기반 검색 (키워드 검색 결과가 부족한 경우)
-    if (firestoreChunks.length < actualMaxChunks) {
-      try {
-        console.log(`🔍 2단계: Firestore 텍스트 검색 시작`);
-        console.log(`🔍 검색 텍스트: "${questionAnalysis.context}"`);
-        console.log(`🔍 추가 필요 청크: ${actualMaxChunks - firestoreChunks.length}개`);
-        
-        const textResults = await this.firestoreService.searchChunksByText(
-          questionAnalysis.context,
-          undefined,
-          actualMaxChunks - firestoreChunks.length
-        );
-        
-        console.log(`📊 Firestore 텍스트 검색 원본 결과: ${textResults.length}개 청크`);
-        
-        // 중복 제거하면서 추가
-        const filteredTextResults = textResults
-          .filter(chunk => !firestoreChunks.some(existing => existing.id === chunk.id));
-        const additionalChunks = await this.convertPDFChunksToChunks(filteredTextResults);
-        
-        firestoreChunks = [...firestoreChunks, ...additionalChunks];
-        console.log(`✅ 2단계 완료: Firestore 텍스트 검색 ${additionalChunks.length}개 추가 청크`);
-        console.log(`📋 추가된 청크 정보:`, additionalChunks.map(c => ({
-          id: c.id,
-          contentLength: c.content.length,
-          keywords: c.keywords.slice(0, 3),
-          section: c.metadata.section
-        })));
-      } catch (error) {
-        console.warn('⚠️ 2단계 실패: Firestore 텍스트 검색 실패:', error);
-      }
+      console.warn('⚠️ 1단계 실패: 통합 검색 실패:', error);
     }
     
-    // Firestore 결과가 있으면 사용, 없으면 로컬 청크 사용
-    let chunksToUse = firestoreChunks.length > 0 ? firestoreChunks : allChunks;
-    
-    console.log(`🔍 3단계: 최종 청크 선택`);
-    console.log(`📊 사용할 청크 소스: ${firestoreChunks.length > 0 ? 'Firestore' : '로컬 캐시'}`);
-    console.log(`📊 선택된 청크 수: ${chunksToUse.length}개`);
+    // 검색 결과가 없으면 로컬 청크 사용 (판본 필터 후 키워드 포함 수 순)
+    let chunksToUse = retrievedChunks;
+    if (chunksToUse.length === 0 && allChunks.length > 0) {
+      console.log(`📊 검색 결과 없음 - 로컬 캐시 청크 ${allChunks.length}개 사용`);
+      const keywords = (questionAnalysis.keywords || []).map(keyword => keyword.toLowerCase());
+      const countMatches = (chunk: Chunk) => keywords.filter(keyword => chunk.content.toLowerCase().includes(keyword)).length;
+      chunksToUse = (await documentVersionService.filterChunksAsOf(allChunks, asOfDate))
+        .map(chunk => ({ chunk, matches: countMatches(chunk) }))
+        .filter(item => item.matches > 0)
+        .sort((a, b) => b.matches - a.matches)
+        .map(item => item.chunk);
+    }
     
     // 동적 컨텍스트 길이 제한 적용
-    console.log(`🔍 4단계: 동적 컨텍스트 길이 제한 적용`);
+    console.log(`🔍 2단계: 동적 컨텍스트 길이 제한 적용`);
     console.log(`📏 최대 컨텍스트 길이: ${maxContextLength}자`);
     console.log(`📏 최대 청크 수: ${actualMaxChunks}개`);
     
     chunksToUse = this.applyDynamicContextLengthLimit(chunksToUse, maxContextLength, actualMaxChunks);
     
-    console.log(`✅ 4단계 완료: 최종 선택된 청크 ${chunksToUse.length}개`);
+    console.log(`✅ 2단계 완료: 최종 선택된 청크 ${chunksToUse.length}개`);
     console.log(`📋 최종 청크 상세 정보:`, chunksToUse.map((c, index) => ({
       index: index + 1,
       id: c.id,
@@ -521,62 +542,9 @@ export class ContextSelector {
       }
     }
 
-    // 개선된 관련성 점수 계산
-    const scoredChunks = chunksToUse.map(chunk => {
-      const score = this.calculateEnhancedRelevanceScore(questionAnalysis, chunk);
-      return { chunk, score };
-    });
-
-    // 점수순으로 정렬하고 상위 청크 선택
-    const sortedChunks = scoredChunks
-      .sort((a, b) => b.score - a.score)
-      .slice(0, maxChunks)
-      .map(item => item.chunk);
-
-    console.log(`✅ 컨텍스트 선택 완료: ${sortedChunks.length}개 청크 (최고 점수: ${scoredChunks[0]?.score || 0})`);
+    console.log(`✅ 컨텍스트 선택 완료: ${chunksToUse.length}개 청크`);
     
-    return sortedChunks;
-  }
-
-  /**
-   * 컨텍스트 길이 제한 적용 (기존)
-   */
-  private static applyContextLengthLimit(chunks: Chunk[], maxChunks: number): Chunk[] {
-    if (chunks.length === 0) return chunks;
-    
-    // 1. 각 청크의 길이를 MAX_CHUNK_LENGTH로 제한
-    const trimmedChunks = chunks.map(chunk => ({
-      ...chunk,
-      content: chunk.content.length > this.MAX_CHUNK_LENGTH 
-        ? chunk.content.substring(0, this.MAX_CHUNK_LENGTH) + '...'
-        : chunk.content
-    }));
-    
-    // 2. 총 컨텍스트 길이 계산
-    let totalLength = 0;
-    const limitedChunks: Chunk[] = [];
-    
-    for (const chunk of trimmedChunks) {
-      const chunkLength = chunk.content.length;
-      
-      // 컨텍스트 길이 제한 확인
-      if (totalLength + chunkLength > this.MAX_CONTEXT_LENGTH) {
-        console.log(`⚠️ 컨텍스트 길이 제한 도달: ${totalLength}자 (제한: ${this.MAX_CONTEXT_LENGTH}자)`);
-        break;
-      }
-      
-      // 청크 수 제한 확인
-      if (limitedChunks.length >= maxChunks) {
-        console.log(`⚠️ 최대 청크 수 제한 도달: ${limitedChunks.length}개 (제한: ${maxChunks}개)`);
-        break;
-      }
-      
-      limitedChunks.push(chunk);
-      totalLength += chunkLength;
-    }
-    
-    console.log(`✅ 컨텍스트 길이 제한 적용: ${limitedChunks.length}개 청크, ${totalLength}자`);
-    return limitedChunks;
+    return chunksToUse;
   }
 
   /**
@@ -626,231 +594,6 @@ export class ContextSelector {
     console.log(`✅ 동적 컨텍스트 길이 제한 적용: ${limitedChunks.length}개 청크, ${totalLength}자 (최대: ${maxContextLength}자)`);
     return limitedChunks;
   }
-
-  /**
-   * 개선된 관련성 점수 계산
-   */
-  private static calculateEnhancedRelevanceScore(questionAnalysis: QuestionAnalysis, chunk: Chunk): number {
-    let score = 0;
-    const { keywords, category, complexity, intent } = questionAnalysis;
-
-    // 1. 키워드 매칭 점수 (가중치 적용)
-    const keywordMatches = keywords.filter(keyword =>
-      chunk.keywords.some(chunkKeyword =>
-        chunkKeyword.toLowerCase().includes(keyword.toLowerCase()) ||
-        keyword.toLowerCase().includes(chunkKeyword.toLowerCase())
-      )
-    ).length;
-    score += keywordMatches * 15; // 가중치 증가
-
-    // 2. 내용 매칭 점수 (정확한 매치 우선)
-    const exactMatches = keywords.filter(keyword =>
-      chunk.content.toLowerCase().includes(keyword.toLowerCase())
-    ).length;
-    score += exactMatches * 10;
-
-    // 3. 동의어 매칭 점수
-    const synonyms = this.getExpandedSynonyms(keywords);
-    const synonymMatches = synonyms.filter(synonym =>
-      chunk.content.toLowerCase().includes(synonym.toLowerCase())
-    ).length;
-    score += synonymMatches * 8;
-
-    // 4. 의미적 유사도 점수
-    const semanticScore = this.calculateSemanticSimilarity(questionAnalysis, chunk);
-    score += semanticScore * 20;
-
-    // 5. 카테고리 매칭 점수 (개선)
-    const categoryScore = this.calculateCategoryScore(category, chunk);
-    score += categoryScore;
-
-    // 6. 위치 기반 점수 (문서 상단 우선)
-    const positionScore = this.calculatePositionScore(chunk);
-    score += positionScore;
-
-    // 7. 문서 타입 점수
-    const documentTypeScore = this.calculateDocumentTypeScore(chunk);
-    score += documentTypeScore;
-
-    // 8. 복잡도 매칭 점수
-    const complexityScore = this.calculateComplexityScore(complexity, chunk);
-    score += complexityScore;
-
-    return Math.round(score * 100) / 100; // 소수점 2자리까지
-  }
-
-  /**
-   * 카테고리 매칭 점수 계산
-   */
-  private static calculateCategoryScore(category: string, chunk: Chunk): number {
-    const categoryKeywords = {
-      'definition': ['정의', '의미', '개념', '내용', '규정', '조항'],
-      'procedure': ['절차', '방법', '과정', '단계', '순서', '절차'],
-      'regulation': ['규정', '법령', '조항', '법률', '시행령', '시행규칙'],
-      'comparison': ['비교', '차이', '구분', '대조', '상이', '다른'],
-      'analysis': ['분석', '검토', '고려', '판단', '평가', '검토'],
-      'general': ['일반', '기본', '공통', '표준', '기준', '원칙']
-    };
-
-    const keywords = categoryKeywords[category] || [];
-    const matches = keywords.filter(keyword =>
-      chunk.content.toLowerCase().includes(keyword.toLowerCase()) ||
-      chunk.metadata.section.toLowerCase().includes(keyword.toLowerCase())
-    ).length;
-
-    return matches * 12;
-  }
-
-  /**
-   * 위치 기반 점수 계산 (문서 상단 우선)
-   */
-  private static calculatePositionScore(chunk: Chunk): number {
-    const position = chunk.metadata.position || 0;
-    const totalSize = chunk.metadata.originalSize || 1;
-    const relativePosition = position / totalSize;
-
-    // 상단 20%는 높은 점수
-    if (relativePosition < 0.2) return 15;
-    // 상단 50%는 중간 점수
-    if (relativePosition < 0.5) return 10;
-    // 하단 50%는 낮은 점수
-    return 5;
-  }
-
-  /**
-   * 문서 타입 점수 계산
-   */
-  private static calculateDocumentTypeScore(chunk: Chunk): number {
-    const title = chunk.metadata.title.toLowerCase();
-    
-    // 법령 문서 우선
-    if (title.includes('법률') || title.includes('시행령') || title.includes('시행규칙')) {
-      return 20;
-    }
-    // 가이드라인, 지침 우선
-    if (title.includes('가이드라인') || title.includes('지침') || title.includes('매뉴얼')) {
-      return 15;
-    }
-    // 안내서 우선
-    if (title.includes('안내') || title.includes('안내서')) {
-      return 10;
-    }
-    
-    return 5;
-  }
-
-  /**
-   * 복잡도 매칭 점수 계산
-   */
-  private static calculateComplexityScore(complexity: string, chunk: Chunk): number {
-    const contentLength = chunk.content.length;
-    
-    switch (complexity) {
-      case 'complex':
-        // 복잡한 질문은 긴 내용 선호
-        if (contentLength > 1000) return 15;
-        if (contentLength > 500) return 10;
-        return 5;
-      case 'medium':
-        // 중간 질문은 중간 길이 선호
-        if (contentLength > 500 && contentLength < 1000) return 12;
-        if (contentLength > 200 && contentLength < 500) return 8;
-        return 5;
-      case 'simple':
-        // 간단한 질문은 짧은 내용 선호
-        if (contentLength < 200) return 12;
-        if (contentLength < 500) return 8;
-        return 5;
-      default:
-        return 5;
-    }
-  }
-
-  /**
-   * 의미적 유사도 계산
-   */
-  private static calculateSemanticSimilarity(questionAnalysis: QuestionAnalysis, chunk: Chunk): number {
-    const questionWords = questionAnalysis.intent.toLowerCase().split(/\s+/);
-    const chunkWords = chunk.content.toLowerCase().split(/\s+/);
-    
-    // Jaccard 유사도
-    const intersection = new Set(questionWords.filter(word => chunkWords.includes(word)));
-    const union = new Set([...questionWords, ...chunkWords]);
-    
-    return intersection.size / union.size;
-  }
-
-  /**
-   * 확장된 동의어 목록 생성 (동적 동의어 서비스 우선 사용)
-   */
-  private static getExpandedSynonyms(keywords: string[]): string[] {
-    // 1. 동적 동의어 서비스에서 확장 (PDF 기반 포괄적 사전)
-    const dynamicExpanded = this.dynamicSynonymService.expandKeywords(keywords);
-    
-    // 2. 통합 동의어 서비스에서 추가 확장 (폴백)
-    const basicExpanded = this.unifiedSynonymService.expandKeywords(keywords);
-    
-    // 3. 포괄적 동의어 확장 서비스에서 추가 확장
-    const comprehensiveExpanded: string[] = [];
-    keywords.forEach(keyword => {
-      comprehensiveExpanded.push(...this.comprehensiveSynonymExpansion.expandKeyword(keyword));
-    });
-    
-    // 모든 결과 통합 및 중복 제거
-    const allExpanded = [...dynamicExpanded, ...basicExpanded, ...comprehensiveExpanded];
-    return [...new Set(allExpanded)]; // 중복 제거
-  }
-
-  /**
-   * Jaccard 유사도 계산
-   */
-  private static calculateJaccardSimilarity(questionWords: string[], chunkWords: string[]): number {
-    const intersection = questionWords.filter(word => chunkWords.includes(word));
-    const union = [...new Set([...questionWords, ...chunkWords])];
-    
-    return intersection.length / union.length; // Jaccard 유사도
-  }
-
-  /**
-   * PDFChunk를 Chunk로 변환 (document 정보 조회 포함)
-   */
-  private static async convertPDFChunksToChunks(pdfChunks: PDFChunk[]): Promise<Chunk[]> {
-    // documentId별로 그룹화하여 중복 조회 방지
-    const documentIds = [...new Set(pdfChunks.map(p => p.documentId))];
-    
-    // 모든 문서 정보 조회
-    const documents = await Promise.all(
-      documentIds.map(id => this.firestoreService.getDocumentById(id))
-    );
-    
-    // documentId -> PDFDocument 맵 생성
-    const docMap = new Map(documents.filter(d => d !== null).map(d => [d.id, d]));
-    
-    return pdfChunks.map(pdfChunk => {
-      const doc = docMap.get(pdfChunk.documentId);
-      
-      return {
-        id: pdfChunk.id || `firestore-${Math.random()}`,
-        content: pdfChunk.content,
-        metadata: {
-          source: pdfChunk.metadata?.source || doc?.filename || 'Firestore',
-          title: pdfChunk.metadata?.title || doc?.title || 'Unknown',
-          page: pdfChunk.metadata?.page || 1,
-          section: pdfChunk.metadata?.section || 'Unknown',
-          position: pdfChunk.metadata?.position || 0,
-          startPosition: pdfChunk.metadata?.startPos || 0,
-          endPosition: pdfChunk.metadata?.endPos || 0,
-          originalSize: pdfChunk.metadata?.originalSize || 0
-        },
-        keywords: pdfChunk.keywords || [],
-        location: {
-          document: doc?.title || pdfChunk.documentId || 'Unknown',
-          section: pdfChunk.metadata?.section || 'Unknown',
-          page: pdfChunk.metadata?.page || 1
-        }
-      };
-    });
-  }
 }
 
 // 싱글톤 인스턴스 생성
@@ -0,0 +1,396 @@
+/**
+ * 검색 오케스트레이터 (Reciprocal Rank Fusion)
+ * 어휘(BM25/키워드), 동의어 확장, 임베딩, 표, 사용자 피드백 검색을 병렬로 실행하고
+ * 검색기별 순위를 RRF로 융합: score(chunk) = Σ weight_s / (k + rank_s)
+ *
+ * - 점수 척도가 다른 검색기를 순위만으로 합치므로 검색기별 점수 정규화가 필요 없음
+ * - 융합 결과마다 검색기별 순위(provenance)를 함께 반환 → 청크가 선택된 이유 확인
+ * - 가중치와 k는 IndexedDB에 저장 (관리자 페이지 검색 품질 탭에서 조정)
+ */
+
+import { QuestionAnalysis, RetrievalProvenance, RetrievalSource, RetrievalSourceRank } from '../types';
+import { FirestoreService, PDFChunk } from './firestoreService';
+import { UnifiedSynonymService } from './unifiedSynonymService';
+import { ComprehensiveSynonymExpansion } from './comprehensiveSynonymExpansion';
+import { DynamicSynonymService } from './dynamicSynonymService';
+import { LocalEmbeddingService } from './localEmbeddingService';
+import { documentVersionService } from './documentVersionService';
+import { feedbackService, FeedbackSignal } from './feedbackService';
+import { tableIndexService } from './tableIndexService';
+import { IndexedDbStore } from './indexedDbStore';
+
+export interface RetrievalConfig {
+  weights: Record<RetrievalSource, number>;  // 0이면 해당 검색기 실행 안 함
+  rrfK: number;                              // 순위 완화 상수 (클수록 하위 순위 영향 증가)
+  candidatesPerSource: number;               // 검색기별 후보 수
+}
+
+export interface FusedChunk {
+  chunk: PDFChunk;
+  provenance: RetrievalProvenance;
+}
+
+export interface FusedRetrievalResult {
+  chunks: FusedChunk[];
+  sourceCounts: Record<RetrievalSource, number>;  // 검색기별 후보 수
+  config: RetrievalConfig;
+  executionTime: number;
+}
+
+interface RankedList {
+  source: RetrievalSource;
+  items: { chunk: PDFChunk; score: number }[];
+}
+
+export const RETRIEVAL_SOURCE_LABELS: Record<RetrievalSource, string> = {
+  lexical: '어휘',
+  synonym: '동의어',
+  embedding: '임베딩',
+  table: '표',
+  feedback: '피드백'
+};
+
+// 융합하는 검색기 목록 (답변 보류 판정의 검색기 합의 등 검색기 수가 필요한 곳에서 사용)
+export const RETRIEVAL_SOURCES = Object.keys(RETRIEVAL_SOURCE_LABELS) as RetrievalSource[];
+
+// 어휘 검색 우선 (법령 용어 일치가 가장 정밀), 동의어·임베딩은 재현율 보완
+// 동의어 검색은 원 키워드 없이 확장어만 쓰므로 정밀도가 낮아 가중치를 가장 낮게 둠
+// 표 검색은 표 제목·머리글·칸이 질문과 맞는 표가 있는 청크를 찾음 (본문 추출이 흐트러진 표 보완)
+// 피드백 검색은 비슷한 질문에서 올바른 근거·👍 인용으로 지정된 청크 (다른 검색기가 놓쳐도 후보에 들어감)
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  weights: { lexical: 1.0, synonym: 0.3, embedding: 0.6, table: 0.6, feedback: 1.0 },
+  rrfK: 60,
+  candidatesPerSource: 100
+};
+
+const MAX_SYNONYM_TERMS = 30;
+
+export class RetrievalOrchestrator {
+  private static instance: RetrievalOrchestrator;
+  private readonly STORE_NAME = 'config';
+  private readonly database = new IndexedDbStore('RetrievalConfigDB', 1, [this.STORE_NAME], '검색 융합 설정');
+  private config: RetrievalConfig | null = null;
+  private firestoreService: FirestoreService;
+  private unifiedSynonymService: UnifiedSynonymService;
+  private comprehensiveSynonymExpansion: ComprehensiveSynonymExpansion;
+  private dynamicSynonymService: DynamicSynonymService;
+  private localEmbeddingService: LocalEmbeddingService;
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+    this.unifiedSynonymService = UnifiedSynonymService.getInstance();
+    this.comprehensiveSynonymExpansion = ComprehensiveSynonymExpansion.getInstance();
+    this.dynamicSynonymService = DynamicSynonymService.getInstance();
+    this.localEmbeddingService = LocalEmbeddingService.getInstance();
+  }
+
+  public static getInstance(): RetrievalOrchestrator {
+    if (!RetrievalOrchestrator.instance) {
+      RetrievalOrchestrator.instance = new RetrievalOrchestrator();
+    }
+    return RetrievalOrchestrator.instance;
+  }
+
+  /**
+   * 검색 실행: 검색기 병렬 실행 → 판본 필터 → RRF 융합 (+ 👎 피드백 감점)
+   */
+  async retrieve(questionAnalysis: QuestionAnalysis, maxChunks: number = 50, signal?: AbortSignal): Promise<FusedRetrievalResult> {
+    const startTime = Date.now();
+    const config = await this.getConfig();
+    signal?.throwIfAborted();
+    const { weights, candidatesPerSource } = config;
+    const feedbackSignals = weights.feedback > 0
+      ? await feedbackService.getRankingSignals(questionAnalysis.context || (questionAnalysis.keywords || []).join(' '))
+      : [];
+
+    const [lexical, synonym, embedding, table, feedback] = await Promise.all([
+      weights.lexical > 0 ? this.retrieveLexical(questionAnalysis, candidatesPerSource) : this.emptyList('lexical'),
+      weights.synonym > 0 ? this.retrieveSynonym(questionAnalysis, candidatesPerSource) : this.emptyList('synonym'),
+      weights.embedding > 0 ? this.retrieveEmbedding(questionAnalysis, candidatesPerSource) : this.emptyList('embedding'),
+      weights.table > 0 ? this.retrieveTable(questionAnalysis, candidatesPerSource) : this.emptyList('table'),
+      weights.feedback > 0 ? this.retrieveFeedback(feedbackSignals, candidatesPerSource) : this.emptyList('feedback')
+    ]);
+    signal?.throwIfAborted();
+
+    // ✅ 사용할 판본만 유지 - 순위는 필터 후 기준으로 매김
+    const lists: RankedList[] = await Promise.all([lexical, synonym, embedding, table, feedback].map(async list => ({
+      source: list.source,
+      items: await documentVersionService.filterChunksAsOf(
+        list.items.map(item => ({ ...item, documentId: item.chunk.documentId })),
+        questionAnalysis.asOfDate
+      )
+    })));
+
+    const penalties = new Map(feedbackSignals.filter(item => item.signal < 0).map(item => [item.chunkId, item.signal]));
+    const chunks = this.fuse(lists, config, penalties).slice(0, maxChunks);
+    const sourceCounts = {
+      lexical: lists[0].items.length,
+      synonym: lists[1].items.length,
+      embedding: lists[2].items.length,
+      table: lists[3].items.length,
+      feedback: lists[4].items.length
+    };
+    const executionTime = Date.now() - startTime;
+
+    console.log(`⚖️ RRF 융합 완료: 어휘 ${sourceCounts.lexical}개, 동의어 ${sourceCounts.synonym}개, 임베딩 ${sourceCounts.embedding}개, 표 ${sourceCounts.table}개, 피드백 ${sourceCounts.feedback}개 → ${chunks.length}개 (${executionTime}ms)`);
+    return { chunks, sourceCounts, config, executionTime };
+  }
+
+  /**
+   * RRF 융합: 검색기별 순위 기여도를 합산하여 정렬
+   * 비슷한 질문에서 👎 답변이 인용한 청크는 신호(-1~0)만큼 감점 (신호 -1 = 피드백 검색기 1위 기여도만큼)
+   */
+  private fuse(lists: RankedList[], config: RetrievalConfig, feedbackPenalties: Map<string, number> = new Map()): FusedChunk[] {
+    const fused = new Map<string, { chunk: PDFChunk; sources: RetrievalSourceRank[] }>();
+
+    lists.forEach(list => {
+      const weight = config.weights[list.source];
+      const seen = new Set<string>();
+      let rank = 0;
+
+      list.items.forEach(({ chunk, score }) => {
+        const id = chunk.id || '';
+        if (!id || seen.has(id)) return;
+        seen.add(id);
+        rank++;
+
+        const entry = fused.get(id) || { chunk, sources: [] };
+        entry.sources.push({ source: list.source, rank, score, contribution: weight / (config.rrfK + rank) });
+        fused.set(id, entry);
+      });
+    });
+
+    return Array.from(fused.values())
+      .map(({ chunk, sources }) => {
+        const feedbackAdjustment = (feedbackPenalties.get(chunk.id || '') || 0) * config.weights.feedback / (config.rrfK + 1);
+        return {
+          chunk,
+          fusedScore: sources.reduce((sum, source) => sum + source.contribution, 0) + feedbackAdjustment,
+          sources,
+          feedbackAdjustment
+        };
+      })
+      // 동점이면 더 많은 검색기가 찾은 청크, 그다음 최고 순위가 높은 청크 우선
+      .sort((a, b) =>
+        b.fusedScore - a.fusedScore ||
+        b.sources.length - a.sources.length ||
+        Math.min(...a.sources.map(s => s.rank)) - Math.min(...b.sources.map(s => s.rank))
+      )
+      .map(({ chunk, fusedScore, sources, feedbackAdjustment }, index) => ({
+        chunk,
+        provenance: {
+          fusedScore,
+          fusedRank: index + 1,
+          sources,
+          ...(feedbackAdjustment !== 0 ? { feedbackAdjustment } : {})
+        }
+      }));
+  }
+
+  /**
+   * 어휘 검색: 질문 키워드 (BM25 역색인이 있으면 BM25 순위, 없으면 키워드 매칭 점수 순위)
+   */
+  private async retrieveLexical(questionAnalysis: QuestionAnalysis, limit: number): Promise<RankedList> {
+    try {
+      const chunks = await this.firestoreService.searchChunksByKeywords(questionAnalysis.keywords || [], undefined, limit);
+      return { source: 'lexical', items: chunks.map((chunk, index) => ({ chunk, score: chunks.length - index })) };
+    } catch (error) {
+      console.warn('⚠️ 어휘 검색 실패:', error);
+      return this.emptyList('lexical');
+    }
+  }
+
+  /**
+   * 동의어 확장 검색: 확장된 동의어만으로 검색 (원 키워드 일치는 어휘 검색이 이미 반영하므로 중복 집계하지 않음, 동의어가 없으면 생략)
+   */
+  private async retrieveSynonym(questionAnalysis: QuestionAnalysis, limit: number): Promise<RankedList> {
+    try {
+      const synonyms = this.expandSynonyms(questionAnalysis);
+      if (synonyms.length === 0) return this.emptyList('synonym');
+
+      const chunks = await this.firestoreService.searchChunksByKeywords(synonyms, undefined, limit);
+      return { source: 'synonym', items: chunks.map((chunk, index) => ({ chunk, score: chunks.length - index })) };
+    } catch (error) {
+      console.warn('⚠️ 동의어 검색 실패:', error);
+      return this.emptyList('synonym');
+    }
+  }
+
+  /**
+   * 임베딩 검색: 질문 임베딩과 청크 임베딩의 코사인 유사도 순위
+   */
+  private async retrieveEmbedding(questionAnalysis: QuestionAnalysis, limit: number): Promise<RankedList> {
+    try {
+      await this.localEmbeddingService.initialize();
+      const queryEmbedding = await this.localEmbeddingService.embedText(questionAnalysis.context);
+      const chunks = await this.firestoreService.similaritySearch(queryEmbedding, undefined, limit);
+      return {
+        source: 'embedding',
+        items: chunks.map(chunk => ({ chunk, score: this.cosineSimilarity(queryEmbedding, chunk.embedding || []) }))
+      };
+    } catch (error) {
+      console.warn('⚠️ 임베딩 검색 실패, 어휘/동의어 결과만 융합:', error);
+      return this.emptyList('embedding');
+    }
+  }
+
+  /**
+   * 표 검색: 질문과 맞는 표(제목·머리글·칸) 순위대로 그 표가 있는 쪽의 청크
+   */
+  private async retrieveTable(questionAnalysis: QuestionAnalysis, limit: number): Promise<RankedList> {
+    try {
+      await tableIndexService.loadIndex();
+      const query = [questionAnalysis.context, ...(questionAnalysis.keywords || [])].join(' ');
+      const hits = tableIndexService.searchTables(query, limit);
+      if (hits.length === 0) return this.emptyList('table');
+
+      // 표가 걸친 문서의 청크만 조회 (문서별 청크는 캐시됨)
+      const documentIds = [...new Set(hits.map(hit => hit.table.documentId))];
+      const documentChunks = await Promise.all(documentIds.map(documentId => this.firestoreService.getChunksByDocument(documentId)));
+      const chunksById = new Map(documentChunks.flat().map(chunk => [chunk.id || '', chunk]));
+
+      const items: RankedList['items'] = [];
+      const seen = new Set<string>();
+      hits.forEach(({ table, score }) => {
+        (table.chunkIds || []).forEach(chunkId => {
+          const chunk = chunksById.get(chunkId);
+          if (!chunk || seen.has(chunkId)) return;
+          seen.add(chunkId);
+          items.push({ chunk, score });
+        });
+      });
+      return { source: 'table', items: items.slice(0, limit) };
+    } catch (error) {
+      console.warn('⚠️ 표 검색 실패:', error);
+      return this.emptyList('table');
+    }
+  }
+
+  /**
+   * 피드백 검색: 비슷한 질문의 피드백에서 양수 신호를 받은 청크 (신호가 큰 순)
+   */
+  private async retrieveFeedback(feedbackSignals: FeedbackSignal[], limit: number): Promise<RankedList> {
+    try {
+      const positive = feedbackSignals.filter(item => item.signal > 0).slice(0, limit);
+      if (positive.length === 0) return this.emptyList('feedback');
+
+      // 피드백에 기록된 문서의 청크만 조회 (문서별 청크는 캐시됨)
+      const documentIds = [...new Set(positive.flatMap(item => item.documentIds))];
+      const documentChunks = await Promise.all(documentIds.map(documentId => this.firestoreService.getChunksByDocument(documentId)));
+      const chunksById = new Map(documentChunks.flat().map(chunk => [chunk.id || '', chunk]));
+
+      const items = positive
+        .filter(item => chunksById.has(item.chunkId))
+        .map(item => ({ chunk: chunksById.get(item.chunkId)!, score: item.signal }));
+      return { source: 'feedback', items };
+    } catch (error) {
+      console.warn('⚠️ 피드백 검색 실패:', error);
+      return this.emptyList('feedback');
+    }
+  }
+
+  /**
+   * 동의어 목록 (분석 결과의 확장 키워드 + 동의어 사전), 원래 키워드 제외
+   */
+  private expandSynonyms(questionAnalysis: QuestionAnalysis): string[] {
+    const keywords = questionAnalysis.keywords || [];
+    const original = new Set(keywords);
+    const expanded = [
+      ...(questionAnalysis.expandedKeywords || []),
+      ...this.dynamicSynonymService.expandKeywords(keywords),
+      ...this.unifiedSynonymService.expandKeywords(keywords),
+      ...keywords.flatMap(keyword => this.comprehensiveSynonymExpansion.expandKeyword(keyword))
+    ];
+    return [...new Set(expanded)]
+      .filter(term => term && !original.has(term))
+      .slice(0, MAX_SYNONYM_TERMS);
+  }
+
+  private cosineSimilarity(vector1: number[], vector2: number[]): number {
+    if (vector1.length === 0 || vector1.length !== vector2.length) return 0;
+
+    let dotProduct = 0;
+    let magnitude1 = 0;
+    let magnitude2 = 0;
+    for (let i = 0; i < vector1.length; i++) {
+      dotProduct += vector1[i] * vector2[i];
+      magnitude1 += vector1[i] * vector1[i];
+      magnitude2 += vector2[i] * vector2[i];
+    }
+
+    if (magnitude1 === 0 || magnitude2 === 0) return 0;
+    return dotProduct / (Math.sqrt(magnitude1) * Math.sqrt(magnitude2));
+  }
+
+  private emptyList(source: RetrievalSource): RankedList {
+    return { source, items: [] };
+  }
+
+  /**
+   * 융합 설정 조회 (저장된 값이 없으면 기본값)
+   */
+  async getConfig(): Promise<RetrievalConfig> {
+    if (this.config) return this.config;
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+      const saved = await new Promise<Partial<RetrievalConfig> | null>((resolve) => {
+        const request = store.get('current');
+        request.onsuccess = () => resolve(request.result?.config || null);
+        request.onerror = () => resolve(null);
+      });
+      this.config = this.normalizeConfig(saved || {});
+    } catch (error) {
+      console.warn('⚠️ 검색 융합 설정 로드 실패, 기본값 사용:', error);
+      this.config = this.normalizeConfig({});
+    }
+    return this.config;
+  }
+
+  /**
+   * 융합 설정 저장
+   */
+  async saveConfig(config: Partial<RetrievalConfig>): Promise<RetrievalConfig> {
+    this.config = this.normalizeConfig(config);
+
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put({ id: 'current', config: this.config, timestamp: Date.now() });
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+      console.log('✅ 검색 융합 설정 저장:', this.config);
+    } catch (error) {
+      console.error('❌ 검색 융합 설정 저장 실패:', error);
+    }
+    return this.config;
+  }
+
+  private normalizeConfig(config: Partial<RetrievalConfig>): RetrievalConfig {
+    const weight = (source: RetrievalSource) => {
+      const value = Number(config.weights?.[source]);
+      return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RETRIEVAL_CONFIG.weights[source];
+    };
+    const positive = (value: unknown, fallback: number) => {
+      const number = Number(value);
+      return Number.isFinite(number) && number > 0 ? number : fallback;
+    };
+
+    return {
+      weights: {
+        lexical: weight('lexical'),
+        synonym: weight('synonym'),
+        embedding: weight('embedding'),
+        table: weight('table'),
+        feedback: weight('feedback')
+      },
+      rrfK: positive(config.rrfK, DEFAULT_RETRIEVAL_CONFIG.rrfK),
+      candidatesPerSource: Math.round(positive(config.candidatesPerSource, DEFAULT_RETRIEVAL_CONFIG.candidatesPerSource))
+    };
+  }
+}
+
+export const retrievalOrchestrator = RetrievalOrchestrator.getInstance();
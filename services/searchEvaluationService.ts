@@ -0,0 +1,351 @@
+/**
+ * 검색 품질 평가 서비스
+ * 관리자가 정답 청크를 표시한 질문 세트를 UnifiedSearchEngine / MultiStageSearchSystem / SemanticSearchEngine에
+ * 같은 질문 분석 결과로 나란히 실행하여 엔진별 recall@k, MRR, 지연시간을 비교
+ * MultiStageSearchSystem은 정답 청크를 찾은 단계(정확한 키워드 매칭, 동의어 확장 등)까지 기록
+ * UnifiedSearchEngine(RRF 융합)은 검색 결과마다 검색기별 순위(provenance)를 함께 기록
+ *
+ * 질문 세트는 IndexedDB에 저장되어 관리자 페이지를 다시 열어도 유지됨
+ */
+
+import { Chunk, QuestionAnalysis, RetrievalProvenance } from '../types';
+import { questionAnalyzer } from './questionBasedContextService';
+import { UnifiedSearchEngine } from './unifiedSearchEngine';
+import { MultiStageSearchSystem, SearchStage } from './multiStageSearchSystem';
+import { SemanticSearchEngine } from './semanticSearchEngine';
+import { IndexedDbStore } from './indexedDbStore';
+
+export type EvaluationEngine = 'unified' | 'multiStage' | 'semantic';
+
+export interface EvaluationQuestion {
+  id: string;
+  question: string;
+  goldChunkIds: string[];   // 정답(근거) 청크 ID
+}
+
+export interface RetrievedChunkSummary extends Pick<Chunk, 'id' | 'metadata'> {
+  retrievalProvenance?: RetrievalProvenance;   // RRF 융합 엔진만 (검색기별 순위)
+}
+
+export interface EngineQuestionResult {
+  engine: EvaluationEngine;
+  retrievedIds: string[];
+  retrievedChunks: RetrievedChunkSummary[];            // 정답 라벨링 참고용 (제목/페이지)
+  recall: Record<number, number>;                      // k → recall@k
+  reciprocalRank: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface GoldChunkStageHit {
+  chunkId: string;
+  stages: { name: string; rank: number }[];   // 정답 청크를 찾은 단계와 단계 내 순위 (1부터)
+  inFinalResults: boolean;                   // 통합·랭킹 후 최종 결과에 남았는지
+}
+
+export interface QuestionEvaluationResult {
+  question: EvaluationQuestion;
+  analysis?: QuestionAnalysis;
+  engines: EngineQuestionResult[];
+  goldStageHits: GoldChunkStageHit[];
+  error?: string;
+}
+
+export interface EngineSummary {
+  engine: EvaluationEngine;
+  label: string;
+  recall: Record<number, number>;
+  mrr: number;
+  averageLatencyMs: number;
+  failedQuestions: number;
+}
+
+export interface EvaluationReport {
+  runAt: string;
+  ks: number[];
+  questions: QuestionEvaluationResult[];
+  summaries: EngineSummary[];
+  stageHitCounts: Record<string, number>;   // 단계명 → 정답 청크를 찾은 횟수
+}
+
+export interface EvaluationOptions {
+  ks?: number[];
+  maxResults?: number;
+  onProgress?: (completed: number, total: number, current: string) => void;
+}
+
+export const EVALUATION_ENGINE_LABELS: Record<EvaluationEngine, string> = {
+  unified: 'UnifiedSearchEngine (RRF)',
+  multiStage: 'MultiStageSearchSystem',
+  semantic: 'SemanticSearchEngine'
+};
+
+const DEFAULT_KS = [5, 10];
+const DEFAULT_MAX_RESULTS = 10;
+
+export class SearchEvaluationService {
+  private static instance: SearchEvaluationService;
+  private readonly STORE_NAME = 'question_sets';
+  private readonly database = new IndexedDbStore('SearchEvaluationDB', 1, [this.STORE_NAME], '검색 평가');
+
+  private constructor() {}
+
+  public static getInstance(): SearchEvaluationService {
+    if (!SearchEvaluationService.instance) {
+      SearchEvaluationService.instance = new SearchEvaluationService();
+    }
+    return SearchEvaluationService.instance;
+  }
+
+  /**
+   * 질문 세트 JSON 파싱
+   * - [{ id, question, goldChunkIds }] 배열
+   * - { questions: [...] } 형식 (scripts/rag-regression 정답셋의 expected.chunkIds도 허용)
+   */
+  parseQuestionSet(text: string): EvaluationQuestion[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error('질문 세트가 올바른 JSON 형식이 아닙니다.');
+    }
+
+    const items: any[] = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(items)) {
+      throw new Error('질문 세트는 배열이거나 questions 배열을 포함해야 합니다.');
+    }
+
+    return items.map((item, index) => {
+      const question = typeof item?.question === 'string' ? item.question.trim() : '';
+      const goldChunkIds: unknown = item?.goldChunkIds ?? item?.expected?.chunkIds;
+
+      if (!question) {
+        throw new Error(`${index + 1}번째 항목에 question이 없습니다.`);
+      }
+      if (!Array.isArray(goldChunkIds) || goldChunkIds.length === 0 || goldChunkIds.some(id => typeof id !== 'string')) {
+        throw new Error(`${index + 1}번째 항목("${question}")에 정답 청크 ID(goldChunkIds)가 없습니다.`);
+      }
+
+      return {
+        id: typeof item.id === 'string' && item.id ? item.id : `q${index + 1}`,
+        question,
+        goldChunkIds: goldChunkIds as string[]
+      };
+    });
+  }
+
+  serializeQuestionSet(questions: EvaluationQuestion[]): string {
+    return JSON.stringify(questions, null, 2);
+  }
+
+  /**
+   * 질문 세트 평가 실행 (질문 분석은 1회만 하고 세 엔진에 같은 분석 결과 사용)
+   */
+  async runEvaluation(questions: EvaluationQuestion[], options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    const ks = [...new Set(options.ks && options.ks.length > 0 ? options.ks : DEFAULT_KS)].sort((a, b) => a - b);
+    const maxResults = Math.max(options.maxResults || DEFAULT_MAX_RESULTS, ks[ks.length - 1]);
+    console.log(`📊 검색 품질 평가 시작: ${questions.length}개 질문, k=${ks.join('/')}`);
+
+    const unifiedEngine = new UnifiedSearchEngine();
+    const multiStageSystem = new MultiStageSearchSystem();
+    const semanticEngine = new SemanticSearchEngine();
+    const results: QuestionEvaluationResult[] = [];
+
+    for (let i = 0; i < questions.length; i++) {
+      const question = questions[i];
+      options.onProgress?.(i, questions.length, question.question);
+
+      let analysis: QuestionAnalysis;
+      try {
+        analysis = await questionAnalyzer.analyzeQuestion(question.question);
+      } catch (error) {
+        console.error(`❌ 질문 분석 실패 (${question.id}):`, error);
+        results.push({
+          question,
+          engines: [],
+          goldStageHits: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+        continue;
+      }
+
+      const unified = await this.measureEngine('unified', question, ks, async () =>
+        (await unifiedEngine.executeUnifiedSearch(analysis, maxResults)).chunks
+      );
+
+      let stages: SearchStage[] = [];
+      const multiStage = await this.measureEngine('multiStage', question, ks, async () => {
+        const result = await multiStageSystem.executeMultiStageSearch(analysis, maxResults);
+        stages = result.stages;
+        return result.finalResults;
+      });
+
+      const semantic = await this.measureEngine('semantic', question, ks, async () =>
+        (await semanticEngine.executeSemanticSearch(analysis, maxResults)).chunks
+      );
+
+      results.push({
+        question,
+        analysis,
+        engines: [unified, multiStage, semantic],
+        goldStageHits: this.findGoldStageHits(question, stages, multiStage.retrievedIds)
+      });
+    }
+
+    options.onProgress?.(questions.length, questions.length, '');
+
+    const report: EvaluationReport = {
+      runAt: new Date().toISOString(),
+      ks,
+      questions: results,
+      summaries: (Object.keys(EVALUATION_ENGINE_LABELS) as EvaluationEngine[]).map(engine =>
+        this.summarizeEngine(engine, results, ks)
+      ),
+      stageHitCounts: this.countStageHits(results)
+    };
+
+    report.summaries.forEach(summary => {
+      console.log(`📊 ${summary.label}: ${ks.map(k => `R@${k} ${summary.recall[k].toFixed(3)}`).join(', ')}, MRR ${summary.mrr.toFixed(3)}, ${summary.averageLatencyMs}ms`);
+    });
+    console.log('✅ 검색 품질 평가 완료');
+
+    return report;
+  }
+
+  /**
+   * 엔진 1회 실행 및 지표 계산 (실패해도 다른 엔진 평가는 계속)
+   */
+  private async measureEngine(
+    engine: EvaluationEngine,
+    question: EvaluationQuestion,
+    ks: number[],
+    search: () => Promise<Array<Chunk & { retrievalProvenance?: RetrievalProvenance }>>
+  ): Promise<EngineQuestionResult> {
+    const startTime = Date.now();
+    try {
+      const chunks = await search();
+      const latencyMs = Date.now() - startTime;
+      const retrievedIds = chunks.map(chunk => chunk.id);
+
+      return {
+        engine,
+        retrievedIds,
+        retrievedChunks: chunks.map(chunk => ({
+          id: chunk.id,
+          metadata: chunk.metadata,
+          retrievalProvenance: chunk.retrievalProvenance
+        })),
+        recall: this.calculateRecall(retrievedIds, question.goldChunkIds, ks),
+        reciprocalRank: this.calculateReciprocalRank(retrievedIds, question.goldChunkIds),
+        latencyMs
+      };
+    } catch (error) {
+      console.error(`❌ ${EVALUATION_ENGINE_LABELS[engine]} 평가 실패 (${question.id}):`, error);
+      return {
+        engine,
+        retrievedIds: [],
+        retrievedChunks: [],
+        recall: Object.fromEntries(ks.map(k => [k, 0])),
+        reciprocalRank: 0,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private calculateRecall(retrievedIds: string[], goldChunkIds: string[], ks: number[]): Record<number, number> {
+    return Object.fromEntries(ks.map(k => {
+      const topK = new Set(retrievedIds.slice(0, k));
+      return [k, goldChunkIds.filter(id => topK.has(id)).length / goldChunkIds.length];
+    }));
+  }
+
+  private calculateReciprocalRank(retrievedIds: string[], goldChunkIds: string[]): number {
+    const goldIds = new Set(goldChunkIds);
+    const firstRank = retrievedIds.findIndex(id => goldIds.has(id));
+    return firstRank >= 0 ? 1 / (firstRank + 1) : 0;
+  }
+
+  /**
+   * MultiStageSearchSystem 단계별 정답 청크 발견 위치
+   */
+  private findGoldStageHits(question: EvaluationQuestion, stages: SearchStage[], finalIds: string[]): GoldChunkStageHit[] {
+    return question.goldChunkIds.map(chunkId => ({
+      chunkId,
+      stages: stages
+        .map(stage => ({ name: stage.name, rank: stage.results.findIndex(chunk => chunk.id === chunkId) + 1 }))
+        .filter(hit => hit.rank > 0),
+      inFinalResults: finalIds.includes(chunkId)
+    }));
+  }
+
+  private countStageHits(results: QuestionEvaluationResult[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    results.forEach(result => {
+      result.goldStageHits.forEach(hit => {
+        hit.stages.forEach(stage => {
+          counts[stage.name] = (counts[stage.name] || 0) + 1;
+        });
+      });
+    });
+    return counts;
+  }
+
+  private summarizeEngine(engine: EvaluationEngine, results: QuestionEvaluationResult[], ks: number[]): EngineSummary {
+    const engineResults = results
+      .map(result => result.engines.find(item => item.engine === engine))
+      .filter((item): item is EngineQuestionResult => !!item);
+    const evaluated = engineResults.filter(item => !item.error);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    return {
+      engine,
+      label: EVALUATION_ENGINE_LABELS[engine],
+      recall: Object.fromEntries(ks.map(k => [k, average(evaluated.map(item => item.recall[k]))])),
+      mrr: average(evaluated.map(item => item.reciprocalRank)),
+      averageLatencyMs: Math.round(average(evaluated.map(item => item.latencyMs))),
+      failedQuestions: results.length - evaluated.length
+    };
+  }
+
+  /**
+   * 저장된 질문 세트 로드 (없거나 실패 시 빈 배열)
+   */
+  async loadQuestionSet(): Promise<EvaluationQuestion[]> {
+    try {
+      const db = await this.database.open();
+      const store = db.transaction([this.STORE_NAME], 'readonly').objectStore(this.STORE_NAME);
+
+      return await new Promise<EvaluationQuestion[]>((resolve) => {
+        const request = store.get('current');
+        request.onsuccess = () => resolve(request.result?.questions || []);
+        request.onerror = () => {
+          console.error('질문 세트 로드 실패:', request.error);
+          resolve([]);
+        };
+      });
+    } catch (error) {
+      console.error('질문 세트 로드 실패:', error);
+      return [];
+    }
+  }
+
+  async saveQuestionSet(questions: EvaluationQuestion[]): Promise<void> {
+    const db = await this.database.open();
+    const store = db.transaction([this.STORE_NAME], 'readwrite').objectStore(this.STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ id: 'current', questions, updatedAt: Date.now() });
+      request.onsuccess = () => {
+        console.log(`✅ 질문 세트 저장 완료: ${questions.length}개`);
+        resolve();
+      };
+      request.onerror = () => {
+        console.error('질문 세트 저장 실패:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+}
+
+export const searchEvaluationService = SearchEvaluationService.getInstance();
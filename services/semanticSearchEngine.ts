@@ -112,7 +112,7 @@ export class SemanticSearchEngine {
         );
         
         // 5. 유사도 기준 필터링 및 정렬
-        const additionalResults = this.filterAndSortBySimilarity(
+        const { chunks: additionalResults } = this.filterAndSortBySimilarity(
           allChunks,
           similarities,
           maxResults - chunks.length
@@ -230,7 +230,7 @@ export class SemanticSearchEngine {
       
       for (const doc of documents) {
         const chunks = await this.firestoreService.getChunksByDocument(doc.id);
-        const convertedChunks = this.convertPDFChunksToChunks(chunks);
+        const convertedChunks = await this.convertPDFChunksToChunks(chunks);
         allChunks.push(...convertedChunks);
       }
       
@@ -332,11 +332,11 @@ export class SemanticSearchEngine {
     
     // 임계값 이상만 필터링
     const filteredResults = indexedResults.filter(
-      result => result.similarity >= this.MIN_SIMILARITY_THRESHOLD
+      result => result.similarity >= SemanticSearchEngine.MIN_SIMILARITY_THRESHOLD
     );
     
     // 최대 결과 수 제한
-    const limitedResults = filteredResults.slice(0, Math.min(maxResults, this.MAX_RESULTS));
+    const limitedResults = filteredResults.slice(0, Math.min(maxResults, SemanticSearchEngine.MAX_RESULTS));
     
     return {
       chunks: limitedResults.map(result => result.chunk),
@@ -380,6 +380,9 @@ export class SemanticSearchEngine {
           source: doc?.filename || 'Firestore',
           title: pdfChunk.metadata.title || doc?.title || 'Unknown',
           page: pdfChunk.metadata.page || 0,
+          pageEnd: pdfChunk.metadata.pageEnd,
+          printedPage: pdfChunk.metadata.printedPage,
+          printedPageEnd: pdfChunk.metadata.printedPageEnd,
           section: pdfChunk.metadata.section || 'general',
           position: pdfChunk.metadata.position || 0,
           startPosition: pdfChunk.metadata.startPos || 0,
@@ -0,0 +1,410 @@
+/**
+ * 구조 인식 청크 분할기 (오프라인, 규칙 기반)
+ * 마이그레이션 스크립트(Node)와 브라우저 IntelligentChunkingSystem이 같은 모듈을 사용
+ *
+ * - 경계: 법령명 > 편·장 > 절 > 조, 지침 번호 제목(Ⅰ. / 1. / 가.), 표
+ *   항(①)·호(1.)·목(가.)·목록(○ -)은 청크가 최대 길이를 넘을 때만 나누는 약한 경계
+ * - 조나 문단이 최대 길이를 넘으면 문장 끝("다." 등)에서 나누고, 표는 행 단위로 나눔
+ * - 청크마다 section 경로(예: "국민건강증진법 > 제1장 총칙 > 제3조(책임)")를 기록
+ * - 쪽 머리글·쪽번호처럼 여러 쪽에 반복되는 줄은 제목으로 보지 않음
+ *
+ * ⚠️ 규칙을 바꾸면 CHUNKER_VERSION 값을 올리고 마이그레이션을 다시 실행
+ */
+
+export const CHUNKER_VERSION = 'structure-v1';
+
+export const DEFAULT_CHUNKING_OPTIONS = {
+  maxChunkSize: 2000,  // 청크 최대 길이 (기존 고정 크기 청크와 동일)
+  minChunkSize: 500    // 이보다 짧은 청크는 다음 조·제목과 합침
+};
+
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩⑪⑫⑬⑭⑮⑯⑰⑱⑲⑳';
+const REPEATED_LINE_THRESHOLD = 5;  // 이만큼 반복되는 짧은 줄은 쪽 머리글로 간주
+const MAX_HEADING_LENGTH = 40;
+
+// 제목 블록의 경로 깊이 (같거나 깊은 제목은 새 제목으로 교체)
+const HEADING_LEVELS = { law: 0, part: 1, section: 2, article: 3, subheading: 4 };
+
+// 청크를 새로 시작하는 강한 경계 (현재 청크가 minChunkSize 이상일 때)
+const HARD_BOUNDARY_KINDS = new Set(['law', 'part', 'section', 'article', 'subheading', 'table']);
+
+// 표 머리글 판정용 열 이름 (한 줄에 2개 이상이면 표 시작)
+const TABLE_HEADER_TERMS = new Set([
+  '구분', '비고', '내용', '기준', '단계', '항목', '대상', '금액', '수량', '방법', '기간', '횟수',
+  '위반행위', '근거', '근거법령', '근거법조문', '과태료', '과태료금액', '1차', '2차', '3차',
+  '1차위반', '2차위반', '3차이상', '제품', '용법', '용량', '사용기준(예시)', '처분', '처분기준'
+]);
+
+const normalizeLine = line => line.replace(/\s+/g, ' ').trim();
+
+const isPageNoise = line =>
+  /^-- \d+ of \d+ --$/.test(line) ||
+  /^법제처 - \d+ \/ \d+ -/.test(line) ||
+  /^-?\s?\d{1,4}\s?-?$/.test(line);
+
+// 본문 문장(…다. / 쉼표·콜론으로 끝남)과 목차 줄(끝에 쪽번호)은 제목에서 제외
+const isHeadingCandidate = line =>
+  line.length <= MAX_HEADING_LENGTH && !/다\.?$/.test(line) && !/[,:]$/.test(line) && !/ \d{1,3}$/.test(line);
+
+const isTableHeader = line => {
+  if (line.length > 80 || /다\.?$/.test(line)) return false;
+  const terms = line.split(' ').filter(term => TABLE_HEADER_TERMS.has(term));
+  return new Set(terms).size >= 2;
+};
+
+// 표가 끝나는 줄 (제목·조·항·목록 기호)
+const endsTable = kind => kind !== 'text';
+
+/**
+ * 줄 단위 구조 분류
+ */
+function classifyLines(text) {
+  const lines = [];
+  const counts = new Map();
+  let offset = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const line = normalizeLine(rawLine);
+    lines.push({ start: offset, line, kind: 'text', title: '' });
+    offset += rawLine.length + 1;
+    if (line && line.length <= MAX_HEADING_LENGTH) {
+      counts.set(line, (counts.get(line) || 0) + 1);
+    }
+  }
+
+  let insideArticle = false;  // 조 안의 "1." "가."는 호·목 (지침 제목 아님)
+  let previousContent = -1;
+
+  lines.forEach((entry, index) => {
+    const { line } = entry;
+    if (!line) {
+      entry.kind = 'blank';
+      return;
+    }
+
+    // 법령 헤더: "[시행 2025. 7. 31.] [법률 제20171호, ...]" → 직전 줄이 법령명
+    if (/^\[시행 [^\]]*\] \[[가-힣]+ 제\d+호/.test(line) && previousContent >= 0) {
+      const lawLine = lines[previousContent];
+      lawLine.kind = 'law';
+      lawLine.title = lawLine.line.replace(/\(\s*약칭:[^)]*\)/, '').trim();
+      insideArticle = false;
+      return;
+    }
+
+    if (isPageNoise(line)) {
+      entry.kind = 'noise';
+      return;
+    }
+    // 법령명은 쪽 머리글로도 반복되므로 반복 줄 판정 전에 기억
+    previousContent = index;
+    if ((counts.get(line) || 0) >= REPEATED_LINE_THRESHOLD) {
+      entry.kind = 'noise';
+      return;
+    }
+
+    const articleMatch = line.match(/^제(\d+)조(?:의(\d+))? ?(?:\(([^)]*)\)|(?=삭제))/);
+    if (articleMatch) {
+      entry.kind = 'article';
+      entry.title = articleMatch[0].trim();
+      insideArticle = true;
+      return;
+    }
+
+    if (/^(?:제\s*\d+\s*[편장](?: |$)|[ⅠⅡⅢⅣⅤⅥⅦⅧⅨⅩ]+\.? )/.test(line) && isHeadingCandidate(line)) {
+      entry.kind = 'part';
+      entry.title = line;
+      insideArticle = false;
+      return;
+    }
+
+    if (/^제\s*\d+\s*절(?: |$)/.test(line) && isHeadingCandidate(line)) {
+      entry.kind = 'section';
+      entry.title = line;
+      insideArticle = false;
+      return;
+    }
+
+    if (CIRCLED_NUMBERS.includes(line.charAt(0))) {
+      entry.kind = 'clause';
+      return;
+    }
+
+    // 지침 번호 제목 "1. 니코틴 보조제 지급 개요" / "1 니코틴 보조제 지급 개요" (조 밖) / 조 안에서는 호 "1. ..."
+    if (/^\d{1,2} [가-힣]/.test(line) && !insideArticle && isHeadingCandidate(line)) {
+      entry.kind = 'section';
+      entry.title = line;
+      return;
+    }
+    if (/^\d{1,2}(?:의\d+)?\.(?! ?\d)/.test(line)) {
+      const isHeading = !insideArticle && /^\d{1,2}\. ?[가-힣「]/.test(line) && isHeadingCandidate(line);
+      entry.kind = isHeading ? 'section' : 'item';
+      entry.title = isHeading ? line : '';
+      return;
+    }
+
+    if (/^[가-하]\. /.test(line)) {
+      const isHeading = !insideArticle && isHeadingCandidate(line);
+      entry.kind = isHeading ? 'subheading' : 'item';
+      entry.title = isHeading ? line : '';
+      return;
+    }
+
+    if (/^[○●◦□■▪•※*ㆍ-] ?/.test(line)) {
+      entry.kind = 'item';
+      return;
+    }
+
+    if (isTableHeader(line)) {
+      entry.kind = 'table';
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * 줄을 구조 블록으로 묶음 (블록 = 경계 줄 + 다음 경계 전까지의 본문, 빈 틈 없이 연속)
+ */
+function buildBlocks(text, lines) {
+  const blocks = [];
+  const path = [];  // 현재 제목 경로 [{ level, title }]
+  let current = null;
+  let inTable = false;
+
+  const startBlock = (entry) => {
+    if (current) current.end = entry.start;
+    if (HEADING_LEVELS[entry.kind] !== undefined) {
+      const level = HEADING_LEVELS[entry.kind];
+      while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+      path.push({ level, title: entry.title });
+    }
+    current = {
+      kind: entry.kind,
+      start: entry.start,
+      end: text.length,
+      title: entry.title,
+      path: path.map(item => item.title),
+      hasContent: false,
+      rows: 0
+    };
+    blocks.push(current);
+  };
+
+  for (const entry of lines) {
+    if (entry.kind === 'blank' || entry.kind === 'noise') {
+      // 빈 줄은 표의 끝 (쪽 구분 줄은 표를 끊지 않음)
+      if (entry.kind === 'blank') inTable = false;
+      if (!current) startBlock({ ...entry, kind: 'text' });
+      continue;
+    }
+
+    if (inTable && !endsTable(entry.kind)) {
+      current.rows++;
+      current.hasContent = true;
+      continue;
+    }
+    inTable = entry.kind === 'table';
+
+    // 표 뒤의 일반 문단은 새 블록, 그 외 본문 줄은 앞 블록에 이어 붙임
+    const continuesBlock = entry.kind === 'text' && current && current.kind !== 'table';
+    if (!continuesBlock) {
+      startBlock(entry);
+    }
+    current.hasContent = true;
+  }
+
+  return blocks;
+}
+
+/**
+ * 최대 길이를 넘는 범위를 문장 끝(표는 행)에서 나눔
+ */
+function splitOversizedRange(text, start, end, maxChunkSize, isTable, stats) {
+  const ranges = [];
+  let position = start;
+
+  while (end - position > maxChunkSize) {
+    const window = text.slice(position, position + maxChunkSize);
+    const minCut = Math.floor(maxChunkSize * (isTable ? 0.3 : 0.5));
+    let cut = -1;
+
+    if (!isTable) {
+      // 문장 끝: "…한다." "…이다." 또는 마침표 뒤 공백·줄바꿈
+      const sentenceEnd = /(?:다\.|[.!?。])(?=\s)/g;
+      let match;
+      while ((match = sentenceEnd.exec(window)) !== null) {
+        if (match.index + match[0].length >= minCut) cut = match.index + match[0].length;
+      }
+    }
+    if (cut < 0) {
+      const lastNewline = window.lastIndexOf('\n');
+      if (lastNewline >= minCut) cut = lastNewline + 1;
+    }
+    if (cut < 0) {
+      const lastSpace = window.lastIndexOf(' ');
+      cut = lastSpace >= minCut ? lastSpace + 1 : maxChunkSize;
+    }
+    if (!isTable) {
+      stats.midSentenceCuts += /(?:다\.|[.!?。])\s*$/.test(window.slice(0, cut)) ? 0 : 1;
+    }
+
+    ranges.push([position, position + cut]);
+    position += cut;
+  }
+
+  ranges.push([position, end]);
+  return ranges;
+}
+
+// 앞뒤 공백을 제외한 실제 본문 위치
+function trimRange(text, start, end) {
+  while (start < end && /\s/.test(text.charAt(start))) start++;
+  while (end > start && /\s/.test(text.charAt(end - 1))) end--;
+  return [start, end];
+}
+
+const CHUNK_TYPES = {
+  law: 'heading', part: 'heading', section: 'heading', subheading: 'heading',
+  article: 'article', clause: 'list', item: 'list', table: 'table', text: 'text'
+};
+
+// 조 안의 항·호로 시작하는 청크(긴 조문을 나눈 뒷부분)는 조문 청크
+const getChunkType = (kind, sectionPath) =>
+  (kind === 'clause' || kind === 'item') && sectionPath.some(title => /^제\d+조/.test(title))
+    ? 'article'
+    : CHUNK_TYPES[kind] || 'text';
+
+/**
+ * 문서 텍스트를 구조 경계에 맞춰 청크로 분할
+ * @returns {{ chunks: Array<{ content, startPos, endPos, section, sectionPath, chunkType }>, stats }}
+ */
+export function chunkByStructure(text, options = {}) {
+  const { maxChunkSize, minChunkSize } = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+  const stats = {
+    version: CHUNKER_VERSION,
+    totalChunks: 0,
+    averageSize: 0,
+    minSize: 0,
+    maxSize: 0,
+    withSection: 0,        // section 경로가 있는 청크
+    articleChunks: 0,      // 조문으로 시작하는 청크
+    tables: 0,             // 감지한 표
+    oversizedBlocks: 0,    // 최대 길이를 넘어 나눈 조·문단·표
+    midSentenceCuts: 0,    // 문장 끝을 찾지 못해 줄·공백에서 자른 횟수
+    boundaries: {}         // 청크를 나눈 이유별 횟수 (article, part, table, size …)
+  };
+
+  const blocks = buildBlocks(text, classifyLines(text));
+  const ranges = [];
+  let current = null;
+
+  const countBoundary = reason => {
+    stats.boundaries[reason] = (stats.boundaries[reason] || 0) + 1;
+  };
+
+  const flush = reason => {
+    if (!current) return;
+    ranges.push(current);
+    current = null;
+    if (reason) countBoundary(reason);
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'table') stats.tables++;
+    const blockLength = block.end - block.start;
+    const currentLength = current ? current.end - current.start : 0;
+
+    // 최대 길이를 넘는 블록: 짧은 앞 청크(제목만 있는 경우 등)는 합쳐서 문장·행 단위로 분할
+    if (blockLength > maxChunkSize) {
+      stats.oversizedBlocks++;
+      let start = block.start;
+      let path = block.path;
+      if (current && currentLength < minChunkSize) {
+        start = current.start;
+        path = current.path.length >= block.path.length ? current.path : block.path;
+        current = null;
+      } else {
+        flush(block.kind);
+      }
+      const pieces = splitOversizedRange(text, start, block.end, maxChunkSize, block.kind === 'table', stats);
+      pieces.forEach(([pieceStart, pieceEnd], index) => {
+        ranges.push({ start: pieceStart, end: pieceEnd, path, rangeEnd: '', kind: block.kind, hasContent: true });
+        if (index > 0) countBoundary('size');
+      });
+      continue;
+    }
+
+    if (current) {
+      if (currentLength + blockLength > maxChunkSize) {
+        flush('size');
+      } else if (HARD_BOUNDARY_KINDS.has(block.kind) && currentLength >= minChunkSize) {
+        flush(block.kind);
+      }
+    }
+
+    if (!current) {
+      current = { start: block.start, end: block.end, path: block.path, rangeEnd: '', kind: block.kind, hasContent: block.hasContent };
+      continue;
+    }
+
+    current.end = block.end;
+    current.hasContent = current.hasContent || block.hasContent;
+    if (HEADING_LEVELS[block.kind] !== undefined) {
+      // 장 → 조처럼 더 깊어지면 경로 교체, 다음 조처럼 옆으로 이어지면 "~ 제N조"로 범위 표시
+      const deepens = !current.rangeEnd && block.path.length > current.path.length &&
+        current.path.every((title, index) => title === block.path[index]);
+      if (deepens) {
+        current.path = block.path;
+        if (current.kind !== 'article') current.kind = block.kind;
+      } else {
+        current.rangeEnd = block.title;
+      }
+    }
+  }
+  flush(null);
+
+  const chunks = ranges
+    .filter(range => range.hasContent)
+    .map(range => {
+      const [startPos, endPos] = trimRange(text, range.start, range.end);
+      const sectionPath = range.path.filter(Boolean);
+      const breadcrumb = sectionPath.join(' > ');
+      const section = range.rangeEnd && range.rangeEnd !== sectionPath[sectionPath.length - 1]
+        ? `${breadcrumb} ~ ${range.rangeEnd}`
+        : breadcrumb;
+      return {
+        content: text.slice(startPos, endPos),
+        startPos,
+        endPos,
+        section,
+        sectionPath,
+        chunkType: getChunkType(range.kind, sectionPath)
+      };
+    })
+    .filter(chunk => chunk.content.length > 0);
+
+  if (chunks.length > 0) {
+    const sizes = chunks.map(chunk => chunk.content.length);
+    stats.totalChunks = chunks.length;
+    stats.averageSize = Math.round(sizes.reduce((sum, size) => sum + size, 0) / sizes.length);
+    stats.minSize = Math.min(...sizes);
+    stats.maxSize = Math.max(...sizes);
+    stats.withSection = chunks.filter(chunk => chunk.section).length;
+    stats.articleChunks = chunks.filter(chunk => chunk.chunkType === 'article').length;
+  }
+
+  return { chunks, stats };
+}
+
+/**
+ * 청크 분할 통계 한 줄 요약 (마이그레이션 로그용)
+ */
+export function formatChunkingStats(stats) {
+  const boundaries = Object.entries(stats.boundaries)
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(', ');
+  return `청크 ${stats.totalChunks}개 (평균 ${stats.averageSize}자, ${stats.minSize}~${stats.maxSize}자), ` +
+    `경로 ${stats.withSection}/${stats.totalChunks}, 조문 ${stats.articleChunks}, 표 ${stats.tables}, ` +
+    `긴 블록 분할 ${stats.oversizedBlocks} (문장 중간 ${stats.midSentenceCuts}), 경계: ${boundaries || '없음'}`;
+}
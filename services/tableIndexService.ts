@@ -0,0 +1,176 @@
+/**
+ * PDF 표 인덱스 서비스
+ * 마이그레이션 시 텍스트 좌표로 추출한 표(pdf_tables)를 청크 ID로 조회하고,
+ * 검색된 청크의 페이지에 있는 표 중 질문과 관련된 표를 골라 컨텍스트·답변에 붙임
+ */
+
+import { FirestoreService, DocumentTable } from './firestoreService';
+import { TableReference } from '../types';
+import { tokenize } from './koreanTokenizer.js';
+import { formatTableMarkdown } from './pdfTableExtractor.js';
+import { formatPageLabel } from './pdfPageMap.js';
+
+const MAX_TABLES_PER_ANSWER = 2;
+const MIN_TABLE_SCORE = 2;   // 질문 토큰 일치 점수 하한 (제목 일치는 2점, 칸 일치는 1점)
+const MIN_TABLE_SEARCH_SCORE = 3;   // 표 단독 검색 하한 (검색된 청크 없이 찾으므로 제목 단어 하나 일치로는 부족)
+
+export class TableIndexService {
+  private static instance: TableIndexService;
+  private firestoreService: FirestoreService;
+  private tables: DocumentTable[] = [];
+  private tablesByChunkId = new Map<string, DocumentTable[]>();
+  private tableTokens = new Map<string, { title: Set<string>; body: Set<string> }>();
+  private loadingPromise: Promise<void> | null = null;
+  private isLoaded = false;
+
+  private constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  public static getInstance(): TableIndexService {
+    if (!TableIndexService.instance) {
+      TableIndexService.instance = new TableIndexService();
+    }
+    return TableIndexService.instance;
+  }
+
+  /**
+   * 표 인덱스 로드 (최초 1회)
+   */
+  async loadIndex(): Promise<void> {
+    if (this.isLoaded) return;
+    if (this.loadingPromise) return this.loadingPromise;
+
+    this.loadingPromise = this.firestoreService.getDocumentTables()
+      .then(tables => {
+        this.buildIndex(tables);
+        this.isLoaded = true;
+        console.log(`📊 표 인덱스 준비 완료: ${tables.length}개`);
+      })
+      .catch(error => {
+        console.error('❌ 표 인덱스 로드 실패:', error);
+      })
+      .finally(() => {
+        this.loadingPromise = null;
+      });
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * 조회용 맵 구성
+   */
+  private buildIndex(tables: DocumentTable[]): void {
+    this.tables = tables;
+    this.tablesByChunkId.clear();
+    this.tableTokens.clear();
+
+    tables.forEach(table => {
+      this.tableTokens.set(table.id, {
+        title: new Set(tokenize(table.title || '')),
+        body: new Set(tokenize(table.searchText || ''))
+      });
+      (table.chunkIds || []).forEach(chunkId => {
+        if (!this.tablesByChunkId.has(chunkId)) {
+          this.tablesByChunkId.set(chunkId, []);
+        }
+        this.tablesByChunkId.get(chunkId)!.push(table);
+      });
+    });
+  }
+
+  /**
+   * 청크가 걸친 페이지의 표 조회
+   */
+  getTablesForChunk(chunkId: string): DocumentTable[] {
+    return this.tablesByChunkId.get(chunkId) || [];
+  }
+
+  /**
+   * 질문과 표의 토큰 일치 점수 (표 제목 일치 2점, 머리글·칸 일치 1점)
+   */
+  private scoreTable(table: DocumentTable, questionTokens: string[]): number {
+    const tokens = this.tableTokens.get(table.id);
+    if (!tokens) return 0;
+    return questionTokens.reduce((score, token) =>
+      score + (tokens.title.has(token) ? 2 : tokens.body.has(token) ? 1 : 0), 0);
+  }
+
+  /**
+   * 표 자체 검색 (검색 오케스트레이터의 표 검색기): 질문과의 일치 점수 순
+   */
+  searchTables(query: string, limit: number): { table: DocumentTable; score: number }[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) return [];
+
+    return this.tables
+      .map(table => ({ table, score: this.scoreTable(table, queryTokens) }))
+      .filter(hit => hit.score >= MIN_TABLE_SEARCH_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * 검색된 청크(순위 순)에 연결된 표 중 질문과 관련된 표 선택
+   * @returns 청크 ID → 표 참조 (표는 가장 앞선 청크 하나에만 연결)
+   */
+  selectTablesForChunks(question: string, chunkIds: string[], maxTables = MAX_TABLES_PER_ANSWER): Map<string, TableReference[]> {
+    const selected = new Map<string, TableReference[]>();
+    const questionTokens = [...new Set(tokenize(question))];
+    if (questionTokens.length === 0) return selected;
+
+    const candidates: { chunkId: string; table: DocumentTable; score: number; rank: number }[] = [];
+    const seenTableIds = new Set<string>();
+    chunkIds.forEach((chunkId, rank) => {
+      this.getTablesForChunk(chunkId).forEach(table => {
+        if (seenTableIds.has(table.id)) return;
+        seenTableIds.add(table.id);
+        const score = this.scoreTable(table, questionTokens);
+        if (score >= MIN_TABLE_SCORE) {
+          candidates.push({ chunkId, table, score, rank });
+        }
+      });
+    });
+
+    candidates
+      .sort((a, b) => b.score - a.score || a.rank - b.rank)
+      .slice(0, maxTables)
+      .forEach(({ chunkId, table }) => {
+        if (!selected.has(chunkId)) {
+          selected.set(chunkId, []);
+        }
+        selected.get(chunkId)!.push(this.toTableReference(table));
+      });
+
+    if (selected.size > 0) {
+      console.log(`📊 관련 표 ${[...selected.values()].flat().length}개 선택 (후보 ${candidates.length}개)`);
+    }
+    return selected;
+  }
+
+  /**
+   * 저장 형식(행 { cells }) → 답변 표시용 표 참조
+   */
+  toTableReference(table: DocumentTable): TableReference {
+    return {
+      tableId: table.id,
+      documentId: table.documentId,
+      documentTitle: table.documentTitle,
+      title: table.title || '',
+      page: table.page,
+      ...(typeof table.printedPage === 'number' ? { printedPage: table.printedPage } : {}),
+      headers: table.headers || [],
+      rows: (table.rows || []).map(row => row.cells || [])
+    };
+  }
+
+  /**
+   * LLM 컨텍스트용 표 블록 (제목·쪽 번호 + 마크다운 표)
+   */
+  formatTableContext(table: TableReference): string {
+    const pageLabel = formatPageLabel(table);
+    return `[표: ${table.title || table.documentTitle}${pageLabel ? ` (${pageLabel})` : ''}]\n${formatTableMarkdown(table)}`;
+  }
+}
+
+export const tableIndexService = TableIndexService.getInstance();
@@ -1,14 +1,14 @@
 /**
  * 통합 검색 엔진
- * 중복을 제거하고 성능을 최적화한 단일 검색 시스템
+ * 검색은 RetrievalOrchestrator(어휘·동의어·임베딩 RRF 융합)에 맡기고
+ * 컨텍스트 품질 지표 계산과 조문 상호 참조 확장을 담당
  */
 
-import { Chunk, QuestionAnalysis } from '../types';
+import { Chunk, QuestionAnalysis, LegalReferenceHop, RetrievalSource } from '../types';
 import { FirestoreService, PDFChunk } from './firestoreService';
 import { ContextQualityOptimizer, EnhancedChunk } from './contextQualityOptimizer';
-import { UnifiedSynonymService } from './unifiedSynonymService';
-import { ComprehensiveSynonymExpansion } from './comprehensiveSynonymExpansion';
-import { LocalEmbeddingService } from './localEmbeddingService';
+import { legalArticleIndexService } from './legalArticleIndexService';
+import { retrievalOrchestrator, FusedChunk } from './retrievalOrchestrator';
 
 export interface UnifiedSearchResult {
   chunks: EnhancedChunk[];
@@ -23,112 +23,82 @@ export interface UnifiedSearchResult {
       semantic: number;
     };
   };
-}
-
-export interface ScoredChunk {
-  chunk: PDFChunk | Chunk;
-  score: number;
-  breakdown: {
-    keyword: number;
-    synonym: number;
-    semantic: number;
-  };
+  referenceChain?: LegalReferenceHop[];  // ✅ 추가: 조문 상호 참조 체인
 }
 
 export class UnifiedSearchEngine {
   private firestoreService: FirestoreService;
-  private unifiedSynonymService: UnifiedSynonymService;
-  private comprehensiveSynonymExpansion: ComprehensiveSynonymExpansion;
-  private localEmbeddingService: LocalEmbeddingService;
   
   constructor() {
     this.firestoreService = FirestoreService.getInstance();
-    this.unifiedSynonymService = UnifiedSynonymService.getInstance();
-    this.comprehensiveSynonymExpansion = ComprehensiveSynonymExpansion.getInstance();
-    this.localEmbeddingService = LocalEmbeddingService.getInstance();
   }
 
   /**
-   * 통합 검색 실행 (중복 제거 + 성능 최적화)
+   * 통합 검색 실행 (RRF 융합 검색 + 품질 지표 + 조문 상호 참조)
    */
   async executeUnifiedSearch(
     questionAnalysis: QuestionAnalysis,
-    maxChunks: number = 50  // ✅ 하이브리드 개선: 20 → 50
+    maxChunks: number = 50,  // ✅ 하이브리드 개선: 20 → 50
+    signal?: AbortSignal
   ): Promise<UnifiedSearchResult> {
     const startTime = Date.now();
     console.log(`🚀 통합 검색 시작: "${questionAnalysis.context}"`);
     
     try {
-      // 1단계: 단일 Firestore 쿼리로 대량 데이터 로드
-      console.log('🔍 Firestore 대량 데이터 로드...');
-      const allChunks = await this.fetchChunksInBulk(
-        questionAnalysis.keywords,
-        questionAnalysis.expandedKeywords || [],
-        500
-      );
-      
-      console.log(`✅ 대량 데이터 로드 완료: ${allChunks.length}개 청크`);
-      
-      // 2단계: 다양한 스코어링 방식 적용
-      console.log('📊 다중 전략 스코어링 시작...');
-      const scoredChunks = await this.scoreChunksByMultipleStrategies(
-        allChunks,
-        questionAnalysis
-      );
-      
-      console.log(`✅ 스코어링 완료: ${scoredChunks.length}개 청크`);
-      
-      // 3단계: 결과 정렬 및 중복 제거
-      const uniqueChunks = this.removeDuplicatesAndRank(
-        scoredChunks,
-        maxChunks
-      );
-      
-      console.log(`✅ 중복 제거 완료: ${uniqueChunks.length}개 최종 결과`);
-      
-      // 4단계: 컨텍스트 품질 최적화
-      const chunks: EnhancedChunk[] = uniqueChunks.map(scored => {
-        const chunk: EnhancedChunk = {
-          ...(scored.chunk as Chunk),
+      // 1단계: 어휘·동의어·임베딩 검색 병렬 실행 + RRF 융합 (판본 필터 포함)
+      const retrieval = await retrievalOrchestrator.retrieve(questionAnalysis, maxChunks, signal);
+      const totalProcessed = Object.values(retrieval.sourceCounts).reduce((sum, count) => sum + count, 0);
+      
+      // 2단계: EnhancedChunk 변환 (검색기별 순위 포함)
+      const convertedChunks = await this.convertPDFChunksToChunks(retrieval.chunks.map(fused => fused.chunk));
+      const chunks: EnhancedChunk[] = convertedChunks.map((chunk, index) => {
+        const { provenance } = retrieval.chunks[index];
+        return {
+          ...chunk,
           qualityMetrics: {
-            relevanceScore: scored.score,
-            completenessScore: scored.score,
-            accuracyScore: scored.score,
-            clarityScore: scored.score,
-            overallScore: scored.score
+            relevanceScore: provenance.fusedScore,
+            completenessScore: provenance.fusedScore,
+            accuracyScore: provenance.fusedScore,
+            clarityScore: provenance.fusedScore,
+            overallScore: provenance.fusedScore
           },
           contextInfo: {
             documentType: 'PDF',
-            section: scored.chunk.metadata?.section || 'general',
+            section: chunk.metadata?.section || 'general',
             importance: 'medium' as const
-          }
+          },
+          retrievalProvenance: provenance
         };
-        return chunk;
       });
       
+      // 3단계: 컨텍스트 품질 지표 계산 + 길이 제한 (순서는 RRF 순위 유지)
       const optimizedChunks = ContextQualityOptimizer.optimizeContextQuality(
         chunks,
         questionAnalysis,
         maxChunks
-      );
+      ).sort((a, b) => (a.retrievalProvenance?.fusedRank ?? Infinity) - (b.retrievalProvenance?.fusedRank ?? Infinity));
+      
+      // 4단계: 조문 상호 참조 확장 (법률 → 시행령 → 시행규칙 위임 조문 추가)
+      const { chunks: expandedChunks, referenceChain } = await this.expandWithCrossReferences(optimizedChunks, 5, signal);
       
       const executionTime = Date.now() - startTime;
       
-      // 점수 통계 계산
-      const scoreBreakdown = this.calculateScoreBreakdown(scoredChunks);
+      // 검색기별 기여도 비율
+      const scoreBreakdown = this.calculateScoreBreakdown(retrieval.chunks);
       
       const result: UnifiedSearchResult = {
-        chunks: optimizedChunks,
+        chunks: expandedChunks,
         searchMetrics: {
-          totalProcessed: allChunks.length,
-          uniqueResults: optimizedChunks.length,
-          averageRelevance: this.calculateAverageRelevance(optimizedChunks),
+          totalProcessed,
+          uniqueResults: expandedChunks.length,
+          averageRelevance: this.calculateAverageRelevance(expandedChunks),
           executionTime,
           scoreBreakdown
-        }
+        },
+        referenceChain
       };
       
-      console.log(`🎉 통합 검색 완료: ${optimizedChunks.length}개 최종 결과, ${executionTime}ms`);
+      console.log(`🎉 통합 검색 완료: ${expandedChunks.length}개 최종 결과, ${executionTime}ms`);
       console.log(`📊 평균 관련성: ${result.searchMetrics.averageRelevance.toFixed(3)}`);
       console.log(`📊 점수 분포: 키워드 ${scoreBreakdown.keyword.toFixed(2)}, 동의어 ${scoreBreakdown.synonym.toFixed(2)}, 의미 ${scoreBreakdown.semantic.toFixed(2)}`);
       
@@ -141,330 +111,69 @@ export class UnifiedSearchEngine {
   }
   
   /**
-   * ✅ 하이브리드 검색: 다단계 병렬 검색 + 폴백
-   * 평상시: 키워드 기반 필터링으로 빠른 검색
-   * 폴백: 결과 부족 시 전체 스캔으로 안전장치
+   * 상위 청크의 조문이 참조하는 조문(위임·준용 등)을 따라가 컨텍스트에 추가
    */
-  private async fetchChunksInBulk(
-    keywords: string[],
-    expandedKeywords: string[],
-    limit: number = 600
-  ): Promise<PDFChunk[]> {
+  private async expandWithCrossReferences(
+    chunks: EnhancedChunk[],
+    maxAddedChunks: number = 5,
+    signal?: AbortSignal
+  ): Promise<{ chunks: EnhancedChunk[]; referenceChain: LegalReferenceHop[] }> {
     try {
-      console.log(`🔍 하이브리드 검색 시작: ${keywords.length}개 키워드, ${expandedKeywords.length}개 동의어`);
-      
-      // 1단계: 다단계 병렬 검색 (키워드, 동의어, 의미)
-      const chunks = await this.fetchChunksWithMultipleStrategies(keywords, expandedKeywords);
-      
-      console.log(`✅ 1단계 완료: ${chunks.length}개 청크 발견`);
+      await legalArticleIndexService.loadIndex();
       
-      // 2단계: 폴백 검증 (결과 부족 시 전체 스캔)
-      if (chunks.length < 50) {
-        console.warn(`⚠️ 검색 결과 부족 (${chunks.length}개 < 50개), 전체 스캔 시작...`);
-        const allChunks = await this.fetchAllChunks();
-        const filteredChunks = this.filterChunksByKeywords(allChunks, [...keywords, ...expandedKeywords]);
-        
-        console.log(`✅ 폴백 완료: ${filteredChunks.length}개 청크 발견`);
-        return filteredChunks;
+      const topChunks = chunks.slice(0, 10);
+      const referenceChain = legalArticleIndexService.getReferenceHops(topChunks.map(c => c.id), 2, 10);
+      if (referenceChain.length === 0) {
+        return { chunks, referenceChain };
       }
       
-      return chunks;
-      
-    } catch (error) {
-      console.error('❌ 하이브리드 검색 실패:', error);
-      return [];
-    }
-  }
-
-  /**
-   * 다단계 병렬 검색 (키워드 + 동의어 + 의미)
-   */
-  private async fetchChunksWithMultipleStrategies(
-    keywords: string[],
-    expandedKeywords: string[]
-  ): Promise<PDFChunk[]> {
-    const results: PDFChunk[] = [];
-    
-    // 병렬 실행: 3가지 검색 전략
-    const [result1, result2, result3] = await Promise.all([
-      // 전략1: 기본 키워드 검색
-      this.firestoreService.searchChunksByKeywords(keywords, undefined, 500).catch(() => []),
+      // 참조 대상 청크가 이미 결과에 있으면 추가하지 않음
+      const existingIds = new Set(chunks.map(c => c.id));
+      const missingHops = referenceChain.filter(hop => hop.chunkId && !existingIds.has(hop.chunkId));
       
-      // 전략2: 동의어 확장 검색
-      expandedKeywords.length > 0
-        ? this.firestoreService.searchChunksByKeywords(expandedKeywords, undefined, 500).catch(() => [])
-        : Promise.resolve([]),
+      // 상위 결과의 최저 점수를 기준으로 하여 컨텍스트 선별 시 잘리지 않도록 함
+      const anchorScore = topChunks[topChunks.length - 1]?.qualityMetrics.overallScore || 0.5;
+      const addedChunks: EnhancedChunk[] = [];
       
-      // 전략3: 넓은 범위 의미 검색
-      this.fetchSemanticChunks(keywords, expandedKeywords, 500).catch(() => [])
-    ]);
-    
-    // 결과 병합
-    results.push(...result1);
-    results.push(...result2);
-    results.push(...result3);
-    
-    // 중복 제거
-    const uniqueChunks = this.deduplicateChunks(results);
-    
-    return uniqueChunks;
-  }
-
-  /**
-   * ✅ 개선: 넓은 범위 의미 검색 (Firestore 쿼리 직접 사용)
-   * 전체 청크를 로드하지 않고, 키워드 필터링된 청크만 가져오기
-   */
-  private async fetchSemanticChunks(
-    keywords: string[],
-    expandedKeywords: string[],
-    limit: number
-  ): Promise<PDFChunk[]> {
-    try {
-      // 모든 키워드 통합
-      const allKeywords = [...new Set([...keywords, ...expandedKeywords])];
-      
-      // Firestore에서 키워드 필터링된 청크만 가져오기 (전체 로드 방지)
-      const chunks = await this.firestoreService.searchChunksByKeywords(
-        allKeywords,
-        undefined,
-        limit
-      );
-      
-      return chunks;
-      
-    } catch (error) {
-      console.error('❌ 의미 검색 실패:', error);
-      return [];
-    }
-  }
-
-  /**
-   * 전체 청크 가져오기 (폴백용)
-   */
-  private async fetchAllChunks(): Promise<PDFChunk[]> {
-    try {
-      const allDocuments = await this.firestoreService.getAllDocuments();
-      const allChunks: PDFChunk[] = [];
-      
-      for (const doc of allDocuments) {
-        const chunks = await this.firestoreService.getChunksByDocument(doc.id);
-        allChunks.push(...chunks);
-      }
-      
-      return allChunks;
-      
-    } catch (error) {
-      console.error('❌ 전체 청크 로드 실패:', error);
-      return [];
-    }
-  }
-
-  /**
-   * 키워드로 청크 필터링
-   */
-  private filterChunksByKeywords(chunks: PDFChunk[], keywords: string[]): PDFChunk[] {
-    return chunks.filter(chunk => {
-      // keywords 필드 매칭
-      if (chunk.keywords?.some(k => keywords.some(kw => k.toLowerCase().includes(kw.toLowerCase())))) {
-        return true;
-      }
-      
-      // content 매칭
-      const contentLower = chunk.content?.toLowerCase() || '';
-      return keywords.some(kw => contentLower.includes(kw.toLowerCase()));
-    });
-  }
-
-  /**
-   * 청크 중복 제거
-   */
-  private deduplicateChunks(chunks: PDFChunk[]): PDFChunk[] {
-    const seen = new Set<string>();
-    return chunks.filter(chunk => {
-      const key = `${chunk.documentId}_${chunk.metadata?.position || 0}`;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
-  }
-  
-  /**
-   * 다중 전략 스코어링 (중복 없음)
-   */
-  private async scoreChunksByMultipleStrategies(
-    chunks: PDFChunk[],
-    questionAnalysis: QuestionAnalysis
-  ): Promise<Array<{ chunk: Chunk; score: number; breakdown: any }>> {
-    // ✅ PDFChunk를 Chunk로 변환
-    const convertedChunks = await this.convertPDFChunksToChunks(chunks);
-    
-    const results: Array<{ chunk: Chunk; score: number; breakdown: any }> = [];
-    
-    // 질문 임베딩 사전 계산 (벡터 검색에만 사용)
-    let questionEmbedding: number[] | null = null;
-    try {
-      await this.localEmbeddingService.initialize();
-      const embedding = await this.localEmbeddingService.embedText(questionAnalysis.context);
-      questionEmbedding = embedding;
-      console.log(`✅ 질문 임베딩 생성 완료: ${embedding.length}차원`);
-    } catch (error) {
-      console.warn('⚠️ 질문 임베딩 생성 실패, 벡터 스코어링 제외:', error);
-    }
-    
-    console.log('📊 청크 스코어링 시작...');
-    
-    // 병렬 처리로 성능 최적화 (배치 처리)
-    const BATCH_SIZE = 100;
-    for (let i = 0; i < convertedChunks.length; i += BATCH_SIZE) {
-      const batch = convertedChunks.slice(i, i + BATCH_SIZE);
-      
-      const batchPromises = batch.map(async (chunk, index) => {
-        const originalChunk = chunks[i + index];
-        
-        const keywordScore = this.calculateKeywordScore(
-          questionAnalysis.keywords,
-          originalChunk
-        );
-        
-        const synonymScore = this.calculateSynonymScore(
-          questionAnalysis.expandedKeywords || [],
-          originalChunk
-        );
+      for (const hop of missingHops) {
+        if (addedChunks.length >= maxAddedChunks) break;
+        if (existingIds.has(hop.chunkId!)) continue;
+        signal?.throwIfAborted();
         
-        let semanticScore = 0;
-        if (questionEmbedding && originalChunk.embedding) {
-          semanticScore = this.calculateSemanticSimilarity(
-            questionEmbedding,
-            originalChunk.embedding
-          );
-        }
-        
-        const totalScore = 
-          keywordScore * 0.4 + 
-          synonymScore * 0.3 + 
-          semanticScore * 0.3;
+        const documentChunks = await this.firestoreService.getChunksByDocument(hop.documentId);
+        const pdfChunk = documentChunks.find(c => c.id === hop.chunkId);
+        if (!pdfChunk) continue;
         
-        return {
-          chunk,
-          score: totalScore,
-          breakdown: {
-            keyword: keywordScore,
-            synonym: synonymScore,
-            semantic: semanticScore
+        const [chunk] = await this.convertPDFChunksToChunks([pdfChunk]);
+        const score = anchorScore * (hop.hop === 1 ? 0.95 : 0.9);
+        existingIds.add(chunk.id);
+        addedChunks.push({
+          ...chunk,
+          qualityMetrics: {
+            relevanceScore: score,
+            completenessScore: score,
+            accuracyScore: score,
+            clarityScore: score,
+            overallScore: score
+          },
+          contextInfo: {
+            documentType: 'PDF',
+            section: chunk.metadata.section || 'general',
+            importance: 'high' as const
           }
-        };
-      });
-      
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-      
-      if (i % 500 === 0) {
-        console.log(`  진행률: ${Math.min(i + BATCH_SIZE, convertedChunks.length)}/${convertedChunks.length}`);
-      }
-    }
-    
-    return results;
-  }
-  
-  /**
-   * 키워드 점수 계산 (0~1)
-   */
-  private calculateKeywordScore(keywords: string[], chunk: PDFChunk): number {
-    let score = 0;
-    let matches = 0;
-    
-    keywords.forEach(keyword => {
-      const keywordLower = keyword.toLowerCase();
-      const contentLower = (chunk.content || '').toLowerCase();
-      const keywordsLower = (chunk.keywords || []).map(k => k.toLowerCase());
-      
-      // keywords 배열에서 정확히 매칭
-      if (keywordsLower.includes(keywordLower)) {
-        score += 10;
-        matches++;
-      }
-      // content에서 포함 여부
-      else if (contentLower.includes(keywordLower)) {
-        const count = (contentLower.match(new RegExp(keywordLower, 'g')) || []).length;
-        score += Math.min(count * 2, 10);
-        matches++;
-      }
-    });
-    
-    if (matches === 0) return 0;
-    
-    return Math.min(score / (keywords.length * 10), 1.0);
-  }
-  
-  /**
-   * 동의어 점수 계산 (0~1)
-   */
-  private calculateSynonymScore(expandedKeywords: string[], chunk: PDFChunk): number {
-    if (expandedKeywords.length === 0) return 0;
-    
-    let score = 0;
-    const contentLower = (chunk.content || '').toLowerCase();
-    
-    expandedKeywords.forEach(synonym => {
-      const synonymLower = synonym.toLowerCase();
-      
-      if (contentLower.includes(synonymLower)) {
-        const count = (contentLower.match(new RegExp(synonymLower, 'g')) || []).length;
-        score += Math.min(count, 5);
-      }
-    });
-    
-    return Math.min(score / (expandedKeywords.length * 5), 1.0);
-  }
-  
-  /**
-   * 의미적 유사도 계산 (코사인 유사도)
-   */
-  private calculateSemanticSimilarity(vector1: number[], vector2: number[]): number {
-    try {
-      // 벡터 길이 맞추기
-      const maxLength = Math.max(vector1.length, vector2.length);
-      const v1 = this.padVector(vector1, maxLength);
-      const v2 = this.padVector(vector2, maxLength);
-      
-      // 내적 계산
-      let dotProduct = 0;
-      let magnitude1 = 0;
-      let magnitude2 = 0;
-      
-      for (let i = 0; i < maxLength; i++) {
-        dotProduct += v1[i] * v2[i];
-        magnitude1 += v1[i] * v1[i];
-        magnitude2 += v2[i] * v2[i];
+        });
       }
       
-      magnitude1 = Math.sqrt(magnitude1);
-      magnitude2 = Math.sqrt(magnitude2);
+      console.log(`🔗 조문 상호 참조 확장: ${referenceChain.length}개 참조, ${addedChunks.length}개 청크 추가`);
+      return { chunks: [...chunks, ...addedChunks], referenceChain };
       
-      if (magnitude1 === 0 || magnitude2 === 0) return 0;
-      
-      return dotProduct / (magnitude1 * magnitude2);
     } catch (error) {
-      console.warn('⚠️ 의미적 유사도 계산 실패:', error);
-      return 0;
+      if (signal?.aborted) throw error;
+      console.error('❌ 조문 상호 참조 확장 오류:', error);
+      return { chunks, referenceChain: [] };
     }
   }
   
-  /**
-   * 벡터 길이 맞추기
-   */
-  private padVector(vector: number[], targetLength: number): number[] {
-    if (vector.length >= targetLength) {
-      return vector.slice(0, targetLength);
-    }
-    
-    const padded = [...vector];
-    while (padded.length < targetLength) {
-      padded.push(0);
-    }
-    return padded;
-  }
-  
   /**
    * PDFChunk를 Chunk로 변환
    */
@@ -491,11 +200,15 @@ export class UnifiedSearchEngine {
           source: doc?.filename || 'Firestore',
           title: pdfChunk.metadata.title || doc?.title || 'Unknown',
           page: pdfChunk.metadata.page || 0,
+          pageEnd: pdfChunk.metadata.pageEnd,
+          printedPage: pdfChunk.metadata.printedPage,
+          printedPageEnd: pdfChunk.metadata.printedPageEnd,
           section: pdfChunk.metadata.section || 'general',
           position: pdfChunk.metadata.position || 0,
           startPosition: pdfChunk.metadata.startPos || 0,
           endPosition: pdfChunk.metadata.endPos || 0,
-          originalSize: pdfChunk.metadata.originalSize || 0
+          originalSize: pdfChunk.metadata.originalSize || 0,
+          articles: pdfChunk.metadata.articles || []
         },
         keywords: pdfChunk.keywords || [],
         location: {
@@ -507,32 +220,6 @@ export class UnifiedSearchEngine {
     });
   }
   
-  /**
-   * 중복 제거 및 랭킹
-   */
-  private removeDuplicatesAndRank(
-    scoredChunks: Array<{ chunk: Chunk; score: number; breakdown: any }>,
-    maxChunks: number
-  ): Array<{ chunk: Chunk; score: number; breakdown: any }> {
-    // 중복 제거 (동일한 ID)
-    const uniqueMap = new Map<string, { chunk: Chunk; score: number; breakdown: any }>();
-    
-    scoredChunks.forEach(scored => {
-      const existing = uniqueMap.get(scored.chunk.id || '');
-      
-      if (!existing || existing.score < scored.score) {
-        uniqueMap.set(scored.chunk.id || '', scored);
-      }
-    });
-    
-    // 점수 순으로 정렬
-    const uniqueChunks = Array.from(uniqueMap.values());
-    uniqueChunks.sort((a, b) => b.score - a.score);
-    
-    // 최대 개수 제한
-    return uniqueChunks.slice(0, maxChunks);
-  }
-  
   /**
    * 평균 관련성 계산
    */
@@ -544,30 +231,26 @@ export class UnifiedSearchEngine {
   }
   
   /**
-   * 점수 분포 계산
+   * 점수 분포 계산: 융합 점수에서 각 검색기 기여도가 차지하는 평균 비율
    */
-  private calculateScoreBreakdown(scoredChunks: ScoredChunk[]): {
+  private calculateScoreBreakdown(fusedChunks: FusedChunk[]): {
     keyword: number;
     synonym: number;
     semantic: number;
   } {
-    if (scoredChunks.length === 0) {
+    if (fusedChunks.length === 0) {
       return { keyword: 0, synonym: 0, semantic: 0 };
     }
     
-    const sums = scoredChunks.reduce(
-      (acc, scored) => ({
-        keyword: acc.keyword + scored.breakdown.keyword,
-        synonym: acc.synonym + scored.breakdown.synonym,
-        semantic: acc.semantic + scored.breakdown.semantic
-      }),
-      { keyword: 0, synonym: 0, semantic: 0 }
-    );
+    const share = (source: RetrievalSource) => fusedChunks.reduce((sum, { provenance }) => {
+      const contribution = provenance.sources.find(s => s.source === source)?.contribution || 0;
+      return sum + (provenance.fusedScore > 0 ? contribution / provenance.fusedScore : 0);
+    }, 0) / fusedChunks.length;
     
     return {
-      keyword: sums.keyword / scoredChunks.length,
-      synonym: sums.synonym / scoredChunks.length,
-      semantic: sums.semantic / scoredChunks.length
+      keyword: share('lexical'),
+      synonym: share('synonym'),
+      semantic: share('embedding')
     };
   }
 }
@@ -12,13 +12,148 @@ export interface Message {
   timestamp: Date;
   sources?: string[];
   chunkReferences?: ChunkReference[];
+  relatedArticles?: LegalReferenceHop[];  // ✅ 상호 참조로 함께 가져온 관련 조문
+  queryRewrite?: QueryRewrite;  // ✅ 후속 질문 재작성 결과 (디버그 패널 표시용)
+  grounding?: SentenceGrounding[];  // ✅ 답변 문장별 근거 정렬 결과
+  confidence?: AnswerConfidence;  // ✅ 근거 신뢰도 판정 (답변 보류·신뢰도 낮음 표시)
+  faqMatch?: FaqMatch;  // ✅ 검수된 FAQ 답변으로 응답한 경우
+  cachedAnswer?: CachedAnswerMatch;  // ✅ 의미 기반 답변 캐시에서 응답한 경우
+  progressEvents?: ResponseProgressEvent[];  // ✅ 답변 생성 중 검색 과정 (타임라인 표시용)
+  interrupted?: boolean;  // ✅ 사용자가 답변 생성을 중지함
+}
+
+/**
+ * 답변 생성 단계별 진행 정보 (generateStreamingResponse가 답변 텍스트 사이에 yield)
+ */
+export type ResponseProgressDetail =
+  | { stage: 'rewrite'; standaloneQuestion: string }                  // 후속 질문 재작성
+  | { stage: 'faq'; matchedQuestion: string; similarity: number }     // 검수된 FAQ 일치
+  | { stage: 'cache'; cachedQuestion: string; similarity: number }    // 답변 캐시 적중
+  | { stage: 'analysis'; keywords: string[]; category: QuestionAnalysis['category']; asOfDate?: string }
+  | { stage: 'search'; chunkCount: number; documentCount: number }
+  | { stage: 'context'; chunkCount: number; totalChunks: number; contextLength: number; maxContextLength: number; trimmed: boolean }
+  | { stage: 'citations'; referenceCount: number; articleCount: number; tableCount?: number; documentTitles: string[] }
+  | { stage: 'abstained'; reasons: string[] }                         // 근거 부족으로 답변 보류
+  | { stage: 'generating' };                                          // LLM 답변 생성 시작
+
+export type ResponseProgressEvent = ResponseProgressDetail & {
+  type: 'progress';
+  elapsedMs: number;  // 질문 시작부터 경과 시간
+};
+
+/**
+ * 스트리밍 응답 항목 (문자열은 답변 텍스트, 객체는 진행 이벤트)
+ */
+export type ResponseStreamItem = string | ResponseProgressEvent;
+
+export interface CachedAnswerMatch {
+  cachedQuestion: string;  // 답변을 저장할 때의 질문
+  similarity: number;      // 질문 임베딩 코사인 유사도
+  cachedAt: Date;
+}
+
+export interface FaqEntry {
+  id: string;
+  questions: string[];            // 질문 변형 (첫 번째가 대표 질문)
+  answer: string;                 // 검수된 답변 (마크다운, **n**은 references 순서)
+  references: ChunkReference[];   // 고정 근거
+  enabled: boolean;
+  hitCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FaqMatch {
+  faqId: string;
+  matchedQuestion: string;  // 가장 가까운 질문 변형
+  similarity: number;       // 임베딩 코사인 유사도
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackEvidence {
+  chunkId: string;
+  documentId: string;
+  documentTitle?: string;
+  page?: number;
+  excerpt: string;  // 청크 앞부분 (내보내기 검토용)
+}
+
+export interface AnswerFeedback {
+  id: string;                        // 답변 메시지 ID (답변당 하나, 다시 제출하면 덮어씀)
+  question: string;                  // 검색에 사용한 질문 (후속 질문은 재작성된 질문)
+  answer: string;
+  rating: FeedbackRating;
+  comment?: string;
+  citedChunkIds: string[];           // 답변이 참조한 청크
+  citedDocumentIds?: string[];       // 답변이 참조한 문서 (인용 청크를 피드백 검색 후보로 조회할 때 사용)
+  correctEvidence: FeedbackEvidence[]; // 사용자가 지정한 올바른 근거
+  createdAt: Date;
+}
+
+export interface AnswerConfidence {
+  retrievalScore: number;     // 질문 핵심어 일치·검색기 합의·관련성 종합 (0~1)
+  keywordCoverage: number;    // 상위 청크에 나타난 질문 핵심어 비율
+  contextQuality: number;     // 상위 청크 ContextQualityMetrics.overallScore 평균
+  answerConfidence?: number;  // AnswerValidationSystem 신뢰도 (답변 생성 후)
+  abstained: boolean;         // 근거 부족으로 답변 보류 (거절 안내로 대체)
+  lowConfidence: boolean;     // 답변은 생성했지만 신뢰도 기준 미달
+  reasons: string[];
+  suggestedDepartment?: string;
+}
+
+export interface GroundingSpan {
+  referenceIndex: number;  // chunkReferences 인덱스 (0부터)
+  chunkId: string;
+  documentId: string;
+  start: number;           // 청크 content 내 시작 위치
+  end: number;
+  text: string;            // 근거가 되는 청크 원문 부분
+  lexicalScore: number;
+  embeddingScore: number;
+  score: number;
+}
+
+export interface SentenceGrounding {
+  sentence: string;
+  start: number;           // 답변 content 내 시작 위치
+  end: number;
+  supported: boolean;
+  score: number;
+  supports: GroundingSpan[];
+}
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  citations: string[];  // 답변 근거 요약 (문서명·조문·발췌)
+}
+
+export interface QueryRewrite {
+  originalQuestion: string;
+  standaloneQuestion: string;  // 검색과 질문 분석에 사용한 독립 질문
+  isFollowUp: boolean;
+  method: 'none' | 'llm' | 'heuristic';
+  reason?: string;
+}
+
+export interface ConversationThread {
+  id: string;
+  title: string;
+  pinned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];  // chunkReferences 포함 전체 메시지
 }
 
 export interface ChunkReference {
   chunkId: string;
   documentId: string;
   documentTitle: string;
-  page?: number;
+  page?: number;            // 시작 물리 페이지 (PDF 뷰어 이동 기준)
+  pageEnd?: number;         // ✅ 끝 물리 페이지
+  printedPage?: number;     // ✅ 인쇄 쪽 번호 (인용 "p.23" 기준)
+  printedPageEnd?: number;
   section?: string;
   content: string;
   metadata?: {
@@ -26,6 +161,54 @@ export interface ChunkReference {
     endPos: number;
     position: number;
   };
+  articles?: LegalArticleRef[];  // ✅ 청크에 포함된 법령 조문
+  tables?: TableReference[];     // ✅ 청크 페이지에서 추출한 표 중 질문과 관련된 표
+}
+
+export interface LegalArticleRef {
+  articleId: string;
+  citation: string;  // 예: "국민건강증진법 시행규칙 제6조제2항제3호"
+  page?: number;
+}
+
+/**
+ * 원문 PDF에서 추출한 표 (services/pdfTableExtractor.js, 답변에 마크다운 표로 표시)
+ */
+export interface TableReference {
+  tableId: string;
+  documentId: string;
+  documentTitle: string;
+  title: string;          // 표 바로 위 줄 (예: "[별표 13] 과태료의 부과기준")
+  page: number;           // 물리 페이지 (PDF 뷰어 이동 기준)
+  printedPage?: number;   // 인쇄 쪽 번호 (인용 기준)
+  headers: string[];
+  rows: string[][];
+}
+
+export interface LegalReferenceHop {
+  from: LegalArticleRef;
+  to: LegalArticleRef;
+  relation: 'explicit' | 'delegation';
+  phrase: string;      // 예: "법 제9조제4항", "대통령령으로 정하는"
+  hop: number;         // 검색 결과 청크로부터의 단계 (1부터)
+  documentId: string;
+  chunkId?: string;    // 대상 조문을 포함하는 청크
+}
+
+export type RetrievalSource = 'lexical' | 'synonym' | 'embedding' | 'table' | 'feedback';
+
+export interface RetrievalSourceRank {
+  source: RetrievalSource;
+  rank: number;          // 해당 검색기 결과 내 순위 (1부터)
+  score: number;         // 해당 검색기 원점수 (BM25/키워드 점수 순서, 코사인 유사도 등)
+  contribution: number;  // RRF 기여도 = weight / (k + rank)
+}
+
+export interface RetrievalProvenance {
+  fusedScore: number;             // 검색기별 기여도 합
+  fusedRank: number;              // 융합 후 순위 (1부터)
+  sources: RetrievalSourceRank[]; // 청크를 찾은 검색기 (찾지 못한 검색기는 없음)
+  feedbackAdjustment?: number;    // 👎 피드백 감점 (fusedScore에 반영된 값, 양수 피드백은 피드백 검색기 순위로 반영)
 }
 
 export interface SourceInfo {
@@ -38,6 +221,33 @@ export interface SourceInfo {
   documentType?: 'legal' | 'guideline';
 }
 
+/**
+ * PDF 페이지 맵 항목 (services/pdfPageMap.js, 문서별로 마이그레이션 시 기록)
+ */
+export interface PageMapEntry {
+  page: number;                // 물리 페이지 (1부터)
+  printedPage: number | null;  // 인쇄 쪽 번호 (표지·목차 등 번호가 없으면 null)
+  startPos: number;            // 전체 텍스트에서 페이지 시작 오프셋
+  endPos: number;
+}
+
+/**
+ * 구조 인식 청크 분할 통계 (services/structureAwareChunker.js, 문서별로 마이그레이션 시 기록)
+ */
+export interface ChunkingStats {
+  version: string;
+  totalChunks: number;
+  averageSize: number;
+  minSize: number;
+  maxSize: number;
+  withSection: number;       // section 경로가 있는 청크
+  articleChunks: number;     // 조문 청크
+  tables: number;            // 감지한 표
+  oversizedBlocks: number;   // 최대 길이를 넘어 나눈 조·문단·표
+  midSentenceCuts: number;   // 문장 끝을 찾지 못해 줄·공백에서 자른 횟수
+  boundaries: Record<string, number>;  // 청크를 나눈 이유별 횟수
+}
+
 export interface Chunk {
   id: string;
   documentId?: string;  // ✅ 추가: Firestore document ID
@@ -46,12 +256,16 @@ export interface Chunk {
     source: string;
     title: string;
     page: number;
+    pageEnd?: number;        // ✅ 청크가 끝나는 물리 페이지
+    printedPage?: number;    // ✅ 인쇄 쪽 번호
+    printedPageEnd?: number;
     section: string;
     position: number;
     startPosition: number;
     endPosition: number;
     originalSize: number;
     documentType?: 'legal' | 'guideline';
+    articles?: string[];  // ✅ 청크에 포함된 조문 인용
   };
   keywords: string[];
   location: {
@@ -70,4 +284,5 @@ export interface QuestionAnalysis {
   complexity: 'simple' | 'medium' | 'complex';
   entities: string[];
   context: string;
+  asOfDate?: string;  // ✅ 추가: 시점 기준 질문의 기준일 (YYYY-MM-DD)
 }
\ No newline at end of file
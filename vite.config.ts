@@ -38,53 +38,17 @@ export default defineConfig(({ mode }) => {
     // 즉시 실행
     copyDataToPublic();
     
-    // .env.local 파일을 직접 읽어보기
-    try {
-        const envLocalPath = path.resolve(process.cwd(), '.env.local');
-        console.log('환경변수 파일 경로:', envLocalPath);
-        console.log('파일 존재 여부:', fs.existsSync(envLocalPath));
-        
-        if (fs.existsSync(envLocalPath)) {
-            const envLocalContent = fs.readFileSync(envLocalPath, 'utf8');
-            console.log('.env.local 파일 내용:');
-            console.log(envLocalContent);
-        }
-    } catch (error) {
-        console.error('.env.local 파일 읽기 오류:', error);
-    }
-    
-    // VITE_ 접두사가 있는 환경변수만 로드
+    // Gemini 키는 프록시 서버(server/gemini-proxy.js)에만 둠 - VITE_ 접두사 키는 번들에 포함될 수 있으므로 경고만 출력
     const env = loadEnv(mode, process.cwd(), 'VITE_');
-    
-    // 환경변수 디버깅
-    console.log('Vite 환경변수 로딩 (VITE_ 접두사):');
-    console.log('- VITE_GEMINI_API_KEY:', env.VITE_GEMINI_API_KEY ? '설정됨' : '설정되지 않음');
-    console.log('- VITE_GEMINI_API_KEY_1:', env.VITE_GEMINI_API_KEY_1 ? '설정됨' : '설정되지 않음');
-    console.log('- VITE_GEMINI_API_KEY_2:', env.VITE_GEMINI_API_KEY_2 ? '설정됨' : '설정되지 않음');
-    
-    // 모든 환경변수 키 출력
-    console.log('사용 가능한 VITE_ 환경변수 키들:', Object.keys(env));
-    
-    // process.env에서도 확인
-    console.log('process.env에서 확인:');
-    console.log('- process.env.VITE_GEMINI_API_KEY:', process.env.VITE_GEMINI_API_KEY ? '설정됨' : '설정되지 않음');
+    const exposedKeyNames = Object.keys(env).filter(name => name.startsWith('VITE_GEMINI_API_KEY'));
+    if (exposedKeyNames.length > 0) {
+      console.warn(`⚠️ ${exposedKeyNames.join(', ')}는 더 이상 사용하지 않습니다. 키는 GEMINI_API_KEY(_n)로 바꿔 프록시 서버에서 사용하세요.`);
+    }
     
     return {
       base: './', // GitHub Pages 호환을 위한 상대 경로
       publicDir: 'public',
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || ''),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || ''),
-        'process.env.VITE_GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || ''),
-        // 여러 API 키들도 안전하게 주입 (빈 문자열 폴백)
-        'process.env.VITE_GEMINI_API_KEY_1': JSON.stringify(env.VITE_GEMINI_API_KEY_1 || ''),
-        'process.env.VITE_GEMINI_API_KEY_2': JSON.stringify(env.VITE_GEMINI_API_KEY_2 || ''),
-        // import.meta.env도 안전하게 주입
-        'import.meta.env.VITE_GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || ''),
-        'import.meta.env.VITE_GEMINI_API_KEY_1': JSON.stringify(env.VITE_GEMINI_API_KEY_1 || ''),
-        'import.meta.env.VITE_GEMINI_API_KEY_2': JSON.stringify(env.VITE_GEMINI_API_KEY_2 || '')
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),